@@ -24,8 +24,9 @@ $assertEq($cmp(NaN,1), None());
 ```
  */
 export function $cmp<Lhs extends Rhs|PartialOrd<Rhs>|(Ord&Rhs),Rhs,Ordering extends Order<Lhs,Rhs>=Order<Lhs,Rhs>>(lhs: Lhs,rhs: Rhs): Ordering {
-  switch([typeof lhs,typeof rhs]) {
-    case ["number","number"]:
+  switch(typeof lhs===typeof rhs && typeof lhs) {
+    case "number":
+    case "bigint":
       return lhs as unknown===rhs as unknown?
         Some(0) as Ordering
       : (lhs as unknown as number)>(rhs as unknown as number)?
@@ -34,9 +35,9 @@ export function $cmp<Lhs extends Rhs|PartialOrd<Rhs>|(Ord&Rhs),Rhs,Ordering exte
         Some(-1) as Ordering
       :
         None() as Ordering;
-    case ["string","string"]:
-      return (lhs as unknown as string).localeCompare(rhs as unknown as string) as Ordering;
-    case ["object","object"]:
+    case "string":
+      return Math.sign((lhs as unknown as string).localeCompare(rhs as unknown as string)) as Ordering;
+    case "object":
       return $isOrd(lhs)?lhs.cmp(rhs as Lhs&Ord) as Ordering:(lhs as PartialOrd<Rhs>).partialCmp(rhs) as Ordering;
     default: return None() as Ordering;
   }
@@ -45,7 +46,7 @@ export function $cmp<Lhs extends Rhs|PartialOrd<Rhs>|(Ord&Rhs),Rhs,Ordering exte
 /** Checks whether an object implements {@linkcode Ord} */
 // deno-lint-ignore no-explicit-any
 export function $isOrd(x: any): x is Ord {
-  return typeof x.cmp!=="undefined";
+  return x!=null && typeof x.cmp!=="undefined";
 }
 
 
@@ -31,6 +31,9 @@ $assert($deepEq(xd,xd1));
 ```
  */
 export function $deepEq<Lhs,Rhs>(lhs: Lhs,rhs: Rhs) {
+  // Primitives (and functions) have no value to compare but themselves.
+  if(!isObject(lhs) || !isObject(rhs)) return lhs===(rhs as unknown);
+
   return lhs instanceof Map && rhs instanceof Map?
     lhs.size===rhs.size && mapEq(lhs,rhs)
   : lhs instanceof Set && rhs instanceof Set?
@@ -49,7 +52,7 @@ export function $deepEq<Lhs,Rhs>(lhs: Lhs,rhs: Rhs) {
  * Checks whether {@linkcode obj} implements {@linkcode PartailEq}.
  */
 export function $implsPartialEq(obj: any): obj is PartailEq<any> {
-  return typeof obj.eq==="function";
+  return obj!=null && typeof obj.eq==="function";
 }
 
 
@@ -58,6 +61,10 @@ function $partialEq(lhs: any,rhs: any): boolean {
   return ($implsPartialEq(lhs) && lhs.eq(rhs)) || ($implsPartialEq(rhs) && rhs.eq(lhs));
 }
 
+function isObject(x: unknown): x is object {
+  return typeof x==="object" && x!==null;
+}
+
 function $isArrayBuf(buf: any): buf is ArrayBufferLike {
   return buf instanceof ArrayBuffer || buf instanceof SharedArrayBuffer;
 }
@@ -1,3 +1,3 @@
 export * from "./eq.ts";
+export * from "./ord.ts";
 export * from "./macros/mod.ts";
-
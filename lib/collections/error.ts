@@ -33,7 +33,7 @@ export type CollectionErrorKindStr=
  * The error type for all collections,
  */
 export class CollectionError extends ErrorTrait {
-  constructor(kind: CollectionErrorKind,error: string|Error,cause?: string) {
+  constructor(kind: CollectionErrorKind,error: string|Error,cause?: string|Error) {
     super(kind,error,cause);
   }
 
@@ -0,0 +1,290 @@
+import { KeyValue } from "./mod.ts";
+import { Fn } from "../../types.ts";
+import { Default } from "../../default.ts";
+import { Option } from "../../error/option/option.ts";
+
+
+/**
+ * The map an {@linkcode Entry} points into.
+ *
+ * Both {@linkcode HashMap} and {@linkcode HashTable} satisfy it.
+ */
+export interface EntryTable<K,V> {
+  get(key: K): Option<V>;
+  set(key: K,value: V): unknown;
+  remove(key: K): unknown;
+}
+
+
+/**
+ * A view into a single entry in a map, which may either be vacant or occupied.
+ *
+ * This enum is constructed from the {@linkcode HashMap.entry} method on {@linkcode HashMap} (and {@linkcode HashTable.entry}).
+ * Its variants are {@linkcode OccupiedEntry} and {@linkcode VacantEntry}, use `instanceof` to tell them apart.
+ *
+ * ### Examples
+```ts
+import { HashMap } from "std/collections";
+
+const counts = new HashMap<string,number>();
+
+for(const word of ["a","b","a"]) {
+     counts.entry(word).andModify(count=> count+1).orInsert(1);
+}
+
+$assertEq(counts.get("a"), Some(2));
+```
+ */
+export abstract class Entry<K,V> {
+  constructor(protected readonly table: EntryTable<K,V>,protected readonly _key: K) {}
+
+  /**
+   * Returns a reference to this entry's key.
+   *
+   * ### Examples
+  ```ts
+  const map = new HashMap<string,number>();
+  $assertEq(map.entry("poneyland").key(), "poneyland");
+  ```
+   */
+  public key(): K {
+    return this._key;
+  }
+
+  /**
+   * Ensures a value is in the entry by inserting the {@linkcode def} if empty, and returns the value in the entry.
+   *
+   * ### Examples
+  ```ts
+  const map = new HashMap<string,number>();
+
+  map.entry("poneyland").orInsert(3);
+  $assertEq(map.get("poneyland"), Some(3));
+
+  $assertEq(map.entry("poneyland").orInsert(10), 3);
+  ```
+   */
+  public abstract orInsert(def: V): V;
+
+  /**
+   * Ensures a value is in the entry by inserting the result of the default function if empty, and returns the value in the entry.
+   *
+   * ### Examples
+  ```ts
+  const map = new HashMap<string,string>();
+  const value = "hoho";
+
+  map.entry("poneyland").orInsertWith(()=> value);
+  $assertEq(map.get("poneyland"), Some("hoho"));
+  ```
+   */
+  public orInsertWith(f: Fn<[],V>): V {
+    return this.orInsertWithKey(_=> f());
+  }
+
+  /**
+   * Ensures a value is in the entry by inserting, if empty, the result of the default function.
+   *
+   * This method allows for generating key-derived values for insertion by providing the default function a reference to the key that was moved during the `.entry(key)` method call.
+   *
+   * ### Examples
+  ```ts
+  const map = new HashMap<string,number>();
+
+  map.entry("poneyland").orInsertWithKey(key=> key.length);
+  $assertEq(map.get("poneyland"), Some(9));
+  ```
+   */
+  public abstract orInsertWithKey(f: Fn<[key: K],V>): V;
+
+  /**
+   * Ensures a value is in the entry by inserting the default value if empty, and returns the value in the entry.
+   *
+   * ### Examples
+  ```ts
+  const map = new HashMap<string,Vec<number>>();
+
+  map.entry("poneyland").orDefault(Vec).push(69);
+  $assertEq(map.get("poneyland"), Some($vec(69)));
+  ```
+   */
+  public orDefault(type: Default<V>): V {
+    return this.orInsertWith(()=> type.default());
+  }
+
+  /**
+   * Provides in-place mutable access to an occupied entry before any potential inserts into the map.
+   *
+   * {@linkcode f} may either mutate the value in place or return a new value, which replaces the current one.
+   *
+   * ### Examples
+  ```ts
+  const map = new HashMap<string,number>();
+
+  map.entry("poneyland")
+  .andModify(e=> e+1)
+  .orInsert(42);
+  $assertEq(map.get("poneyland"), Some(42));
+
+  map.entry("poneyland")
+  .andModify(e=> e+1)
+  .orInsert(42);
+  $assertEq(map.get("poneyland"), Some(43));
+  ```
+   */
+  public abstract andModify(f: Fn<[value: V],V|void>): this;
+
+  /**
+   * Sets the value of the entry, and returns an {@linkcode OccupiedEntry}.
+   *
+   * ### Examples
+  ```ts
+  const map = new HashMap<string,string>();
+  const entry = map.entry("horseyland").insertEntry("hoho");
+
+  $assertEq(entry.key(), "horseyland");
+  ```
+   */
+  public insertEntry(value: V): OccupiedEntry<K,V> {
+    this.table.set(this._key,value);
+    return new OccupiedEntry(this.table,this._key);
+  }
+}
+
+
+/**
+ * A view into an occupied entry in a map. It is part of the {@linkcode Entry} enum.
+ */
+export class OccupiedEntry<K,V> extends Entry<K,V> {
+  /**
+   * Gets the value in the entry.
+   *
+   * ### Examples
+  ```ts
+  const map = new HashMap<string,number>();
+  map.entry("poneyland").orInsert(12);
+
+  const entry = map.entry("poneyland");
+  if(entry instanceof OccupiedEntry) {
+       $assertEq(entry.get(), 12);
+  }
+  ```
+   */
+  public get(): V {
+    return this.table.get(this._key).value as V;
+  }
+
+  /**
+   * Sets the value of the entry, and returns the entry's old value.
+   *
+   * ### Examples
+  ```ts
+  const map = new HashMap<string,number>();
+  map.entry("poneyland").orInsert(12);
+
+  const entry = map.entry("poneyland");
+  if(entry instanceof OccupiedEntry) {
+       $assertEq(entry.insert(15), 12);
+  }
+
+  $assertEq(map.get("poneyland"), Some(15));
+  ```
+   */
+  public insert(value: V): V {
+    const old=this.get();
+    this.table.set(this._key,value);
+
+    return old;
+  }
+
+  /**
+   * Takes the value out of the entry, and returns it.
+   *
+   * ### Examples
+  ```ts
+  const map = new HashMap<string,number>();
+  map.entry("poneyland").orInsert(12);
+
+  const entry = map.entry("poneyland");
+  if(entry instanceof OccupiedEntry) {
+       $assertEq(entry.remove(), 12);
+  }
+
+  $assert(!map.contains("poneyland"));
+  ```
+   */
+  public remove(): V {
+    return this.removeEntry()[1];
+  }
+
+  /**
+   * Take the ownership of the key and value from the map.
+   */
+  public removeEntry(): KeyValue<K,V> {
+    const value=this.get();
+    this.table.remove(this._key);
+
+    return [this._key,value];
+  }
+
+  public override orInsert(_def: V): V {
+    return this.get();
+  }
+
+  public override orInsertWithKey(_f: Fn<[key: K],V>): V {
+    return this.get();
+  }
+
+  public override andModify(f: Fn<[value: V],V|void>): this {
+    const value=this.get();
+    const modified=f(value);
+    if(modified!==undefined) this.table.set(this._key,modified);
+
+    return this;
+  }
+}
+
+
+/**
+ * A view into a vacant entry in a map. It is part of the {@linkcode Entry} enum.
+ */
+export class VacantEntry<K,V> extends Entry<K,V> {
+  /**
+   * Take ownership of the key.
+   */
+  public intoKey(): K {
+    return this._key;
+  }
+
+  /**
+   * Sets the value of the entry with the {@linkcode VacantEntry}'s key, and returns it.
+   *
+   * ### Examples
+  ```ts
+  const map = new HashMap<string,number>();
+
+  const entry = map.entry("poneyland");
+  if(entry instanceof VacantEntry) {
+       entry.insert(37);
+  }
+
+  $assertEq(map.get("poneyland"), Some(37));
+  ```
+   */
+  public insert(value: V): V {
+    this.table.set(this._key,value);
+    return value;
+  }
+
+  public override orInsert(def: V): V {
+    return this.insert(def);
+  }
+
+  public override orInsertWithKey(f: Fn<[key: K],V>): V {
+    return this.insert(f(this._key));
+  }
+
+  public override andModify(_f: Fn<[value: V],V|void>): this {
+    return this;
+  }
+}
@@ -1,16 +1,30 @@
-import { Entry } from './mod.ts';
+import { KeyValue } from './mod.ts';
 import { Clone } from '../../clone.ts';
 import { Option } from '../../../mod.ts';
 import { Vec } from '../vec/mod.ts';
 import { $eq } from "../../cmp/macros/mod.ts";
-import { IntoIterator } from "../../iter/iter.ts";
+import { IntoIterator,Iter } from "../../iter/iter.ts";
 import { PartailEq } from '../../cmp/eq.ts';
 import { HashTable } from './hash_table.ts';
 import { HashSet } from '../hash_set/hash_set.ts';
-import { $todo } from "../../declarative-macros/panics.ts";
+import { RawTable } from "./raw_table.ts";
+import { BuildHasher,Hasher } from "../../hash/hasher.ts";
+import { RandomState } from "../../hash/random.ts";
+import { Hash,hashUnordered } from "../../hash/hash.ts";
+import { Entry,OccupiedEntry,VacantEntry } from "./entry.ts";
+import { Debug,Display,$display } from "../../fmt/fmt.ts";
+import { Formatter } from "../../fmt/formatter.ts";
+import { customInspect,inspectMap,Inspect,InspectOptions } from "../../fmt/inspect.ts";
+import { $format } from "../../fmt/macros.ts";
 
 type Equivalent<K,V>=HashMap<K,V>|Map<K,V>|HashTable<K,V>;
 
+/**
+ * The JSON form of a {@linkcode HashMap}, its entries are kept as `[key, value]` pairs so keys of any type survive.
+ * `hashed` is set for the maps using a hash builder, see {@linkcode HashMap.withHasher}.
+ */
+export type HashMapJSON<K,V>={ $type: "HashMap",value: KeyValue<K,V>[],hashed?: true };
+
 
 /**
  * An improved version of native {@linkcode Map} with extra type safety
@@ -21,14 +35,44 @@ type Equivalent<K,V>=HashMap<K,V>|Map<K,V>|HashTable<K,V>;
  * $assertEq(map.get(69),Some("xd"));
  * ```
  */
-export class HashMap<K,V> extends IntoIterator<Entry<K,V>> implements Clone,PartailEq<Equivalent<K,V>> {
+export class HashMap<K,V> extends IntoIterator<KeyValue<K,V>> implements Clone,PartailEq<Equivalent<K,V>>,Hash,Debug,Display {
   #inner: Map<K,V>;
 
-  constructor(...entries: Entry<K,V>[]) {
+  constructor(...entries: KeyValue<K,V>[]) {
     super();
     this.#inner=new Map(entries);
   }
 
+  /** Creates an empty {@linkcode HashMap}. */
+  public static default<K,V>(): HashMap<K,V> {
+    return new HashMap();
+  }
+
+  /**
+   * Creates an empty {@linkcode HashMap} which will use the given hash builder to hash keys.
+   * 
+   * Unlike the default mode, which compares keys by identity like the native {@linkcode Map},
+   * keys are bucketed by their {@linkcode Hash} and collisions are resolved using {@linkcode PartailEq.eq}.
+   * So structurally equal keys refer to the same entry.
+   * 
+   * ### Examples
+  ```ts
+  import { HashMap } from "std/collections";
+  import { RandomState } from "std/hash";
+
+  const map = HashMap.withHasher<number[],string>(new RandomState(),[[1,2],"xd"]);
+
+  $assertEq(map.get([1,2]),Some("xd"));
+  $assertEq(map.get($vec(1,2)),Some("xd"));
+  ```
+   */
+  public static withHasher<K,V>(hashBuilder: BuildHasher,...entries: KeyValue<K,V>[]): HashMap<K,V> {
+    const map=new HashMap<K,V>();
+    map.#inner=new RawTable(hashBuilder,entries);
+
+    return map;
+  }
+
   /**
    * Constructs a HashMap from an iterable.
    * # Example
@@ -37,7 +81,7 @@ export class HashMap<K,V> extends IntoIterator<Entry<K,V>> implements Clone,Part
    * const map=HashMap.fromIter(iter);
    * ```
    */
-  public static fromIter<K,V>(iter: Iterable<Entry<K,V>>): HashMap<K,V> {
+  public static fromIter<K,V>(iter: Iterable<KeyValue<K,V>>): HashMap<K,V> {
     if(iter instanceof HashTable) return iter.hashMap();
 
     const map=new HashMap<K,V>();
@@ -64,6 +108,25 @@ export class HashMap<K,V> extends IntoIterator<Entry<K,V>> implements Clone,Part
   }
 
 
+  /**
+   * Creates a {@linkcode HashMap} from its JSON form, see {@linkcode HashMap.toJSON}.
+   * 
+   * The hash builder itself can't be serialized, so a map which used one is revived with a new {@linkcode RandomState}.
+   * Its keys are still compared by their {@linkcode Hash} and {@linkcode PartailEq.eq} rather than by identity.
+   * 
+   * ### Examples
+  ```ts
+  const map = HashMap.withHasher(new RandomState(), [Some(1), "a"]);
+  const revived: HashMap<Option<number>,string> = JSON.parse(JSON.stringify(map), reviver);
+
+  $assertEq(revived.get(Some(1)), Some("a"));
+  ```
+   */
+  public static fromJSON<K,V>(json: HashMapJSON<K,V>): HashMap<K,V> {
+    return json.hashed?HashMap.withHasher(new RandomState(),...json.value):new HashMap(...json.value);
+  }
+
+
   public eq(rhs: Equivalent<K, V>): boolean {
     return rhs instanceof HashMap?
       this === rhs || this.#inner===rhs.#inner || $eq(this.#inner,rhs.#inner)
@@ -72,10 +135,51 @@ export class HashMap<K,V> extends IntoIterator<Entry<K,V>> implements Clone,Part
     : rhs.eq(this);
   }
 
-  *[Symbol.iterator](): Iterator<Entry<K,V>> {
+  /** Hashes the entries of the map independently of their order, consistently with {@linkcode eq}. */
+  public hash(state: Hasher) {
+    hashUnordered(this,state);
+  }
+
+  *[Symbol.iterator](): Iterator<KeyValue<K,V>> {
     yield* this.#inner;
   }
 
+  /**
+   * Returns the JSON form of the map, which can be revived by passing {@linkcode reviver} to `JSON.parse`.
+   * 
+   * ### Examples
+  ```ts
+  $assertEq(JSON.stringify(new HashMap([1, "a"])), '{"$type":"HashMap","value":[[1,"a"]]}');
+  ```
+   */
+  public toJSON(): HashMapJSON<K,V> {
+    return this.#inner instanceof RawTable?{ $type: "HashMap",value: [...this],hashed: true }:{ $type: "HashMap",value: [...this] };
+  }
+
+  /**
+   * Formats the map like `{1: "a"}`.
+   * 
+   * ### Examples
+  ```ts
+  $assertEq($format("{:?}", new HashMap([1, "a"])), '{1: "a"}');
+  ```
+   */
+  public fmtDebug(f: Formatter) {
+    f.debugMap().entries(this).finish();
+  }
+
+  /** Formats the map like {@linkcode fmtDebug}, its keys and values are formatted with {@linkcode Display}. */
+  public fmt(f: Formatter) {
+    const map=f.debugMap();
+    for(const [key,value] of this) map.entryWith(f=> $display(key,f),f=> $display(value,f));
+
+    map.finish();
+  }
+
+  [customInspect](inspect: Inspect,options: InspectOptions): string {
+    return inspectMap("HashMap",this,inspect,options);
+  }
+
   /**
    * Returns the number of elements in the map.
    * 
@@ -126,6 +230,25 @@ import { HashTable } from './hash_table';
     return prev;
   }
 
+  /**
+   * Gets the given key's corresponding entry in the map for in-place manipulation.
+   * # Example
+   * ```ts
+   * const letters=new HashMap<string,number>();
+   *
+   * for(const ch of "a short treatise on fungi") {
+   *    letters.entry(ch).andModify(counter=> counter+1).orInsert(1);
+   * }
+   *
+   * $assertEq(letters.get("s"),Some(2));
+   * $assertEq(letters.get("t"),Some(3));
+   * $assertEq(letters.get("y"),Option.None);
+   * ```
+   */
+  public entry(key: K): Entry<K,V> {
+    return this.#inner.has(key)?new OccupiedEntry(this,key):new VacantEntry(this,key);
+  }
+
   /**
    * Returns true if the map contains a value for the specified key else false.
    * # Example
@@ -181,23 +304,16 @@ import { HashTable } from './hash_table';
   }
 
   /**
-   * Returns the string representation of the current map.
+   * Returns the string representation of the current map, its {@linkcode Display} form.
    * # Example
    * ```ts
    * const map=new HashMap<number,string>();
    * map.set(69,"xd");
-   * $assertEq(map.toString,`{
-   *    69: xd
-   * }`);
+   * $assertEq(map.toString(),"{69: xd}");
    * ```
    */
   public toString(): string {
-    if(this.isEmpty()) return "{}";
-
-    let str="{\n\t";
-    for(const [key,value] of this) str+=`${key} => ${value}\n`;
-    
-    return str+"\n}";
+    return $format("{}",this);
   }
 
   public get [Symbol.toStringTag](): string {
@@ -213,7 +329,7 @@ import { HashTable } from './hash_table';
    * ```
    */
   public keySet(): HashSet<K> {
-    return HashSet.fromIter(this.#inner.keys());
+    return this.#set(this.#inner.keys());
   }
 
   /**
@@ -236,8 +352,8 @@ import { HashTable } from './hash_table';
    * $assertEq(map.entrySet(),new HashSet(["xd",69],["xd1",0]));
    * ```
    */
-  public entrySet(): HashSet<Entry<K,V>> {
-    return HashSet.fromIter(this.#inner.entries());
+  public entrySet(): HashSet<KeyValue<K,V>> {
+    return this.#set(this.#inner.entries());
   }
 
   /**
@@ -248,7 +364,7 @@ import { HashTable } from './hash_table';
    * $assertEq map.entries(),$vec(["xd",69],["xd1",0]));
    * ```
    */
-  public entries(): Vec<Entry<K,V>> {
+  public entries(): Vec<KeyValue<K,V>> {
     return new Vec(...this.#inner);
   }
 
@@ -261,7 +377,31 @@ import { HashTable } from './hash_table';
    * ```
    */
   public valueSet(): HashSet<V> {
-    return HashSet.fromIter(this.#inner.values());
+    return this.#set(this.#inner.values());
+  }
+
+  /**
+   * Returns a reference to the map's {@linkcode BuildHasher}.
+   * 
+   * Returns `None` if the map compares its keys by identity.
+   * 
+   * ### Examples
+  ```ts
+  import { HashMap } from "std/collections";
+  import { RandomState } from "std/hash";
+
+  const hasher = new RandomState();
+  const map = HashMap.withHasher(hasher);
+
+  $assertEq(map.hasher(),Some(hasher));
+  ```
+   */
+  public hasher(): Option<BuildHasher> {
+    return new Option(this.#inner instanceof RawTable?this.#inner.hashBuilder:null);
+  }
+
+  #set<T>(iter: Iterable<T>): HashSet<T> {
+    return this.#inner instanceof RawTable?HashSet.withHasher(this.#inner.hashBuilder,...iter):HashSet.fromIter(iter);
   }
 
   /**
@@ -277,11 +417,14 @@ import { HashTable } from './hash_table';
   }
 
   public iter() {
-    return $todo();
+    return new Iter(this[Symbol.iterator]());
   }
   
   public clone(): HashMap<K,V> {
-    return HashMap.fromIter(this.#inner);
+    const clone=new HashMap<K,V>();
+    clone.#inner=this.#inner instanceof RawTable?new RawTable(this.#inner.hashBuilder,this.#inner):new Map(this.#inner);
+
+    return clone;
   }
 }
 
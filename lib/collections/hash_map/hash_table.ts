@@ -1,11 +1,15 @@
 import { Clone,Option } from '../../../mod.ts';
-import { Entry } from './mod.ts';
+import { KeyValue } from './mod.ts';
 import { HashSet, Vec } from '../mod.ts';
 import { HashMap } from './hash_map.ts';
-import { IntoIterator, IteratorTrait } from "../../iter/iter.ts";
+import { IntoIterator,IteratorTrait,Iter } from "../../iter/iter.ts";
 import { PartailEq } from '../../cmp/eq.ts';
 import { $eq } from "../../cmp/macros/mod.ts";
-import { $todo } from "../../declarative-macros/panics.ts";
+import { Entry,OccupiedEntry,VacantEntry } from "./entry.ts";
+import { Debug,Display,$display } from "../../fmt/fmt.ts";
+import { Formatter } from "../../fmt/formatter.ts";
+import { customInspect,inspectMap,Inspect,InspectOptions } from "../../fmt/inspect.ts";
+import { $format } from "../../fmt/macros.ts";
 
 export type HasherFn<K>=(obj: K)=> number;
 
@@ -32,24 +36,18 @@ type Equivalent<K,V>=HashMap<K,V>|HashTable<K,V>|Map<K,V>;
  * $assertEq(table.get("Monday"), Some(1));
  * ```
  */
-export class HashTable<K,V> extends IntoIterator<Entry<K,V>> implements Clone,PartailEq<Equivalent<K,V>> {
-  private table=new Vec<Entry<K,V>>();
+export class HashTable<K,V> extends IntoIterator<KeyValue<K,V>> implements Clone,PartailEq<Equivalent<K,V>>,Debug,Display {
+  private table=new Vec<KeyValue<K,V>|null>();
   #size=0;
 
 
   constructor(
     /** The hasher function used to hash {@linkcode K}. */
     public readonly hasher: HasherFn<K>,
-    ...entries: Entry<K,V>[]
+    ...entries: KeyValue<K,V>[]
   ) {
     super();
-    this.#size=entries.length;
-    for(const [key,value] of entries) {
-      const hash=this.hasher(key);
-      if(this.table.at(hash).value!=null) this.#size--;
-
-      this.table[hash]=[key,value];
-    }
+    for(const [key,value] of entries) this.set(key,value);
   }
 
   /**
@@ -60,7 +58,7 @@ export class HashTable<K,V> extends IntoIterator<Entry<K,V>> implements Clone,Pa
    * const table=new HashTable(hashFn,arr);
    * ```
    */
-  public static fromIter<K,V>(hasher: HasherFn<K>,iter: Iterable<Entry<K,V>>): HashTable<K,V> {
+  public static fromIter<K,V>(hasher: HasherFn<K>,iter: Iterable<KeyValue<K,V>>): HashTable<K,V> {
     const map=new HashTable<K,V>(hasher);
     for(const entry of iter) map.set(...entry);
     return map;
@@ -95,8 +93,8 @@ export class HashTable<K,V> extends IntoIterator<Entry<K,V>> implements Clone,Pa
     return HashTable.fromIter(this.hasher,this.entries());
   }
 
-  public iter(): IteratorTrait<Entry<K,V>> {
-    return $todo();
+  public iter(): IteratorTrait<KeyValue<K,V>> {
+    return new Iter(this[Symbol.iterator]());
   }
   
   /**
@@ -106,8 +104,8 @@ export class HashTable<K,V> extends IntoIterator<Entry<K,V>> implements Clone,Pa
     return HashMap.fromIter(this.entries());
   }
 
-  *[Symbol.iterator](): Iterator<Entry<K,V>> {
-    yield* this.table;
+  *[Symbol.iterator](): Iterator<KeyValue<K,V>> {
+    for(const entry of this.table) if(entry) yield entry;
   }
 
   /** Capacity of the table. */
@@ -142,11 +140,13 @@ export class HashTable<K,V> extends IntoIterator<Entry<K,V>> implements Clone,Pa
    * $assertEq(table.set(69,"xd"),Option.None);
    * ```
    */
-  public set(key: K,value: V): Option<Entry<K,V>> {
-    const index=this.hasher(key),entry=this.table.at(index);
+  public set(key: K,value: V): Option<KeyValue<K,V>> {
+    const index=this.hasher(key),entry=new Option(this.table.at(index).value);
 
+    // The slots between the last one and `index` stay empty.
+    if(index>=this.table.length) this.table.resize(index+1,null);
     this.table[index]=[key,value];
-    ++this.#size;
+    if(entry.value==null) ++this.#size;
 
     return entry;
   }
@@ -174,7 +174,24 @@ export class HashTable<K,V> extends IntoIterator<Entry<K,V>> implements Clone,Pa
    * ```
    */
   public has(key: K): boolean {
-    return this.table.at(this.hasher(key))!==undefined;
+    return this.table.at(this.hasher(key)).value!=null;
+  }
+  
+  /**
+   * Gets the given key's corresponding entry in the table for in-place manipulation.
+   * # Example
+   * ```ts
+   * const table=new HashTable<string,number>(hashFn);
+   *
+   * for(const day of ["Sunday","Monday","Sunday"]) {
+   *    table.entry(day).andModify(count=> count+1).orInsert(1);
+   * }
+   *
+   * $assertEq(table.get("Sunday"),Some(2));
+   * ```
+   */
+  public entry(key: K): Entry<K,V> {
+    return this.has(key)?new OccupiedEntry(this,key):new VacantEntry(this,key);
   }
   
   /**
@@ -217,34 +234,53 @@ export class HashTable<K,V> extends IntoIterator<Entry<K,V>> implements Clone,Pa
   public remove(key: K): Option<V> {
     const index=this.hasher(key),entry=new Option(this.table.at(index).value?.[1]);
 
+    if(entry.value==null) return entry;
+
     delete this.table[index];
     --this.#size;
 
     return entry;
   }
   
-  public get [Symbol.toStringTag](): string {
-    if(!this.#size) return "{}";
-    let str="{\n\t";
+  /**
+   * Formats the table like `{1: "a"}`.
+   * 
+   * ### Examples
+  ```ts
+  $assertEq($format("{:?}", new HashTable(hashFn, [1, "a"])), '{1: "a"}');
+  ```
+   */
+  public fmtDebug(f: Formatter) {
+    f.debugMap().entries(this).finish();
+  }
 
-    for(const [key,value] of this) str+=`${key} => ${value}\n`;
+  /** Formats the table like {@linkcode fmtDebug}, its keys and values are formatted with {@linkcode Display}. */
+  public fmt(f: Formatter) {
+    const map=f.debugMap();
+    for(const [key,value] of this) map.entryWith(f=> $display(key,f),f=> $display(value,f));
 
-    return str+"\n}";
+    map.finish();
+  }
+
+  [customInspect](inspect: Inspect,options: InspectOptions): string {
+    return inspectMap("HashTable",this,inspect,options);
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return this.toString();
   }
   
   /**
-   * Returns the string representation of the current table.
+   * Returns the string representation of the current table, its {@linkcode Display} form.
    * # Example
    * ```ts
    * const table=new HashTable<number,string>(hashFn);
    * table.set(69,"xd");
-   * $assertEq(table.toString(),`{
-   *    69: xd
-   * }`);
+   * $assertEq(table.toString(),"{69: xd}");
    * ```
    */
   public toString(): string {
-    return this[Symbol.toStringTag];
+    return $format("{}",this);
   }
 
   /**
@@ -268,7 +304,7 @@ export class HashTable<K,V> extends IntoIterator<Entry<K,V>> implements Clone,Pa
    * ```
    */
   public keys(): Vec<K> {
-    return this.table.map(entry=> entry[0]);
+    return this.entries().map(entry=> entry[0]);
   }
 
   /**
@@ -279,7 +315,7 @@ export class HashTable<K,V> extends IntoIterator<Entry<K,V>> implements Clone,Pa
    * $assertEq(table.entrySet(),new HashSet(["xd",69],["xd1",0]));
    * ```
    */
-  public entrySet(): HashSet<Entry<K,V>> {
+  public entrySet(): HashSet<KeyValue<K,V>> {
     return new HashSet(...this);
   }
 
@@ -291,7 +327,7 @@ export class HashTable<K,V> extends IntoIterator<Entry<K,V>> implements Clone,Pa
    * $assertEq(table.entries(),$vec(["xd",69],["xd1",0]));
    * ```
    */
-  public entries(): Vec<Entry<K,V>> {
+  public entries(): Vec<KeyValue<K,V>> {
     return new Vec(...this);
   }
 
@@ -316,7 +352,7 @@ export class HashTable<K,V> extends IntoIterator<Entry<K,V>> implements Clone,Pa
    * ```
    */
   public values(): Vec<V> {
-    return this.table.map(entry=> entry[1]);
+    return this.entries().map(entry=> entry[1]);
   }
 }
 
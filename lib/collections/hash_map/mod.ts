@@ -1,4 +1,5 @@
 export * from "./hash_map.ts";
 export * from "./hash_table.ts";
+export * from "./entry.ts";
 
-export type Entry<K,V>=[key: K,value: V];
\ No newline at end of file
+export type KeyValue<K,V>=[key: K,value: V];
@@ -0,0 +1,103 @@
+import { KeyValue } from "./mod.ts";
+import { $eq } from "../../cmp/macros/mod.ts";
+import { BuildHasher } from "../../hash/hasher.ts";
+
+
+/**
+ * A {@linkcode Map} that buckets its keys by their {@linkcode Hash} instead of their identity.
+ *
+ * Keys landing in the same bucket are told apart with {@linkcode $eq} (and so {@linkcode PartailEq.eq}),
+ * which makes structurally equal keys like `[1,2]` and `$vec(1,2)` refer to the same entry.
+ *
+ * It's the backing storage of {@linkcode HashMap.withHasher}.
+ */
+export class RawTable<K,V> extends Map<K,V> {
+  #buckets=new Map<number,KeyValue<K,V>[]>();
+  #size=0;
+
+  constructor(
+    /** The {@linkcode BuildHasher} used to hash {@linkcode K}. */
+    public readonly hashBuilder: BuildHasher,
+    entries?: Iterable<KeyValue<K,V>>|null
+  ) {
+    super();
+    if(entries) for(const [key,value] of entries) this.set(key,value);
+  }
+
+  #find(key: K): [bucket: KeyValue<K,V>[]|undefined,index: number] {
+    const bucket=this.#buckets.get(this.hashBuilder.hashOne(key));
+    return [bucket,bucket?bucket.findIndex(([k])=> k===key || $eq(k,key)):-1];
+  }
+
+  public override get size(): number {
+    return this.#size;
+  }
+
+  public override get(key: K): V|undefined {
+    const [bucket,index]=this.#find(key);
+    return index<0?undefined:bucket![index][1];
+  }
+
+  public override has(key: K): boolean {
+    return this.#find(key)[1]>=0;
+  }
+
+  public override set(key: K,value: V): this {
+    const hash=this.hashBuilder.hashOne(key);
+    const bucket=this.#buckets.get(hash);
+
+    if(!bucket) {
+      this.#buckets.set(hash,[[key,value]]);
+      this.#size++;
+      return this;
+    }
+
+    const index=bucket.findIndex(([k])=> k===key || $eq(k,key));
+    if(index<0) {
+      bucket.push([key,value]);
+      this.#size++;
+    } else {
+      bucket[index][1]=value;
+    }
+
+    return this;
+  }
+
+  public override delete(key: K): boolean {
+    const [bucket,index]=this.#find(key);
+    if(index<0) return false;
+
+    bucket!.splice(index,1);
+    this.#size--;
+    if(!bucket!.length) this.#buckets.delete(this.hashBuilder.hashOne(key));
+
+    return true;
+  }
+
+  public override clear() {
+    this.#buckets.clear();
+    this.#size=0;
+  }
+
+  public override forEach(f: (value: V,key: K,map: Map<K,V>)=> void,thisArg?: unknown) {
+    for(const [key,value] of this) f.call(thisArg,value,key,this);
+  }
+
+  public override *entries(): MapIterator<KeyValue<K,V>> {
+    for(const bucket of this.#buckets.values()) {
+      for(const [key,value] of bucket) yield [key,value];
+    }
+  }
+
+  public override *keys(): MapIterator<K> {
+    for(const [key] of this.entries()) yield key;
+  }
+
+  public override *values(): MapIterator<V> {
+    for(const [_,value] of this.entries()) yield value;
+  }
+
+  public override [Symbol.iterator](): MapIterator<KeyValue<K,V>> {
+    return this.entries();
+  }
+}
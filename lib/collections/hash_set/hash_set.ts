@@ -1,9 +1,19 @@
-import { IntoIterator } from "../../iter/iter.ts";
+import { IntoIterator,Iter } from "../../iter/iter.ts";
 import { PartailEq,$eq } from "../../cmp/mod.ts";
-import { $todo } from "../../declarative-macros/panics.ts";
+import { RawSet } from "./raw_set.ts";
+import { Option } from "../../error/option/option.ts";
+import { BuildHasher,Hasher } from "../../hash/hasher.ts";
+import { Hash,hashUnordered } from "../../hash/hash.ts";
+import { RandomState } from "../../hash/random.ts";
+import { Debug,Display,$display } from "../../fmt/fmt.ts";
+import { Formatter } from "../../fmt/formatter.ts";
+import { customInspect,inspectIter,Inspect,InspectOptions } from "../../fmt/inspect.ts";
 
 type Equivalent<T>=HashSet<T>|Set<T>;
 
+/** The JSON form of a {@linkcode HashSet}, `hashed` is set for the sets using a hash builder (see {@linkcode HashSet.withHasher}). */
+export type HashSetJSON<T>={ $type: "HashSet",value: T[],hashed?: true };
+
 /**
  * An superset of native {@linkcode Set}.
  * 
@@ -27,7 +37,7 @@ for(const book of books) {
 }
 ```
  */
-export class HashSet<T> extends IntoIterator<T> implements PartailEq<Equivalent<T>> {
+export class HashSet<T> extends IntoIterator<T> implements PartailEq<Equivalent<T>>,Hash,Debug,Display {
   #set: Set<T>;
 
   constructor(...entries: T[]) {
@@ -35,6 +45,11 @@ export class HashSet<T> extends IntoIterator<T> implements PartailEq<Equivalent<
     this.#set=new Set(entries);
   }
 
+  /** Creates an empty {@linkcode HashSet}. */
+  public static default<T>(): HashSet<T> {
+    return new HashSet();
+  }
+
   /**
    * Creates a {@linkcode HashSet} from another set.
    * 
@@ -51,6 +66,44 @@ export class HashSet<T> extends IntoIterator<T> implements PartailEq<Equivalent<
     return set;
   }
 
+  /**
+   * Creates a {@linkcode HashSet} which will use the given hash builder to hash values.
+   * 
+   * Values are bucketed by their {@linkcode Hash} and collisions are resolved using {@linkcode PartailEq.eq},
+   * so structurally equal values are only stored once.
+   * 
+   * ### Examples
+  ```ts
+  import { HashSet } from "std/collections";
+  import { RandomState } from "std/hash";
+
+  const set = HashSet.withHasher(new RandomState(),[1,2],[1,2],$vec(1,2));
+
+  $assertEq(set.length,1);
+  ```
+   */
+  public static withHasher<T>(hashBuilder: BuildHasher,...entries: T[]): HashSet<T> {
+    return HashSet.#fromSet(new RawSet(hashBuilder,entries));
+  }
+
+  /**
+   * Returns a reference to the set's {@linkcode BuildHasher}.
+   * 
+   * Returns `None` if the set compares its values by identity.
+   */
+  public hasher(): Option<BuildHasher> {
+    return new Option(this.#set instanceof RawSet?this.#set.hashBuilder:null);
+  }
+
+  /**
+   * Creates a {@linkcode HashSet} from its JSON form, see {@linkcode HashSet.toJSON}.
+   * 
+   * A set which used a hash builder is revived with a new {@linkcode RandomState}, as the hash builder itself can't be serialized.
+   */
+  public static fromJSON<T>(json: HashSetJSON<T>): HashSet<T> {
+    return json.hashed?HashSet.withHasher(new RandomState(),...json.value):new HashSet(...json.value);
+  }
+
   static #fromSet<T>(set: Set<T>): HashSet<T> {
     const self=new HashSet<T>();
     self.#set=set;
@@ -59,7 +112,7 @@ export class HashSet<T> extends IntoIterator<T> implements PartailEq<Equivalent<
   }
 
   public iter() {
-    return $todo();
+    return new Iter(this[Symbol.iterator]());
   }
 
 
@@ -84,10 +137,51 @@ export class HashSet<T> extends IntoIterator<T> implements PartailEq<Equivalent<
     return this===other || (other instanceof HashSet?$eq(this.#set,other.#set):$eq(this.#set,other));
   }
 
+  /** Hashes the elements of the set independently of their order, consistently with {@linkcode eq}. */
+  public hash(state: Hasher) {
+    hashUnordered(this,state);
+  }
+
   *[Symbol.iterator](): Iterator<T> {
     yield* this.#set;
   }
 
+  /**
+   * Returns the JSON form of the set, which can be revived by passing {@linkcode reviver} to `JSON.parse`.
+   * 
+   * ### Examples
+  ```ts
+  $assertEq(JSON.stringify(new HashSet(1, 2)), '{"$type":"HashSet","value":[1,2]}');
+  ```
+   */
+  public toJSON(): HashSetJSON<T> {
+    return this.#set instanceof RawSet?{ $type: "HashSet",value: [...this],hashed: true }:{ $type: "HashSet",value: [...this] };
+  }
+
+  /**
+   * Formats the set like `{1}`.
+   * 
+   * ### Examples
+  ```ts
+  $assertEq($format("{:?}", new HashSet(1)), '{1}');
+  ```
+   */
+  public fmtDebug(f: Formatter) {
+    f.debugSet().entries(this).finish();
+  }
+
+  /** Formats the set like {@linkcode fmtDebug}, its elements are formatted with {@linkcode Display}. */
+  public fmt(f: Formatter) {
+    const set=f.debugSet();
+    for(const element of this) set.entryWith(f=> $display(element,f));
+
+    set.finish();
+  }
+
+  [customInspect](inspect: Inspect,options: InspectOptions): string {
+    return inspectIter("HashSet","{}",this,inspect,options);
+  }
+
   /**
    * Adds a value to the set.
    * 
@@ -0,0 +1,141 @@
+import { $eq } from "../../cmp/macros/mod.ts";
+import { BuildHasher } from "../../hash/hasher.ts";
+
+
+/**
+ * A {@linkcode Set} that buckets its values by their {@linkcode Hash} instead of their identity.
+ *
+ * Values landing in the same bucket are told apart with {@linkcode $eq} (and so {@linkcode PartailEq.eq}).
+ *
+ * It's the backing storage of {@linkcode HashSet.withHasher}.
+ */
+export class RawSet<T> extends Set<T> {
+  #buckets=new Map<number,T[]>();
+  #size=0;
+
+  constructor(
+    /** The {@linkcode BuildHasher} used to hash {@linkcode T}. */
+    public readonly hashBuilder: BuildHasher,
+    values?: Iterable<T>|null
+  ) {
+    super();
+    if(values) for(const value of values) this.add(value);
+  }
+
+  #find(value: T): [bucket: T[]|undefined,index: number] {
+    const bucket=this.#buckets.get(this.hashBuilder.hashOne(value));
+    return [bucket,bucket?bucket.findIndex(v=> v===value || $eq(v,value)):-1];
+  }
+
+  public override get size(): number {
+    return this.#size;
+  }
+
+  public override has(value: T): boolean {
+    return this.#find(value)[1]>=0;
+  }
+
+  public override add(value: T): this {
+    const hash=this.hashBuilder.hashOne(value);
+    const bucket=this.#buckets.get(hash);
+
+    if(!bucket) {
+      this.#buckets.set(hash,[value]);
+    } else if(bucket.every(v=> v!==value && !$eq(v,value))) {
+      bucket.push(value);
+    } else {
+      return this;
+    }
+
+    this.#size++;
+    return this;
+  }
+
+  public override delete(value: T): boolean {
+    const [bucket,index]=this.#find(value);
+    if(index<0) return false;
+
+    bucket!.splice(index,1);
+    this.#size--;
+    if(!bucket!.length) this.#buckets.delete(this.hashBuilder.hashOne(value));
+
+    return true;
+  }
+
+  public override clear() {
+    this.#buckets.clear();
+    this.#size=0;
+  }
+
+  public override forEach(f: (value: T,value2: T,set: Set<T>)=> void,thisArg?: unknown) {
+    for(const value of this) f.call(thisArg,value,value,this);
+  }
+
+  public override *values(): SetIterator<T> {
+    for(const bucket of this.#buckets.values()) yield* bucket;
+  }
+
+  public override keys(): SetIterator<T> {
+    return this.values();
+  }
+
+  public override *entries(): SetIterator<[T,T]> {
+    for(const value of this.values()) yield [value,value];
+  }
+
+  public override [Symbol.iterator](): SetIterator<T> {
+    return this.values();
+  }
+
+  // The native set operations read the internal slots of `this`, which are never filled here.
+
+  public override union<U>(other: ReadonlySetLike<U>): Set<T|U> {
+    const set=new RawSet<T|U>(this.hashBuilder,this);
+    for(const value of iter(other)) set.add(value);
+
+    return set;
+  }
+
+  public override intersection<U>(other: ReadonlySetLike<U>): Set<T&U> {
+    return new RawSet(this.hashBuilder,this.#filter(value=> other.has(value as unknown as U))) as Set<T&U>;
+  }
+
+  public override difference<U>(other: ReadonlySetLike<U>): Set<T> {
+    return new RawSet(this.hashBuilder,this.#filter(value=> !other.has(value as unknown as U)));
+  }
+
+  public override symmetricDifference<U>(other: ReadonlySetLike<U>): Set<T|U> {
+    const set=new RawSet<T|U>(this.hashBuilder,this);
+    for(const value of iter(other)) {
+      if(this.has(value as unknown as T)) set.delete(value);
+      else set.add(value);
+    }
+
+    return set;
+  }
+
+  public override isSubsetOf(other: ReadonlySetLike<unknown>): boolean {
+    return this.#size<=other.size && this.#filter(value=> !other.has(value)).next().done===true;
+  }
+
+  public override isSupersetOf(other: ReadonlySetLike<unknown>): boolean {
+    for(const value of iter(other)) {
+      if(!this.has(value as T)) return false;
+    }
+
+    return true;
+  }
+
+  public override isDisjointFrom(other: ReadonlySetLike<unknown>): boolean {
+    return this.#filter(value=> other.has(value)).next().done===true;
+  }
+
+  *#filter(f: (value: T)=> boolean): Generator<T> {
+    for(const value of this) if(f(value)) yield value;
+  }
+}
+
+function *iter<T>(set: ReadonlySetLike<T>): Generator<T> {
+  const keys=set.keys();
+  for(let next=keys.next();!next.done;next=keys.next()) yield next.value;
+}
@@ -4,14 +4,20 @@ import { ArrayLite } from "../../types.ts";
 import { PartailEq } from '../../cmp/eq.ts';
 import { IteratorTrait } from '../../iter/iter.ts';
 import { Option,None,Some } from "../../error/mod.ts";
-import { $todo } from "../../declarative-macros/panics.ts";
-import { IntoIterator, DoubleEndedIterator } from '../../iter/mod.ts';
+import { IntoIterator,DoubleEndedIterator,DoubleEndedIter } from '../../iter/mod.ts';
+import { Debug,Display,$display } from "../../fmt/fmt.ts";
+import { Formatter } from "../../fmt/formatter.ts";
+import { customInspect,inspectIter,Inspect,InspectOptions } from "../../fmt/inspect.ts";
+import { $format } from "../../fmt/macros.ts";
 
 type Item<T>=T|PartailEq<T>;
 type Equivalent<T>=ArrayLite<Item<T>>|LinkedList<Item<T>>;
 
+/** The JSON form of a {@linkcode LinkedList}. */
+export type LinkedListJSON<T>={ $type: "LinkedList",value: T[] };
 
-export class LinkedList<T> extends IntoIterator<T> implements PartailEq<Equivalent<T>> {
+
+export class LinkedList<T> extends IntoIterator<T> implements PartailEq<Equivalent<T>>,Debug,Display {
   #size: number;
   #head: Option<Node<T>>=None();
   #tail: WeakRef<Option<Node<T>>>=new WeakRef(this.#head);
@@ -23,10 +29,20 @@ export class LinkedList<T> extends IntoIterator<T> implements PartailEq<Equivale
     this.#size=nodes.length;
   }
 
+  /** Creates an empty {@linkcode LinkedList}. */
+  public static default<T>(): LinkedList<T> {
+    return new LinkedList();
+  }
+
   public static fromIter<T>(iter: Iterable<T>): LinkedList<T> {
     return new LinkedList(...iter);
   }
 
+  /** Creates a {@linkcode LinkedList} from its JSON form, see {@linkcode LinkedList.toJSON}. */
+  public static fromJSON<T>(json: LinkedListJSON<T>): LinkedList<T> {
+    return new LinkedList(...json.value);
+  }
+
   public static fromIterRev<T>(iter: Iterable<T>): LinkedList<T> {
     const self=new LinkedList<T>();
 
@@ -36,7 +52,19 @@ export class LinkedList<T> extends IntoIterator<T> implements PartailEq<Equivale
   }
   
   *[Symbol.iterator](): Iterator<T> {
-    for(let iter=this.#head.value;iter&&iter.next.value;iter=iter.next.value) yield iter.data;
+    for(let iter=this.#head.value;iter;iter=iter.next.value) yield iter.data;
+  }
+
+  /**
+   * Returns the JSON form of the list, which can be revived by passing {@linkcode reviver} to `JSON.parse`.
+   * 
+   * ### Examples
+  ```ts
+  $assertEq(JSON.stringify(new LinkedList(1, 2)), '{"$type":"LinkedList","value":[1,2]}');
+  ```
+   */
+  public toJSON(): LinkedListJSON<T> {
+    return { $type: "LinkedList",value: [...this] };
   }
 
   #putBack(node: Node<T>) {
@@ -45,12 +73,38 @@ export class LinkedList<T> extends IntoIterator<T> implements PartailEq<Equivale
     this.#tail=new WeakRef(this.tail.value?.next.value?this.tail.value.next:this.tail);
   }
   
+
+  /**
+   * Formats the list like `[1, 2]`.
+   * 
+   * ### Examples
+  ```ts
+  $assertEq($format("{:?}", LinkedList.fromJSON({ $type: "LinkedList", value: [1, 2] })), '[1, 2]');
+  ```
+   */
+  public fmtDebug(f: Formatter) {
+    f.debugList().entries(this).finish();
+  }
+
+  /** Formats the list like {@linkcode fmtDebug}, its elements are formatted with {@linkcode Display}. */
+  public fmt(f: Formatter) {
+    const list=f.debugList();
+    for(const element of this) list.entryWith(f=> $display(element,f));
+
+    list.finish();
+  }
+
+  [customInspect](inspect: Inspect,options: InspectOptions): string {
+    return inspectIter("LinkedList","[]",this,inspect,options);
+  }
+
   public get [Symbol.toStringTag](): string {
-    return [...this].join(" => ");
+    return this.toString();
   }
   
+  /** Returns the {@linkcode Display} form of the list, like `[1, 2]`. */
   public toString(): string {
-    return this[Symbol.toStringTag];
+    return $format("{}",this);
   }
   
   public get length(): number {
@@ -146,7 +200,8 @@ export class LinkedList<T> extends IntoIterator<T> implements PartailEq<Equivale
   }
   
   public iter(): DoubleEndedIterator<T> {
-    return $todo();
+    const elements=Array.from(this);
+    return new DoubleEndedIter(elements.length,i=> elements[i]);
   }
   
   public enumerate(): IteratorTrait<[index: number,element: T]> {
@@ -1,7 +1,7 @@
-import { Entry,HashMap } from "../hash_map/mod.ts";
+import { KeyValue,HashMap } from "../hash_map/mod.ts";
 import { HashTable } from '../hash_map/hash_table.ts';
 
-type MapLike<K,V>=Iterable<Entry<K,V>>;
+type MapLike<K,V>=Iterable<KeyValue<K,V>>;
 type Equivalent<K,V>=K extends PropertyKey?Record<K,V>|MapLike<K,V>:MapLike<K,V>;
 
 /**
@@ -27,7 +27,7 @@ export function $map<K,V>(map: Equivalent<K,V>): HashMap<K,V> {
   : map instanceof HashTable?
     map.hashMap()
   : typeof (map as Iterable<unknown>)[Symbol.iterator]==="function"?
-    HashMap.fromIter(map as Iterable<Entry<K,V>>)
+    HashMap.fromIter(map as Iterable<KeyValue<K,V>>)
   :
     HashMap.formRecord(map as Record<PropertyKey, V>) as unknown as HashMap<K,V>;
 }
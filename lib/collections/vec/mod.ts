@@ -1,14 +1,21 @@
 import { ArrayLite, Fn } from '../../types.ts';
 import { Clone } from '../../clone.ts';
-import { PartailEq,$eq } from '../../cmp/mod.ts';
+import { PartailEq,Ordering,$eq,$cmp } from '../../cmp/mod.ts';
 import * as lib from "../../../bindings/std_rs.js";
 import { Option,Result,Ok,Err } from "../../error/mod.ts";
-import { $todo } from "../../declarative-macros/panics.ts";
-import { IntoIterator,IteratorTrait } from '../../iter/iter.ts';
+import { $resultSync } from "../../error/result/macros.ts";
+import { IntoIterator } from '../../iter/iter.ts';
 import { Extend } from '../../iter/extend.ts';
+import { DoubleEndedIterator,DoubleEndedIter } from '../../iter/double_ended_iter.ts';
+import { Debug,Display,$display } from '../../fmt/fmt.ts';
+import { Formatter } from '../../fmt/formatter.ts';
+import { customInspect,inspectIter,Inspect,InspectOptions } from '../../fmt/inspect.ts';
 
 type Equivalent<T>=Vec<T>|T[];
 
+/** The JSON form of a {@linkcode Vec}. */
+export type VecJSON<T>={ $type: "Vec",value: T[] };
+
 
 function isNum(p: PropertyKey): p is number {
   return typeof p==="string" && Number(p)==p as unknown;
@@ -17,10 +24,18 @@ function isNum(p: PropertyKey): p is number {
 
 const INDEX_OUT_OF_BOUNDS="Index out of bounds";
 const EXCEEDED_MAX_CAPACITY="Exceeded max capacity";
+const ZERO_SIZE="Size must be non-zero";
+
+
+/** Compares two values by their {@linkcode Ord} (or {@linkcode PartialOrd}) implementation, incomparable values are considered equal. */
+function cmp<T>(a: T,b: T): Ordering {
+  const ordering=$cmp(a as never,b) as Ordering|Option<Ordering>;
+  return ordering instanceof Option?ordering.unwrapOr(Ordering.Equal):ordering;
+}
 
 
 // TODO(kakashi): implement Drop trait using decorator
-export class Vec<T> extends IntoIterator<T> implements Clone,PartailEq<Equivalent<T>>,ArrayLite<T>,Extend<T> {
+export class Vec<T> extends IntoIterator<T> implements Clone,PartailEq<Equivalent<T>>,ArrayLite<T>,Extend<T>,Debug,Display {
   #ptr: number;
   [index: number]: T;
 
@@ -28,7 +43,15 @@ export class Vec<T> extends IntoIterator<T> implements Clone,PartailEq<Equivalen
     super();
     this.#ptr=elements.length>0?lib.vec_from_iter(elements):lib.new_vec();
 
-    return new Proxy<Vec<T>>(this,Vec.#handler);
+    const proxy=new Proxy<Vec<T>>(this,Vec.#handler);
+    Vec.#targets.set(proxy,this);
+
+    return proxy;
+  }
+
+  /** Creates an empty {@linkcode Vec}. */
+  public static default<T>(): Vec<T> {
+    return new Vec();
   }
 
   public static withCapacity<T>(capacity: number): Vec<T> {
@@ -39,9 +62,34 @@ export class Vec<T> extends IntoIterator<T> implements Clone,PartailEq<Equivalen
     return iter instanceof Vec?iter:new Vec(...iter);
   }
 
+  /** Creates a new {@linkcode Vec} from the elements of {@linkcode iter}, unlike {@linkcode from} it always copies them. */
+  public static fromIter<T>(iter: Iterable<T>): Vec<T> {
+    return new Vec(...iter);
+  }
+
+  /** Creates a {@linkcode Vec} from its JSON form, see {@linkcode Vec.toJSON}. */
+  public static fromJSON<T>(json: VecJSON<T>): Vec<T> {
+    return new Vec(...json.value);
+  }
+
+  /** Private fields can't be reached through a {@linkcode Proxy}, so every proxy is mapped back to its target. */
+  static #targets=new WeakMap<Vec<unknown>,Vec<unknown>>();
+
+  static #raw<T>(vec: Vec<T>): Vec<T> {
+    return (Vec.#targets.get(vec) ?? vec) as Vec<T>;
+  }
+
   static #handler: ProxyHandler<Vec<unknown>>={
     get(self: Vec<unknown>,p) {
-      return isNum(p)?lib.vec_index(self.#ptr,p):self[p as unknown as keyof typeof self];
+      if(isNum(p)) {
+        // `lib.vec_index` throws for every index, so its bound check is done here.
+        if(p<0 || p>=self.length) throw INDEX_OUT_OF_BOUNDS;
+        return lib.vec_at(self.#ptr,p);
+      }
+
+      const value=self[p as unknown as keyof typeof self];
+      // Methods must be called on the target, otherwise they can't access the private fields.
+      return typeof value==="function"?value.bind(self):value;
     },
     set(self,index,val): boolean {
       return isNum(index) && !lib.vec_set(self.#ptr,index,val);
@@ -53,9 +101,10 @@ export class Vec<T> extends IntoIterator<T> implements Clone,PartailEq<Equivalen
 
   private static fromPtr<T>(ptr: number): Vec<T> {
     const self=new Vec<T>();
+    const raw=Vec.#raw(self);
 
-    lib.drop_vec(self.#ptr);
-    self.#ptr=ptr;
+    lib.drop_vec(raw.#ptr);
+    raw.#ptr=ptr;
 
     return self;
   }
@@ -70,12 +119,48 @@ export class Vec<T> extends IntoIterator<T> implements Clone,PartailEq<Equivalen
 
   *[Symbol.iterator](): Iterator<T> {
     // SAFETY: This never throws an exception as the loop runs within the bound.
-    for(let i=0;i<this.length;i++) yield lib.vec_index(this.#ptr,i);
+    for(let i=0;i<this.length;i++) yield lib.vec_at(this.#ptr,i);
+  }
+
+  /**
+   * Returns the JSON form of the vector, which can be revived by passing {@linkcode reviver} to `JSON.parse`.
+   * 
+   * ### Examples
+  ```ts
+  $assertEq(JSON.stringify($vec(1, 2)), '{"$type":"Vec","value":[1,2]}');
+  ```
+   */
+  public toJSON(): VecJSON<T> {
+    return { $type: "Vec",value: [...this] };
+  }
+
+  /**
+   * Formats the vector like `[1, 2]`.
+   * 
+   * ### Examples
+  ```ts
+  $assertEq($format("{:?}", $vec(1, 2)), '[1, 2]');
+  ```
+   */
+  public fmtDebug(f: Formatter) {
+    f.debugList().entries(this).finish();
+  }
+
+  /** Formats the vector like {@linkcode fmtDebug}, its elements are formatted with {@linkcode Display}. */
+  public fmt(f: Formatter) {
+    const list=f.debugList();
+    for(const element of this) list.entryWith(f=> $display(element,f));
+
+    list.finish();
+  }
+
+  [customInspect](inspect: Inspect,options: InspectOptions): string {
+    return inspectIter("Vec","[]",this,inspect,options);
   }
 
   public eq(rhs: Equivalent<T>): boolean {
     if(this.length !== rhs.length) return false;
-    if(rhs instanceof Vec && this.#ptr === rhs.#ptr) return true;
+    if(rhs instanceof Vec && this.#ptr === Vec.#raw(rhs).#ptr) return true;
 
     for(const [a,b] of this.iter().zip(rhs)) {
       if(!$eq(a,b)) return false;
@@ -103,8 +188,8 @@ export class Vec<T> extends IntoIterator<T> implements Clone,PartailEq<Equivalen
   }
 
 
-  public iter(): IteratorTrait<T> {
-    return $todo();
+  public iter(): DoubleEndedIterator<T> {
+    return new DoubleEndedIter(this.length,i=> lib.vec_at(this.#ptr,i) as T);
   }
 
   public at(index: number): Option<T> {
@@ -134,7 +219,7 @@ export class Vec<T> extends IntoIterator<T> implements Clone,PartailEq<Equivalen
   public splice(start: number,end: number,replaceWith: Equivalent<T>=[]): Vec<T> {
     return Vec.fromPtr<T>(
       replaceWith instanceof Vec?
-        lib.vec_splice_vec(this.#ptr,start,end,replaceWith.#ptr)
+        lib.vec_splice_vec(this.#ptr,start,end,Vec.#raw(replaceWith).#ptr)
       :
         lib.vec_splice_arr(this.#ptr,start,end,replaceWith)
     );
@@ -150,7 +235,7 @@ export class Vec<T> extends IntoIterator<T> implements Clone,PartailEq<Equivalen
   }
 
   public append(other: Equivalent<T>) {
-    if(lib.vec_append(this.#ptr,Vec.from<T>(other).#ptr)) throw EXCEEDED_MAX_CAPACITY;
+    if(lib.vec_append(this.#ptr,Vec.#raw(Vec.from<T>(other)).#ptr)) throw EXCEEDED_MAX_CAPACITY;
   }
 
   public clear() {
@@ -177,12 +262,699 @@ export class Vec<T> extends IntoIterator<T> implements Clone,PartailEq<Equivalen
     return new Option(lib.vec_swap_remove(this.#ptr,index) as T|null);
   }
 
+  /**
+   * Returns the first element of the vector, or `None` if it is empty.
+   * 
+   * ### Examples
+  ```ts
+  const v = $vec(10, 40, 30);
+  $assertEq(v.first(), Some(10));
+  ```
+   */
+  public first(): Option<T> {
+    return new Option(lib.vec_first(this.#ptr) as T|null);
+  }
+
+  /**
+   * Returns the last element of the vector, or `None` if it is empty.
+   * 
+   * ### Examples
+  ```ts
+  const v = $vec(10, 40, 30);
+  $assertEq(v.last(), Some(30));
+  ```
+   */
+  public override last(): Option<T> {
+    return new Option(lib.vec_last(this.#ptr) as T|null);
+  }
+
+  /**
+   * Returns `true` if the vector contains an element with the given value.
+   * 
+   * Elements are compared with {@linkcode $eq}.
+   * 
+   * ### Examples
+  ```ts
+  const v = $vec(10, 40, 30);
+  $assert(v.contains(30));
+  $assert(!v.contains(50));
+  ```
+   */
+  public contains(x: T): boolean {
+    if(lib.vec_contains(this.#ptr,x)) return true;
+    for(const element of this) {
+      if($eq(element,x)) return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Reserves capacity for at least {@linkcode additional} more elements to be inserted in the given {@linkcode Vec}.
+   * 
+   * ### Throws
+   * Throws if the new capacity exceeds `isize::MAX` bytes.
+   */
+  public reserve(additional: number) {
+    if(lib.vec_reserve(this.#ptr,additional)) throw EXCEEDED_MAX_CAPACITY;
+  }
+
+  /**
+   * Reserves the minimum capacity for at least {@linkcode additional} more elements to be inserted in the given {@linkcode Vec}.
+   * 
+   * ### Throws
+   * Throws if the new capacity exceeds `isize::MAX` bytes.
+   */
+  public reserveExact(additional: number) {
+    if(lib.vec_reserve_exact(this.#ptr,additional)) throw EXCEEDED_MAX_CAPACITY;
+  }
+
+  /** Shrinks the capacity of the vector as much as possible. */
+  public shrinkToFit() {
+    lib.vec_shrink_to_fit(this.#ptr);
+  }
+
+  /**
+   * Shortens the vector, keeping the first {@linkcode len} elements and dropping the rest.
+   * 
+   * If {@linkcode len} is greater or equal to the vector's current length, this has no effect.
+   * 
+   * ### Examples
+  ```ts
+  const vec = $vec(1, 2, 3, 4, 5);
+  vec.truncate(2);
+  $assertEq(vec, [1, 2]);
+  ```
+   */
+  public truncate(len: number) {
+    lib.vec_truncate(this.#ptr,len);
+  }
+
+  /**
+   * Reverses the order of elements in the vector, in place.
+   * 
+   * ### Examples
+  ```ts
+  const v = $vec(1, 2, 3);
+  v.reverse();
+  $assertEq(v, [3, 2, 1]);
+  ```
+   */
+  public reverse() {
+    lib.vec_reverse(this.#ptr);
+  }
+
+  /**
+   * Resizes the {@linkcode Vec} in-place so that `length` is equal to {@linkcode newLen}.
+   * 
+   * If {@linkcode newLen} is greater than `length`, the {@linkcode Vec} is extended by the difference, with each additional slot filled with {@linkcode value}.
+   * If {@linkcode newLen} is less than `length`, the {@linkcode Vec} is simply truncated.
+   * 
+   * ### Examples
+  ```ts
+  const vec = $vec("hello");
+  vec.resize(3, "world");
+  $assertEq(vec, ["hello", "world", "world"]);
+  ```
+   */
+  public resize(newLen: number,value: T) {
+    lib.vec_resize(this.#ptr,newLen,value);
+  }
+
+  /**
+   * Resizes the {@linkcode Vec} in-place so that `length` is equal to {@linkcode newLen}.
+   * 
+   * Unlike {@linkcode Vec.resize}, each additional slot is filled with the result of calling {@linkcode f}.
+   * 
+   * ### Examples
+  ```ts
+  const vec = $vec(1, 2, 3);
+  vec.resizeWith(5, ()=> 0);
+  $assertEq(vec, [1, 2, 3, 0, 0]);
+
+  let p = 1;
+  const vec2 = new Vec<number>();
+  vec2.resizeWith(4, ()=> { p *= 2; return p; });
+  $assertEq(vec2, [2, 4, 8, 16]);
+  ```
+   */
+  public resizeWith(newLen: number,f: Fn<[],T>) {
+    lib.vec_resize_with(this.#ptr,newLen,f);
+  }
+
+  /**
+   * Fills the vector with elements by cloning {@linkcode value}.
+   * 
+   * ### Examples
+  ```ts
+  const buf = $vec(0, 0, 0);
+  buf.fill(1);
+  $assertEq(buf, [1, 1, 1]);
+  ```
+   */
+  public fill(value: T) {
+    lib.vec_fill(this.#ptr,value);
+  }
+
+  /**
+   * Fills the vector with elements returned by calling {@linkcode f} repeatedly.
+   * 
+   * ### Examples
+  ```ts
+  const buf = $vec(1, 1, 1);
+  buf.fillWith(()=> 0);
+  $assertEq(buf, [0, 0, 0]);
+  ```
+   */
+  public fillWith(f: Fn<[],T>) {
+    lib.vec_fill_with(this.#ptr,f);
+  }
+
+  /**
+   * Retains only the elements specified by the predicate.
+   * 
+   * In other words, remove all elements `e` for which `f(e)` returns `false`.
+   * This method operates in place, visiting each element exactly once in the original order, and preserves the order of the retained elements.
+   * 
+   * ### Examples
+  ```ts
+  const vec = $vec(1, 2, 3, 4);
+  vec.retain(x=> x%2===0);
+  $assertEq(vec, [2, 4]);
+  ```
+   */
+  public retain(f: Fn<[element: T],boolean>) {
+    lib.vec_retain(this.#ptr,f);
+  }
+
+  /**
+   * Rotates the vector in-place such that the first {@linkcode mid} elements move to the end.
+   * 
+   * A {@linkcode mid} greater than `length` is treated as `length`.
+   * 
+   * ### Examples
+  ```ts
+  const a = $vec("a", "b", "c", "d", "e", "f");
+  a.rotateLeft(2);
+  $assertEq(a, ["c", "d", "e", "f", "a", "b"]);
+  ```
+   */
+  public rotateLeft(mid: number) {
+    lib.vec_rotate_left(this.#ptr,mid);
+  }
+
+  /**
+   * Rotates the vector in-place such that the last {@linkcode k} elements move to the front.
+   * 
+   * A {@linkcode k} greater than `length` is treated as `length`.
+   * 
+   * ### Examples
+  ```ts
+  const a = $vec("a", "b", "c", "d", "e", "f");
+  a.rotateRight(2);
+  $assertEq(a, ["e", "f", "a", "b", "c", "d"]);
+  ```
+   */
+  public rotateRight(k: number) {
+    lib.vec_rotate_right(this.#ptr,k);
+  }
+
+  /**
+   * Sorts the vector.
+   * 
+   * This sort is stable (i.e., does not reorder equal elements).
+   * 
+   * Elements are compared with {@linkcode $cmp}, so they should be numbers, strings or implement {@linkcode Ord}.
+   * Incomparable values (like `NaN`) are considered equal.
+   * 
+   * ### Examples
+  ```ts
+  const v = $vec(-5, 4, 1, -3, 2);
+  v.sort();
+  $assertEq(v, [-5, -3, 1, 2, 4]);
+  ```
+   */
+  public sort() {
+    this.sortBy(cmp);
+  }
+
+  /**
+   * Sorts the vector with a comparator function.
+   * 
+   * This sort is stable (i.e., does not reorder equal elements).
+   * 
+   * ### Examples
+  ```ts
+  import { Ordering } from "std/cmp";
+
+  const v = $vec(5, 4, 1, 3, 2);
+  v.sortBy((a, b)=> $cmp(a, b).unwrap());
+  $assertEq(v, [1, 2, 3, 4, 5]);
+
+  // reverse sorting
+  v.sortBy((a, b)=> b>a?Ordering.Greater:b<a?Ordering.Less:Ordering.Equal);
+  $assertEq(v, [5, 4, 3, 2, 1]);
+  ```
+   */
+  public sortBy(compare: Fn<[a: T,b: T],Ordering>) {
+    lib.vec_sort_by(this.#ptr,compare);
+  }
+
+  /**
+   * Sorts the vector with a key extraction function.
+   * 
+   * This sort is stable (i.e., does not reorder equal elements).
+   * 
+   * ### Examples
+  ```ts
+  const v = $vec(-5, 4, 1, -3, 2);
+  v.sortByKey(k=> Math.abs(k));
+  $assertEq(v, [1, 2, -3, 4, -5]);
+  ```
+   */
+  public sortByKey<K>(f: Fn<[element: T],K>) {
+    this.sortBy((a,b)=> cmp(f(a),f(b)));
+  }
+
+  /**
+   * Sorts the vector, but might not preserve the order of equal elements.
+   * 
+   * ### Examples
+  ```ts
+  const v = $vec(-5, 4, 1, -3, 2);
+  v.sortUnstable();
+  $assertEq(v, [-5, -3, 1, 2, 4]);
+  ```
+   */
+  public sortUnstable() {
+    this.sortUnstableBy(cmp);
+  }
+
+  /**
+   * Sorts the vector with a comparator function, but might not preserve the order of equal elements.
+   * 
+   * ### Examples
+  ```ts
+  const v = $vec(5, 4, 1, 3, 2);
+  v.sortUnstableBy((a, b)=> $cmp(a, b).unwrap());
+  $assertEq(v, [1, 2, 3, 4, 5]);
+  ```
+   */
+  public sortUnstableBy(compare: Fn<[a: T,b: T],Ordering>) {
+    lib.vec_sort_unstable_by(this.#ptr,compare);
+  }
+
+  /**
+   * Sorts the vector with a key extraction function, but might not preserve the order of equal elements.
+   * 
+   * ### Examples
+  ```ts
+  const v = $vec(-5, 4, 1, -3, 2);
+  v.sortUnstableByKey(k=> Math.abs(k));
+  $assertEq(v, [1, 2, -3, 4, -5]);
+  ```
+   */
+  public sortUnstableByKey<K>(f: Fn<[element: T],K>) {
+    this.sortUnstableBy((a,b)=> cmp(f(a),f(b)));
+  }
+
+  /**
+   * Removes consecutive repeated elements in the vector.
+   * 
+   * Elements are compared with {@linkcode $eq}. If the vector is sorted, this removes all duplicates.
+   * 
+   * ### Examples
+  ```ts
+  const vec = $vec(1, 2, 2, 3, 2);
+  vec.dedup();
+  $assertEq(vec, [1, 2, 3, 2]);
+  ```
+   */
+  public dedup() {
+    this.dedupBy((a,b)=> $eq(a,b));
+  }
+
+  /**
+   * Removes all but the first of consecutive elements in the vector satisfying a given equality relation.
+   * 
+   * The {@linkcode sameBucket} function is passed the two elements from the vector, `a` (the later one) and `b` (the one before it).
+   * If it returns `true`, `a` is removed.
+   * 
+   * ### Examples
+  ```ts
+  const vec = $vec("foo", "bar", "Bar", "baz", "bar");
+  vec.dedupBy((a, b)=> a.toLowerCase()===b.toLowerCase());
+  $assertEq(vec, ["foo", "bar", "baz", "bar"]);
+  ```
+   */
+  public dedupBy(sameBucket: Fn<[a: T,b: T],boolean>) {
+    lib.vec_dedup(this.#ptr,sameBucket);
+  }
+
+  /**
+   * Removes all but the first of consecutive elements in the vector that resolve to the same key.
+   * 
+   * ### Examples
+  ```ts
+  const vec = $vec(10, 20, 21, 30, 20);
+  vec.dedupByKey(i=> Math.floor(i/10));
+  $assertEq(vec, [10, 20, 30, 20]);
+  ```
+   */
+  public dedupByKey<K>(key: Fn<[element: T],K>) {
+    this.dedupBy((a,b)=> $eq(key(a),key(b)));
+  }
+
+  /**
+   * Binary searches this vector for a given element. If the vector is not sorted, the returned result is unspecified and meaningless.
+   * 
+   * If the value is found then `Ok` is returned, containing the index of the matching element.
+   * If there are multiple matches, then any one of the matches could be returned.
+   * If the value is not found then `Err` is returned, containing the index where a matching element could be inserted while maintaining sorted order.
+   * 
+   * ### Examples
+  ```ts
+  const s = $vec(0, 1, 1, 1, 1, 2, 3, 5, 8, 13, 21, 34, 55);
+
+  $assertEq(s.binarySearch(13), Ok(9));
+  $assertEq(s.binarySearch(4), Err(7));
+  $assertEq(s.binarySearch(100), Err(13));
+  ```
+   */
+  public binarySearch(x: T): Result<number,number> {
+    return this.binarySearchBy(element=> cmp(element,x));
+  }
+
+  /**
+   * Binary searches this vector with a comparator function.
+   * 
+   * The comparator function should return an {@linkcode Ordering} that indicates whether its argument is `Less`, `Equal` or `Greater` than the desired target.
+   * 
+   * ### Examples
+  ```ts
+  const s = $vec(0, 1, 1, 1, 1, 2, 3, 5, 8, 13, 21, 34, 55);
+
+  $assertEq(s.binarySearchBy(probe=> $cmp(probe, 13).unwrap()), Ok(9));
+  $assertEq(s.binarySearchBy(probe=> $cmp(probe, 4).unwrap()), Err(7));
+  ```
+   */
+  public binarySearchBy(f: Fn<[element: T],Ordering>): Result<number,number> {
+    return $resultSync<number,[number,Fn<[element: T],Ordering>],number>(lib.vec_binary_search_by,this.#ptr,f);
+  }
+
+  /**
+   * Binary searches this vector with a key extraction function.
+   * 
+   * ### Examples
+  ```ts
+  const s = $vec([0, 0], [2, 1], [4, 1], [5, 1], [3, 1], [1, 2], [2, 3], [4, 5], [5, 8], [3, 13], [1, 21], [2, 34], [4, 55]);
+
+  $assertEq(s.binarySearchByKey(13, ([_, b])=> b), Ok(9));
+  $assertEq(s.binarySearchByKey(4, ([_, b])=> b), Err(7));
+  ```
+   */
+  public binarySearchByKey<K>(b: K,f: Fn<[element: T],K>): Result<number,number> {
+    return this.binarySearchBy(element=> cmp(f(element),b));
+  }
+
+  /**
+   * Returns the index of the partition point according to the given predicate (the index of the first element of the second partition).
+   * 
+   * The vector is assumed to be partitioned according to the given predicate.
+   * This means that all elements for which the predicate returns `true` are at the start of the vector and all elements for which the predicate returns `false` are at the end.
+   * 
+   * ### Examples
+  ```ts
+  const v = $vec(1, 2, 3, 3, 5, 6, 7);
+  const i = v.partitionPoint(x=> x<5);
+
+  $assertEq(i, 4);
+  ```
+   */
+  public partitionPoint(pred: Fn<[element: T],boolean>): number {
+    return lib.vec_partition_point(this.#ptr,pred);
+  }
+
+  /**
+   * Divides the vector into two at an index.
+   * 
+   * The first will contain all indices from `[0, mid)` and the second will contain all indices from `[mid, len)`.
+   * 
+   * ### Throws
+   * Throws if `mid > len`.
+   * 
+   * ### Examples
+  ```ts
+  const v = $vec(1, 2, 3, 4, 5, 6);
+  const [left, right] = v.splitAt(2);
+
+  $assertEq(left, [1, 2]);
+  $assertEq(right, [3, 4, 5, 6]);
+  ```
+   */
+  public splitAt(mid: number): [Vec<T>,Vec<T>] {
+    if(mid>this.length) throw INDEX_OUT_OF_BOUNDS;
+
+    const base=lib.vec_as_slice(this.#ptr);
+    const [left,right]=lib.vec_split_at(this.#ptr,mid).map(slice=> {
+      const start=(slice.ptr-base.ptr)/Uint32Array.BYTES_PER_ELEMENT;
+      const end=start+slice.len;
+      slice.free();
+
+      return this.#slice(start,end);
+    });
+    base.free();
+
+    return [left,right];
+  }
+
+  /**
+   * Returns the chunks of {@linkcode chunkSize} elements of the vector, starting at the beginning of the vector.
+   * 
+   * The chunks do not overlap. If {@linkcode chunkSize} does not divide the length of the vector, then the last chunk will not have length {@linkcode chunkSize}.
+   * 
+   * ### Throws
+   * Throws if {@linkcode chunkSize} is 0.
+   * 
+   * ### Examples
+  ```ts
+  const v = $vec("l", "o", "r", "e", "m");
+  $assertEq(v.chunks(2), $vec($vec("l", "o"), $vec("r", "e"), $vec("m")));
+  ```
+   */
+  public chunks(chunkSize: number): Vec<Vec<T>> {
+    if(chunkSize<=0) throw ZERO_SIZE;
+    return this.#chunks(lib.vec_chunks(this.#ptr,this.#clamp(chunkSize)));
+  }
+
+  /**
+   * Returns the chunks of {@linkcode chunkSize} elements of the vector, starting at the beginning of the vector.
+   * 
+   * If {@linkcode chunkSize} does not divide the length of the vector, then the last up to `chunkSize-1` elements will be omitted.
+   * 
+   * ### Throws
+   * Throws if {@linkcode chunkSize} is 0.
+   * 
+   * ### Examples
+  ```ts
+  const v = $vec("l", "o", "r", "e", "m");
+  $assertEq(v.chunksExact(2), $vec($vec("l", "o"), $vec("r", "e")));
+  ```
+   */
+  public chunksExact(chunkSize: number): Vec<Vec<T>> {
+    if(chunkSize<=0) throw ZERO_SIZE;
+    return this.#chunks(lib.vec_chunks_exact(this.#ptr,this.#clamp(chunkSize)));
+  }
+
+  /**
+   * Returns the chunks of {@linkcode chunkSize} elements of the vector, starting at the end of the vector.
+   * 
+   * The chunks do not overlap. If {@linkcode chunkSize} does not divide the length of the vector, then the last chunk will not have length {@linkcode chunkSize}.
+   * 
+   * ### Throws
+   * Throws if {@linkcode chunkSize} is 0.
+   * 
+   * ### Examples
+  ```ts
+  const v = $vec("l", "o", "r", "e", "m");
+  $assertEq(v.rchunks(2), $vec($vec("e", "m"), $vec("o", "r"), $vec("l")));
+  ```
+   */
+  public rchunks(chunkSize: number): Vec<Vec<T>> {
+    if(chunkSize<=0) throw ZERO_SIZE;
+    return this.#chunks(lib.vec_rchunks(this.#ptr,this.#clamp(chunkSize)));
+  }
+
+  /**
+   * Returns the chunks of {@linkcode chunkSize} elements of the vector, starting at the end of the vector.
+   * 
+   * If {@linkcode chunkSize} does not divide the length of the vector, then the first up to `chunkSize-1` elements will be omitted.
+   * 
+   * ### Throws
+   * Throws if {@linkcode chunkSize} is 0.
+   * 
+   * ### Examples
+  ```ts
+  const v = $vec("l", "o", "r", "e", "m");
+  $assertEq(v.rchunksExact(2), $vec($vec("e", "m"), $vec("o", "r")));
+  ```
+   */
+  public rchunksExact(chunkSize: number): Vec<Vec<T>> {
+    if(chunkSize<=0) throw ZERO_SIZE;
+    return this.#chunks(lib.vec_rchunks_exact(this.#ptr,this.#clamp(chunkSize)));
+  }
+
+  /**
+   * Returns the runs of elements of the vector, where {@linkcode pred} holds for every two consecutive elements of a run.
+   * 
+   * ### Examples
+  ```ts
+  const v = $vec(1, 1, 1, 3, 3, 2, 2, 2);
+  $assertEq(v.chunkBy((a, b)=> a===b), $vec($vec(1, 1, 1), $vec(3, 3), $vec(2, 2, 2)));
+
+  const v2 = $vec(1, 2, 2, 3, 4);
+  $assertEq(v2.chunkBy((a, b)=> a<=b), $vec($vec(1, 2, 2, 3, 4)));
+  ```
+   */
+  public chunkBy(pred: Fn<[a: T,b: T],boolean>): Vec<Vec<T>> {
+    return this.#chunks(lib.vec_chunks_by(this.#ptr,pred));
+  }
+
+  /**
+   * Returns all contiguous windows of length {@linkcode size}. The windows overlap.
+   * If the vector is shorter than {@linkcode size}, no windows are returned.
+   * 
+   * ### Throws
+   * Throws if {@linkcode size} is 0.
+   * 
+   * ### Examples
+  ```ts
+  const v = $vec("l", "o", "r", "e", "m");
+  $assertEq(v.windows(3), $vec($vec("l", "o", "r"), $vec("o", "r", "e"), $vec("r", "e", "m")));
+  ```
+   */
+  public windows(size: number): Vec<Vec<T>> {
+    if(size<=0) throw ZERO_SIZE;
+    return this.#chunks(lib.vec_windows(this.#ptr,this.#clamp(size)));
+  }
+
+  /**
+   * Returns the subslices separated by elements that match {@linkcode pred}. The matched element is not contained in the subslices.
+   * 
+   * ### Examples
+  ```ts
+  const v = $vec(10, 40, 33, 20);
+  $assertEq(v.split(num=> num%3===0), $vec($vec(10, 40), $vec(20)));
+  ```
+   * If the first element is matched, an empty vector will be the first item returned.
+   * Similarly, if the last element is matched, an empty vector will be the last item returned.
+   */
+  public split(pred: Fn<[element: T],boolean>): Vec<Vec<T>> {
+    return this.#chunks(lib.vec_split(this.#ptr,pred));
+  }
+
+  /**
+   * Returns the subslices separated by elements that match {@linkcode pred}, limited to returning at most {@linkcode n} items.
+   * The matched element is not contained in the subslices.
+   * 
+   * The last element returned, if any, will contain the remainder of the vector.
+   * 
+   * ### Examples
+  ```ts
+  const v = $vec(10, 40, 30, 20, 60, 50);
+  $assertEq(v.splitn(2, num=> num%3===0), $vec($vec(10, 40), $vec(20, 60, 50)));
+  ```
+   */
+  public splitn(n: number,pred: Fn<[element: T],boolean>): Vec<Vec<T>> {
+    if(n<=0) return new Vec();
+    return this.#chunks(lib.vec_splitn(this.#ptr,this.#clamp(n),pred));
+  }
+
+  /**
+   * Returns the subslices separated by elements that match {@linkcode pred}, starting at the end of the vector and working backwards.
+   * The matched element is not contained in the subslices.
+   * 
+   * ### Examples
+  ```ts
+  const v = $vec(11, 22, 33, 0, 44, 55);
+  $assertEq(v.rsplit(num=> num===0), $vec($vec(44, 55), $vec(11, 22, 33)));
+  ```
+   */
+  public rsplit(pred: Fn<[element: T],boolean>): Vec<Vec<T>> {
+    return this.#chunks(lib.vec_rsplit(this.#ptr,pred));
+  }
+
+  /**
+   * Returns the subslices separated by elements that match {@linkcode pred}, limited to returning at most {@linkcode n} items.
+   * This starts at the end of the vector and works backwards. The matched element is not contained in the subslices.
+   * 
+   * The last element returned, if any, will contain the remainder of the vector.
+   * 
+   * ### Examples
+  ```ts
+  const v = $vec(10, 40, 30, 20, 60, 50);
+  $assertEq(v.rsplitn(2, num=> num%3===0), $vec($vec(50), $vec(10, 40, 30, 20)));
+  ```
+   */
+  public rsplitn(n: number,pred: Fn<[element: T],boolean>): Vec<Vec<T>> {
+    if(n<=0) return new Vec();
+
+    // The subslices come back as a `Vec` of them rather than a boxed slice, which has the same `(ptr, len)` as a `Vec` of elements.
+    const subslices=lib.vec_rsplitn(this.#ptr,this.#clamp(n),pred);
+    return this.#chunks(lib.vec_as_slice(subslices));
+  }
+
+  /** Copies the elements within `[start, end)` into a new {@linkcode Vec}. */
+  #slice(start: number,end: number): Vec<T> {
+    const slice=Vec.withCapacity<T>(end-start);
+    const ptr=Vec.#raw(slice).#ptr;
+    for(let i=start;i<end;i++) lib.vec_push(ptr,lib.vec_at(this.#ptr,i));
+
+    return slice;
+  }
+
+  /**
+   * Copies the subslices returned by the chunking bindings into new vectors.
+   * 
+   * {@linkcode chunks} points to `(ptr, len)` pairs within the wasm memory, each `ptr` pointing into the buffer of the vector.
+   * The bindings never free the pairs themselves, only the {@linkcode lib.Slice} describing them is freed here.
+   */
+  #chunks(chunks: lib.Slice): Vec<Vec<T>> {
+    const base=lib.vec_as_slice(this.#ptr);
+    const pairs=new Uint32Array(Vec.#memory(),chunks.ptr,chunks.len*2);
+    const slices=Vec.withCapacity<Vec<T>>(chunks.len);
+    const ptr=Vec.#raw(slices).#ptr;
+
+    for(let i=0;i<pairs.length;i+=2) {
+      const start=(pairs[i]-base.ptr)/Uint32Array.BYTES_PER_ELEMENT;
+      lib.vec_push(ptr,this.#slice(start,start+pairs[i+1]));
+    }
+    base.free();
+    chunks.free();
+
+    return slices;
+  }
+
+  /** Clamps a size passed to the bindings, which is truncated to an `isize`. Every size past the length of the vector behaves the same. */
+  #clamp(size: number): number {
+    return Math.min(size,this.length+1);
+  }
+
+  /** The buffer of the wasm memory, it has to be taken anew after every call that may grow the memory. */
+  static #memory(): ArrayBuffer {
+    const ptr=lib.u32_new_vec();
+    const { buffer }=lib.u32_view(ptr);
+    lib.u32_drop_vec(ptr);
+
+    return buffer as ArrayBuffer;
+  }
+
   public map<U>(f: Fn<[T,number],U>): Vec<U> {
     const mapped=Vec.withCapacity<U>(this.length);
 
     let i=0;
     for(const element of this) {
-      lib.vec_push(mapped.#ptr,f(element,i++));
+      lib.vec_push(Vec.#raw(mapped).#ptr,f(element,i++));
     }
 
     return mapped;
@@ -191,7 +963,7 @@ export class Vec<T> extends IntoIterator<T> implements Clone,PartailEq<Equivalen
   public clone(): this {
     const clone=Vec.withCapacity<T>(this.capacity);
     // SAFETY: This never throws an exception as the loop runs within the bound.
-    for(let i=0;i<this.length;i++) this.push(structuredClone(lib.vec_index(this.#ptr,i)));
+    for(let i=0;i<this.length;i++) lib.vec_push(Vec.#raw(clone).#ptr,structuredClone(lib.vec_at(this.#ptr,i)));
 
     return clone as this;
   }
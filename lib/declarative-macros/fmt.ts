@@ -0,0 +1 @@
+export * from "../fmt/macros.ts";
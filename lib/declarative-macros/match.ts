@@ -0,0 +1,111 @@
+import { Fn } from "../types.ts";
+import { Option } from "../error/option/option.ts";
+import { Result } from "../error/result/result.ts";
+
+
+const NON_EXHAUSTIVE="Non-exhaustive patterns: no arm matched the value.";
+
+
+/** A guarded arm, {@linkcode f} only runs if {@linkcode guard} returns `true` for the bindings of the variant. */
+export type Guarded<P extends unknown[],R>=[guard: Fn<P,boolean>,f: Fn<P,R>];
+
+/**
+ * An arm of a {@linkcode $match}.
+ *
+ * It's either a function called with the bindings of the variant,
+ * or a list of {@linkcode Guarded} arms tried in order which must end with an unguarded function.
+ */
+export type Arm<P extends unknown[],R>=Fn<P,R>|[...Guarded<P,R>[],Fn<P,R>];
+
+/**
+ * The arms of a {@linkcode $match}, one per variant in {@linkcode V}.
+ *
+ * Variants may only be left out (or guarded without a fallback) if the wildcard arm `_` is provided.
+ */
+export type Arms<V extends Record<PropertyKey,unknown[]>,R>=
+  { [K in keyof V]: Arm<V[K],R> }
+  |({ [K in keyof V]?: Arm<V[K],R>|Guarded<V[K],R>[] }&{ _: Fn<[],R> });
+
+/** The arms to match an {@linkcode Option} with. */
+export type OptionArms<T,R>=Arms<{ Some: [value: T],None: [] },R>;
+
+/** The arms to match a {@linkcode Result} with. */
+export type ResultArms<T,E,R>=Arms<{ Ok: [value: T],Err: [err: E] },R>;
+
+/** The arms to match a value of an enum (like {@linkcode Ordering} or {@linkcode IoErrorKind}) with. */
+export type EnumArms<E extends Record<string,unknown>,R>=Arms<{ [K in keyof E]: [] },R>;
+
+
+/**
+ * Matches a value against the variants of its type, and returns the result of the matching arm.
+ *
+ * * {@linkcode Option}s have the `Some` and `None` variants.
+ * * {@linkcode Result}s have the `Ok` and `Err` variants.
+ * * The values of enums (like {@linkcode Ordering} or {@linkcode IoErrorKind}) have a variant per key of the enum, which has to be passed along.
+ *
+ * The match is checked to be exhaustive at compile time, either every variant has an arm or the wildcard arm `_` is provided.
+ *
+ * An arm can be guarded by passing a list of `[guard, f]` pairs, the first one whose guard returns `true` is taken.
+ * Like in Rust, guards aren't considered for exhaustiveness, so the list must end with an unguarded function (unless there's a `_` arm).
+ *
+ * ### Panics
+ * Panics if no arm matches, which can only happen if the types were bypassed.
+ *
+ * ### Examples
+```ts
+const opt = Some(69);
+
+const msg = $match(opt,{
+     Some: [
+       [x=> x>50, x=> `big ${x}`],
+       x=> `small ${x}`,
+     ],
+     None: ()=> "nothing",
+});
+$assertEq(msg, "big 69");
+
+const ord = $match($cmp(1,2), Ordering, {
+     Less: ()=> "<",
+     _: ()=> ">=",
+});
+$assertEq(ord, "<");
+
+const kind = $match(err.kind(), IoErrorKind, {
+     NotFound: ()=> "not found",
+     PermissionDenied: ()=> "permission denied",
+     _: ()=> "other",
+});
+```
+ */
+export function $match<T,R>(value: Option<T>,arms: OptionArms<T,R>): R;
+export function $match<T,E,R>(value: Result<T,E>,arms: ResultArms<T,E,R>): R;
+export function $match<E extends Record<string,unknown>,R>(value: E[keyof E],type: E,arms: EnumArms<E,R>): R;
+export function $match(value: unknown,...args: unknown[]): unknown {
+  let variant: string|undefined;
+  let bindings: unknown[]=[];
+
+  if(value instanceof Option) {
+    variant=value.contains()?"Some":"None";
+    if(variant==="Some") bindings=[value.value];
+  } else if(value instanceof Result) {
+    variant=value.contains()?"Ok":"Err";
+    bindings=[value.result];
+  } else {
+    const type=args.shift() as Record<string,unknown>;
+    variant=Object.keys(type).find(key=> type[key]===value);
+  }
+
+  const arms=args[0] as Record<string,Arm<unknown[],unknown>|Guarded<unknown[],unknown>[]|undefined>;
+  const arm=variant===undefined?undefined:arms[variant];
+
+  if(typeof arm==="function") return arm(...bindings);
+  for(const guarded of arm ?? []) {
+    if(typeof guarded==="function") return guarded(...bindings);
+
+    const [guard,f]=guarded;
+    if(guard(...bindings)) return f(...bindings);
+  }
+
+  if(arms._) return (arms._ as Fn<[],unknown>)();
+  throw NON_EXHAUSTIVE;
+}
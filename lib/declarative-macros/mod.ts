@@ -1,6 +1,10 @@
 export * from "./collections.ts";
 export * from "./panics.ts";
+export * from "./match.ts";
+export * from "./try.ts";
+export * from "./fmt.ts";
 export * from "./net.ts";
+export * from "./str.ts";
 export * from "./test/mod.ts";
 
 /** Constructs a promise with {@linkcode T} value */
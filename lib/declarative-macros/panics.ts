@@ -1,13 +1,15 @@
+import { beginPanic } from "../panic/mod.ts";
 
 
 /**
  * # Panics
- * Exits the program with custom panic message provided by {@linkcode msg}.
+ * Panics with the custom panic message provided by {@linkcode msg}.
+ * 
+ * The panic hook runs first (see {@linkcode panic.setHook}), then the panic either unwinds up to the nearest {@linkcode panic.catchUnwind}
+ * or exits the program, depending on the {@linkcode panic.PanicStrategy}.
  */
 export function $panic(msg: string|Error="Program panicked.."): never {
-  console.error(msg);
-  // throw msg instanceof Error?msg:new Error(msg);
-  Deno.exit(1);
+  beginPanic(msg);
 }
 
 /**
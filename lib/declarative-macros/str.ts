@@ -0,0 +1 @@
+export * from "../str/macros.ts";
@@ -0,0 +1,85 @@
+import { Option,None,AsyncOption } from "../error/option/mod.ts";
+import { Result,Ok,Err,AsyncResult } from "../error/result/mod.ts";
+import { From } from "../error/error_trait.ts";
+
+
+type ErrOf<Y>=Y extends Result<never,infer E>?E:never;
+type Early=Result<never,unknown>|Option<never>;
+
+
+/**
+ * The `?` operator of Rust, as a block.
+ *
+ * Inside the generator, `yield*` on the {@linkcode Result.try} of a result evaluates to its `Ok` value,
+ * or ends the whole block early with its `Err`.
+ * The value returned by the generator is wrapped in `Ok`.
+ *
+ * * With an async generator, the {@linkcode AsyncResult.try} of {@linkcode AsyncResult}s can be used too, and an {@linkcode AsyncResult} is returned.
+ * * Passing {@linkcode Option} first turns it into a block over {@linkcode Option}s (and {@linkcode AsyncOption}s), which ends early on `None`.
+ * * Passing an error class (any {@linkcode From} implementation, like the {@linkcode ErrorTrait}s) first converts every `Err` into it with {@linkcode From.from}.
+ *
+ * The finally blocks of the generator still run when it ends early.
+ *
+ * ### Examples
+```ts
+import fs from "std/fs";
+
+const config = $try(function*() {
+     const text = yield* fs.readToStringSync("config.json").try();
+     const port = yield* parsePort(text).try();// Result<number,string>
+
+     return { port };
+});// Result<{ port: number },Error|string>
+
+const size = await $try(async function*() {
+     const a = yield* fs.readToString("a.txt").try();
+     const b = yield* fs.readToString("b.txt").try();
+
+     return a.length+b.length;
+});
+
+const sum = $try(Option,function*() {
+     return (yield* map.get("a").try())+(yield* map.get("b").try());
+});// None if any of the keys is missing
+```
+ */
+export function $try<Y extends Result<never,unknown>,T>(f: ()=> Generator<Y,T,unknown>): Result<T,ErrOf<Y>>;
+export function $try<Y extends Result<never,unknown>,T>(f: ()=> AsyncGenerator<Y,T,unknown>): AsyncResult<T,ErrOf<Y>>;
+export function $try<T>(type: typeof Option,f: ()=> Generator<Option<never>,T,unknown>): Option<T>;
+export function $try<T>(type: typeof Option,f: ()=> AsyncGenerator<Option<never>,T,unknown>): AsyncOption<T>;
+export function $try<E,T>(into: From<E>,f: ()=> Generator<Result<never,unknown>,T,unknown>): Result<T,E>;
+export function $try<E,T>(into: From<E>,f: ()=> AsyncGenerator<Result<never,unknown>,T,unknown>): AsyncResult<T,E>;
+export function $try(...args: unknown[]): unknown {
+  const f=args.pop() as ()=> Generator<Early,unknown,unknown>|AsyncGenerator<Early,unknown,unknown>;
+  const type=args[0] as typeof Option|From<unknown>|undefined;
+  const gen=f();
+
+  if(Symbol.asyncIterator in gen) {
+    const res=(async ()=> {
+      const next=await gen.next();
+      if(next.done) return wrap(type,next.value);
+
+      await gen.return(undefined);
+      return early(type,next.value);
+    })();
+
+    return type===Option?new AsyncOption(res as Promise<Option<unknown>>):new AsyncResult(res as Promise<Result<unknown,unknown>>);
+  }
+
+  const next=gen.next();
+  if(next.done) return wrap(type,next.value);
+
+  gen.return(undefined);
+  return early(type,next.value);
+}
+
+
+function wrap(type: typeof Option|From<unknown>|undefined,value: unknown) {
+  return type===Option?new Option(value):Ok(value);
+}
+
+function early(type: typeof Option|From<unknown>|undefined,value: Early) {
+  if(value instanceof Option) return None();
+
+  return type && type!==Option?Err((type as From<unknown>).from(value.result)):value;
+}
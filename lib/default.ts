@@ -0,0 +1,27 @@
+/**
+ * A trait for giving a type a useful default value.
+ *
+ * Sometimes, you want to fall back to some kind of default value, and don't particularly care what it is.
+ * This comes up often with classes that define a set of options or collections that start empty.
+ *
+ * Unlike most traits, {@linkcode Default} is implemented by the class itself (a `static default()` method),
+ * so the class can be passed around wherever a default value is needed.
+ *
+ * ### Examples
+```ts
+class SomeOptions {
+     constructor(public foo=0,public bar="") {}
+
+     public static default() {
+       return new SomeOptions();
+     }
+}
+
+const options = map.entry("xd").orDefault(SomeOptions);
+```
+ * {@linkcode Vec}, {@linkcode HashMap}, {@linkcode HashSet} and {@linkcode LinkedList} implement {@linkcode Default} by returning an empty collection.
+ */
+export interface Default<T> {
+  /** Returns the "default value" for a type. */
+  default(): T;
+}
@@ -1,28 +1,52 @@
-
-const globalRegistry=new Map<number,FinalizationRegistry<DropOptions>>();
-
 interface DropOptions {
-  id: number;
-  destructor: WeakRef<VoidFunction>
+  destructor: (resource: unknown)=> void;
+  resource: unknown;
 }
 
+const registry=new FinalizationRegistry<DropOptions>(finalize);
+const registered=new WeakMap<Drop,DropOptions>();
 
-export abstract class Drop {
-  constructor() {
-    const id=globalRegistry.size;
-    const destructor=new WeakRef(this.drop);
-
-    const registry=new FinalizationRegistry(drop);
-    registry.register(this,{ id,destructor });
 
-    globalRegistry.set(id,registry);
+export abstract class Drop {
+  /**
+   * When the object is garbage collected, {@linkcode drop} is called with {@linkcode resource} instead of `this` (which is gone by then).
+   * So {@linkcode resource} must hold whatever {@linkcode drop} needs and never reference the object itself, otherwise it's never collected.
+   */
+  constructor(resource?: unknown) {
+    const options={ destructor: this.drop,resource };
+
+    registry.register(this,options,this);
+    registered.set(this,options);
   }
 
-  protected abstract drop(): void;
+  protected abstract drop(resource?: unknown): void;
 }
 
-function drop({ id,destructor }: DropOptions) {
-  globalRegistry.delete(id);
-  destructor.deref()!();
+
+/**
+ * Disposes of a value, running the destructor of a {@linkcode Drop} right away instead of when it's garbage collected.
+ *
+ * The destructor runs at most once, other values are left untouched.
+ *
+ * ### Examples
+```ts
+const [sender, receiver] = mpsc.channel<number>();
+
+drop(sender);
+$assert(receiver.recv().containsErr());
+```
+ */
+export function drop(value: unknown) {
+  if(!(value instanceof Drop)) return;
+
+  const options=registered.get(value);
+  if(!options) return;
+
+  registry.unregister(value);
+  registered.delete(value);
+  options.destructor.call(value,options.resource);
 }
 
+function finalize({ destructor,resource }: DropOptions) {
+  destructor(resource);
+}
@@ -1,13 +1,17 @@
 import { $resultSync } from "../error/result/mod.ts";
 import { HashMap,Option,Result } from "../../mod.ts";
-import { PathBuf } from "../path.ts";
+import { PathBuf,PathLike } from "../path/path.ts";
+import { toNative } from "../path/util.ts";
 import { Vec } from "../collections/vec/mod.ts";
+import { getVar } from "./var.ts";
+
+export { getVar };
 
 
 export const args=Vec.from(Deno.args);
 
 /**
- * Returns a {@linkcode Result} of the string representation of current working directory.
+ * Returns a {@linkcode Result} of the {@linkcode PathBuf} of the current working directory.
  * 
  * Err varient {@linkcode Deno.errors.NotFound} - if directory not available.
  *
@@ -24,7 +28,7 @@ export const args=Vec.from(Deno.args);
  * @category Runtime Environment
  */
 export function currentDir() {
-  return $resultSync(()=> Deno.cwd());
+  return $resultSync(()=> new PathBuf(Deno.cwd()));
 }
 
 /**
@@ -40,8 +44,8 @@ export function currentDir() {
  * @requires `allow-read` permission.
  * @category Runtime Environment
  */
-export function currentExe(): Result<string,Deno.errors.NotFound> {
-  return $resultSync(()=> Deno.execPath());
+export function currentExe(): Result<PathBuf,Deno.errors.NotFound> {
+  return $resultSync(()=> new PathBuf(Deno.execPath()));
 }
 
 /**
@@ -55,8 +59,8 @@ export function currentExe(): Result<string,Deno.errors.NotFound> {
  * @requires `allow-read` permission.
  * @category Runtime Environment
  */
-export function homeDir(): Option<string> {
-  return new Option(Deno.env.get("HOME"));
+export function homeDir(): Option<PathBuf> {
+  return new Option(Deno.env.get("HOME")).map(home=> new PathBuf(home));
 }
 
 /** Deletes the value of an environment variable.
@@ -94,8 +98,8 @@ export function removeVar(k: string): Option<string> {
  * @requires `allow-read` permission.
  * @category Runtime Environment
  */
-export function setCurrentDir(path: PathBuf): Result<void,Deno.errors.NotFound|Deno.errors.PermissionDenied> {
-  return $resultSync(()=> Deno.chdir(path));
+export function setCurrentDir(path: PathLike): Result<void,Deno.errors.NotFound|Deno.errors.PermissionDenied> {
+  return $resultSync(()=> Deno.chdir(toNative(path)));
 }
 
 /** Sets the value of an environment variable.
@@ -113,21 +117,6 @@ export function setVar(key: string,value: string) {
   Deno.env.set(key,value);
 }
 
-/** Retrieves the value of an environment variable.
- * 
- * # Example
- * ```ts
- * console.log(Deno.env.get("HOME").unwrap());// e.g. outputs "/home/alice"
- * console.log(Deno.env.get("69").unwrap());
- * ```
- *
- * @requires `allow-env` permission.
- * @tags allow-env
- */
-export function getVar(key: string) {
-  return new Option(Deno.env.get(key));
-}
-
 /** Returns a snapshot of the environment variables at invocation as a
  * simple {@linkcode HashMap}
  *
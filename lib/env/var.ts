@@ -0,0 +1,17 @@
+import { Option } from "../error/option/option.ts";
+
+
+/** Retrieves the value of an environment variable.
+ * 
+ * # Example
+ * ```ts
+ * console.log(Deno.env.get("HOME").unwrap());// e.g. outputs "/home/alice"
+ * console.log(Deno.env.get("69").unwrap());
+ * ```
+ *
+ * @requires `allow-env` permission.
+ * @tags allow-env
+ */
+export function getVar(key: string) {
+  return new Option(Deno.env.get(key));
+}
@@ -0,0 +1,232 @@
+import { Enum } from "../types.ts";
+import { getVar } from "../env/var.ts";
+import { Option,Some,None } from "./option/option.ts";
+import { Debug,Display } from "../fmt/fmt.ts";
+import { Formatter } from "../fmt/formatter.ts";
+import { customInspect,inspectIter,Inspect,InspectOptions } from "../fmt/inspect.ts";
+
+
+export type BacktraceStatus=Enum<typeof BacktraceStatus>;
+/** The current status of a backtrace, indicating whether it was captured or whether it is empty for some other reason. */
+export const BacktraceStatus={
+  /** Capturing a backtrace is not supported, likely because the error had no stack. */
+  Unsupported: 0,
+  /** Capturing a backtrace has been disabled through the `RUST_LIB_BACKTRACE` or `RUST_BACKTRACE` environment variables. */
+  Disabled: 1,
+  /** A backtrace has been captured and the {@linkcode Backtrace} should print reasonable information when rendered. */
+  Captured: 2,
+} as const;
+
+type Style="short"|"full"|"off";
+
+/** The root of this library, its frames are internal. */
+const ROOT=new URL("../../",import.meta.url).href;
+const FRAME=/^at (?:(.+?) \()?(.+):(\d+):(\d+)\)?$/;
+
+let errorStyle: Style|undefined;
+let panicStyle: Style|undefined;
+
+
+/** A single frame of a {@linkcode Backtrace}. */
+export class BacktraceFrame implements Debug,Display {
+  constructor(
+    /** The name of the function, `None` for anonymous functions and top-level code. */
+    public readonly name: Option<string>,
+    /** The URL of the module. */
+    public readonly file: string,
+    /** The 1-based line. */
+    public readonly line: number,
+    /** The 1-based column. */
+    public readonly column: number
+  ) {}
+
+  /** Returns `true` if the frame belongs to this library or to the runtime itself, such frames are hidden in short backtraces. */
+  public isInternal(): boolean {
+    return this.file.startsWith(ROOT) || this.file.startsWith("ext:") || this.file.startsWith("node:");
+  }
+
+  public fmtDebug(f: Formatter) {
+    f.debugStruct("").field("fn",this.name.unwrapOr("<unknown>")).field("file",this.file).field("line",this.line).finish();
+  }
+
+  public fmt(f: Formatter) {
+    f.writeStr(this.toString());
+  }
+
+  public toString(): string {
+    return `${this.name.unwrapOr("<unknown>")}\n             at ${this.file}:${this.line}:${this.column}`;
+  }
+}
+
+
+/**
+ * A captured stack backtrace, parsed from the {@linkcode Error.stack} of the runtime.
+ *
+ * {@linkcode Backtrace.capture} only captures a backtrace when enabled by the environment, like Rust:
+ * * `RUST_LIB_BACKTRACE` is checked first, then `RUST_BACKTRACE`.
+ * * `0` disables backtraces, `full` renders every frame and any other value renders them without the internal frames.
+ * * Backtraces are disabled when neither is set (or the env permission is missing).
+ *
+ * Panics only check `RUST_BACKTRACE` (see {@linkcode Backtrace.forPanic}), so `RUST_LIB_BACKTRACE=0 RUST_BACKTRACE=1` keeps the backtraces of panics only.
+ *
+ * The environment is only read once, the first time a backtrace of either kind is captured.
+ *
+ * ### Examples
+```ts
+import { Backtrace } from "std/error";
+
+const backtrace = Backtrace.forceCapture();
+
+for(const frame of backtrace.frames()) {
+     console.log(`${frame.file}:${frame.line}`);
+}
+```
+ */
+export class Backtrace implements Debug,Display {
+  private constructor(
+    private readonly _status: BacktraceStatus,
+    private readonly _frames: BacktraceFrame[]=[],
+    private readonly _full=false
+  ) {}
+
+  /**
+   * Captures a stack backtrace of the current thread, if it's enabled by the environment (see {@linkcode Backtrace}).
+   *
+   * Returns a disabled backtrace otherwise, so it's cheap to call.
+   */
+  public static capture(): Backtrace {
+    const style=getErrorStyle();
+    return style!=="off"?Backtrace.parse(new Error().stack,1,style):Backtrace.disabled();
+  }
+
+  /**
+   * Forcibly captures a full backtrace, regardless of environment variable configuration.
+   *
+   * It's rendered without the internal frames, unless the environment asks for a `full` backtrace.
+   */
+  public static forceCapture(): Backtrace {
+    return Backtrace.parse(new Error().stack,1,getErrorStyle());
+  }
+
+  /** Returns a backtrace which contains no frames. */
+  public static disabled(): Backtrace {
+    return new Backtrace(BacktraceStatus.Disabled);
+  }
+
+  /** Returns the backtrace of the stack of {@linkcode error}, if it's enabled by the environment (see {@linkcode capture}). */
+  public static fromError(error: Error): Backtrace {
+    const style=getErrorStyle();
+    return style!=="off"?Backtrace.parse(error.stack,0,style):Backtrace.disabled();
+  }
+
+  /**
+   * Captures the backtrace of a panic, or the one of the stack of {@linkcode error} when it was raised with an {@linkcode Error}.
+   *
+   * Like the panic hook of Rust, it's only enabled by `RUST_BACKTRACE`, `RUST_LIB_BACKTRACE` doesn't apply to panics.
+   */
+  public static forPanic(error?: Error): Backtrace {
+    const style=getPanicStyle();
+    if(style==="off") return Backtrace.disabled();
+
+    return error?Backtrace.parse(error.stack,0,style):Backtrace.parse(new Error().stack,1,style);
+  }
+
+  /** Returns the status of this backtrace, indicating whether this backtrace request was unsupported, disabled, or a stack trace was actually captured. */
+  public status(): BacktraceStatus {
+    return this._status;
+  }
+
+  /** Returns every frame of the backtrace, from the innermost call outwards. */
+  public frames(): BacktraceFrame[] {
+    return this._frames;
+  }
+
+  /** Returns the first frame outside of this library, which is usually where the user code called into it. */
+  public caller(): Option<BacktraceFrame> {
+    const frame=this._frames.find(frame=> !frame.isInternal());
+    return frame?Some(frame):None();
+  }
+
+  /** Formats the frames of the backtrace as a list, like `Backtrace [{ fn: "main", file: "file:///main.ts", line: 1 }]`. */
+  public fmtDebug(f: Formatter) {
+    if(this._status!==BacktraceStatus.Captured) return f.writeStr(`<${this.toString()}>`);
+
+    f.writeStr("Backtrace ");
+    f.debugList().entries(this.shownFrames()).finish();
+  }
+
+  /** Formats the backtrace like {@linkcode toString}. */
+  public fmt(f: Formatter) {
+    f.writeStr(this.toString());
+  }
+
+  /** Renders the backtrace like Rust does, the internal frames are left out of short backtraces. */
+  public toString(): string {
+    switch(this._status) {
+      case BacktraceStatus.Unsupported: return "unsupported backtrace";
+      case BacktraceStatus.Disabled: return "disabled backtrace";
+    }
+
+    const lines=this.shownFrames().map((frame,i)=> `${i.toString().padStart(4)}: ${frame}`);
+
+    if(!this._full) lines.push("note: Some details are omitted, run with `RUST_BACKTRACE=full` for a verbose backtrace.");
+    return `stack backtrace:\n${lines.join("\n")}`;
+  }
+
+  [customInspect](inspect: Inspect,options: InspectOptions): string {
+    if(this._status!==BacktraceStatus.Captured) return `<${this.toString()}>`;
+    return inspectIter("Backtrace","[]",this.shownFrames(),inspect,options);
+  }
+
+  /** Returns the frames to render, the internal ones are left out of short backtraces. */
+  private shownFrames(): BacktraceFrame[] {
+    return this._full?this._frames:this._frames.filter(frame=> !frame.isInternal());
+  }
+
+  /** Parses the frames of {@linkcode stack}, skipping the first {@linkcode skip} ones. */
+  private static parse(stack: string|undefined,skip: number,style: Style): Backtrace {
+    if(!stack) return new Backtrace(BacktraceStatus.Unsupported);
+
+    const frames: BacktraceFrame[]=[];
+    for(const line of stack.split("\n")) {
+      const frame=FRAME.exec(line.trim());
+      if(!frame) continue;
+
+      const [,name,file,row,col]=frame;
+      frames.push(new BacktraceFrame(new Option(name??null),file,Number(row),Number(col)));
+    }
+
+    return new Backtrace(BacktraceStatus.Captured,frames.slice(skip),style==="full");
+  }
+}
+
+
+/** The style of error backtraces, `RUST_LIB_BACKTRACE` takes precedence over `RUST_BACKTRACE`. */
+function getErrorStyle(): Style {
+  return errorStyle??=readStyle("RUST_LIB_BACKTRACE","RUST_BACKTRACE");
+}
+
+/** The style of panic backtraces, only `RUST_BACKTRACE` applies to them. */
+function getPanicStyle(): Style {
+  return panicStyle??=readStyle("RUST_BACKTRACE");
+}
+
+/** Reads the style from the first of {@linkcode keys} which is set. */
+function readStyle(...keys: string[]): Style {
+  let value="";
+  try {
+    for(const key of keys) {
+      value=getVar(key).unwrapOr("");
+      if(value) break;
+    }
+  } catch {
+    // The env permission wasn't granted.
+  }
+
+  switch(value) {
+    case "":
+    case "0": return "off";
+    case "full": return "full";
+    default: return "short";
+  }
+}
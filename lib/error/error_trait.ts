@@ -1,5 +1,33 @@
-// deno-lint-ignore no-unused-vars
-import { Option,Some,None } from './option/option.ts';
+// deno-lint-ignore-file no-explicit-any
+import type { Option,Some,None } from './option/option.ts';
+import type { DoubleEndedIter,DoubleEndedIterator } from "../iter/double_ended_iter.ts";
+import type { $unimplemented } from '../declarative-macros/panics.ts';
+import type { Backtrace } from "./backtrace.ts";
+import { Debug,Display } from "../fmt/fmt.ts";
+import { Formatter } from "../fmt/formatter.ts";
+
+
+/**
+ * The values {@linkcode ErrorTrait} uses at runtime.
+ * 
+ * Their modules depend on `Vec`, whose bindings throw subclasses of {@linkcode ErrorTrait},
+ * so importing them here would evaluate those subclasses before the trait. `./mod.ts` provides them instead.
+ */
+type Runtime={
+  Some: typeof Some;
+  None: typeof None;
+  DoubleEndedIter: typeof DoubleEndedIter;
+  Backtrace: typeof Backtrace;
+  $unimplemented: typeof $unimplemented;
+};
+
+let runtime: ()=> Runtime;
+
+/** Provides the {@linkcode Runtime} of the trait, it's called once by `./mod.ts`. */
+export function provideRuntime(f: ()=> Runtime) {
+  runtime=f;
+}
+
 
 /**
  * A abstract enum-like type list specifying general categories of error.
@@ -25,20 +53,22 @@ export type ErrorKindLike=number;
  * Error messages are typically concise lowercase sentences without trailing punctuation
  * 
  * Errors may provide cause information.
- * {@linkcode ErrorTrait.cause} is generally used when errors cross "abstraction boundaries".
+ * {@linkcode ErrorTrait.source} is generally used when errors cross "abstraction boundaries".
  * If one module must report an error that is caused by an error from a lower-level module,
- * it can allow accessing that error via {@linkcode ErrorTraits.cause}.
+ * it can allow accessing that error via {@linkcode ErrorTrait.source}, by passing it as the `cause`.
  * This makes it possible for the high-level module to provide its own errors while also revealing some of the implementation for debugging.
  */
-export abstract class ErrorTrait extends Error {
-  constructor(protected __kind: ErrorKindLike,error: Error|string,cause?: string) {
+export abstract class ErrorTrait extends Error implements Debug,Display {
+  #backtrace?: Backtrace;
+
+  constructor(protected __kind: ErrorKindLike,error: Error|string,cause?: string|Error) {
     if(typeof error==="string") {
       super(error,{ cause });
       return;
     }
 
     super();
-    this.cause=error.cause;
+    this.cause=cause??error.cause;
     this.message=error.message;
     this.name=error.name;
     this.stack=error.stack;
@@ -51,9 +81,275 @@ export abstract class ErrorTrait extends Error {
    * it will be a value inferred from the system's error encoding.
    */
   public abstract kind(): ErrorKindLike;
+
+  /**
+   * Returns the lower-level source of this error, if any.
+   * 
+   * It's the `cause` the error was created with, when it's an {@linkcode Error}.
+   * 
+   * ### Examples
+  ```ts
+  import { IoError,IoErrorKind } from "std/io";
+
+  const inner = IoError.other("disk full");
+  const error = new IoError(IoErrorKind.Other,"failed to save the config",inner);
+
+  $assertEq(error.source(), Some(inner));
+  $assertEq(inner.source(), None());
+  ```
+   */
+  public source(): Option<Error> {
+    const { Some,None }=runtime();
+    return this.cause instanceof Error?Some(this.cause):None();
+  }
+
+  /**
+   * Returns an iterator starting with this error and continuing with recursively calling {@linkcode source}.
+   * 
+   * The `cause` of foreign {@linkcode Error}s is followed too.
+   * 
+   * ### Examples
+  ```ts
+  import { IoError,IoErrorKind } from "std/io";
+
+  const error = new IoError(IoErrorKind.Other,"failed to save the config",IoError.other("disk full"));
+  const messages = error.chain().map(e=> e.message).collect();
+
+  $assertEq(messages, $vec("failed to save the config", "disk full"));
+  ```
+   */
+  public chain(): DoubleEndedIterator<Error> {
+    const { DoubleEndedIter }=runtime();
+    const errors=[...chain(this)];
+    return new DoubleEndedIter(errors.length,i=> errors[i]);
+  }
+
+  /**
+   * Returns the backtrace of the error, parsed from its {@linkcode stack}.
+   * 
+   * Like {@linkcode Backtrace.capture}, it's only captured if the `RUST_LIB_BACKTRACE` or `RUST_BACKTRACE` environment variables enable it.
+   */
+  public backtrace(): Backtrace {
+    return this.#backtrace??=runtime().Backtrace.fromError(this);
+  }
+
+  /** Formats the error as a struct of its kind, message and source (if any). */
+  public fmtDebug(f: Formatter) {
+    const struct=f.debugStruct(this.constructor.name).field("kind",this.kind()).field("message",this.message);
+    this.source().inspect(source=> struct.field("source",source));
+
+    struct.finish();
+  }
+
+  /** Formats the message of the error, like `{}` does in Rust. */
+  public fmt(f: Formatter) {
+    f.pad(this.message);
+  }
+
+  /**
+   * Converts any {@linkcode error} into this error type, it's the {@linkcode From} hook used by {@linkcode $try}.
+   * 
+   * Errors already of this type are returned as is,
+   * subclasses override it to convert foreign errors (see {@linkcode IoError.from}).
+   * 
+   * # Panics
+   * Panics if {@linkcode error} is a foreign error and the subclass doesn't override it.
+   */
+  public static from(error: unknown): ErrorTrait {
+    return error instanceof this?error:runtime().$unimplemented(`${this.name} can't be converted from a foreign error.`);
+  }
 }
 
 
+function* chain(error: Error): Generator<Error,void,undefined> {
+  let next: unknown=error;
 
+  while(next instanceof Error) {
+    yield next;
+    next=next.cause;
+  }
+}
+
+
+/**
+ * A conversion of any error into {@linkcode E}, like Rust's `From` trait for errors.
+ * 
+ * {@linkcode $try} uses it to convert the errors a block returns early with into a single error type,
+ * like the `?` operator does. Every subclass of {@linkcode ErrorTrait} implements it.
+ * 
+ * ### Examples
+```ts
+import { IoError } from "std/io";
+
+const res: Result<string,IoError> = $try(IoError,function*() {
+     const text = yield* fs.readToStringSync("foo.txt").try();// Err(Deno.errors.NotFound) becomes an IoError
+     return text.trim();
+});
+```
+ */
+export interface From<E> {
+  /** Converts {@linkcode error} into {@linkcode E}. */
+  from(error: unknown): E;
+}
+
+/**
+ * A dynamic error type wrapping any error, like the `anyhow::Error` of Rust.
+ *
+ * Each {@linkcode context} wraps the error in a higher-level message, so the error keeps the whole story of what went wrong:
+ * its {@linkcode toString} renders the entire chain of causes, outermost first, separated by colons (like `{:#}` in Rust).
+ *
+ * It's usually created through {@linkcode Result.context} or {@linkcode Result.withContext},
+ * and it implements {@linkcode From} so it can be used with {@linkcode $try}.
+ *
+ * ### Examples
+```ts
+import { AnyError } from "std/error";
+
+function readConfig(path: string): Result<string,AnyError> {
+     return fs.readToStringSync(path).withContext(()=> `failed to read config from ${path}`);
+}
 
+const err = readConfig("missing.json").unwrapErr();
 
+// failed to read config from missing.json: No such file or directory (os error 2): readfile 'missing.json'
+console.error(err.toString());
+$assert(err.is(Deno.errors.NotFound));
+```
+ */
+export class AnyError extends ErrorTrait {
+  #error?: Error;
+
+  constructor(error: Error|string,cause?: string|Error) {
+    super(kindOf(error instanceof Error?error:cause),error,cause);
+
+    if(typeof error==="string") this.name="AnyError";
+    else this.#error=error;
+  }
+
+  /** Creates an error from a message, without any source. */
+  public static msg(message: string): AnyError {
+    return new AnyError(message);
+  }
+
+  /**
+   * Converts any {@linkcode error} into an {@linkcode AnyError}, it's the {@linkcode From} hook used by {@linkcode $try}.
+   *
+   * {@linkcode AnyError}s are returned as is, other {@linkcode Error}s are wrapped so they can be {@linkcode downcast} back,
+   * and any other value becomes the message of the error.
+   */
+  public static override from(error: unknown): AnyError {
+    if(error instanceof AnyError) return error;
+    return error instanceof Error?new AnyError(error):AnyError.msg(String(error));
+  }
+
+  /**
+   * Wraps the error value with additional context, the error becomes the {@linkcode source} of the returned one.
+   *
+   * ### Examples
+  ```ts
+  import { AnyError } from "std/error";
+
+  const err = AnyError.msg("disk full").context("failed to save the config");
+
+  $assertEq(err.toString(), "failed to save the config: disk full");
+  $assertEq(err.rootCause().message, "disk full");
+  ```
+   */
+  public context(context: string): AnyError {
+    return new AnyError(context,this);
+  }
+
+  /** Returns the lowest level cause of this error, the last error of its {@linkcode chain}. */
+  public rootCause(): Error {
+    return this.chain().last().unwrap();
+  }
+
+  /**
+   * Returns the first error of the {@linkcode chain} which is an instance of {@linkcode type}, this includes the errors wrapped by {@linkcode from}.
+   *
+   * ### Examples
+  ```ts
+  import { AnyError } from "std/error";
+  import { IoError } from "std/io";
+
+  const err = AnyError.from(IoError.other("disk full")).context("failed to save the config");
+
+  $assert(err.downcast(IoError).contains());
+  $assert(err.downcast(RangeError).containsNone());
+  ```
+   */
+  public downcast<E extends Error>(type: new(...args: any[])=> E): Option<E> {
+    const { Some,None }=runtime();
+
+    for(const error of this.chain()) {
+      const inner=error instanceof AnyError?error.#error??error:error;
+      if(inner instanceof type) return Some(inner);
+    }
+
+    return None();
+  }
+
+  /** Returns `true` if an error of the {@linkcode chain} is an instance of {@linkcode type}. */
+  public is<E extends Error>(type: new(...args: any[])=> E): boolean {
+    return this.downcast(type).contains();
+  }
+
+  /**
+   * Returns the kind of the first {@linkcode ErrorTrait} of the chain it wraps.
+   *
+   * It's `-1` if none of them is an {@linkcode ErrorTrait}.
+   */
+  public kind(): ErrorKindLike {
+    return this.__kind;
+  }
+
+  /**
+   * Formats the error like `anyhow` does: its message followed by the list of its causes.
+   * 
+   * The alternate form (`{:#?}`) formats it as a struct instead, see {@linkcode ErrorTrait.fmtDebug}.
+   * 
+   * ### Examples
+  ```ts
+  import { AnyError } from "std/error";
+
+  const err = AnyError.msg("disk full").context("failed to save").context("failed to exit");
+
+  $assertEq($format("{:?}", err), `failed to exit
+
+  Caused by:
+      0: failed to save
+      1: disk full`);
+  ```
+   */
+  public override fmtDebug(f: Formatter) {
+    if(f.alternate()) return super.fmtDebug(f);
+
+    const causes=this.chain().skip(1).map(error=> error.message).collect();
+    f.writeStr(this.message);
+    if(!causes.length) return;
+
+    f.writeStr("\n\nCaused by:");
+    if(causes.length===1) return f.writeStr(`\n    ${causes[0]}`);
+
+    for(const [i,cause] of causes.iter().enumerate()) f.writeStr(`\n${i.toString().padStart(5)}: ${cause}`);
+  }
+
+  /** Formats the message of the error, the alternate form (`{:#}`) formats the entire chain like {@linkcode toString}. */
+  public override fmt(f: Formatter) {
+    f.pad(f.alternate()?this.toString():this.message);
+  }
+
+  /** Renders the messages of the entire chain, outermost first: `context: ...: root cause`. */
+  public override toString(): string {
+    return this.chain().map(error=> error.message).reduce((context,cause)=> `${context}: ${cause}`).unwrap();
+  }
+}
+
+
+function kindOf(error: unknown): ErrorKindLike {
+  for(let next: unknown=error;next instanceof Error;next=next.cause) {
+    if(next instanceof ErrorTrait) return next.kind();
+  }
+
+  return -1;
+}
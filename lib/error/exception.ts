@@ -8,7 +8,7 @@ export abstract class Exception<T,E> implements Clone {
   /**
    * Function to match the value stored in the derived-class
    */
-  protected abstract match<T1,E1>(t: (t: T)=> T1,e: (e: E)=> E1): T1|E1;
+  protected abstract _match<T1,E1>(t: (t: T)=> T1,e: (e: E)=> E1): T1|E1;
 
   /**
    * Function to access the value stored in the derived-class
@@ -43,7 +43,7 @@ export abstract class Exception<T,E> implements Clone {
    * * Returns the `this` if it isn't an {@linkcode Exception},otherwise calls `f` and returns the result.
    */
   public orElse(f: (err: E)=> this): this {
-    return this.match(_=> this.clone(),f);
+    return this._match(_=> this.clone(),f);
   }
   
   /**
@@ -52,7 +52,7 @@ export abstract class Exception<T,E> implements Clone {
    * * Panics if the value is a `None` with a custom panic message provided by msg.
    */
   public expect(msg: string): T {
-    return this.match(t=> t,_=> $panic(msg));
+    return this._match(t=> t,_=> $panic(msg));
   }
 
   /**
@@ -68,7 +68,7 @@ export abstract class Exception<T,E> implements Clone {
    * Arguments passed to {@linkcode mapOr} are eagerly evaluated; if you are passing the result of a function call, it is recommended to use {@linkcode mapOrElse}, which is lazily evaluated.
    */
   public mapOr<U>(def: U,f: Fn<[val: T],U>) {
-    return this.match(f,_=> def);
+    return this._match(f,_=> def);
   }
 
   /**
@@ -77,7 +77,7 @@ export abstract class Exception<T,E> implements Clone {
    * This function can be used to unpack a successful result while handling an error.
    */
   public mapOrElse<U>(def: Fn<[err?: E],U>,f: Fn<[val: T],U>) {
-    return this.match(f,def);
+    return this._match(f,def);
   }
 
 
@@ -86,7 +86,7 @@ export abstract class Exception<T,E> implements Clone {
    * * Arguments passed to {@linkcode unwrapOr} are eagerly evaluated; if you are passing the result of a function call, it is recommended to use {@linkcode unwrapOrElse}.
    */
   public unwrapOr(op: T): T {
-    return this.match(t=> t,_=> op);
+    return this._match(t=> t,_=> op);
   }
   
   /**
@@ -98,15 +98,15 @@ export abstract class Exception<T,E> implements Clone {
   
   public unwrap(): T {
     // deno-lint-ignore no-explicit-any
-    return this.match(t=> t,e=> $panic(e as any));
+    return this._match(t=> t,e=> $panic(e as any));
   }
   
   public unwrapOrElse(f: (err: E)=> T): T {
-    return this.match(t=> t,f);
+    return this._match(t=> t,f);
   }
 
   public unwrapOrThrow() {
-    return this.match(t=> t,e=> { throw e });
+    return this._match(t=> t,e=> { throw e });
   }
 
   public unwrapUnchecked(): T|E {
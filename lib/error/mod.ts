@@ -1,3 +1,9 @@
+import { Some,None } from "./option/option.ts";
+import { Backtrace } from "./backtrace.ts";
+import { provideRuntime } from "./error_trait.ts";
+import { DoubleEndedIter } from "../iter/double_ended_iter.ts";
+import { $unimplemented } from "../declarative-macros/panics.ts";
+
 export * as option from "./option/mod.ts";
 export * as result from "./result/mod.ts";
 
@@ -7,4 +13,10 @@ export * from "./option/option.ts";
 export * from "./option/async_option.ts";
 
 export * from "./exception.ts";
+export { AnyError } from "./error_trait.ts";
+
+export * from "./backtrace.ts";
+
 
+// lazily, as this module can be evaluated before the classes when they're on the import stack.
+provideRuntime(()=> ({ Some,None,DoubleEndedIter,Backtrace,$unimplemented }));
@@ -1,5 +1,8 @@
 import { Fn } from "../../types.ts";
 import { Option,None } from './option.ts';
+import { Result } from '../result/result.ts';
+import { AsyncResult } from '../result/async_result.ts';
+import { Default } from '../../default.ts';
 
 
 export class AsyncOption<T> extends Promise<Option<T>> {
@@ -7,6 +10,24 @@ export class AsyncOption<T> extends Promise<Option<T>> {
     super(resolve=> resolve(val));
   }
 
+  // `then`, `catch` and `finally` would call the constructor above with an executor otherwise.
+  static override get [Symbol.species]() {
+    return Promise;
+  }
+
+  /**
+   * Makes the option usable with `yield*` in an async {@linkcode $try} block,
+   * it evaluates to the `Some` value or returns `None` from the block.
+   */
+  public async *try(): AsyncGenerator<Option<never>,T,unknown> {
+    return yield* (await this).try();
+  }
+
+  /** Returns an iterator over the possibly contained value. */
+  public async iter() {
+    return (await this).iter();
+  }
+
   /**
    * Returns `None` if the value is `None`,otherwise returns {@linkcode optb}.
    * 
@@ -36,7 +57,7 @@ export class AsyncOption<T> extends Promise<Option<T>> {
    * $assertEq(xd.andThen(x=> Some(69)),Some(69));
    * ```
    */
-  public andThen(f: (xd: T)=> Option<T>) {
+  public andThen<U>(f: (xd: T)=> Option<U>) {
     return new AsyncOption(this.then(val=> val.andThen(f)));
   }
   
@@ -49,6 +70,46 @@ export class AsyncOption<T> extends Promise<Option<T>> {
     return new AsyncOption(this.then(opt=> opt.filter(predicate)));
   }
 
+  /** Returns `Some` if exactly one of `this`, {@linkcode optb} is `Some`, otherwise returns `None`. */
+  public xor(optb: Option<T>) {
+    return new AsyncOption(this.then(opt=> opt.xor(optb)));
+  }
+
+  /** Zips `this` with another {@linkcode Option}, see {@linkcode Option.zip}. */
+  public zip<U>(other: Option<U>) {
+    return new AsyncOption(this.then(opt=> opt.zip(other)));
+  }
+
+  /** Zips `this` and another {@linkcode Option} with function {@linkcode f}, see {@linkcode Option.zipWith}. */
+  public zipWith<U,R>(other: Option<U>,f: Fn<[a: T,b: U],R>) {
+    return new AsyncOption(this.then(opt=> opt.zipWith(other,f)));
+  }
+
+  /** Unzips an option containing a pair into a pair of options. */
+  public async unzip<A,B>(this: AsyncOption<[A,B]>) {
+    return (await this).unzip();
+  }
+
+  /** Converts from `AsyncOption<Option<T>>` to `AsyncOption<T>`. */
+  public flatten<U>(this: AsyncOption<Option<U>>) {
+    return new AsyncOption(this.then(opt=> opt.flatten()));
+  }
+
+  /** Transposes an {@linkcode AsyncOption} of a {@linkcode Result} into an {@linkcode AsyncResult} of an {@linkcode Option}. */
+  public transpose<U,E>(this: AsyncOption<Result<U,E>>) {
+    return new AsyncResult(this.then(opt=> opt.transpose()));
+  }
+
+  /** Transforms the {@linkcode AsyncOption<T>} into an {@linkcode AsyncResult<T, E>}, mapping `Some(v)` to `Ok(v)` and `None` to `Err(err)`. */
+  public okOr<E>(err: E) {
+    return new AsyncResult(this.then(opt=> opt.okOr(err)));
+  }
+
+  /** Transforms the {@linkcode AsyncOption<T>} into an {@linkcode AsyncResult<T, E>}, mapping `Some(v)` to `Ok(v)` and `None` to `Err(err())`. */
+  public okOrElse<E>(err: Fn<[],E>) {
+    return new AsyncResult(this.then(opt=> opt.okOrElse(err)));
+  }
+
   /**
    * Returns the {@linkcode Option} if it contains a value, otherwise returns {@linkcode optb}.
    * 
@@ -135,6 +196,26 @@ export class AsyncOption<T> extends Promise<Option<T>> {
   public async getOrInsert(val: T) {
     return (await this).getOrInsert(val);
   }
+
+  /** Returns the contained `Some` value or inserts the value computed by {@linkcode f} in the current {@linkcode Option} and returns it. */
+  public async getOrInsertWith(f: Fn<[],T>) {
+    return (await this).getOrInsertWith(f);
+  }
+
+  /** Takes the value out of the option, leaving a `None` in its place. */
+  public async take() {
+    return (await this).take();
+  }
+
+  /** Takes the value out of the option, but only if {@linkcode predicate} returns `true` for it. */
+  public async takeIf(predicate: Fn<[val: T],boolean>) {
+    return (await this).takeIf(predicate);
+  }
+
+  /** Replaces the actual value in the option by {@linkcode val}, returning the old value if present. */
+  public async replace(val: T) {
+    return (await this).replace(val);
+  }
   
   /**
    * Maps an {@linkcode Option<T>} to {@linkcode Option<U>} by applying a function to a contained value (if `Some`) or returns `None` (if `None`).
@@ -145,6 +226,11 @@ export class AsyncOption<T> extends Promise<Option<T>> {
     return new AsyncOption(this.then(opt=> opt.map(f)));
   }
 
+  /** Calls {@linkcode f} with the contained value if `Some`, and returns the option. */
+  public inspect(f: Fn<[val: T],void>) {
+    return new AsyncOption(this.then(opt=> opt.inspect(f)));
+  }
+
   /**
    * Returns the provided default result (if `None`), or applies a function to the contained value.
    * 
@@ -207,6 +293,11 @@ export class AsyncOption<T> extends Promise<Option<T>> {
   public async unwrapOrElse(f: (none: None)=> T) {
     return (await this).unwrapOrElse(f);
   }
+
+  /** Returns the contained `Some` value or the default value of {@linkcode type}, see {@linkcode Default}. */
+  public async unwrapOrDefault(type: Default<T>) {
+    return (await this).unwrapOrDefault(type);
+  }
   
   /**
    * Returns the contained `Some` value or if the value is `None` throws an exception.
@@ -240,6 +331,16 @@ export class AsyncOption<T> extends Promise<Option<T>> {
   public async containsNone() {
     return (await this).containsNone();
   }
+
+  /** Returns `true` if the option is a `Some` and the value inside of it matches {@linkcode f}. */
+  public async isSomeAnd(f: Fn<[val: T],boolean>) {
+    return (await this).isSomeAnd(f);
+  }
+
+  /** Returns `true` if the option is a `None` or the value inside of it matches {@linkcode f}. */
+  public async isNoneOr(f: Fn<[val: T],boolean>) {
+    return (await this).isNoneOr(f);
+  }
 }
 
 
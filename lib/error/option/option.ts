@@ -4,13 +4,22 @@ import { Fn } from "../../types.ts";
 import { Exception } from '../exception.ts';
 import { PartailEq } from '../../cmp/eq.ts';
 import { $eq } from "../../cmp/macros/mod.ts";
+import { Vec } from "../../collections/vec/mod.ts";
+import { FromIterator } from "../../iter/from_iter.ts";
+import { $match,OptionArms } from "../../declarative-macros/match.ts";
+import { Result,Ok,Err } from "../result/result.ts";
+import { Default } from "../../default.ts";
+import { DoubleEndedIter,DoubleEndedIterator } from "../../iter/double_ended_iter.ts";
+import { Debug,Display,$display } from "../../fmt/fmt.ts";
+import { Formatter } from "../../fmt/formatter.ts";
+import { customInspect,inspectTuple,Inspect,InspectOptions } from "../../fmt/inspect.ts";
 
 
 /**
  * The Option type.
  * It holds optional (nullable) value.
  */
-export class Option<T> extends Exception<T,None> implements PartailEq<Optional<T>> {
+export class Option<T> extends Exception<T,None> implements PartailEq<Optional<T>>,Debug,Display {
   protected isException: boolean;
   
   constructor(private _value: T|None) {
@@ -18,7 +27,7 @@ export class Option<T> extends Exception<T,None> implements PartailEq<Optional<T
     this.isException=_value==null;
   }
   
-  protected match<S,N>(t: (t: T)=> S,e: (e: None)=> N): S|N {
+  protected _match<S,N>(t: (t: T)=> S,e: (e: None)=> N): S|N {
     const res=this.res();
     return (this.isException?e:t)(res);
   }
@@ -31,17 +40,99 @@ export class Option<T> extends Exception<T,None> implements PartailEq<Optional<T
     return $eq(this._value,rhs instanceof Option?rhs._value:rhs);
   }
 
+  /**
+   * Formats the option like Rust does, as `Some(value)` or `None`.
+   * 
+   * ### Examples
+  ```ts
+  $assertEq($format("{:?}", Some("xd")), 'Some("xd")');
+  $assertEq($format("{:?}", None()), "None");
+  ```
+   */
+  public fmtDebug(f: Formatter) {
+    if(this.isException) f.writeStr("None");
+    else f.debugTuple("Some").field(this._value).finish();
+  }
+
+  /** Formats the option as `Some(value)` or `None`, the value is formatted with {@linkcode Display}. */
+  public fmt(f: Formatter) {
+    if(this.isException) f.writeStr("None");
+    else f.debugTuple("Some").fieldWith(f=> $display(this._value,f)).finish();
+  }
+
+  [customInspect](inspect: Inspect,options: InspectOptions): string {
+    return this.isException?"None":inspectTuple("Some",[this._value],inspect,options);
+  }
+
+  /**
+   * Returns the JSON form of the option, `None` is serialized as a `null` value.
+   * 
+   * It can be revived with {@linkcode Option.fromJSON}, or by passing {@linkcode reviver} to `JSON.parse`.
+   * 
+   * ### Examples
+  ```ts
+  $assertEq(JSON.stringify(Some(69)), '{"$type":"Option","value":69}');
+  $assertEq(JSON.stringify(None()), '{"$type":"Option","value":null}');
+  ```
+   */
+  public toJSON(): OptionJSON<T> {
+    return { $type: "Option",value: this._value ?? null };
+  }
+
   /**
    * Inner value of the option
    */
   public get value() {
     return this._value;
   }
+
   
   public set value(val) {
     this._value=val;
     this.isException=val==null;
   }
+
+  /**
+   * Matches the option against its `Some` and `None` variants, see {@linkcode $match}.
+   * 
+   * ### Examples
+  ```ts
+  const x = Some(2);
+
+  $assertEq(x.match({ Some: x=> x*2, None: ()=> 0 }), 4);
+  $assertEq(None<number>().match({ Some: x=> x*2, None: ()=> 0 }), 0);
+  ```
+   */
+  public match<R>(arms: OptionArms<T,R>): R {
+    return $match(this,arms);
+  }
+
+  /**
+   * Makes the option usable with `yield*` in a {@linkcode $try} block,
+   * it evaluates to the `Some` value or returns `None` from the block.
+   */
+  public *try(): Generator<Option<never>,T,unknown> {
+    if(this.isException) yield None();
+    return this.unwrap();
+  }
+
+  /** Iterates over the possibly contained value, like {@linkcode iter}. */
+  public [Symbol.iterator](): Iterator<T> {
+    return this.iter()[Symbol.iterator]();
+  }
+
+  /**
+   * Returns an iterator over the possibly contained value.
+   * 
+   * ### Examples
+  ```ts
+  $assertEq(Some(4).iter().next(), Some(4));
+  $assertEq(None<number>().iter().next(), None());
+  ```
+   */
+  public iter(): DoubleEndedIterator<T> {
+    return new DoubleEndedIter(this.isException?0:1,_=> this._value as T);
+  }
   
   
   /**
@@ -73,8 +164,8 @@ export class Option<T> extends Exception<T,None> implements PartailEq<Optional<T
    * $assertEq(xd.andThen(x=> Some(69)),Some(69));
    * ```
    */
-  public andThen(f: (xd: T)=> Option<T>): Option<T> {
-    return this.match(f,_=> this.clone());
+  public andThen<U>(f: (xd: T)=> Option<U>): Option<U> {
+    return this._match(f,_=> None());
   }
   
   /**
@@ -83,7 +174,124 @@ export class Option<T> extends Exception<T,None> implements PartailEq<Optional<T
    * * `None` if predicate returns false.
    */
   public filter(predicate: Fn<[val: T],boolean>) {
-    return new Option(this.match(val=> predicate(val)?val:null,none=> none));
+    return new Option(this._match(val=> predicate(val)?val:null,none=> none));
+  }
+
+  /**
+   * Returns `Some` if exactly one of `this`, {@linkcode optb} is `Some`, otherwise returns `None`.
+   * 
+   * ### Examples
+  ```ts
+  $assertEq(Some(2).xor(None()), Some(2));
+  $assertEq(None().xor(Some(2)), Some(2));
+  $assertEq(Some(2).xor(Some(2)), None());
+  ```
+   */
+  public xor(optb: Option<T>): Option<T> {
+    if(this.isException===optb.isException) return None();
+    return this.isException?optb:this;
+  }
+
+  /**
+   * Zips `this` with another {@linkcode Option}.
+   * 
+   * If `this` is `Some(s)` and {@linkcode other} is `Some(o)`, this method returns `Some([s, o])`, otherwise `None` is returned.
+   * 
+   * ### Examples
+  ```ts
+  $assertEq(Some(1).zip(Some("hi")), Some([1, "hi"]));
+  $assertEq(Some(1).zip(None()), None());
+  ```
+   */
+  public zip<U>(other: Option<U>): Option<[T,U]> {
+    return this.zipWith(other,(a,b)=> [a,b]);
+  }
+
+  /**
+   * Zips `this` and another {@linkcode Option} with function {@linkcode f}.
+   * 
+   * If `this` is `Some(s)` and {@linkcode other} is `Some(o)`, this method returns `Some(f(s, o))`, otherwise `None` is returned.
+   * 
+   * ### Examples
+  ```ts
+  const x = Some(17.5);
+  const y = Some(42.7);
+
+  $assertEq(x.zipWith(y, (x,y)=> ({ x, y })), Some({ x: 17.5, y: 42.7 }));
+  ```
+   */
+  public zipWith<U,R>(other: Option<U>,f: Fn<[a: T,b: U],R>): Option<R> {
+    return this.isException || other.isException?None():Some(f(this._value as T,other._value as U));
+  }
+
+  /**
+   * Unzips an option containing a pair into a pair of options.
+   * 
+   * If `this` is `Some([a, b])` this method returns `[Some(a), Some(b)]`, otherwise `[None, None]` is returned.
+   * 
+   * ### Examples
+  ```ts
+  $assertEq(Some([1, "hi"]).unzip(), [Some(1), Some("hi")]);
+  ```
+   */
+  public unzip<A,B>(this: Option<[A,B]>): [Option<A>,Option<B>] {
+    return this._match(([a,b])=> [Some(a),Some(b)],_=> [None(),None()]);
+  }
+
+  /**
+   * Converts from `Option<Option<T>>` to `Option<T>`, only one level of nesting is removed at a time.
+   * 
+   * ### Examples
+  ```ts
+  $assertEq(Some(Some(6)).flatten(), Some(6));
+  $assertEq(Some(None()).flatten(), None());
+  ```
+   */
+  public flatten<U>(this: Option<Option<U>>): Option<U> {
+    return this._match(opt=> opt,_=> None());
+  }
+
+  /**
+   * Transposes an {@linkcode Option} of a {@linkcode Result} into a {@linkcode Result} of an {@linkcode Option}.
+   * 
+   * `None` will be mapped to `Ok(None)`, `Some(Ok(x))` to `Ok(Some(x))` and `Some(Err(e))` to `Err(e)`.
+   * 
+   * ### Examples
+  ```ts
+  const x: Option<Result<number,string>> = Some(Ok(5));
+
+  $assertEq(x.transpose(), Ok(Some(5)));
+  ```
+   */
+  public transpose<U,E>(this: Option<Result<U,E>>): Result<Option<U>,E> {
+    return this._match(res=> res.map(ok=> Some(ok)),_=> Ok(None()));
+  }
+
+  /**
+   * Transforms the {@linkcode Option<T>} into a {@linkcode Result<T, E>}, mapping `Some(v)` to `Ok(v)` and `None` to `Err(err)`.
+   * 
+   * Arguments passed to {@linkcode okOr} are eagerly evaluated; if you are passing the result of a function call, it is recommended to use {@linkcode okOrElse}.
+   * 
+   * ### Examples
+  ```ts
+  $assertEq(Some("foo").okOr(0), Ok("foo"));
+  $assertEq(None().okOr(0), Err(0));
+  ```
+   */
+  public okOr<E>(err: E): Result<T,E> {
+    return this._match(ok=> Ok(ok),_=> Err(err));
+  }
+
+  /**
+   * Transforms the {@linkcode Option<T>} into a {@linkcode Result<T, E>}, mapping `Some(v)` to `Ok(v)` and `None` to `Err(err())`.
+   * 
+   * ### Examples
+  ```ts
+  $assertEq(None().okOrElse(()=> 0), Err(0));
+  ```
+   */
+  public okOrElse<E>(err: Fn<[],E>): Result<T,E> {
+    return this._match(ok=> Ok(ok),_=> Err(err()));
   }
 
   /**
@@ -109,7 +317,7 @@ export class Option<T> extends Exception<T,None> implements PartailEq<Optional<T
    * ```
    */
   public override orElse(f: (err: None)=> this): this {
-    return this.match(_=> this.clone(),f);
+    return this._match(_=> this.clone(),f);
   }
   
   /**
@@ -125,7 +333,7 @@ export class Option<T> extends Exception<T,None> implements PartailEq<Optional<T
    * ```
    */
   public override expect(msg: string): T {
-    return this.isException?this.res():$panic(msg);
+    return this.isException?$panic(msg):this.res();
   }
 
   /**
@@ -141,7 +349,7 @@ export class Option<T> extends Exception<T,None> implements PartailEq<Optional<T
    * ```
    */
   public expectNone(callback: (s: T)=> never): None {
-    return this.match(callback,n=> n);
+    return this._match(callback,n=> n);
   }
   
   /**
@@ -167,7 +375,73 @@ export class Option<T> extends Exception<T,None> implements PartailEq<Optional<T
    * ```
    */
   public getOrInsert(val: T) {
-    return this.match(t=> t,_=> this.value=val);
+    return this._match(t=> t,_=> this.value=val);
+  }
+
+  /**
+   * Returns the contained `Some` value or inserts the value computed by {@linkcode f} in the current {@linkcode Option} and returns it.
+   * # Example
+   * ```ts
+   * const xd=None(null);
+   * $assertEq(xd.getOrInsertWith(()=> 69),69);
+   * ```
+   */
+  public getOrInsertWith(f: Fn<[],T>) {
+    return this._match(t=> t,_=> this.value=f());
+  }
+
+  /**
+   * Takes the value out of the option, leaving a `None` in its place.
+   * 
+   * ### Examples
+  ```ts
+  const x = Some(2);
+  const y = x.take();
+
+  $assertEq(x, None());
+  $assertEq(y, Some(2));
+  ```
+   */
+  public take(): Option<T> {
+    const opt=new Option(this._value);
+    this.value=null;
+
+    return opt;
+  }
+
+  /**
+   * Takes the value out of the option, but only if {@linkcode predicate} returns `true` for it.
+   * 
+   * ### Examples
+  ```ts
+  const x = Some(42);
+
+  $assertEq(x.takeIf(v=> v%2===1), None());
+  $assertEq(x.takeIf(v=> v===42), Some(42));
+  $assertEq(x, None());
+  ```
+   */
+  public takeIf(predicate: Fn<[val: T],boolean>): Option<T> {
+    return this.isSomeAnd(predicate)?this.take():None();
+  }
+
+  /**
+   * Replaces the actual value in the option by {@linkcode val}, returning the old value if present.
+   * 
+   * ### Examples
+  ```ts
+  const x = Some(2);
+  const old = x.replace(5);
+
+  $assertEq(x, Some(5));
+  $assertEq(old, Some(2));
+  ```
+   */
+  public replace(val: T): Option<T> {
+    const opt=this.take();
+    this.value=val;
+
+    return opt;
   }
   
   /**
@@ -176,7 +450,20 @@ export class Option<T> extends Exception<T,None> implements PartailEq<Optional<T
    * Kind of like `?.` notation
    */
   public map<U>(f: Fn<[val: T], U>) {
-    return new Option(this.match(val=> f(val),none=> none));
+    return new Option(this._match(val=> f(val),none=> none));
+  }
+
+  /**
+   * Calls {@linkcode f} with the contained value if `Some`, and returns the option.
+   * 
+   * ### Examples
+  ```ts
+  const x = Some(4).inspect(x=> console.log(`got: ${x}`)).map(x=> x*2);
+  ```
+   */
+  public inspect(f: Fn<[val: T],void>): this {
+    if(!this.isException) f(this._value as T);
+    return this;
   }
   
   /**
@@ -185,14 +472,14 @@ export class Option<T> extends Exception<T,None> implements PartailEq<Optional<T
    * Arguments passed to {@linkcode mapOr} are eagerly evaluated; if you are passing the result of a function call, it is recommended to use {@linkcode mapOrElse}, which is lazily evaluated.
    */
   public mapOr<U>(def: U,f: Fn<[val: T],U>) {
-    return this.match(f,_=> def);
+    return this._match(f,_=> def);
   }
   
   /**
    * Computes a default function result (if `None`), or applies a different function to the contained value.
    */
   public mapOrElse<U>(def: Fn<[],U>,f: Fn<[val: T],U>) {
-    return this.match(f,def);
+    return this._match(f,def);
   }
   
   /**
@@ -209,7 +496,7 @@ export class Option<T> extends Exception<T,None> implements PartailEq<Optional<T
    * ```
    */
   public override unwrapOr(optb: T): T {
-    return this.match(s=> s,_=> optb);
+    return this._match(s=> s,_=> optb);
   }
   
   /**
@@ -227,7 +514,7 @@ export class Option<T> extends Exception<T,None> implements PartailEq<Optional<T
    * ```
    */
   public override unwrap(): T {
-    return this.match(s=> s,e=> $panic(e as any));
+    return this._match(s=> s,_=> $panic("called `Option.unwrap()` on a `None` value"));
   }
   
   /**
@@ -239,7 +526,21 @@ export class Option<T> extends Exception<T,None> implements PartailEq<Optional<T
    * ```
    */
   public override unwrapOrElse(f: (none: None)=> T): T {
-    return this.match(s=> s,f);
+    return this._match(s=> s,f);
+  }
+
+  /**
+   * Returns the contained `Some` value or the default value of {@linkcode type}, see {@linkcode Default}.
+   * 
+   * ### Examples
+  ```ts
+  const x = None<Vec<number>>();
+
+  $assertEq(x.unwrapOrDefault(Vec), $vec());
+  ```
+   */
+  public unwrapOrDefault(type: Default<T>): T {
+    return this._match(s=> s,_=> type.default());
   }
   
   /**
@@ -247,7 +548,7 @@ export class Option<T> extends Exception<T,None> implements PartailEq<Optional<T
    * #### Not recommended to use.
    */
   public override unwrapOrThrow(): T {
-    return this.match(some=> some,none=> { throw none });
+    return this._match(some=> some,none=> { throw none });
   }
   
   /**
@@ -273,6 +574,32 @@ export class Option<T> extends Exception<T,None> implements PartailEq<Optional<T
   public containsNone() {
     return this.isException;
   }
+
+  /**
+   * Returns `true` if the option is a `Some` and the value inside of it matches {@linkcode f}.
+   * 
+   * ### Examples
+  ```ts
+  $assertEq(Some(2).isSomeAnd(x=> x>1), true);
+  $assertEq(None<number>().isSomeAnd(x=> x>1), false);
+  ```
+   */
+  public isSomeAnd(f: Fn<[val: T],boolean>): boolean {
+    return this._match(f,_=> false);
+  }
+
+  /**
+   * Returns `true` if the option is a `None` or the value inside of it matches {@linkcode f}.
+   * 
+   * ### Examples
+  ```ts
+  $assertEq(Some(0).isNoneOr(x=> x>1), false);
+  $assertEq(None<number>().isNoneOr(x=> x>1), true);
+  ```
+   */
+  public isNoneOr(f: Fn<[val: T],boolean>): boolean {
+    return this._match(f,_=> true);
+  }
   
   /**
    * Empties the current {@linkcode Option}
@@ -283,7 +610,7 @@ export class Option<T> extends Exception<T,None> implements PartailEq<Optional<T
    * ```
    */
   public empty() {
-    this._value=null;
+    this.value=null;
   }
 
   /** No value. */
@@ -295,6 +622,46 @@ export class Option<T> extends Exception<T,None> implements PartailEq<Optional<T
   public static Some<T>(val: T) {
     return new Option<T>(val);
   }
+
+  /**
+   * Takes each element in the {@linkcode Iterable}: if it is `None`, no further elements are taken, and `None` is returned.
+   * Should no `None` occur, a container ({@linkcode Vec} by default, or {@linkcode into}) with the values of each {@linkcode Option} is returned.
+   *
+   * ### Examples
+  ```ts
+  const items = $vec(0, 1, 2);
+  const res = items.iter().map(x=> x>0?Some(x-1):None()).collect(Option);
+
+  $assertEq(res, None());
+  ```
+   */
+  public static fromIter<T>(iter: Iterable<Option<T>>): Option<Vec<T>>;
+  public static fromIter<T,C>(iter: Iterable<Option<T>>,into: FromIterator<T,C>): Option<C>;
+  public static fromIter<T,C>(iter: Iterable<Option<T>>,into: FromIterator<T,C|Vec<T>>=Vec): Option<C|Vec<T>> {
+    let none=false;
+    const values=into.fromIter(function *() {
+      for(const opt of iter) {
+        if(opt.isException) return void (none=true);
+        yield opt._value as T;
+      }
+    }());
+
+    return none?None():new Option(values);
+  }
+
+  /**
+   * Creates an {@linkcode Option} from its JSON form, see {@linkcode Option.toJSON}.
+   * 
+   * ### Examples
+  ```ts
+  const opt = Option.fromJSON<number>(JSON.parse('{"$type":"Option","value":69}'));
+
+  $assertEq(opt, Some(69));
+  ```
+   */
+  public static fromJSON<T>(json: OptionJSON<T>): Option<T> {
+    return new Option(json.value);
+  }
 }
 
 
@@ -310,6 +677,9 @@ export type Some<T>=NonNullable<T>;
  */
 export type Optional<T>=Option<T>|None|T;
 
+/** The JSON form of an {@linkcode Option}. */
+export type OptionJSON<T>={ $type: "Option",value: T|null };
+
 export function Some<T>(val: T) {
   return Option.Some(val);
 }
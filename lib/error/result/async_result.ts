@@ -1,5 +1,8 @@
 import { Fn } from "../../types.ts";
 import { Result,Err,Ok } from "./result.ts";
+import { Option } from "../option/option.ts";
+import { AsyncOption } from "../option/async_option.ts";
+import { Default } from "../../default.ts";
 
 /**
  * {@linkcode AsyncOk} value of type {@linkcode T}
@@ -42,6 +45,24 @@ export class AsyncResult<T,E> extends Promise<Result<T,E>> {
     super(resolve=> resolve(res));
   }
 
+  // `then`, `catch` and `finally` would call the constructor above with an executor otherwise.
+  static override get [Symbol.species]() {
+    return Promise;
+  }
+
+  /**
+   * Makes the result usable with `yield*` in an async {@linkcode $try} block,
+   * it evaluates to the `Ok` value or returns the `Err` from the block.
+   */
+  public async *try(): AsyncGenerator<Result<never,E>,T,unknown> {
+    return yield* (await this).try();
+  }
+
+  /** Returns an iterator over the possibly contained `Ok` value. */
+  public async iter() {
+    return (await this).iter();
+  }
+
   /**
    * Returns `Err` if the value is `Err`,otherwise returns {@linkcode optb}.
    * 
@@ -69,7 +90,7 @@ export class AsyncResult<T,E> extends Promise<Result<T,E>> {
    * $assertEq(xd.andThen(x=> Ok("69")),Ok("69"));
    * ```
    */
-  public andThen(f: (xd: T)=> Result<T,E>) {
+  public andThen<U>(f: (xd: T)=> Result<U,E>) {
     return new AsyncResult(this.then(res=> res.andThen(f)));
   }
 
@@ -163,6 +184,16 @@ export class AsyncResult<T,E> extends Promise<Result<T,E>> {
     return (await this).expectErr(callback);
   }
 
+  /**
+   * Returns the contained `Err` value.
+   * 
+   * # Panics
+   * Panics if the value is an `Ok`, with the `Ok` value as the panic message.
+   */
+  public async unwrapErr() {
+    return (await this).unwrapErr();
+  }
+
   /**
    * Returns whether the object contains a `Ok` value.
    */
@@ -177,6 +208,16 @@ export class AsyncResult<T,E> extends Promise<Result<T,E>> {
     return (await this).containsErr();
   }
 
+  /** Returns `true` if the result is `Ok` and the value inside of it matches {@linkcode f}. */
+  public async isOkAnd(f: Fn<[val: T],boolean>) {
+    return (await this).isOkAnd(f);
+  }
+
+  /** Returns `true` if the result is `Err` and the value inside of it matches {@linkcode f}. */
+  public async isErrAnd(f: Fn<[err: E],boolean>) {
+    return (await this).isErrAnd(f);
+  }
+
   /**
    * Inserts the given `Ok` value in the current {@linkcode Result}
    * # Example
@@ -220,6 +261,36 @@ export class AsyncResult<T,E> extends Promise<Result<T,E>> {
     return new AsyncResult(this.then(res=> res.mapErr(f)));
   }
 
+  /** Wraps the error value with additional {@linkcode context}, converting it into an {@linkcode AnyError} whose source is the error. */
+  public context(context: string) {
+    return new AsyncResult(this.then(res=> res.context(context)));
+  }
+
+  /** Wraps the error value with additional context that is evaluated lazily only once an error does occur. */
+  public withContext(f: Fn<[],string>) {
+    return new AsyncResult(this.then(res=> res.withContext(f)));
+  }
+
+  /** Calls {@linkcode f} with the contained value if `Ok`, and returns the result. */
+  public inspect(f: Fn<[val: T],void>) {
+    return new AsyncResult(this.then(res=> res.inspect(f)));
+  }
+
+  /** Calls {@linkcode f} with the contained error if `Err`, and returns the result. */
+  public inspectErr(f: Fn<[err: E],void>) {
+    return new AsyncResult(this.then(res=> res.inspectErr(f)));
+  }
+
+  /** Converts from `AsyncResult<Result<T, E>, E>` to `AsyncResult<T, E>`. */
+  public flatten<U>(this: AsyncResult<Result<U,E>,E>) {
+    return new AsyncResult(this.then(res=> res.flatten()));
+  }
+
+  /** Transposes an {@linkcode AsyncResult} of an {@linkcode Option} into an {@linkcode AsyncOption} of a {@linkcode Result}. */
+  public transpose<U>(this: AsyncResult<Option<U>,E>) {
+    return new AsyncOption(this.then(res=> res.transpose()));
+  }
+
   /**
    * Returns the provided default `Err`, or applies a function to the contained value `Ok`.
    * 
@@ -283,6 +354,11 @@ export class AsyncResult<T,E> extends Promise<Result<T,E>> {
     return (await this).unwrapOrElse(f);
   }
 
+  /** Returns the contained `Ok` value or the default value of {@linkcode type}, see {@linkcode Default}. */
+  public async unwrapOrDefault(type: Default<T>) {
+    return (await this).unwrapOrDefault(type);
+  }
+
   /**
    * Returns the contained `Ok` value or if the value is `Err` throws an exception.
    * #### Not recommended to use.
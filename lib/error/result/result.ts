@@ -1,10 +1,19 @@
 // deno-lint-ignore-file no-explicit-any
 import { Option,None,Some } from '../option/option.ts';
 import { Exception } from '../exception.ts';
+import { AnyError } from '../error_trait.ts';
 import { $panic } from "../../../mod.ts";
 import { Res } from './mod.ts';
 import { Fn } from "../../types.ts";
 import { PartailEq,$eq } from '../../cmp/mod.ts';
+import { Vec } from '../../collections/vec/mod.ts';
+import { FromIterator } from '../../iter/from_iter.ts';
+import { $match,ResultArms } from '../../declarative-macros/match.ts';
+import { Default } from '../../default.ts';
+import { DoubleEndedIter,DoubleEndedIterator } from '../../iter/double_ended_iter.ts';
+import { Debug,Display,$display } from '../../fmt/fmt.ts';
+import { Formatter } from '../../fmt/formatter.ts';
+import { customInspect,inspectTuple,Inspect,InspectOptions } from '../../fmt/inspect.ts';
 
 /**
  * {@linkcode Ok} value of type {@linkcode T}
@@ -16,10 +25,13 @@ export type Ok<T>=T;
  */
 export type Err<E=Error>=E;
 
+/** The JSON form of a {@linkcode Result}. */
+export type ResultJSON<T,E>={ $type: "Result" }&Res<T,E>;
+
 /**
  * Result is a type that represents either success ({@linkcode Ok}) or failure ({@linkcode Err}).
  */
-export class Result<T,E> extends Exception<T,E> implements PartailEq<T|E|Result<T,E>> {
+export class Result<T,E> extends Exception<T,E> implements PartailEq<T|E|Result<T,E>>,Debug,Display {
   protected isException: boolean;
 
   constructor(private _result: Res<T,E>) {
@@ -27,7 +39,7 @@ export class Result<T,E> extends Exception<T,E> implements PartailEq<T|E|Result<
     this.isException=Object.hasOwn(_result,"err");
   }
 
-  protected match<T1,E1>(t: (t: T)=> T1,e: (e: E)=> E1): T1|E1 {
+  protected _match<T1,E1>(t: (t: T)=> T1,e: (e: E)=> E1): T1|E1 {
     const res=this._result as any;
     return Object.hasOwn(res,"ok")?t(res.ok):e(res.err);
   }
@@ -44,10 +56,88 @@ export class Result<T,E> extends Exception<T,E> implements PartailEq<T|E|Result<
     return this.res();
   }
 
+  /**
+   * Matches the result against its `Ok` and `Err` variants, see {@linkcode $match}.
+   * 
+   * ### Examples
+  ```ts
+  const x: Result<number,string> = Err("nope");
+
+  $assertEq(x.match({ Ok: x=> `${x}`, Err: e=> e }), "nope");
+  ```
+   */
+  public match<R>(arms: ResultArms<T,E,R>): R {
+    return $match(this,arms);
+  }
+
+  /**
+   * Makes the result usable with `yield*` in a {@linkcode $try} block,
+   * it evaluates to the `Ok` value or returns the `Err` from the block.
+   */
+  public *try(): Generator<Result<never,E>,T,unknown> {
+    if(this.isException) yield Err(this.res());
+    return this.unwrap();
+  }
+
+  /** Iterates over the possibly contained `Ok` value, like {@linkcode iter}. */
+  public [Symbol.iterator](): Iterator<T> {
+    return this.iter()[Symbol.iterator]();
+  }
+
+  /**
+   * Returns an iterator over the possibly contained `Ok` value.
+   * 
+   * ### Examples
+  ```ts
+  $assertEq(Ok(7).iter().next(), Some(7));
+  $assertEq(Err("nothing!").iter().next(), None());
+  ```
+   */
+  public iter(): DoubleEndedIterator<T> {
+    return new DoubleEndedIter(this.isException?0:1,_=> this.res() as T);
+  }
+
   public eq(rhs: Result<T,E>|T|E): boolean {
     return $eq(this.res(),rhs instanceof Result?rhs.res():rhs);
   }
 
+  /**
+   * Formats the result like Rust does, as `Ok(value)` or `Err(error)`.
+   * 
+   * ### Examples
+  ```ts
+  $assertEq($format("{:?}", Ok(69)), "Ok(69)");
+  $assertEq($format("{:?}", Err("nope")), 'Err("nope")');
+  ```
+   */
+  public fmtDebug(f: Formatter) {
+    f.debugTuple(this.isException?"Err":"Ok").field(this.res()).finish();
+  }
+
+  /** Formats the result as `Ok(value)` or `Err(error)`, the contained value is formatted with {@linkcode Display}. */
+  public fmt(f: Formatter) {
+    f.debugTuple(this.isException?"Err":"Ok").fieldWith(f=> $display(this.res(),f)).finish();
+  }
+
+  [customInspect](inspect: Inspect,options: InspectOptions): string {
+    return inspectTuple(this.isException?"Err":"Ok",[this.res()],inspect,options);
+  }
+
+  /**
+   * Returns the JSON form of the result, either `{ ok }` or `{ err }` tagged as a `Result`.
+   * 
+   * It can be revived with {@linkcode Result.fromJSON}, or by passing {@linkcode reviver} to `JSON.parse`.
+   * 
+   * ### Examples
+  ```ts
+  $assertEq(JSON.stringify(Ok(69)), '{"$type":"Result","ok":69}');
+  $assertEq(JSON.stringify(Err("nope")), '{"$type":"Result","err":"nope"}');
+  ```
+   */
+  public toJSON(): ResultJSON<T,E> {
+    return { $type: "Result",...this._result };
+  }
+
   /**
    * Returns `Err` if the value is `Err`,otherwise returns {@linkcode optb}.
    * 
@@ -75,8 +165,8 @@ export class Result<T,E> extends Exception<T,E> implements PartailEq<T|E|Result<
    * $assertEq(xd.andThen(x=> Ok("69")),Ok("69"));
    * ```
    */
-  public override andThen(f: (xd: T)=> Result<T,E>) {
-    return this.match(f,_=> this.clone());
+  public override andThen<U>(f: (xd: T)=> Result<U,E>): Result<U,E> {
+    return this._match(f,err=> Err(err));
   }
 
   /**
@@ -102,7 +192,7 @@ export class Result<T,E> extends Exception<T,E> implements PartailEq<T|E|Result<
    * ```
    */
   public override orElse(f: (err: E)=> this) {
-    return this.match(_=> this.clone(),f);
+    return this._match(_=> this.clone(),f);
   }
 
   /**
@@ -118,7 +208,7 @@ export class Result<T,E> extends Exception<T,E> implements PartailEq<T|E|Result<
   ```
    */
   public err(): Option<E> {
-    return this.match(_=> None(null),err=> Some(err));
+    return this._match(_=> None(null),err=> Some(err));
   }
 
   /**
@@ -134,7 +224,7 @@ export class Result<T,E> extends Exception<T,E> implements PartailEq<T|E|Result<
   ```
    */
   public ok(): Option<T> {
-    return this.match(ok=> Some(ok),_=> None(null));
+    return this._match(ok=> Some(ok),_=> None(null));
   }
 
   /**
@@ -150,7 +240,7 @@ export class Result<T,E> extends Exception<T,E> implements PartailEq<T|E|Result<
    * ```
    */
   public override expect(msg: string): T {
-    return this.match(t=> t,()=> $panic(msg));
+    return this._match(t=> t,()=> $panic(msg));
   }
 
   /**
@@ -166,7 +256,23 @@ export class Result<T,E> extends Exception<T,E> implements PartailEq<T|E|Result<
    * ```
    */
   public expectErr(callback: (s: T)=> never): E {
-    return this.match(callback,e=> e);
+    return this._match(callback,e=> e);
+  }
+
+  /**
+   * Returns the contained `Err` value.
+   * 
+   * # Panics
+   * Panics if the value is an `Ok`, with the `Ok` value as the panic message.
+   * 
+   * # Example
+   * ```ts
+   * const xd=Err("emergency failure");
+   * $assertEq(xd.unwrapErr(),"emergency failure");
+   * ```
+   */
+  public unwrapErr(): E {
+    return this._match(t=> $panic(t as any),e=> e);
   }
 
   /**
@@ -183,6 +289,32 @@ export class Result<T,E> extends Exception<T,E> implements PartailEq<T|E|Result<
     return this.isException;
   }
 
+  /**
+   * Returns `true` if the result is `Ok` and the value inside of it matches {@linkcode f}.
+   * 
+   * ### Examples
+  ```ts
+  $assertEq(Ok(2).isOkAnd(x=> x>1), true);
+  $assertEq(Err<number,string>("hey").isOkAnd(x=> x>1), false);
+  ```
+   */
+  public isOkAnd(f: Fn<[val: T],boolean>): boolean {
+    return this._match(f,_=> false);
+  }
+
+  /**
+   * Returns `true` if the result is `Err` and the value inside of it matches {@linkcode f}.
+   * 
+   * ### Examples
+  ```ts
+  $assertEq(Err("hey").isErrAnd(e=> e==="hey"), true);
+  $assertEq(Ok<number,string>(2).isErrAnd(e=> e==="hey"), false);
+  ```
+   */
+  public isErrAnd(f: Fn<[err: E],boolean>): boolean {
+    return this._match(_=> false,f);
+  }
+
   /**
    * Inserts the given `Ok` value in the current {@linkcode Result}
    * # Example
@@ -215,7 +347,7 @@ export class Result<T,E> extends Exception<T,E> implements PartailEq<T|E|Result<
    * This function can be used to compose the results of two functions.
    */
   public override map<U>(f: Fn<[val: T], U>): Result<U,E> {
-    return this.match(ok=> Ok(f(ok)),err=> Err(err));
+    return this._match(ok=> Ok(f(ok)),err=> Err(err));
   }
 
   /**
@@ -223,8 +355,91 @@ export class Result<T,E> extends Exception<T,E> implements PartailEq<T|E|Result<
    * 
    * This function can be used to pass through a successful result while handling an error.
    */
-  public mapErr<F>(f: Fn<[err: E], F>) {
-    return this.match(ok=> Ok(ok),err=> Err(f(err)));
+  public mapErr<F>(f: Fn<[err: E], F>): Result<T,F> {
+    return this._match(ok=> Ok<T,F>(ok),err=> Err<T,F>(f(err)));
+  }
+
+  /**
+   * Wraps the error value with additional {@linkcode context}, converting it into an {@linkcode AnyError} whose source is the error.
+   * 
+   * ### Examples
+  ```ts
+  const x = fs.readToStringSync("config.json").context("failed to load the config");
+
+  // failed to load the config: No such file or directory (os error 2): readfile 'config.json'
+  x.inspectErr(e=> console.error(e.toString()));
+  ```
+   */
+  public context(context: string): Result<T,AnyError> {
+    return this.mapErr(err=> withContext(context,err));
+  }
+
+  /**
+   * Wraps the error value with additional context that is evaluated lazily only once an error does occur.
+   * 
+   * ### Examples
+  ```ts
+  const path = "config.json";
+  const x = fs.readToStringSync(path).withContext(()=> `failed to load the config from ${path}`);
+  ```
+   */
+  public withContext(f: Fn<[],string>): Result<T,AnyError> {
+    return this.mapErr(err=> withContext(f(),err));
+  }
+
+  /**
+   * Calls {@linkcode f} with the contained value if `Ok`, and returns the result.
+   * 
+   * ### Examples
+  ```ts
+  const x = fs.readToStringSync("config.json").inspect(text=> console.log(`read ${text.length} chars`));
+  ```
+   */
+  public inspect(f: Fn<[val: T],void>): this {
+    if(!this.isException) f(this.res());
+    return this;
+  }
+
+  /**
+   * Calls {@linkcode f} with the contained error if `Err`, and returns the result.
+   * 
+   * ### Examples
+  ```ts
+  const x = fs.readToStringSync("config.json").inspectErr(e=> console.error(`failed to read file: ${e}`));
+  ```
+   */
+  public inspectErr(f: Fn<[err: E],void>): this {
+    if(this.isException) f(this.res());
+    return this;
+  }
+
+  /**
+   * Converts from `Result<Result<T, E>, E>` to `Result<T, E>`, only one level of nesting is removed at a time.
+   * 
+   * ### Examples
+  ```ts
+  $assertEq(Ok(Ok("hello")).flatten(), Ok("hello"));
+  $assertEq(Ok(Err(6)).flatten(), Err(6));
+  ```
+   */
+  public flatten<U>(this: Result<Result<U,E>,E>): Result<U,E> {
+    return this._match(res=> res,err=> Err(err));
+  }
+
+  /**
+   * Transposes a {@linkcode Result} of an {@linkcode Option} into an {@linkcode Option} of a {@linkcode Result}.
+   * 
+   * `Ok(None)` will be mapped to `None`, `Ok(Some(x))` to `Some(Ok(x))` and `Err(e)` to `Some(Err(e))`.
+   * 
+   * ### Examples
+  ```ts
+  const x: Result<Option<number>,string> = Ok(Some(5));
+
+  $assertEq(x.transpose(), Some(Ok(5)));
+  ```
+   */
+  public transpose<U>(this: Result<Option<U>,E>): Option<Result<U,E>> {
+    return this._match(opt=> opt.map(ok=> Ok<U,E>(ok)),err=> Some(Err<U,E>(err)));
   }
 
   /**
@@ -233,7 +448,7 @@ export class Result<T,E> extends Exception<T,E> implements PartailEq<T|E|Result<
    * Arguments passed to {@linkcode mapOr} are eagerly evaluated; if you are passing the result of a function call, it is recommended to use {@linkcode mapOrElse}, which is lazily evaluated.
    */
   public mapOr<U>(def: U,f: Fn<[val: T],U>) {
-    return this.match(f,_=> def);
+    return this._match(f,_=> def);
   }
 
   /**
@@ -242,7 +457,7 @@ export class Result<T,E> extends Exception<T,E> implements PartailEq<T|E|Result<
    * This function can be used to unpack a successful result while handling an error.
    */
   public mapOrElse<U>(def: Fn<[err: E],U>,f: Fn<[val: T],U>) {
-    return this.match(f,def);
+    return this._match(f,def);
   }
 
 
@@ -259,7 +474,7 @@ export class Result<T,E> extends Exception<T,E> implements PartailEq<T|E|Result<
    * ```
    */
   public override unwrap(): T {
-    return this.match(t=> t,e=> $panic(e as any));
+    return this._match(t=> t,e=> $panic(e as any));
   }
 
   /**
@@ -276,7 +491,7 @@ export class Result<T,E> extends Exception<T,E> implements PartailEq<T|E|Result<
    * ```
    */
   public override unwrapOr(optb: T): T {
-    return this.match(t=> t,_=> optb);
+    return this._match(t=> t,_=> optb);
   }
 
   /**
@@ -288,7 +503,21 @@ export class Result<T,E> extends Exception<T,E> implements PartailEq<T|E|Result<
    * ```
    */
   public override unwrapOrElse(f: (err: E) => T): T {
-    return this.match(t=> t,f);
+    return this._match(t=> t,f);
+  }
+
+  /**
+   * Returns the contained `Ok` value or the default value of {@linkcode type}, see {@linkcode Default}.
+   * 
+   * ### Examples
+  ```ts
+  const x: Result<Vec<number>,string> = Err("nope");
+
+  $assertEq(x.unwrapOrDefault(Vec), $vec());
+  ```
+   */
+  public unwrapOrDefault(type: Default<T>): T {
+    return this._match(t=> t,_=> type.default());
   }
 
   /**
@@ -296,7 +525,7 @@ export class Result<T,E> extends Exception<T,E> implements PartailEq<T|E|Result<
    * #### Not recommended to use.
    */
   public override unwrapOrThrow() {
-    return this.match(t=> t,e=> { throw e });
+    return this._match(t=> t,e=> { throw e });
   }
 
 
@@ -325,6 +554,50 @@ export class Result<T,E> extends Exception<T,E> implements PartailEq<T|E|Result<
   public static Err<E,T=any>(err: E) {
     return new Result<T,E>({ err });
   }
+
+
+  /**
+   * Takes each element in the {@linkcode Iterable}: if it is an `Err`, no further elements are taken, and the `Err` is returned.
+   * Should no `Err` occur, a container ({@linkcode Vec} by default, or {@linkcode into}) with the values of each {@linkcode Result} is returned.
+   * 
+   * ### Examples
+  ```ts
+  const v = $vec(Ok(1), Ok(2));
+  $assertEq(v.iter().collect(Result), Ok($vec(1, 2)));
+
+  const w = $vec(Ok(1), Err("nope"), Ok(3));
+  $assertEq(w.iter().collect(Result, HashSet), Err("nope"));
+  ```
+   */
+  public static fromIter<T,E>(iter: Iterable<Result<T,E>>): Result<Vec<T>,E>;
+  public static fromIter<T,E,C>(iter: Iterable<Result<T,E>>,into: FromIterator<T,C>): Result<C,E>;
+  public static fromIter<T,E,C>(iter: Iterable<Result<T,E>>,into: FromIterator<T,C|Vec<T>>=Vec): Result<C|Vec<T>,E> {
+    let err: Result<T,E>|null=null;
+    const values=into.fromIter(function *() {
+      for(const res of iter) {
+        if(res.isException) return void (err=res);
+        yield res.res() as T;
+      }
+    }());
+
+    return err?Err((err as Result<T,E>).res()):Ok(values);
+  }
+
+  /**
+   * Creates a {@linkcode Result} from its JSON form, see {@linkcode Result.toJSON}.
+   * 
+   * An `ok` value which was `undefined` (and thus left out by `JSON.stringify`) is revived as `Ok(undefined)`.
+   * 
+   * ### Examples
+  ```ts
+  const res = Result.fromJSON<number,string>(JSON.parse('{"$type":"Result","err":"nope"}'));
+
+  $assertEq(res, Err("nope"));
+  ```
+   */
+  public static fromJSON<T,E>(json: ResultJSON<T,E>): Result<T,E> {
+    return Object.hasOwn(json,"err")?Err((json as { err: E }).err):Ok((json as { ok: T }).ok);
+  }
 }
 
 
@@ -335,3 +608,8 @@ export function Err<T,E>(err: E) {
 export function Ok<T,E>(ok: T) {
   return new Result<T,E>({ ok });
 }
+
+
+function withContext(context: string,error: unknown): AnyError {
+  return new AnyError(context,error instanceof Error?error:AnyError.from(error));
+}
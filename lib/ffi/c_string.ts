@@ -1,4 +1,4 @@
-
+import { customInspect,inspectTuple,Inspect,InspectOptions } from "../fmt/inspect.ts";
 
 
 export class CString implements Iterable<number> {
@@ -39,6 +39,10 @@ export class CString implements Iterable<number> {
     return this.toString();
   }
 
+  [customInspect](inspect: Inspect,options: InspectOptions): string {
+    return inspectTuple("CString",[this.toString()],inspect,options);
+  }
+
   *[Symbol.iterator]() {
     for(const byte of this.buff) yield byte;
   }
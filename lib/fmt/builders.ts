@@ -0,0 +1,226 @@
+import { Fn } from "../types.ts";
+import type { Formatter } from "./formatter.ts";
+import { $debug } from "./fmt.ts";
+
+
+type Write=Fn<[f: Formatter],void>;
+
+
+/**
+ * Writes the entries of the builders, each one on its own indented line when pretty printing (`{:#?}`).
+ *
+ * {@linkcode open} is written before the first entry (followed by a new line when pretty printing), {@linkcode sep} before the others.
+ */
+abstract class DebugInner {
+  protected hasFields=false;
+
+  constructor(protected readonly fmt: Formatter) {}
+
+  protected push(open: string,sep: string,write: Write) {
+    if(this.fmt.alternate()) {
+      const inner=this.fmt.nested();
+      write(inner);
+
+      this.fmt.writeStr(`${this.hasFields?"":`${open}\n`}    ${inner.toString().replaceAll("\n","\n    ")},\n`);
+    } else {
+      this.fmt.writeStr(this.hasFields?sep:open);
+      write(this.fmt);
+    }
+
+    this.hasFields=true;
+  }
+}
+
+
+/**
+ * A struct to help with {@linkcode Debug} implementations, created by {@linkcode Formatter.debugStruct}.
+ *
+ * It renders `Name { a: 1, b: 2 }`, or `{ a: 1, b: 2 }` without a name.
+ */
+export class DebugStruct extends DebugInner {
+  constructor(fmt: Formatter,private readonly name: string) {
+    super(fmt);
+    fmt.writeStr(name);
+  }
+
+  /** Adds a new field to the generated struct output. */
+  public field(name: string,value: unknown): this {
+    return this.fieldWith(name,f=> $debug(value,f));
+  }
+
+  /** Adds a new field to the generated struct output, formatted by {@linkcode write}. */
+  public fieldWith(name: string,write: Write): this {
+    this.push(this.name?" {":"{",",",f=> {
+      f.writeStr(this.fmt.alternate()?`${name}: `:` ${name}: `);
+      write(f);
+    });
+
+    return this;
+  }
+
+  /** Finishes output, the struct is rendered as its name alone when it has no fields. */
+  public finish() {
+    if(this.hasFields) this.fmt.writeStr(this.fmt.alternate()?"}":" }");
+    else if(!this.name) this.fmt.writeStr("{}");
+  }
+
+  /** Marks the struct as non-exhaustive, indicating to the reader that there are some other fields that are not shown. */
+  public finishNonExhaustive() {
+    if(this.fmt.alternate()) {
+      this.fmt.writeStr(this.hasFields?"    ..\n}":`${this.name?" ":""}{\n    ..\n}`);
+      return;
+    }
+
+    this.fmt.writeStr(this.hasFields?", .. }":`${this.name?" ":""}{ .. }`);
+  }
+}
+
+
+/**
+ * A struct to help with {@linkcode Debug} implementations, created by {@linkcode Formatter.debugTuple}.
+ *
+ * It renders `Name(1, 2)`, or `(1, 2)` without a name.
+ */
+export class DebugTuple extends DebugInner {
+  #fields=0;
+
+  constructor(fmt: Formatter,private readonly name: string) {
+    super(fmt);
+    fmt.writeStr(name);
+  }
+
+  /** Adds a new field to the generated tuple struct output. */
+  public field(value: unknown): this {
+    return this.fieldWith(f=> $debug(value,f));
+  }
+
+  /** Adds a new field to the generated tuple struct output, formatted by {@linkcode write}. */
+  public fieldWith(write: Write): this {
+    this.push("(",", ",write);
+    this.#fields++;
+
+    return this;
+  }
+
+  /** Finishes output, the tuple is rendered as its name alone when it has no fields. */
+  public finish() {
+    if(!this.hasFields) {
+      if(!this.name) this.fmt.writeStr("()");
+      return;
+    }
+
+    // A tuple of a single element needs a trailing comma, to tell it from a parenthesized value.
+    if(this.#fields===1 && !this.name && !this.fmt.alternate()) this.fmt.writeStr(",");
+    this.fmt.writeStr(")");
+  }
+}
+
+
+/**
+ * A struct to help with {@linkcode Debug} implementations, created by {@linkcode Formatter.debugList}.
+ *
+ * It renders `[1, 2]`.
+ */
+export class DebugList extends DebugInner {
+  constructor(fmt: Formatter) {
+    super(fmt);
+    fmt.writeStr("[");
+  }
+
+  /** Adds a new entry to the list output. */
+  public entry(value: unknown): this {
+    return this.entryWith(f=> $debug(value,f));
+  }
+
+  /** Adds a new entry to the list output, formatted by {@linkcode write}. */
+  public entryWith(write: Write): this {
+    this.push("",", ",write);
+    return this;
+  }
+
+  /** Adds the contents of an iterator of entries to the list output. */
+  public entries(entries: Iterable<unknown>): this {
+    for(const entry of entries) this.entry(entry);
+    return this;
+  }
+
+  /** Finishes output. */
+  public finish() {
+    this.fmt.writeStr("]");
+  }
+}
+
+
+/**
+ * A struct to help with {@linkcode Debug} implementations, created by {@linkcode Formatter.debugSet}.
+ *
+ * It renders `{1, 2}`.
+ */
+export class DebugSet extends DebugInner {
+  constructor(fmt: Formatter) {
+    super(fmt);
+    fmt.writeStr("{");
+  }
+
+  /** Adds a new entry to the set output. */
+  public entry(value: unknown): this {
+    return this.entryWith(f=> $debug(value,f));
+  }
+
+  /** Adds a new entry to the set output, formatted by {@linkcode write}. */
+  public entryWith(write: Write): this {
+    this.push("",", ",write);
+    return this;
+  }
+
+  /** Adds the contents of an iterator of entries to the set output. */
+  public entries(entries: Iterable<unknown>): this {
+    for(const entry of entries) this.entry(entry);
+    return this;
+  }
+
+  /** Finishes output. */
+  public finish() {
+    this.fmt.writeStr("}");
+  }
+}
+
+
+/**
+ * A struct to help with {@linkcode Debug} implementations, created by {@linkcode Formatter.debugMap}.
+ *
+ * It renders `{"a": 1, "b": 2}`.
+ */
+export class DebugMap extends DebugInner {
+  constructor(fmt: Formatter) {
+    super(fmt);
+    fmt.writeStr("{");
+  }
+
+  /** Adds a new entry to the map output. */
+  public entry(key: unknown,value: unknown): this {
+    return this.entryWith(f=> $debug(key,f),f=> $debug(value,f));
+  }
+
+  /** Adds a new entry to the map output, its key and value are formatted by {@linkcode writeKey} and {@linkcode writeValue}. */
+  public entryWith(writeKey: Write,writeValue: Write): this {
+    this.push("",", ",f=> {
+      writeKey(f);
+      f.writeStr(": ");
+      writeValue(f);
+    });
+
+    return this;
+  }
+
+  /** Adds the contents of an iterator of key-value pairs to the map output. */
+  public entries(entries: Iterable<readonly [unknown,unknown]>): this {
+    for(const [key,value] of entries) this.entry(key,value);
+    return this;
+  }
+
+  /** Finishes output. */
+  public finish() {
+    this.fmt.writeStr("}");
+  }
+}
@@ -0,0 +1,181 @@
+// deno-lint-ignore-file no-explicit-any
+import type { Formatter } from "./formatter.ts";
+import { fmtNumber } from "./num.ts";
+
+
+/**
+ * The objects being formatted by {@linkcode $debug}, they're printed as `[Circular]` when they contain themselves.
+ */
+const SEEN=new Set<object>();
+
+const ESCAPES: Record<string,string>={ "\t": "\\t","\r": "\\r","\n": "\\n","\0": "\\0",'"': '\\"',"\\": "\\\\" };
+
+
+/**
+ * `?` formatting.
+ *
+ * {@linkcode Debug} should format the output in a programmer-facing, debugging context.
+ * Generally speaking, you should just `derive` a {@linkcode Debug} implementation.
+ *
+ * When used with the alternate format specifier `#?`, the output is pretty-printed.
+ *
+ * ### Derivable
+ * This trait can be used with `@derive` if all fields implement {@linkcode Debug} (or are plain values, see {@linkcode $debug}).
+ * When derived for classes, it will use the name of the class, then `{`, then a comma-separated list of each field's name and {@linkcode Debug} value, then `}`.
+ *
+ * #### How can I implement {@linkcode Debug}?
+```ts
+import { Debug,Formatter } from "std/fmt";
+
+class Point implements Debug {
+     constructor(public x: number,public y: number) {}
+
+     public fmtDebug(f: Formatter) {
+       f.debugStruct("Point").field("x",this.x).field("y",this.y).finish();
+     }
+}
+
+$assertEq($format("The origin is: {:?}", new Point(0, 0)), "The origin is: Point { x: 0, y: 0 }");
+$assertEq($format("{:#?}", new Point(0, 0)), `Point {
+    x: 0,
+    y: 0,
+}`);
+```
+ */
+export interface Debug {
+  /** Formats the value using the given formatter. */
+  fmtDebug(f: Formatter): void;
+}
+
+/**
+ * Format trait for an empty format, `{}`.
+ *
+ * Implementing this trait for a type will automatically make it printable with {@linkcode $format}, {@linkcode $println}...
+ *
+ * {@linkcode Display} is similar to {@linkcode Debug}, but {@linkcode Display} is for user-facing output, and so cannot be derived.
+ *
+ * #### How can I implement {@linkcode Display}?
+```ts
+import { Display,Formatter } from "std/fmt";
+
+class Point implements Display {
+     constructor(public x: number,public y: number) {}
+
+     public fmt(f: Formatter) {
+       $write(f, "({}, {})", this.x, this.y);
+     }
+}
+
+$assertEq($format("The origin is: {}", new Point(0, 0)), "The origin is: (0, 0)");
+```
+ */
+export interface Display {
+  /** Formats the value using the given formatter. */
+  fmt(f: Formatter): void;
+}
+
+
+/** Checks whether an object implements {@linkcode Debug} */
+export function $implsDebug(x: any): x is Debug {
+  return x!=null && typeof x.fmtDebug==="function";
+}
+
+/** Checks whether an object implements {@linkcode Display} */
+export function $implsDisplay(x: any): x is Display {
+  return x!=null && typeof x.fmt==="function";
+}
+
+/**
+ * Writes the {@linkcode Debug} representation of any value into {@linkcode f}, it's what `{:?}` does.
+ *
+ * * {@linkcode Debug} implementors format themselves.
+ * * Strings are quoted and escaped, other primitives are written as is (numbers honor the options of {@linkcode f}).
+ * * Native {@linkcode Map}s, {@linkcode Set}s and other iterables (arrays, typed arrays...) are written like `{k: v}`, `{a, b}` and `[a, b]`.
+ * * Other objects are written like structs: the name of their class followed by their own enumerable properties.
+ *
+ * ### Example
+```ts
+import { Formatter,$debug } from "std/fmt";
+
+const f = new Formatter();
+$debug({ xd: [6, "9"] }, f);
+
+$assertEq(f.toString(), '{ xd: [6, "9"] }');
+```
+ */
+export function $debug(value: unknown,f: Formatter) {
+  switch(typeof value) {
+    case "string": return f.writeStr(escapeDebug(value));
+    case "number":
+    case "bigint": return fmtNumber(value,f,f.debugHex().value??"");
+    case "function": return f.writeStr(`[Function: ${value.name || "(anonymous)"}]`);
+    case "boolean":
+    case "symbol":
+    case "undefined": return f.pad(String(value));
+  }
+
+  if(value===null) return f.pad("null");
+
+  const obj=value as object;
+  if(SEEN.has(obj)) return f.writeStr("[Circular]");
+
+  SEEN.add(obj);
+  try {
+    debugObject(obj,f);
+  } finally {
+    SEEN.delete(obj);
+  }
+}
+
+/**
+ * Writes the {@linkcode Display} representation of any value into {@linkcode f}, it's what `{}` does.
+ *
+ * {@linkcode Display} implementors format themselves, numbers honor the options of {@linkcode f}
+ * and anything else is converted with {@linkcode String} then {@linkcode Formatter.pad padded}.
+ */
+export function $display(value: unknown,f: Formatter) {
+  if($implsDisplay(value)) return value.fmt(f);
+
+  switch(typeof value) {
+    case "number":
+    case "bigint": return fmtNumber(value,f,"");
+    default: f.pad(String(value));
+  }
+}
+
+
+function debugObject(value: object,f: Formatter) {
+  if($implsDebug(value)) return value.fmtDebug(f);
+  if(value instanceof Map) return f.debugMap().entries(value).finish();
+  if(value instanceof Set) return f.debugSet().entries(value).finish();
+  if(Symbol.iterator in value) return f.debugList().entries(value as Iterable<unknown>).finish();
+  if(value instanceof Date) return f.pad(value.toISOString());
+
+  const obj=value as any;
+  const struct=f.debugStruct(obj.constructor===Object || !obj.constructor?"":obj.constructor.name);
+
+  if(value instanceof Error) {
+    struct.field("message",value.message);
+    if(value.cause!==undefined) struct.field("cause",value.cause);
+
+    return struct.finish();
+  }
+
+  for(const key in obj) {
+    if(Object.hasOwn(obj,key)) struct.field(key,obj[key]);
+  }
+
+  for(const sym of Object.getOwnPropertySymbols(obj)) struct.field(`[${sym.description??""}]`,obj[sym]);
+  struct.finish();
+}
+
+/** Quotes {@linkcode s} and escapes it like Rust does. */
+function escapeDebug(s: string): string {
+  let escaped='"';
+  for(const char of s) {
+    const code=char.codePointAt(0)!;
+    escaped+=ESCAPES[char]??(code<0x20 || code===0x7f?`\\u{${code.toString(16)}}`:char);
+  }
+
+  return escaped+'"';
+}
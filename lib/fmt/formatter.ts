@@ -0,0 +1,260 @@
+import { Enum } from "../types.ts";
+import { Option } from "../error/option/option.ts";
+import { DebugStruct,DebugTuple,DebugList,DebugSet,DebugMap } from "./builders.ts";
+
+
+export type Alignment=Enum<typeof Alignment>;
+/** Possible alignments returned by {@linkcode Formatter.align}. */
+export const Alignment={
+  /** Indication that contents should be left-aligned, `<`. */
+  Left: 0,
+  /** Indication that contents should be right-aligned, `>`. */
+  Right: 1,
+  /** Indication that contents should be center-aligned, `^`. */
+  Center: 2,
+} as const;
+
+/**
+ * The options of a {@linkcode Formatter}, parsed from the format spec of a placeholder like `{:*^+#08.2?}` by {@linkcode $format}.
+ */
+export interface FormatSpec {
+  /** The character used to pad the value up to the {@linkcode width}, a space by default. */
+  fill?: string;
+  align?: Alignment;
+  /** The `+` flag, numbers always print their sign. */
+  signPlus?: boolean;
+  /** The `-` flag, currently unused like in Rust. */
+  signMinus?: boolean;
+  /** The `#` flag, for the alternate form: pretty printed {@linkcode Debug} output, `0x` prefixes... */
+  alternate?: boolean;
+  /** The `0` flag, numbers are padded with zeros after their sign and prefix. */
+  signAwareZeroPad?: boolean;
+  width?: number;
+  precision?: number;
+  /** The numbers of the {@linkcode Debug} output are printed in hex, set by the `x?` and `X?` types. */
+  debugHex?: "x"|"X";
+}
+
+
+/**
+ * Configuration for formatting, it's what {@linkcode Debug} and {@linkcode Display} implementations write into.
+ *
+ * A {@linkcode Formatter} represents the options of a placeholder of {@linkcode $format} (its width, fill, precision...),
+ * the implementations can honor them with helpers like {@linkcode pad}, or ignore them and just {@linkcode writeStr}.
+ *
+ * ### Examples
+```ts
+import { Formatter,Display } from "std/fmt";
+
+class Length implements Display {
+     constructor(private readonly meters: number) {}
+
+     public fmt(f: Formatter) {
+       f.pad(`${this.meters}m`);
+     }
+}
+
+$assertEq($format("[{:>6}]", new Length(5)), "[    5m]");
+```
+ */
+export class Formatter {
+  #buf="";
+
+  constructor(private readonly spec: FormatSpec={}) {}
+
+  /** Writes some data to the underlying buffer, ignoring the options of the formatter. */
+  public writeStr(data: string) {
+    this.#buf+=data;
+  }
+
+  /**
+   * Writes {@linkcode s} while honoring the options of the formatter, it's how strings are displayed:
+   * * the {@linkcode precision} is the maximum number of characters written.
+   * * it's padded up to the {@linkcode width} with the {@linkcode fill} character, left-aligned by default.
+   */
+  public pad(s: string) {
+    const precision=this.spec.precision;
+    if(precision!=null) s=[...s].slice(0,precision).join("");
+
+    this.#padded(s,Alignment.Left);
+  }
+
+  /**
+   * Writes an already formatted number while honoring the options of the formatter, it's how numbers are displayed.
+   *
+   * * {@linkcode nonNegative} tells whether the number is positive or zero, the `-` sign is added otherwise (`+` with the `+` flag).
+   * * {@linkcode prefix} is only written in the alternate form, like `0x`.
+   * * {@linkcode digits} are the digits of the number, without its sign.
+   *
+   * The number is right-aligned by default, the `0` flag pads it with zeros between the sign and the digits.
+   */
+  public padIntegral(nonNegative: boolean,prefix: string,digits: string) {
+    const sign=!nonNegative?"-":this.spec.signPlus?"+":"";
+    const head=sign+(this.spec.alternate?prefix:"");
+
+    if(!this.spec.signAwareZeroPad) return this.#padded(head+digits,Alignment.Right);
+
+    this.#buf+=head;
+    this.#buf+=digits.padStart((this.spec.width??0)-length(head),"0");
+  }
+
+  /** The character used as fill whenever there is alignment, a space by default. */
+  public fill(): string {
+    return this.spec.fill??" ";
+  }
+
+  /** Returns the alignment requested by the format spec, if any. */
+  public align(): Option<Alignment> {
+    return new Option(this.spec.align??null);
+  }
+
+  /** Returns the minimum width the output should be, if any. */
+  public width(): Option<number> {
+    return new Option(this.spec.width??null);
+  }
+
+  /**
+   * Returns the precision requested by the format spec, if any.
+   *
+   * It's the maximum width of strings and the number of digits after the decimal point of numbers.
+   */
+  public precision(): Option<number> {
+    return new Option(this.spec.precision??null);
+  }
+
+  /** Determines if the `+` flag was specified. */
+  public signPlus(): boolean {
+    return this.spec.signPlus??false;
+  }
+
+  /** Determines if the `-` flag was specified. */
+  public signMinus(): boolean {
+    return this.spec.signMinus??false;
+  }
+
+  /** Determines if the `#` flag was specified, {@linkcode Debug} output is pretty printed in the alternate form. */
+  public alternate(): boolean {
+    return this.spec.alternate??false;
+  }
+
+  /** Determines if the `0` flag was specified. */
+  public signAwareZeroPad(): boolean {
+    return this.spec.signAwareZeroPad??false;
+  }
+
+  /** Returns the hex case requested by the `x?` and `X?` types, numbers of {@linkcode Debug} output are printed in hex then. */
+  public debugHex(): Option<"x"|"X"> {
+    return new Option(this.spec.debugHex??null);
+  }
+
+  /**
+   * Creates a {@linkcode DebugStruct} builder designed to assist with creation of {@linkcode Debug} implementations for structs.
+   *
+   * ### Examples
+  ```ts
+  import { Formatter,Debug } from "std/fmt";
+
+  class Foo implements Debug {
+       constructor(private readonly bar: number,private readonly baz: string) {}
+
+       public fmtDebug(f: Formatter) {
+         f.debugStruct("Foo").field("bar",this.bar).field("baz",this.baz).finish();
+       }
+  }
+
+  $assertEq($format("{:?}", new Foo(10, "Hello World")), 'Foo { bar: 10, baz: "Hello World" }');
+  ```
+   */
+  public debugStruct(name: string): DebugStruct {
+    return new DebugStruct(this,name);
+  }
+
+  /**
+   * Creates a {@linkcode DebugTuple} builder designed to assist with creation of {@linkcode Debug} implementations for tuple structs.
+   *
+   * ### Examples
+  ```ts
+  $assertEq($format("{:?}", Some(10)), "Some(10)");
+  ```
+   */
+  public debugTuple(name: string): DebugTuple {
+    return new DebugTuple(this,name);
+  }
+
+  /**
+   * Creates a {@linkcode DebugList} builder designed to assist with creation of {@linkcode Debug} implementations for list-like structures.
+   *
+   * ### Examples
+  ```ts
+  $assertEq($format("{:?}", $vec(10, 11)), "[10, 11]");
+  ```
+   */
+  public debugList(): DebugList {
+    return new DebugList(this);
+  }
+
+  /**
+   * Creates a {@linkcode DebugSet} builder designed to assist with creation of {@linkcode Debug} implementations for set-like structures.
+   *
+   * ### Examples
+  ```ts
+  $assertEq($format("{:?}", new Set([10, 11])), "{10, 11}");
+  ```
+   */
+  public debugSet(): DebugSet {
+    return new DebugSet(this);
+  }
+
+  /**
+   * Creates a {@linkcode DebugMap} builder designed to assist with creation of {@linkcode Debug} implementations for map-like structures.
+   *
+   * ### Examples
+  ```ts
+  $assertEq($format("{:?}", new Map([["A", 10]])), '{"A": 10}');
+  ```
+   */
+  public debugMap(): DebugMap {
+    return new DebugMap(this);
+  }
+
+  /** Returns an empty formatter with the same options, the builders format the fields of pretty printed values with it to indent them. */
+  public nested(): Formatter {
+    return new Formatter(this.spec);
+  }
+
+  /** Returns everything written so far. */
+  public toString(): string {
+    return this.#buf;
+  }
+
+  #padded(s: string,align: Alignment) {
+    const padding=Math.max((this.spec.width??0)-length(s),0);
+    if(!padding) {
+      this.#buf+=s;
+      return;
+    }
+
+    const fill=this.fill();
+    switch(this.spec.align??align) {
+      case Alignment.Left:
+        this.#buf+=s+fill.repeat(padding);
+        break;
+      case Alignment.Right:
+        this.#buf+=fill.repeat(padding)+s;
+        break;
+      case Alignment.Center: {
+        const pre=Math.floor(padding/2);
+        this.#buf+=fill.repeat(pre)+s+fill.repeat(padding-pre);
+      }
+    }
+  }
+}
+
+
+/** The number of characters (not UTF-16 code units) of {@linkcode s}. */
+function length(s: string): number {
+  let len=0;
+  for(const _ of s) len++;
+
+  return len;
+}
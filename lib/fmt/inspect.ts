@@ -0,0 +1,112 @@
+/** The function passed to `Deno.customInspect`, it's {@linkcode Deno.inspect}. */
+export type Inspect=typeof Deno.inspect;
+
+/** The options passed to `Deno.customInspect`, {@linkcode currentDepth} is how deep the inspected value is nested. */
+export interface InspectOptions extends Deno.InspectOptions {
+  currentDepth?: number;
+  indentationLvl?: number;
+}
+
+/** The key of the method {@linkcode Deno.inspect} (and so `console.log` and the REPL) calls to render an object. */
+export const customInspect=Symbol.for("Deno.customInspect");
+
+const INDENT="  ";
+// deno-lint-ignore no-control-regex
+const ANSI=/\x1b\[[\d;]*m/g;
+
+
+/**
+ * Renders a collection like `name [a, b]` (or `name {a, b}`), each element being rendered by {@linkcode item}.
+ *
+ * Once the max depth is reached, it's rendered as `[name]`, and only the first `iterableLimit` elements are shown.
+ */
+export function inspectIter<T>(
+  name: string,
+  brackets: "[]"|"{}",
+  iter: Iterable<T>,
+  inspect: Inspect,
+  options: InspectOptions,
+  item: (value: T,options: InspectOptions)=> string=(value,options)=> inspect(value,options)
+): string {
+  const nested=nestedOptions(options);
+  if(!nested) return `[${name}]`;
+
+  const limit=options.iterableLimit??100;
+  const parts: string[]=[];
+  let more=0;
+
+  for(const value of iter) {
+    if(parts.length<limit) parts.push(item(value,nested));
+    else more++;
+  }
+
+  if(more) parts.push(`... ${more} more item${more===1?"":"s"}`);
+  return group(`${name} ${brackets[0]}`,parts,brackets[1],"",options);
+}
+
+/** Renders a map like `name {k: v}`. */
+export function inspectMap(name: string,iter: Iterable<readonly [unknown,unknown]>,inspect: Inspect,options: InspectOptions): string {
+  return inspectIter(name,"{}",iter,inspect,options,([key,value],options)=> `${inspect(key,options)}: ${inspect(value,options)}`);
+}
+
+/** Renders a tuple struct like `name(a, b)`, or `[name]` once the max depth is reached. */
+export function inspectTuple(name: string,fields: unknown[],inspect: Inspect,options: InspectOptions): string {
+  const nested=nestedOptions(options);
+  if(!nested) return `[${name}]`;
+
+  return group(`${name}(`,fields.map(field=> inspect(field,nested)),")","",options);
+}
+
+/** Renders a struct like `name { a: 1, b: 2 }`, or `[name]` once the max depth is reached. */
+export function inspectStruct(name: string,fields: Record<string,unknown>,inspect: Inspect,options: InspectOptions): string {
+  const nested=nestedOptions(options);
+  if(!nested) return `[${name}]`;
+
+  const parts=Object.entries(fields).map(([key,value])=> `${key}: ${inspect(value,nested)}`);
+  return group(`${name} {`,parts,"}"," ",options);
+}
+
+
+/**
+ * Returns the options to inspect the children of a value, or `undefined` when they're past the max depth.
+ *
+ * A nested `inspect` call starts counting its depth from 0 again, so the depth left is passed instead.
+ */
+function nestedOptions(options: InspectOptions): InspectOptions|undefined {
+  const depth=(options.depth??4)-(options.currentDepth??0);
+  return depth<0?undefined:{ ...options,depth: depth-1 };
+}
+
+/** Joins {@linkcode parts} on a single line, or one per indented line when they don't fit in `breakLength`. */
+function group(open: string,parts: string[],close: string,pad: string,options: InspectOptions): string {
+  if(parts.length===0) return `${open}${close}`;
+
+  const line=`${open}${pad}${parts.join(", ")}${pad}${close}`;
+  const width=(options.indentationLvl??0)+line.replace(ANSI,"").length;
+  const breakLength=options.breakLength??80;
+  if(width<=breakLength && !line.includes("\n")) return line;
+
+  // Like Deno does for arrays, many single line parts are packed on as few lines as possible.
+  const lines=parts.length>6 && !parts.some(part=> part.includes("\n"))?pack(parts,breakLength-INDENT.length):parts;
+  return `${open}\n${lines.map(line=> INDENT+line.replaceAll("\n",`\n${INDENT}`)).join(",\n")}\n${close}`;
+}
+
+function pack(parts: string[],width: number): string[] {
+  const lines: string[]=[];
+  let line="",lineWidth=0;
+
+  for(const part of parts) {
+    const partWidth=part.replace(ANSI,"").length;
+
+    if(line && lineWidth+partWidth+2>width) {
+      lines.push(line);
+      line="";
+    }
+
+    lineWidth=line?lineWidth+partWidth+2:partWidth;
+    line=line?`${line}, ${part}`:part;
+  }
+
+  lines.push(line);
+  return lines;
+}
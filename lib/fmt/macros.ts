@@ -0,0 +1,225 @@
+import type { Write } from "../io/write.ts";
+import type { IoResult } from "../io/error.ts";
+import { $panic } from "../declarative-macros/panics.ts";
+import { Formatter,FormatSpec,Alignment } from "./formatter.ts";
+import { $debug,$display } from "./fmt.ts";
+import { fmtNumber,NumberType } from "./num.ts";
+
+
+type Type=NumberType|"?";
+
+/** A placeholder of a format string, its width and precision may be arguments (`{:1$}`, `{:.*}`). */
+interface Placeholder {
+  arg: number;
+  spec: FormatSpec;
+  type: Type;
+  width?: number;
+  precision?: number;
+}
+
+const SPEC=/^(?:(.)?([<^>]))?([+-])?(#)?(0(?!\$))?(?:(\d+)(\$)?)?(?:\.(?:(\d+)(\$)?|(\*)))?(x\?|X\?|\?|[xXobeE])?$/su;
+
+const encoder=new TextEncoder();
+
+
+/**
+ * Creates a string using interpolation of runtime expressions, like Rust's `format!`.
+ *
+ * Each `{}` of the format string is replaced by the next argument, `{{` and `}}` escape the braces.
+ * A placeholder may pick its argument by position (`{0}`) and take a format spec after a colon, with the syntax of Rust:
+ * `{:[[fill]align][sign][#][0][width][.precision][type]}`.
+ *
+ * * `align` is `<`, `^` or `>`, the value is padded with `fill` (a space by default) up to `width`.
+ * * `sign` is `+` to always print the sign of numbers, `#` selects the alternate form and `0` pads numbers with zeros.
+ * * `width` and `precision` are numbers, or arguments like `1$` (`.*` takes the precision from the next argument).
+ * * `type` is empty for {@linkcode Display}, `?` for {@linkcode Debug} (`#?` pretty prints it), `x?`/`X?` for {@linkcode Debug} with numbers in hex,
+ * or one of `x`, `X`, `o`, `b`, `e` and `E` for numbers.
+ *
+ * Named arguments (`{name}`) aren't supported since JavaScript can't capture variables.
+ *
+ * # Panics
+ * Panics if the format string is invalid or if an argument is missing.
+ *
+ * ### Examples
+```ts
+$assertEq($format("test"), "test");
+$assertEq($format("hello {}", "world!"), "hello world!");
+$assertEq($format("x = {}, y = {1:?}", 10, "30"), 'x = 10, y = "30"');
+$assertEq($format("{:>8.2}|{:<5}|{:^5}|", Math.PI, "ab", "cd"), "    3.14|ab   | cd  |");
+$assertEq($format("{:#x} {:08b} {:+}", 255, 5, 1), "0xff 00000101 +1");
+$assertEq($format("{:?}", $vec(Some(1), None())), "[Some(1), None]");
+```
+ */
+export function $format(fmt: string,...args: unknown[]): string {
+  let out="",next=0;
+
+  for(let i=0;i<fmt.length;i++) {
+    const char=fmt[i];
+
+    if(char==="}") {
+      if(fmt[i+1]!=="}") invalid(fmt,"unmatched `}` found");
+
+      out+="}";
+      i++;
+      continue;
+    }
+
+    if(char!=="{") {
+      out+=char;
+      continue;
+    }
+
+    if(fmt[i+1]==="{") {
+      out+="{";
+      i++;
+      continue;
+    }
+
+    const end=fmt.indexOf("}",i);
+    if(end<0) invalid(fmt,"expected `}` but string was terminated");
+
+    const placeholder=parse(fmt,fmt.slice(i+1,end),()=> next++);
+    out+=render(placeholder,args);
+    i=end;
+  }
+
+  return out;
+}
+
+/** Prints to the standard output, see {@linkcode $format} for the syntax. */
+export function $print(fmt: string,...args: unknown[]) {
+  writeAll(Deno.stdout,$format(fmt,...args));
+}
+
+/** Prints to the standard output with a newline, see {@linkcode $format} for the syntax. */
+export function $println(fmt="",...args: unknown[]) {
+  writeAll(Deno.stdout,`${$format(fmt,...args)}\n`);
+}
+
+/** Prints to the standard error, see {@linkcode $format} for the syntax. */
+export function $eprint(fmt: string,...args: unknown[]) {
+  writeAll(Deno.stderr,$format(fmt,...args));
+}
+
+/** Prints to the standard error with a newline, see {@linkcode $format} for the syntax. */
+export function $eprintln(fmt="",...args: unknown[]) {
+  writeAll(Deno.stderr,`${$format(fmt,...args)}\n`);
+}
+
+/**
+ * Writes formatted data into a {@linkcode Formatter} or an I/O {@linkcode Write}r, see {@linkcode $format} for the syntax.
+ *
+ * It's mostly used in {@linkcode Display} and {@linkcode Debug} implementations.
+ * Writing into a writer returns the {@linkcode IoResult} of {@linkcode Write.writeAllSync}.
+ *
+ * ### Examples
+```ts
+import { Display,Formatter } from "std/fmt";
+
+class Celsius implements Display {
+     constructor(private readonly degrees: number) {}
+
+     public fmt(f: Formatter) {
+       $write(f, "{:.1}°C", this.degrees);
+     }
+}
+
+$assertEq($format("{}", new Celsius(21.56)), "21.6°C");
+```
+ */
+export function $write(dst: Formatter,fmt: string,...args: unknown[]): void;
+export function $write(dst: Write,fmt: string,...args: unknown[]): IoResult<void>;
+export function $write(dst: Formatter|Write,fmt: string,...args: unknown[]): IoResult<void>|void {
+  const data=$format(fmt,...args);
+  return dst instanceof Formatter?dst.writeStr(data):dst.writeAllSync(encoder.encode(data));
+}
+
+/** Like {@linkcode $write}, with a newline appended. */
+export function $writeln(dst: Formatter,fmt?: string,...args: unknown[]): void;
+export function $writeln(dst: Write,fmt?: string,...args: unknown[]): IoResult<void>;
+export function $writeln(dst: Formatter|Write,fmt="",...args: unknown[]): IoResult<void>|void {
+  return $write(dst as Formatter,`${fmt}\n`,...args);
+}
+
+
+function parse(fmt: string,placeholder: string,nextArg: ()=> number): Placeholder {
+  const colon=placeholder.indexOf(":");
+  const arg=colon<0?placeholder:placeholder.slice(0,colon);
+  const spec=colon<0?"":placeholder.slice(colon+1);
+
+  if(arg && !/^\d+$/.test(arg)) invalid(fmt,`invalid argument \`${arg}\`, named arguments aren't supported`);
+
+  const match=SPEC.exec(spec);
+  if(!match) invalid(fmt,`invalid format spec \`${spec}\``);
+
+  const [,fill,align,sign,alternate,zero,width,widthArg,precision,precisionArg,asterisk,type=""]=match;
+  const res: Placeholder={
+    arg: 0,
+    type: type.endsWith("?")?"?":type as NumberType,
+    spec: {
+      fill,
+      align: align?alignment(align):undefined,
+      signPlus: sign==="+",
+      signMinus: sign==="-",
+      alternate: !!alternate,
+      signAwareZeroPad: !!zero,
+      debugHex: type.length===2?type[0] as "x"|"X":undefined,
+    }
+  };
+
+  if(width!=null) {
+    if(widthArg) res.width=Number(width);
+    else res.spec.width=Number(width);
+  }
+
+  // `.*` takes the precision from the next argument, before the value itself.
+  if(asterisk) res.precision=nextArg();
+  else if(precision!=null) {
+    if(precisionArg) res.precision=Number(precision);
+    else res.spec.precision=Number(precision);
+  }
+
+  res.arg=arg?Number(arg):nextArg();
+  return res;
+}
+
+function render({ arg,spec,type,width,precision }: Placeholder,args: unknown[]): string {
+  if(width!=null) spec.width=count(args,width);
+  if(precision!=null) spec.precision=count(args,precision);
+
+  const value=argument(args,arg);
+  const f=new Formatter(spec);
+
+  if(type==="") $display(value,f);
+  else if(type==="?") $debug(value,f);
+  else if(typeof value==="number" || typeof value==="bigint") fmtNumber(value,f,type);
+  else $panic(`\`${type}\` formatting is only supported for numbers, got \`${typeof value}\``);
+
+  return f.toString();
+}
+
+function argument(args: unknown[],index: number): unknown {
+  if(index>=args.length) $panic(`invalid reference to positional argument ${index} (there ${args.length===1?"is 1 argument":`are ${args.length} arguments`})`);
+  return args[index];
+}
+
+function count(args: unknown[],index: number): number {
+  const count=argument(args,index);
+  if(typeof count!=="number" || !Number.isInteger(count) || count<0) $panic(`expected a width or precision at argument ${index}, got \`${String(count)}\``);
+
+  return count;
+}
+
+// Not a lookup table: `Alignment` may still be uninitialized when this module is evaluated.
+function alignment(align: string): Alignment {
+  return align==="<"?Alignment.Left:align===">"?Alignment.Right:Alignment.Center;
+}
+
+function invalid(fmt: string,reason: string): never {
+  $panic(`invalid format string \`${fmt}\`: ${reason}`);
+}
+
+function writeAll(writer: typeof Deno.stdout,data: string) {
+  const buf=encoder.encode(data);
+  for(let written=0;written<buf.length;) written+=writer.writeSync(buf.subarray(written));
+}
@@ -0,0 +1,4 @@
+export * from "./fmt.ts";
+export * from "./formatter.ts";
+export * from "./builders.ts";
+export * from "./macros.ts";
@@ -0,0 +1,42 @@
+import type { Formatter } from "./formatter.ts";
+
+
+/** The formatting traits of numbers, `""` is {@linkcode Display}. */
+export type NumberType=""|"x"|"X"|"o"|"b"|"e"|"E";
+
+const RADIX={ x: [16,"0x"],X: [16,"0x"],o: [8,"0o"],b: [2,"0b"] } as const;
+
+
+/** Formats {@linkcode value} according to {@linkcode type} and the options of {@linkcode f}. */
+export function fmtNumber(value: number|bigint,f: Formatter,type: NumberType) {
+  if(typeof value==="number" && !Number.isFinite(value)) {
+    return Number.isNaN(value)?f.pad("NaN"):f.padIntegral(value>0,"","inf");
+  }
+
+  // `-0` is negative too.
+  const nonNegative=value>0 || (value==0 && !Object.is(value,-0));
+  const abs=nonNegative?value:-value;
+  const precision=f.precision().value??undefined;
+
+  switch(type) {
+    case "x":
+    case "X":
+    case "o":
+    case "b": {
+      const [radix,prefix]=RADIX[type];
+      const digits=abs.toString(radix);
+
+      return f.padIntegral(nonNegative,prefix,type==="X"?digits.toUpperCase():digits);
+    }
+    case "e":
+    case "E": {
+      const digits=Number(abs).toExponential(precision).replace("e+","e");
+
+      return f.padIntegral(nonNegative,"",type==="E"?digits.toUpperCase():digits);
+    }
+  }
+
+  const digits=typeof abs==="number" && precision!=null?abs.toFixed(precision):abs.toString();
+
+  f.padIntegral(nonNegative,"",digits);
+}
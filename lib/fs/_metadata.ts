@@ -1,5 +1,6 @@
 import { Metadata } from "../../std/fs.ts";
 import { Option } from "../error/mod.ts";
+import { SystemTime } from "../time/system_time.ts";
 
 
 export function parseMetadata({
@@ -42,6 +43,9 @@ export function parseMetadata({
     isFifo: new Option(isFifo),
     isSocket: new Option(isSocket),
     mtime: new Option(mtime),
+    modified: new Option(mtime).map(SystemTime.fromDate),
+    accessed: new Option(atime).map(SystemTime.fromDate),
+    created: new Option(birthtime).map(SystemTime.fromDate),
     nlink: new Option(nlink),
     rdev: new Option(rdev),
     uid: new Option(uid)
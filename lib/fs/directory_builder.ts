@@ -1,4 +1,4 @@
-import { PathBuf } from '../path.ts';
+import { PathLike } from '../path/path.ts';
 import { createDirSync,createDir } from './mod.ts';
 
 /**
@@ -22,7 +22,7 @@ export class DirBuilder {
    * $assert(fs.metadata(path).unwrap().isDirectory);
    * ```
    */
-  public static create(path: PathBuf,options: Deno.MkdirOptions) {
+  public static create(path: PathLike,options: Deno.MkdirOptions) {
     return createDir(path,options);
   }
 
@@ -42,7 +42,7 @@ export class DirBuilder {
    * $assert(fs.metadata(path).unwrap().isDirectory);
    * ```
    */
-  public static createSync(path: PathBuf,options: Deno.MkdirOptions) {
+  public static createSync(path: PathLike,options: Deno.MkdirOptions) {
     return createDirSync(path,options);
   }
 }
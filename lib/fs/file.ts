@@ -1,6 +1,12 @@
 import { $result,$resultSync,Err } from "../error/result/mod.ts";
 import { SeekFrom,FileTimes } from "./types.ts";
 import { Drop } from "../drop.ts";
+import { AsyncIteratorTrait,AsyncIter } from "../iter/async_iter.ts";
+import { customInspect,inspectStruct,Inspect,InspectOptions } from "../fmt/inspect.ts";
+import { SystemTime } from "../time/system_time.ts";
+import { PathLike } from "../path/path.ts";
+import { toNative } from "../path/util.ts";
+import { OpenOptions } from "./open_options.ts";
 
 
 /**
@@ -41,17 +47,21 @@ const str=await file.readToString().unwrap();
  */
 export class FsFile extends Drop implements Disposable {
   private constructor(private inner: Deno.FsFile) {
-    super();
+    super(inner);
   }
 
-  protected drop(): void {
-    this.inner[Symbol.dispose]();
+  protected drop(inner=this.inner): void {
+    inner[Symbol.dispose]();
   }
 
   [Symbol.dispose]() {
     this.inner[Symbol.dispose]();
   }
 
+  [customInspect](inspect: Inspect,options: InspectOptions): string {
+    return inspectStruct("FsFile",{},inspect,options);
+  }
+
   /**
    * Opens a file in `read-write` mode.
    * 
@@ -70,8 +80,8 @@ export class FsFile extends Drop implements Disposable {
   ```
    * * **Requires**: `allow-read` and `allow-write` permission to {@linkcode path}
    */
-  public static create(path: string) {
-    return $result(async ()=> new FsFile(await Deno.create(path)));
+  public static create(path: PathLike) {
+    return $result(async ()=> new FsFile(await Deno.create(toNative(path))));
   }
   
   /**
@@ -92,8 +102,8 @@ export class FsFile extends Drop implements Disposable {
   ```
    * * **Requires**: `allow-read` and `allow-write` permission to {@linkcode path}
    */
-  public static createSync(path: string) {
-    return $resultSync(()=> new FsFile(Deno.createSync(path)));
+  public static createSync(path: PathLike) {
+    return $resultSync(()=> new FsFile(Deno.createSync(toNative(path))));
   }
 
   /**
@@ -118,8 +128,8 @@ export class FsFile extends Drop implements Disposable {
   ```
    * * **Requires**: `allow-read` and/or `allow-write` permissions depending on {@linkcode options}
    */
-  public static open(path: string,options?: Deno.OpenOptions) {
-    return $result(async ()=> new FsFile(await Deno.open(path,options)));
+  public static open(path: PathLike,options?: Deno.OpenOptions) {
+    return $result(async ()=> new FsFile(await Deno.open(toNative(path),options)));
   }
   
   /**
@@ -144,8 +154,24 @@ export class FsFile extends Drop implements Disposable {
   ```
    * * **Requires**: `allow-read` and/or `allow-write` permissions depending on {@linkcode options}
    */
-  public static openSync(path: string,options?: Deno.OpenOptions) {
-    return $resultSync(()=> new FsFile(Deno.openSync(path,options)));
+  public static openSync(path: PathLike,options?: Deno.OpenOptions) {
+    return $resultSync(()=> new FsFile(Deno.openSync(toNative(path),options)));
+  }
+
+  /**
+   * Creates a blank new set of options ready for configuration, all of them are initially set to `false`.
+   *
+   * It is equivalent to `new OpenOptions()`, but allows you to write more readable code.
+   *
+   * ### Examples
+  ```ts
+  import { FsFile } from "@std/fs";
+
+  const file = await FsFile.options().append(true).open("foo.txt").unwrap();
+  ```
+   */
+  public static options(): OpenOptions {
+    return new OpenOptions();
   }
 
   /**
@@ -166,6 +192,28 @@ export class FsFile extends Drop implements Disposable {
   public get readable() {
     return this.inner.readable;
   }
+
+  /**
+   * Returns an {@linkcode AsyncIteratorTrait} reading the file from the current cursor to the end, {@linkcode size} bytes at a time.
+   *
+   * Every chunk is a new {@linkcode Uint8Array} of at most {@linkcode size} bytes, only the last one may be shorter.
+   *
+   * ### Errors
+   * Read errors are returned by the terminal operations of the iterator (like {@linkcode AsyncIteratorTrait.fold}).
+   *
+   * ### Examples
+  ```ts
+  import { FsFile } from "@std/fs";
+
+  using file = await FsFile.open("my_file.txt").unwrap();
+  const size = await file.chunks(1024)
+  .fold(0, (size, chunk)=> size+chunk.length)
+  .unwrap();
+  ```
+   */
+  public chunks(size=16*1024): AsyncIteratorTrait<Uint8Array> {
+    return new AsyncIter(chunks(this.inner,size));
+  }
   
   /**
    * A {@linkcode WritableStream} instance to write the contents of the
@@ -377,11 +425,11 @@ export class FsFile extends Drop implements Disposable {
   const { accessed,modified } = await fs.metadata("src").unwrap();
   const dest = await FsFile.open("dest").unwrap();
 
-  await dest.setTimes({ accessed, modified }).unwrap();
+  await dest.setTimes({ accessed: accessed.unwrap(), modified: modified.unwrap() }).unwrap();
   ```
    */
-  public setTimes(times: FileTimes) {this.metadataSync().unwrap().atime;
-    return $result(()=> this.inner.utime(times.accessed,times.modified));
+  public setTimes(times: FileTimes) {
+    return $result(()=> this.inner.utime(toTime(times.accessed),toTime(times.modified)));
   }
 
   /**
@@ -398,11 +446,11 @@ export class FsFile extends Drop implements Disposable {
   const { accessed,modified } = fs.metadataSync("src").unwrap();
   const dest = FsFile.openSync("dest").unwrap();
 
-  dest.setTimesSync({ accessed, modified }).unwrap();
+  dest.setTimesSync({ accessed: accessed.unwrap(), modified: modified.unwrap() }).unwrap();
   ```
    */
   public setTimesSync(times: FileTimes) {
-    return $resultSync(()=> this.inner.utimeSync(times.accessed,times.modified));
+    return $resultSync(()=> this.inner.utimeSync(toTime(times.accessed),toTime(times.modified)));
   }
 
   /**
@@ -413,12 +461,12 @@ export class FsFile extends Drop implements Disposable {
   await file.setTimes({ accessed, modified }).unwrap();
   ```
    */
-  public setModified(modified: number|Date) {
+  public setModified(modified: number|Date|SystemTime) {
     return $result(async ()=> {
       const accessed=(await this.inner.stat()).atime;
       if(accessed===null) throw "couldn't fetch access-time";
 
-      await this.inner.utime(accessed,modified);
+      await this.inner.utime(accessed,toTime(modified));
     });
   }
 
@@ -430,12 +478,12 @@ export class FsFile extends Drop implements Disposable {
   file.setTimesSync({ accessed, modified }).unwrap();
   ```
    */
-  public setModifiedSync(modified: number|Date) {
+  public setModifiedSync(modified: number|Date|SystemTime) {
     return $resultSync(()=> {
       const accessed=this.inner.statSync().atime;
       if(accessed===null) throw "couldn't fetch access-time";
 
-      this.inner.utime(accessed,modified);
+      this.inner.utime(accessed,toTime(modified));
     });
   }
 
@@ -901,3 +949,28 @@ export class FsFile extends Drop implements Disposable {
 }
 
 
+
+
+async function *chunks(file: Deno.FsFile,size: number): AsyncGenerator<Uint8Array> {
+  if(size<=0) throw "Chunk size must be non-zero";
+
+  for(;;) {
+    const chunk=new Uint8Array(size);
+    let len=0;
+
+    while(len<size) {
+      const read=await file.read(chunk.subarray(len));
+      if(read===null) break;
+      len+=read;
+    }
+
+    if(len>0) yield len<size?chunk.slice(0,len):chunk;
+    if(len<size) return;
+  }
+}
+
+
+/** Converts a timestamp into one {@linkcode Deno.FsFile.utime} accepts. */
+function toTime(time: number|Date|SystemTime): number|Date {
+  return time instanceof SystemTime?time.toDate():time;
+}
@@ -1,12 +1,17 @@
 import { FsFile } from './file.ts';
-import { PathBuf } from '../path.ts';
+import { WalkDir } from './walk_dir.ts';
+import { Path,PathBuf,PathLike } from '../path/path.ts';
+import { toNative } from '../path/util.ts';
 import { Permission } from "./types.ts";
 import { parseMetadata } from "./_metadata.ts";
 import { $result,$resultSync } from '../error/result/mod.ts';
+import { AsyncIteratorTrait,AsyncIter } from "../iter/async_iter.ts";
 
 export * from "./file.ts";
 export * from "./types.ts";
 export * from "./directory_builder.ts";
+export * from "./open_options.ts";
+export * from "./walk_dir.ts";
 
 
 
@@ -28,8 +33,8 @@ export * from "./directory_builder.ts";
  * ```
  * * **Requires**: `allow-read` permission.
  */
-export function canonicalize(path: PathBuf) {
-  return $result(()=> Deno.realPath(path));
+export function canonicalize(path: PathLike) {
+  return $result(async ()=> new PathBuf(await Deno.realPath(toNative(path))));
 }
 
 /**
@@ -50,8 +55,8 @@ export function canonicalize(path: PathBuf) {
  * ```
  * * **Requires**: `allow-read` permission.
  */
-export function canonicalizeSync(path: PathBuf) {
-  return $resultSync(()=> Deno.realPathSync(path));
+export function canonicalizeSync(path: PathLike) {
+  return $resultSync(()=> new PathBuf(Deno.realPathSync(toNative(path))));
 }
 
 /**
@@ -76,8 +81,8 @@ await fs.copy("foo.txt", "bar.txt").unwrap();// Copy foo.txt to bar.txt
 ```
  * * **Requires**: `allow-read` permission on {@linkcode from} and `allow-write` permission on {@linkcode to}.
  */
-export function copy(from: PathBuf,to: PathBuf) {
-  return $result(()=> Deno.copyFile(from,to));
+export function copy(from: PathLike,to: PathLike) {
+  return $result(()=> Deno.copyFile(toNative(from),toNative(to)));
 }
 
 /**
@@ -102,8 +107,8 @@ fs.copySync("foo.txt", "bar.txt").unwrap();// Copy foo.txt to bar.txt
 ```
  * * **Requires**: `allow-read` permission on {@linkcode from} and `allow-write` permission on {@linkcode to}.
  */
-export function copySync(from: PathBuf,to: PathBuf) {
-  return $resultSync(()=> Deno.copyFileSync(from,to));
+export function copySync(from: PathLike,to: PathLike) {
+  return $resultSync(()=> Deno.copyFileSync(toNative(from),toNative(to)));
 }
 
 /**
@@ -128,8 +133,8 @@ export function copySync(from: PathBuf,to: PathBuf) {
  * ```
  * * **Requires**: `allow-write` permission.
  */
-export function createDir(path: PathBuf,options?: Deno.MkdirOptions) {
-  return $result(()=> Deno.mkdir(path,options));
+export function createDir(path: PathLike,options?: Deno.MkdirOptions) {
+  return $result(()=> Deno.mkdir(toNative(path),options));
 }
 
 /**
@@ -154,8 +159,8 @@ export function createDir(path: PathBuf,options?: Deno.MkdirOptions) {
  * ```
  * * **Requires**: `allow-write` permission.
  */
-export function createDirSync(path: PathBuf,options?: Deno.MkdirOptions) {
-  return $resultSync(()=> Deno.mkdirSync(path,options));
+export function createDirSync(path: PathLike,options?: Deno.MkdirOptions) {
+  return $resultSync(()=> Deno.mkdirSync(toNative(path),options));
 }
 
 /**
@@ -171,8 +176,8 @@ await fs.link("a.txt", "b.txt").unwrap();
 ```
  * * **Requires**: `allow-read` and `allow-write` permission.
  */
-export function link(original: string,link: string) {
-  return $result(()=> Deno.link(original,link));
+export function link(original: PathLike,link: PathLike) {
+  return $result(()=> Deno.link(Path.from(original).toString(),Path.from(link).toString()));
 }
 
 /**
@@ -188,8 +193,8 @@ fs.linkSync("a.txt", "b.txt").unwrap();
 ```
  * * **Requires**: `allow-read` and `allow-write` permission.
  */
-export function linkSync(original: string,link: string) {
-  return $resultSync(()=> Deno.linkSync(original,link));
+export function linkSync(original: PathLike,link: PathLike) {
+  return $resultSync(()=> Deno.linkSync(Path.from(original).toString(),Path.from(link).toString()));
 }
 
 /**
@@ -212,8 +217,8 @@ fs.metadata("/some/file/path.txt").unwrap();
 ```
  * * **Requires**: `allow-read` permission.
  */
-export function metadata(path: PathBuf) {
-  return $result(async ()=> parseMetadata(await Deno.stat(path)));
+export function metadata(path: PathLike) {
+  return $result(async ()=> parseMetadata(await Deno.stat(toNative(path))));
 }
 
 /**
@@ -236,8 +241,8 @@ fs.metadataSync("/some/file/path.txt").unwrap();
 ```
  * * **Requires**: `allow-read` permission.
  */
-export function metadataSync(path: PathBuf) {
-  return $resultSync(()=> Deno.statSync(path));
+export function metadataSync(path: PathLike) {
+  return $resultSync(()=> Deno.statSync(toNative(path)));
 }
 
 /**
@@ -258,8 +263,8 @@ const buff = await fs.readFile("address.txt").unwrap();
 ```
  * * **Requires**: `allow-read` permission.
  */
-export function readFile(path: PathBuf) {
-  return $result(()=> Deno.readFile(path));
+export function readFile(path: PathLike) {
+  return $result(()=> Deno.readFile(toNative(path)));
 }
 
 /**
@@ -280,17 +285,20 @@ const buff = fs.readFileSync("address.txt").unwrap();
 ```
  * * **Requires**: `allow-read` permission.
  */
-export function readFileSync(path: PathBuf) {
-  return $resultSync(()=> Deno.readFileSync(path));
+export function readFileSync(path: PathLike) {
+  return $resultSync(()=> Deno.readFileSync(toNative(path)));
 }
 
 /**
- * Returns an {@linkcode Result} of {@linkcode AsyncIterable} over the entries within a directory.
+ * Returns an {@linkcode AsyncIteratorTrait} over the entries within a directory.
  * 
  * The iterator will yield instances of {@linkcode Deno.DirEntry}
  * Entries for the current and parent directories (typically `.` and `..`) are skipped.
  * 
  * ### Errors
+ * The directory is only read once the iterator is consumed,
+ * so errors are returned by its terminal operations (like {@linkcode AsyncIteratorTrait.collect}), or thrown by a `for await...of` loop.
+ * 
  * This function will return an error in the following situations, but is not limited to just these cases:
  * 
  * * The provided path doesn't exist.
@@ -305,7 +313,7 @@ export function readFileSync(path: PathBuf) {
  * 
  * // one possible implementation of walking a directory only visiting files
  * async function visitDir(dir: string,f: (entry: Deno.DirEntry)=> void) {
- *   for await(const entry of fs.readDir(dir).unwrap()) {
+ *   for await(const entry of fs.readDir(dir)) {
  *     if(entry.isDirectory) {
  *       await visitDir(entry.name);
  *     } else {
@@ -318,16 +326,26 @@ export function readFileSync(path: PathBuf) {
  * // Example 2
  * import fs from "@std/fs";
  * 
- * for await(const entry of fs.readDir(".").unwrap()) {
+ * for await(const entry of fs.readDir(".")) {
  *   if(!entry.isFile) continue;
  *   console.log(entry.name);
  * }
  * 
+ * 
+ * // Example 3
+ * import fs from "@std/fs";
+ * 
+ * const names = await fs.readDir(".")
+ * .filter(entry=> entry.isFile)
+ * .map(entry=> entry.name)
+ * .collect()
+ * .unwrap();
+ * 
  * ```
  * * **Requires**: `allow-read` permission.
  */
-export function readDir(path: PathBuf) {
-  return Deno.readDir(path);
+export function readDir(path: PathLike): AsyncIteratorTrait<Deno.DirEntry> {
+  return new AsyncIter(Deno.readDir(toNative(path))[Symbol.asyncIterator]());
 }
 
 /**
@@ -372,8 +390,38 @@ export function readDir(path: PathBuf) {
  * ```
  * * **Requires**: `allow-read` permission.
  */
-export function readDirSync(path: PathBuf) {
-  return $resultSync(()=> Deno.readDirSync(path));
+export function readDirSync(path: PathLike) {
+  return $resultSync(()=> Deno.readDirSync(toNative(path)));
+}
+
+/**
+ * Returns a {@linkcode WalkDir} walking {@linkcode root} recursively, unlike {@linkcode readDir} which only lists one level.
+ * 
+ * The walk is lazy and can be iterated synchronously or asynchronously, see {@linkcode WalkDir} for its options.
+ * 
+ * ### Errors
+ * The errors don't stop the walk, they are yielded as `Err` items of {@linkcode IoError}, e.g. when:
+ * 
+ * * The root or a directory can't be read.
+ * * A followed symbolic link is broken, or points to one of its ancestors ({@linkcode IoErrorKind.FilesystemLoop}).
+ * 
+ * ### Examples
+ * ```ts
+ * import fs from "@std/fs";
+ * 
+ * for(const entry of fs.walkDir("src").include("*.ts")) {
+ *   console.log(entry.unwrap().path.toString());
+ * }
+ * 
+ * for await(const entry of fs.walkDir(".").minDepth(1).sortByFileName()) {
+ *   const { path,depth } = entry.unwrap();
+ *   console.log(`${"  ".repeat(depth-1)}${path.fileName().unwrap()}`);
+ * }
+ * ```
+ * * **Requires**: `allow-read` permission.
+ */
+export function walkDir(root: PathLike): WalkDir {
+  return new WalkDir(root);
 }
 
 /**
@@ -392,8 +440,8 @@ export function readDirSync(path: PathBuf) {
  * ```
  * * **Requires**: `allow-read` permission.
  */
-export function readLink(path: PathBuf) {
-  return $result(()=> Deno.readLink(path));
+export function readLink(path: PathLike) {
+  return $result(async ()=> new PathBuf(await Deno.readLink(toNative(path))));
 }
 
 /**
@@ -412,8 +460,8 @@ export function readLink(path: PathBuf) {
  * ```
  * * **Requires**: `allow-read` permission.
  */
-export function readLinkSync(path: PathBuf) {
-  return $resultSync(()=> Deno.readLinkSync(path));
+export function readLinkSync(path: PathLike) {
+  return $resultSync(()=> new PathBuf(Deno.readLinkSync(toNative(path))));
 }
 
 /**
@@ -436,8 +484,8 @@ console.log(msg);
 ```
  * * **Requires**: `allow-read` permission.
  */
-export function readToString(path: PathBuf,options?: Deno.ReadFileOptions) {
-  return $result(()=> Deno.readTextFile(path,options));
+export function readToString(path: PathLike,options?: Deno.ReadFileOptions) {
+  return $result(()=> Deno.readTextFile(toNative(path),options));
 }
 
 /**
@@ -460,8 +508,8 @@ console.log(msg);
 ```
  * * **Requires**: `allow-read` permission.
  */
-export function readToStringSync(path: PathBuf) {
-  return $resultSync(()=> Deno.readTextFileSync(path));
+export function readToStringSync(path: PathLike) {
+  return $resultSync(()=> Deno.readTextFileSync(toNative(path)));
 }
 
 /**
@@ -482,8 +530,8 @@ export function readToStringSync(path: PathBuf) {
  * ```
  * * **Requires**: `allow-write` permission.
  */
-export function removeDir(path: PathBuf,options?: Deno.RemoveOptions) {
-  return $result(()=> Deno.remove(path,options));
+export function removeDir(path: PathLike,options?: Deno.RemoveOptions) {
+  return $result(()=> Deno.remove(toNative(path),options));
 }
 
 /**
@@ -504,8 +552,8 @@ export function removeDir(path: PathBuf,options?: Deno.RemoveOptions) {
  * ```
  * * **Requires**: `allow-write` permission.
  */
-export function removeDirSync(path: PathBuf,options?: Deno.RemoveOptions) {
-  return $resultSync(()=> Deno.removeSync(path,options));
+export function removeDirSync(path: PathLike,options?: Deno.RemoveOptions) {
+  return $resultSync(()=> Deno.removeSync(toNative(path),options));
 }
 
 /**
@@ -519,8 +567,8 @@ export function removeDirSync(path: PathBuf,options?: Deno.RemoveOptions) {
  * ```
  * * **Requires**: `allow-read` and `allow-write` permissions.
  */
-export function rename(oldpath: PathBuf,newpath: PathBuf) {
-  return $result(()=> Deno.rename(oldpath,newpath));
+export function rename(oldpath: PathLike,newpath: PathLike) {
+  return $result(()=> Deno.rename(toNative(oldpath),toNative(newpath)));
 }
 
 /**
@@ -535,8 +583,8 @@ export function rename(oldpath: PathBuf,newpath: PathBuf) {
  * ```
  * * **Requires**: `allow-read` and `allow-write` permissions.
  */
-export function renameSync(oldpath: PathBuf,newpath: PathBuf) {
-  return $resultSync(()=> Deno.renameSync(oldpath,newpath));
+export function renameSync(oldpath: PathLike,newpath: PathLike) {
+  return $resultSync(()=> Deno.renameSync(toNative(oldpath),toNative(newpath)));
 }
 
 /**
@@ -563,8 +611,8 @@ await fs.setPermissions("/path/to/file", Permission.Readonly).unwrap();
 ```
  * * **Requires**: `allow-write` permission.
  */
-export function setPermissions(path: PathBuf,mode: Permission) {
-  return $result(()=> Deno.chmod(path,mode));
+export function setPermissions(path: PathLike,mode: Permission) {
+  return $result(()=> Deno.chmod(toNative(path),mode));
 }
 
 /**
@@ -591,8 +639,8 @@ fs.setPermissionsSync("/path/to/file", Permission.Readonly).unwrap();
 ```
  * * **Requires**: `allow-write` permission.
  */
-export function setPermissionsSync(path: PathBuf,mode: Permission) {
-  return $resultSync(()=> Deno.chmodSync(path,mode));
+export function setPermissionsSync(path: PathLike,mode: Permission) {
+  return $resultSync(()=> Deno.chmodSync(toNative(path),mode));
 }
 
 /**
@@ -613,8 +661,8 @@ await fs.chown("myFile.txt", 1000, 1002);
 @param - uid user id (UID) of the new owner, or null for no change
 @param - gid group id (GID) of the new owner, or null for no change
  */
-export function chown(path: PathBuf,uid: number|null,gid: number|null) {
-  return $result(()=> Deno.chown(path,uid,gid));
+export function chown(path: PathLike,uid: number|null,gid: number|null) {
+  return $result(()=> Deno.chown(toNative(path),uid,gid));
 }
 
 /**
@@ -635,8 +683,8 @@ fs.chownSync("myFile.txt", 1000, 1002);
 @param - uid user id (UID) of the new owner, or null for no change
 @param - gid group id (GID) of the new owner, or null for no change
  */
-export function chownSync(path: PathBuf,uid: number|null,gid: number|null) {
-  return $resultSync(()=> Deno.chownSync(path,uid,gid));
+export function chownSync(path: PathLike,uid: number|null,gid: number|null) {
+  return $resultSync(()=> Deno.chownSync(toNative(path),uid,gid));
 }
 
 /**
@@ -656,8 +704,8 @@ const attr = await fs.symlinkMetadata("/some/file/path.txt").unwrap();
 ```
  * * **Requires**: `allow-read` permission.
  */
-export function symlinkMetadata(path: PathBuf) {
-  return $result(()=> Deno.lstat(path));
+export function symlinkMetadata(path: PathLike) {
+  return $result(()=> Deno.lstat(toNative(path)));
 }
 
 /**
@@ -677,8 +725,8 @@ const attr = await fs.symlinkMetadataSync("/some/file/path.txt").unwrap();
 ```
  * * **Requires**: `allow-read` permission.
  */
-export function symlinkMetadataSync(path: PathBuf) {
-  return $resultSync(()=> Deno.lstatSync(path));
+export function symlinkMetadataSync(path: PathLike) {
+  return $resultSync(()=> Deno.lstatSync(toNative(path)));
 }
 
 /**
@@ -701,8 +749,8 @@ await fs.writeFile("bar.txt",encoder.encode("dolor sit")).unwrap();
 ```
  * * **Requires**: `allow-write` permission.
  */
-export function writeFile(path: PathBuf,data: Uint8Array|ReadableStream<Uint8Array>,options?: Deno.WriteFileOptions) {
-  return $result(()=> Deno.writeFile(path,data,options));
+export function writeFile(path: PathLike,data: Uint8Array|ReadableStream<Uint8Array>,options?: Deno.WriteFileOptions) {
+  return $result(()=> Deno.writeFile(toNative(path),data,options));
 }
 
 /**
@@ -725,8 +773,8 @@ fs.writeFileSync("bar.txt",encoder.encode("dolor sit")).unwrap();
 ```
  * * **Requires**: `allow-write` permission.
  */
-export function writeFileSync(path: PathBuf,data: Uint8Array,options?: Deno.WriteFileOptions) {
-  return $resultSync(()=> Deno.writeFileSync(path,data,options));
+export function writeFileSync(path: PathLike,data: Uint8Array,options?: Deno.WriteFileOptions) {
+  return $resultSync(()=> Deno.writeFileSync(toNative(path),data,options));
 }
 
 /**
@@ -747,8 +795,8 @@ fs.writeTextFile("bar.txt","dolor sit").unwrap();
 ```
  * * **Requires**: `allow-write` permission.
  */
-export function writeTextFile(path: PathBuf,data: string|ReadableStream<string>,options?: Deno.WriteFileOptions) {
-  return $result(()=> Deno.writeTextFile(path,data,options));
+export function writeTextFile(path: PathLike,data: string|ReadableStream<string>,options?: Deno.WriteFileOptions) {
+  return $result(()=> Deno.writeTextFile(toNative(path),data,options));
 }
 
 /**
@@ -769,8 +817,8 @@ fs.writeTextFileSync("bar.txt","dolor sit").unwrap();
 ```
  * * **Requires**: `allow-write` permission.
  */
-export function writeTextFileSync(path: PathBuf,data: string,options?: Deno.WriteFileOptions) {
-  return $resultSync(()=> Deno.writeTextFileSync(path,data,options));
+export function writeTextFileSync(path: PathLike,data: string,options?: Deno.WriteFileOptions) {
+  return $resultSync(()=> Deno.writeTextFileSync(toNative(path),data,options));
 }
 
 /** Creates a new temporary directory in the default directory for temporary files, unless `dir` is specified.
@@ -789,7 +837,7 @@ export function writeTextFileSync(path: PathBuf,data: string,options?: Deno.Writ
  * * **Requires**: `allow-read` permission.
  */
 export function makeTempDir(options: Deno.MakeTempOptions) {
-  return $result(()=> Deno.makeTempDir(options));
+  return $result(async ()=> new PathBuf(await Deno.makeTempDir(options)));
 }
 
 /** Creates a new temporary directory in the default directory for temporary files synchronously, unless `dir` is specified.
@@ -808,7 +856,7 @@ export function makeTempDir(options: Deno.MakeTempOptions) {
  * * **Requires**: `allow-read` permission.
  */
 export function makeTempDirSync(options: Deno.MakeTempOptions) {
-  return $resultSync(()=> Deno.makeTempDirSync(options));
+  return $resultSync(()=> new PathBuf(Deno.makeTempDirSync(options)));
 }
 
 /**
@@ -884,8 +932,8 @@ console.log(new TextDecoder().decode(data));// "Hello W"
  *
  * * **Requires**: `allow-write` permission.
  */
-export function truncate(name: string,len?: number) {
-  return $result(()=> Deno.truncate(name,len));
+export function truncate(name: PathLike,len?: number) {
+  return $result(()=> Deno.truncate(Path.from(name).toString(),len));
 }
 
 /**
@@ -917,14 +965,14 @@ console.log(new TextDecoder().decode(data));// "Hello W"
  *
  * * **Requires**: `allow-write` permission.
  */
-export function truncateSync(name: string,len?: number) {
-  return $resultSync(()=> Deno.truncateSync(name,len));
+export function truncateSync(name: PathLike,len?: number) {
+  return $resultSync(()=> Deno.truncateSync(Path.from(name).toString(),len));
 }
 
 /**
  * Attempts to open a file in `read and write` mode.
  * 
- * See the {@linkcode Deno.OpenOptions} method for more specifications.
+ * See the {@linkcode Deno.OpenOptions} method for more specifications, or {@linkcode OpenOptions} for a builder validating them.
  * 
  * If you only need to read the entire file contents, consider {@linkcode readFile} or {@linkcode readToString} instead.
  * 
@@ -943,14 +991,14 @@ await file.read(buff).unwrap();
 ```
  * * **Requires**: `allow-read` and `allow-write` permission.
  */
-export function open(path: string, options?: Deno.OpenOptions) {
+export function open(path: PathLike, options?: Deno.OpenOptions) {
   return FsFile.open(path,options);
 }
 
 /**
  * Attempts to open a file synchronously in `read and write` mode.
  * 
- * See the {@linkcode Deno.OpenOptions} method for more specifications.
+ * See the {@linkcode Deno.OpenOptions} method for more specifications, or {@linkcode OpenOptions} for a builder validating them.
  * 
  * If you only need to read the entire file contents, consider {@linkcode readFile} or {@linkcode readToString} instead.
  * 
@@ -969,7 +1017,7 @@ file.readSync(buff).unwrap();
 ```
  * * **Requires**: `allow-read` and `allow-write` permission.
  */
-export function openSync(path: string, options?: Deno.OpenOptions) {
+export function openSync(path: PathLike, options?: Deno.OpenOptions) {
   return FsFile.openSync(path,options);
 }
 
@@ -991,7 +1039,7 @@ await file.write(new TextEncode().encode("69420xd")).unwrap();
 ```
  * * **Requires**: `allow-read` and `allow-write` permission.
  */
-export function create(path: string) {
+export function create(path: PathLike) {
   return FsFile.create(path);
 }
 
@@ -1013,7 +1061,7 @@ await file.write(new TextEncode().encode("69420xd")).unwrap();
 ```
  * * **Requires**: `allow-read` and `allow-write` permission.
  */
-export function createSync(path: string) {
+export function createSync(path: PathLike) {
   return FsFile.createSync(path);
 }
 
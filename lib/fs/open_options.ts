@@ -0,0 +1,194 @@
+import { Result,Ok,Err,AsyncResult } from "../error/result/mod.ts";
+import { IoError,IoErrorKind,IoAsyncResult,IoResult } from "../io/error.ts";
+import { PathLike } from "../path/path.ts";
+import { FsFile } from "./file.ts";
+
+
+/**
+ * Options and flags which can be used to configure how a file is opened.
+ *
+ * This builder exposes the ability to configure how a {@linkcode FsFile} is opened and what operations are permitted on the open file.
+ * Unlike the {@linkcode Deno.OpenOptions} taken by {@linkcode FsFile.open}, the invalid combinations of options are rejected, and the errors are {@linkcode IoError}s.
+ *
+ * Generally speaking, when using {@linkcode OpenOptions}, you'll first call the constructor (or {@linkcode FsFile.options}),
+ * then chain calls to methods to set each option, then call {@linkcode open}, passing the path of the file you're trying to open.
+ * This will give you an {@linkcode IoResult} with a {@linkcode FsFile} inside that you can further operate on.
+ *
+ * Of the platform extras of Rust's `OpenOptionsExt`, only {@linkcode mode} is supported.
+ * There's no `customFlags`, since {@linkcode Deno.open} doesn't take raw `open(2)` flags (like `O_NOFOLLOW` or `O_DIRECT`).
+ *
+ * ### Examples
+ * Opening a file to read:
+```ts
+import { OpenOptions } from "@std/fs";
+
+const file = await new OpenOptions().read(true).open("foo.txt").unwrap();
+```
+ * Opening a file for both reading and writing, as well as creating it if it doesn't exist:
+```ts
+import { OpenOptions } from "@std/fs";
+
+const file = await new OpenOptions()
+  .read(true)
+  .write(true)
+  .create(true)
+  .open("foo.txt")
+  .unwrap();
+```
+ */
+export class OpenOptions {
+  #read=false;
+  #write=false;
+  #append=false;
+  #truncate=false;
+  #create=false;
+  #createNew=false;
+  #mode?: number;
+
+  /**
+   * Sets the option for read access.
+   *
+   * This option, when `true`, will indicate that the file should be `read`-able if opened.
+   */
+  public read(read: boolean): this {
+    this.#read=read;
+    return this;
+  }
+
+  /**
+   * Sets the option for write access.
+   *
+   * This option, when `true`, will indicate that the file should be `write`-able if opened.
+   *
+   * If the file already exists, any write calls on it will overwrite its contents, without truncating it.
+   */
+  public write(write: boolean): this {
+    this.#write=write;
+    return this;
+  }
+
+  /**
+   * Sets the option for the append mode.
+   *
+   * This option, when `true`, means that writes will append to a file instead of overwriting previous contents.
+   * Note that setting `.write(true).append(true)` has the same effect as setting only `.append(true)`.
+   */
+  public append(append: boolean): this {
+    this.#append=append;
+    return this;
+  }
+
+  /**
+   * Sets the option for truncating a previous file.
+   *
+   * If a file is successfully opened with this option set to `true`, it will truncate the file to 0 length if it already exists.
+   *
+   * The file must be opened with write access for truncate to work.
+   */
+  public truncate(truncate: boolean): this {
+    this.#truncate=truncate;
+    return this;
+  }
+
+  /**
+   * Sets the option to create a new file, or open it if it already exists.
+   *
+   * In order for the file to be created, {@linkcode write} or {@linkcode append} access must be used.
+   */
+  public create(create: boolean): this {
+    this.#create=create;
+    return this;
+  }
+
+  /**
+   * Sets the option to create a new file, failing if it already exists.
+   *
+   * No file is allowed to exist at the target location, also no (dangling) symlink.
+   * In this way, if the call succeeds, the file returned is guaranteed to be new.
+   * If a file exists at the target location, creating a new file will fail with {@linkcode IoErrorKind.AlreadyExists} or another error based on the situation.
+   *
+   * This option is useful because it is atomic. Otherwise between checking whether a file exists and creating a new one,
+   * the file may have been created by another process (a TOCTOU race condition / attack).
+   *
+   * If `.createNew(true)` is set, {@linkcode create} and {@linkcode truncate} are ignored.
+   *
+   * The file must be opened with write or append access in order to create a new file.
+   */
+  public createNew(createNew: boolean): this {
+    this.#createNew=createNew;
+    return this;
+  }
+
+  /**
+   * Sets the mode bits that a new file will be created with, `0o666` by default.
+   *
+   * If a new file is created as part of an {@linkcode open} call then this specified mode will be used as the permission bits for the new file,
+   * the process's `umask` is applied to it. It's ignored on Windows.
+   */
+  public mode(mode: number): this {
+    this.#mode=mode;
+    return this;
+  }
+
+  /**
+   * Opens a file at {@linkcode path} with the options specified by this builder.
+   *
+   * ### Errors
+   * This function will return an error under a number of different circumstances. Some of these error conditions are listed here,
+   * together with their {@linkcode IoErrorKind}:
+   * * {@linkcode IoErrorKind.NotFound}: The specified file does not exist and neither {@linkcode create} or {@linkcode createNew} is set.
+   * * {@linkcode IoErrorKind.NotFound}: One of the directory components of the file path does not exist.
+   * * {@linkcode IoErrorKind.PermissionDenied}: The user lacks permission to get the specified access rights for the file.
+   * * {@linkcode IoErrorKind.AlreadyExists}: {@linkcode createNew} was specified and the file already exists.
+   * * {@linkcode IoErrorKind.InvalidInput}: Invalid combinations of open options (truncate without write access, no access mode set, etc.).
+   *
+   * ### Examples
+  ```ts
+  import { OpenOptions } from "@std/fs";
+  import { IoErrorKind } from "@std/io";
+
+  const file = await new OpenOptions().write(true).createNew(true).open("foo.txt").unwrap();
+  const err = await new OpenOptions().write(true).createNew(true).open("foo.txt").unwrapErr();
+
+  $assertEq(err.kind(), IoErrorKind.AlreadyExists);
+  ```
+   * * **Requires**: `allow-read` and/or `allow-write` permissions depending on the options.
+   */
+  public open(path: PathLike): IoAsyncResult<FsFile> {
+    const options=this.#options();
+    if(options.containsErr()) return new AsyncResult(Promise.resolve(Err(options.unwrapErr())));
+
+    return FsFile.open(path,options.unwrap()).mapErr(err=> IoError.from(err));
+  }
+
+  /**
+   * Opens a file at {@linkcode path} synchronously with the options specified by this builder.
+   *
+   * See {@linkcode open} for the errors.
+   *
+   * * **Requires**: `allow-read` and/or `allow-write` permissions depending on the options.
+   */
+  public openSync(path: PathLike): IoResult<FsFile> {
+    return this.#options().andThen(options=> FsFile.openSync(path,options).mapErr(err=> IoError.from(err)));
+  }
+
+  /** Validates the options like the access and creation modes of Rust, since Deno accepts combinations which have no meaning. */
+  #options(): Result<Deno.OpenOptions,IoError> {
+    if(!this.#read && !this.#write && !this.#append) return Err(new IoError(IoErrorKind.InvalidInput,"must specify at least one of read, write, or append access"));
+
+    if(!this.#write && !this.#append && (this.#truncate || this.#create || this.#createNew)) {
+      return Err(new IoError(IoErrorKind.InvalidInput,"creating or truncating a file requires write or append access"));
+    }
+    if(this.#append && this.#truncate && !this.#createNew) return Err(new IoError(IoErrorKind.InvalidInput,"a file opened in append mode cannot be truncated"));
+
+    return Ok({
+      read: this.#read,
+      write: this.#write || this.#append,
+      append: this.#append,
+      truncate: this.#truncate && !this.#createNew,
+      create: this.#create && !this.#createNew,
+      createNew: this.#createNew,
+      mode: this.#mode,
+    });
+  }
+}
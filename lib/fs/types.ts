@@ -1,10 +1,11 @@
 import { Option } from '../error/option/option.ts';
+import { SystemTime } from '../time/system_time.ts';
 
 
-/** Representation of the various timestamps on a file. */
+/** Representation of the various timestamps on a file, numbers are seconds since the unix epoch. */
 export interface FileTimes {
-  accessed: number|Date,
-  modified: number|Date
+  accessed: number|Date|SystemTime,
+  modified: number|Date|SystemTime
 }
 
 
@@ -68,6 +69,12 @@ export interface Metadata {
    * field from `stat` on Mac/BSD and `ftCreationTime` on Windows. This may
    * not be available on all platforms. */
   readonly birthtime: Option<Date>;
+  /** The last modification time of the file, it's {@linkcode mtime} as a {@linkcode SystemTime}. */
+  readonly modified: Option<SystemTime>;
+  /** The last access time of the file, it's {@linkcode atime} as a {@linkcode SystemTime}. */
+  readonly accessed: Option<SystemTime>;
+  /** The creation time of the file, it's {@linkcode birthtime} as a {@linkcode SystemTime}. */
+  readonly created: Option<SystemTime>;
   /** ID of the device containing the file. */
   readonly dev: number;
   /** Inode number.
@@ -0,0 +1,367 @@
+import { Ok,Err,$result,$resultSync } from "../error/result/mod.ts";
+import { IoError,IoErrorKind,IoResult } from "../io/error.ts";
+import { Fn } from "../types.ts";
+import { Ordering } from "../cmp/ord.ts";
+import { IteratorTrait,Iter } from "../iter/iter.ts";
+import { AsyncIteratorTrait,AsyncIter } from "../iter/async_iter.ts";
+import { customInspect,inspectStruct,Inspect,InspectOptions } from "../fmt/inspect.ts";
+import { Path,PathBuf,PathLike } from "../path/path.ts";
+import { toNative } from "../path/util.ts";
+
+
+/**
+ * An entry yielded by {@linkcode WalkDir}, a file, a directory or a symbolic link with its depth in the walk.
+ *
+ * When the links are followed, {@linkcode isFile}, {@linkcode isDirectory} and {@linkcode isSymlink} describe the target of a link,
+ * and {@linkcode pathIsSymlink} tells whether {@linkcode path} itself is a link.
+ */
+export class DirEntry {
+  /** The path of the entry, {@linkcode WalkDir}'s root joined with the names of the entries leading to it. */
+  public readonly path: PathBuf;
+  /** The file name of the entry, or the whole {@linkcode path} if it has none (like `/` or `..`). */
+  public readonly name: string;
+  /** The depth of the entry, the root is at depth `0`, its children at depth `1` and so on. */
+  public readonly depth: number;
+  public readonly isFile: boolean;
+  public readonly isDirectory: boolean;
+  public readonly isSymlink: boolean;
+  /** Whether {@linkcode path} is a symbolic link, even if it was followed. */
+  public readonly pathIsSymlink: boolean;
+
+  constructor(path: PathBuf,depth: number,type: FileType,pathIsSymlink: boolean) {
+    this.path=path;
+    this.name=path.fileName().unwrapOr(path.toString());
+    this.depth=depth;
+    this.isFile=type.isFile;
+    this.isDirectory=type.isDirectory;
+    this.isSymlink=type.isSymlink;
+    this.pathIsSymlink=pathIsSymlink;
+  }
+
+  [customInspect](inspect: Inspect,options: InspectOptions): string {
+    return inspectStruct("DirEntry",{ path: this.path,depth: this.depth },inspect,options);
+  }
+}
+
+
+/**
+ * A builder to walk a directory recursively, created by {@linkcode walkDir}.
+ *
+ * The walk is depth-first and yields a directory before its contents, starting with the root itself at depth `0`.
+ * It's lazy: a directory is only read when the walk reaches it, and it can be iterated synchronously
+ * (with {@linkcode iter} or `for...of`) or asynchronously (with {@linkcode asyncIter} or `for await...of`).
+ *
+ * The errors (like a directory which can't be read, a broken link or a loop) are yielded as `Err` items and the walk goes on with the next entries.
+ *
+ * ### Examples
+```ts
+import fs from "@std/fs";
+
+for(const entry of fs.walkDir("src").maxDepth(2).include("*.ts")) {
+  console.log(entry.unwrap().path.toString());
+}
+
+const dirs = await fs.walkDir(".")
+  .exclude(".git", "node_modules")
+  .asyncIter()
+  .filter(entry=> entry.isOkAnd(entry=> entry.isDirectory))
+  .count();
+```
+ */
+export class WalkDir implements Iterable<IoResult<DirEntry>>,AsyncIterable<IoResult<DirEntry>> {
+  #root: PathBuf;
+  #minDepth=0;
+  #maxDepth=Infinity;
+  #followLinks=false;
+  #sortBy?: Fn<[a: DirEntry,b: DirEntry],Ordering>;
+  #include: Glob[]=[];
+  #exclude: Glob[]=[];
+  #filterEntry?: Fn<[entry: DirEntry],boolean>;
+
+  constructor(root: PathLike) {
+    this.#root=PathBuf.from(root);
+  }
+
+  /**
+   * Sets the minimum depth of the yielded entries, `0` by default.
+   *
+   * The entries above it are still walked through but not yielded, e.g. `1` skips the root.
+   */
+  public minDepth(depth: number): this {
+    this.#minDepth=depth;
+    return this;
+  }
+
+  /**
+   * Sets the maximum depth of the yielded entries, there is no limit by default.
+   *
+   * The directories at this depth are not read, e.g. `1` only yields the root and its children.
+   */
+  public maxDepth(depth: number): this {
+    this.#maxDepth=depth;
+    return this;
+  }
+
+  /**
+   * Follows the symbolic links when `true`, `false` by default. The root is always followed.
+   *
+   * A link to a directory which is an ancestor of the link yields an {@linkcode IoError} of kind {@linkcode IoErrorKind.FilesystemLoop} instead of being walked again.
+   */
+  public followLinks(follow: boolean): this {
+    this.#followLinks=follow;
+    return this;
+  }
+
+  /**
+   * Sorts the entries of each directory with {@linkcode compare}, they come in the order of the file system otherwise.
+   *
+   * ### Examples
+  ```ts
+  import fs from "@std/fs";
+
+  const bySize = fs.walkDir("logs").sortBy((a,b)=> $cmp(a.path.metadataSync().unwrap().size, b.path.metadataSync().unwrap().size));
+  ```
+   */
+  public sortBy(compare: Fn<[a: DirEntry,b: DirEntry],Ordering>): this {
+    this.#sortBy=compare;
+    return this;
+  }
+
+  /** Sorts the entries of each directory by their names. */
+  public sortByFileName(): this {
+    return this.sortBy((a,b)=> a.name<b.name?Ordering.Less:a.name>b.name?Ordering.Greater:Ordering.Equal);
+  }
+
+  /**
+   * Only yields the entries matching one of the {@linkcode globs}, the directories are still walked through.
+   *
+   * A glob without `/` matches the file name, one with `/` matches the path relative to the root (with `/` as separator).
+   * They support `*`, `**` (any number of directories), `?`, `[abc]`, `[!abc]` and `{a,b}`.
+   */
+  public include(...globs: string[]): this {
+    this.#include.push(...globs.map(compileGlob));
+    return this;
+  }
+
+  /** Skips the entries matching one of the {@linkcode globs}, a matched directory is not walked through. See {@linkcode include} for the syntax. */
+  public exclude(...globs: string[]): this {
+    this.#exclude.push(...globs.map(compileGlob));
+    return this;
+  }
+
+  /**
+   * Skips the entries for which {@linkcode predicate} returns `false`, a skipped directory is not walked through.
+   *
+   * Unlike filtering the iterator, it prunes the whole subtree. The entries above {@linkcode minDepth} are not passed to it.
+   *
+   * ### Examples
+  ```ts
+  import fs from "@std/fs";
+
+  const visible = fs.walkDir(".").filterEntry(entry=> entry.depth===0 || !entry.name.startsWith(".")).iter();
+  ```
+   */
+  public filterEntry(predicate: Fn<[entry: DirEntry],boolean>): this {
+    this.#filterEntry=predicate;
+    return this;
+  }
+
+  /** Returns a synchronous iterator walking the directory, with the options configured so far. */
+  public iter(): IteratorTrait<IoResult<DirEntry>> {
+    return new Iter(walkSync(this.#options()));
+  }
+
+  /** Returns an asynchronous iterator walking the directory, with the options configured so far. */
+  public asyncIter(): AsyncIteratorTrait<IoResult<DirEntry>> {
+    return new AsyncIter(walk(this.#options()));
+  }
+
+  public [Symbol.iterator](): Iterator<IoResult<DirEntry>> {
+    return this.iter()[Symbol.iterator]();
+  }
+
+  public [Symbol.asyncIterator](): AsyncIterator<IoResult<DirEntry>> {
+    return this.asyncIter()[Symbol.asyncIterator]();
+  }
+
+  #options(): WalkOptions {
+    return {
+      root: this.#root.clone(),
+      minDepth: this.#minDepth,
+      maxDepth: this.#maxDepth,
+      followLinks: this.#followLinks,
+      sortBy: this.#sortBy,
+      include: [...this.#include],
+      exclude: [...this.#exclude],
+      filterEntry: this.#filterEntry,
+    };
+  }
+}
+
+
+interface FileType {
+  isFile: boolean;
+  isDirectory: boolean;
+  isSymlink: boolean;
+}
+
+interface Glob {
+  regex: RegExp;
+  /** Whether the glob matches the path relative to the root rather than the file name. */
+  isPath: boolean;
+}
+
+interface WalkOptions {
+  root: PathBuf;
+  minDepth: number;
+  maxDepth: number;
+  followLinks: boolean;
+  sortBy?: Fn<[a: DirEntry,b: DirEntry],Ordering>;
+  include: Glob[];
+  exclude: Glob[];
+  filterEntry?: Fn<[entry: DirEntry],boolean>;
+}
+
+
+// The directories are read whole, so the walk holds no directory handle open between two entries.
+function* walkSync(options: WalkOptions): Generator<IoResult<DirEntry>,void,undefined> {
+  const path=toNative(options.root);
+  const root=$resultSync(()=> new DirEntry(options.root,0,Deno.statSync(path),Deno.lstatSync(path).isSymlink));
+
+  if(root.containsErr()) yield Err(IoError.from(root.unwrapErr()));
+  else yield* visitSync(root.unwrap(),[],options);
+}
+
+function* visitSync(entry: DirEntry,ancestors: string[],options: WalkOptions): Generator<IoResult<DirEntry>,void,undefined> {
+  if(isPruned(entry,options)) return;
+
+  const real=options.followLinks && entry.isDirectory?$resultSync(()=> Deno.realPathSync(toNative(entry.path))):undefined;
+  if(real?.containsErr()) return yield Err(IoError.from(real.unwrapErr()));
+  if(real && ancestors.includes(real.unwrap())) return yield Err(loopError(entry));
+
+  if(isYielded(entry,options)) yield Ok(entry);
+  if(!entry.isDirectory || entry.depth>=options.maxDepth) return;
+
+  const children=$resultSync(()=> [...Deno.readDirSync(toNative(entry.path))]);
+  if(children.containsErr()) return yield Err(IoError.from(children.unwrapErr()));
+
+  const entries=children.unwrap().map(child=> $resultSync(()=> {
+    const path=entry.path.join(child.name);
+    return new DirEntry(path,entry.depth+1,child.isSymlink && options.followLinks?Deno.statSync(toNative(path)):child,child.isSymlink);
+  }));
+
+  const next=real?[...ancestors,real.unwrap()]:ancestors;
+  for(const child of sorted(entries,options)) {
+    if(child.containsErr()) yield Err(IoError.from(child.unwrapErr()));
+    else yield* visitSync(child.unwrap(),next,options);
+  }
+}
+
+async function* walk(options: WalkOptions): AsyncGenerator<IoResult<DirEntry>,void,undefined> {
+  const path=toNative(options.root);
+  const root=await $result(async ()=> new DirEntry(options.root,0,await Deno.stat(path),(await Deno.lstat(path)).isSymlink));
+
+  if(root.containsErr()) yield Err(IoError.from(root.unwrapErr()));
+  else yield* visit(root.unwrap(),[],options);
+}
+
+async function* visit(entry: DirEntry,ancestors: string[],options: WalkOptions): AsyncGenerator<IoResult<DirEntry>,void,undefined> {
+  if(isPruned(entry,options)) return;
+
+  const real=options.followLinks && entry.isDirectory?await $result(()=> Deno.realPath(toNative(entry.path))):undefined;
+  if(real?.containsErr()) return yield Err(IoError.from(real.unwrapErr()));
+  if(real && ancestors.includes(real.unwrap())) return yield Err(loopError(entry));
+
+  if(isYielded(entry,options)) yield Ok(entry);
+  if(!entry.isDirectory || entry.depth>=options.maxDepth) return;
+
+  const children=await $result(()=> Array.fromAsync(Deno.readDir(toNative(entry.path))));
+  if(children.containsErr()) return yield Err(IoError.from(children.unwrapErr()));
+
+  const entries=await Promise.all(children.unwrap().map(child=> $result(async ()=> {
+    const path=entry.path.join(child.name);
+    return new DirEntry(path,entry.depth+1,child.isSymlink && options.followLinks?await Deno.stat(toNative(path)):child,child.isSymlink);
+  })));
+
+  const next=real?[...ancestors,real.unwrap()]:ancestors;
+  for(const child of sorted(entries,options)) {
+    if(child.containsErr()) yield Err(IoError.from(child.unwrapErr()));
+    else yield* visit(child.unwrap(),next,options);
+  }
+}
+
+/** Whether the entry and its subtree are skipped, by {@linkcode WalkOptions.exclude} or {@linkcode WalkOptions.filterEntry}. */
+function isPruned(entry: DirEntry,options: WalkOptions): boolean {
+  if(entry.depth>0 && options.exclude.some(glob=> matches(glob,entry,options.root))) return true;
+  return entry.depth>=options.minDepth && !!options.filterEntry && !options.filterEntry(entry);
+}
+
+function isYielded(entry: DirEntry,options: WalkOptions): boolean {
+  if(entry.depth<options.minDepth) return false;
+  return entry.depth===0 || !options.include.length || options.include.some(glob=> matches(glob,entry,options.root));
+}
+
+/** Sorts the entries with {@linkcode WalkOptions.sortBy}, the errors come first since they have nothing to compare. */
+function sorted<T extends { containsErr(): boolean,unwrap(): DirEntry }>(entries: T[],{ sortBy }: WalkOptions): T[] {
+  if(!sortBy) return entries;
+
+  const errors=entries.filter(entry=> entry.containsErr());
+  const sorted=entries.filter(entry=> !entry.containsErr()).sort((a,b)=> sortBy(a.unwrap(),b.unwrap()));
+
+  return [...errors,...sorted];
+}
+
+function loopError(entry: DirEntry): IoError {
+  return new IoError(IoErrorKind.FilesystemLoop,`file system loop found: ${entry.path} points to one of its ancestors`);
+}
+
+function matches({ regex,isPath }: Glob,entry: DirEntry,root: Path): boolean {
+  if(!isPath) return regex.test(entry.name);
+
+  const relative=entry.path.stripPrefix(root).map(path=> [...path.iter()].join("/"));
+  return relative.containsErr()?false:regex.test(relative.unwrap());
+}
+
+function compileGlob(glob: string): Glob {
+  return { regex: globToRegExp(glob),isPath: glob.includes("/") };
+}
+
+/** Converts a glob into a {@linkcode RegExp} matching a whole `/` separated path. */
+function globToRegExp(glob: string): RegExp {
+  let source="";
+
+  for(let i=0;i<glob.length;i++) {
+    const char=glob[i];
+
+    if(char==="*" && glob[i+1]==="*") {
+      i++;
+      if(glob[i+1]!=="/") source+=".*";
+      else {
+        i++;
+        source+="(?:.*/)?";
+      }
+    }
+    else if(char==="*") source+="[^/]*";
+    else if(char==="?") source+="[^/]";
+    else if(char==="[" && glob.indexOf("]",i+2)!==-1) {
+      const end=glob.indexOf("]",i+2);
+      const set=glob.slice(i+1,end);
+
+      source+=set[0]==="!"?`[^${escapeClass(set.slice(1))}]`:`[${escapeClass(set)}]`;
+      i=end;
+    }
+    else if(char==="{" && glob.indexOf("}",i)!==-1) {
+      const end=glob.indexOf("}",i);
+
+      source+=`(?:${glob.slice(i+1,end).split(",").map(alternative=> globToRegExp(alternative).source.slice(1,-1)).join("|")})`;
+      i=end;
+    }
+    else source+=char.replace(/[.*+?^${}()|[\]\\]/g,"\\$&");
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+function escapeClass(set: string): string {
+  return set.replace(/[\\\]^]/g,"\\$&");
+}
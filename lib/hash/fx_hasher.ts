@@ -0,0 +1,69 @@
+import { Hasher } from "./hasher.ts";
+
+
+const SEED=0x9e3779b9;
+
+/**
+ * A speedy hash algorithm, the one used by `rustc` (FxHash).
+ *
+ * It is not cryptographically secure and its output is predictable,
+ * so for untrusted keys prefer a {@linkcode RandomState}, which seeds every hasher.
+ *
+ * ### Examples
+```ts
+import { FxHasher } from "std/hash";
+
+const hasher = new FxHasher();
+hasher.writeStr("xd");
+
+console.log(hasher.finish());
+```
+ */
+export class FxHasher extends Hasher {
+  #hash: number;
+
+  constructor(seed=0) {
+    super();
+    this.#hash=seed>>>0;
+  }
+
+  #addToHash(word: number) {
+    this.#hash=Math.imul(((this.#hash<<5)|(this.#hash>>>27))^word,SEED)>>>0;
+  }
+
+  public finish(): number {
+    return this.#hash;
+  }
+
+  public write(bytes: Uint8Array) {
+    let i=0;
+    for(;i+4<=bytes.length;i+=4) {
+      this.#addToHash(bytes[i]|(bytes[i+1]<<8)|(bytes[i+2]<<16)|(bytes[i+3]<<24));
+    }
+
+    if(i+2<=bytes.length) {
+      this.#addToHash(bytes[i]|(bytes[i+1]<<8));
+      i+=2;
+    }
+
+    if(i<bytes.length) this.#addToHash(bytes[i]);
+  }
+
+  public override writeU8(i: number) {
+    this.#addToHash(i&0xff);
+  }
+
+  public override writeU16(i: number) {
+    this.#addToHash(i&0xffff);
+  }
+
+  public override writeU32(i: number) {
+    this.#addToHash(i>>>0);
+  }
+
+  public override writeStr(s: string) {
+    // hashing the UTF-16 code units directly saves us the encoding round-trip.
+    for(let i=0;i<s.length;i++) this.#addToHash(s.charCodeAt(i));
+    this.#addToHash(0xff);
+  }
+}
@@ -0,0 +1,127 @@
+// deno-lint-ignore-file no-explicit-any
+import type { Hasher } from "./hasher.ts";
+
+
+/**
+ * A hashable type.
+ *
+ * Types implementing {@linkcode Hash} are able to be hashed with an instance of {@linkcode Hasher}.
+ *
+ * ### Derivable
+ * This trait can be used with `@derive`.
+ * When derived, the resulting hash is the combination of the hashes of every field, in declaration order.
+ *
+ * ### {@linkcode Hash} and {@linkcode PartailEq}
+ * When implementing both {@linkcode Hash} and {@linkcode PartailEq}, it is important that the following property holds:
+ *
+ * * `$eq(k1, k2)` implies `hash(k1) == hash(k2)`
+ *
+ * In other words, if two keys are equal, their hashes must also be equal.
+ * {@linkcode HashMap} and {@linkcode HashSet} both rely on this behavior.
+ *
+ * #### How can I implement {@linkcode Hash}?
+```ts
+class Person implements Hash,PartailEq<Person> {
+     constructor(public id: number,public name: string,public phone: number) {}
+
+     public hash(state: Hasher) {
+       state.writeU32(this.id);
+       state.writeU32(this.phone);
+     }
+
+     public eq(rhs: Person) {
+       return this.id === rhs.id && this.phone === rhs.phone;
+     }
+}
+```
+ */
+export interface Hash {
+  /** Feeds this value into the given {@linkcode Hasher}. */
+  hash(state: Hasher): void;
+}
+
+
+/** Checks whether an object implements {@linkcode Hash} */
+export function $implsHash(x: any): x is Hash {
+  return x!=null && typeof x.hash==="function";
+}
+
+/**
+ * Feeds any value into the given {@linkcode Hasher}.
+ *
+ * The hash is consistent with {@linkcode $eq}:
+ * * {@linkcode Hash} implementors hash themselves.
+ * * Iterables (arrays, typed arrays, {@linkcode Vec}s, ...) hash their elements in order followed by their length.
+ * * Native {@linkcode Map}s and {@linkcode Set}s hash their entries independently of the insertion order, like {@linkcode HashMap}s and {@linkcode HashSet}s do.
+ * * Other objects hash their own enumerable properties.
+ *
+ * ### Example
+```ts
+const s = new RandomState();
+
+const a = s.buildHasher();
+const b = s.buildHasher();
+
+$hash({ xd: [6,9] },a);
+$hash({ xd: $vec(6,9) },b);
+
+$assertEq(a.finish(),b.finish());
+```
+ */
+export function $hash<T>(value: T,state: Hasher) {
+  switch(typeof value) {
+    case "undefined": return state.writeU8(0);
+    case "boolean": return state.writeU8(value?2:1);
+    // `0 === -0` so they must hash the same.
+    case "number": return state.writeF64(value===0?0:value);
+    case "bigint": return state.writeU64(value);
+    case "string": return state.writeStr(value);
+    case "symbol": return state.writeStr(value.description??"");
+    case "function": return state.writeStr(value.name);
+  }
+
+  const obj=value as any;
+  if(obj===null) return state.writeU8(3);
+  if(obj instanceof Map || obj instanceof Set) return hashUnordered(obj,state);
+  if($implsHash(obj)) return obj.hash(state);
+  if(typeof obj[Symbol.iterator]==="function") return hashOrdered(obj,state);
+
+  hashFields(obj,state);
+}
+
+/** Hashes every own enumerable property of {@linkcode obj} */
+export function hashFields(obj: any,state: Hasher) {
+  for(const key in obj) {
+    if(!Object.hasOwn(obj,key)) continue;
+
+    state.writeStr(key);
+    $hash(obj[key],state);
+  }
+
+  for(const sym of Object.getOwnPropertySymbols(obj)) $hash(obj[sym],state);
+}
+
+function hashOrdered(iter: Iterable<unknown>,state: Hasher) {
+  let len=0;
+  for(const element of iter) {
+    $hash(element,state);
+    len++;
+  }
+
+  state.writeUsize(len);
+}
+
+/** Hashes the elements of {@linkcode iter} independently of their order, for collections compared regardless of it. */
+export function hashUnordered(iter: Iterable<unknown>,state: Hasher) {
+  let sum=0,len=0;
+  for(const element of iter) {
+    // every element gets a fresh hasher so the combination doesn't depend on the order.
+    const inner=new (state.constructor as new()=> Hasher)();
+    $hash(element,inner);
+    sum=(sum+inner.finish())>>>0;
+    len++;
+  }
+
+  state.writeU32(sum);
+  state.writeUsize(len);
+}
@@ -0,0 +1,156 @@
+import { $hash } from "./hash.ts";
+
+
+const ENCODER=new TextEncoder();
+const SCRATCH=new DataView(new ArrayBuffer(8));
+
+/**
+ * A trait for hashing an arbitrary stream of bytes.
+ *
+ * Instances of {@linkcode Hasher} usually represent state that is changed while hashing data.
+ *
+ * {@linkcode Hasher} provides a fairly basic interface for retrieving the generated hash (with {@linkcode finish}),
+ * and writing integers as well as slices of bytes into an instance (with {@linkcode write} and {@linkcode writeU8}, etc.).
+ * Most of the time, {@linkcode Hasher} instances are used in conjunction with the {@linkcode Hash} trait.
+ *
+ * * **NOTE**: Unlike Rust, {@linkcode finish} returns an unsigned 32-bit `number` so hashes can be used as native {@linkcode Map} keys.
+ *
+ * ### Examples
+```ts
+import { DefaultHasher } from "std/hash";
+
+const hasher = new DefaultHasher();
+
+hasher.write(Uint8Array.of(0xc0, 0xff, 0xee));
+
+console.log(`Hash is ${hasher.finish().toString(16)}!`);
+```
+ */
+export abstract class Hasher {
+  /**
+   * Returns the hash value for the values written so far.
+   *
+   * Despite its name, the method does not reset the hasher’s internal state.
+   * Additional writes will continue from the current value.
+   */
+  public abstract finish(): number;
+
+  /** Writes some data into this {@linkcode Hasher}. */
+  public abstract write(bytes: Uint8Array): void;
+
+  /** Writes a single `u8` into this hasher. */
+  public writeU8(i: number) {
+    this.write(Uint8Array.of(i));
+  }
+
+  /** Writes a single `u16` into this hasher. */
+  public writeU16(i: number) {
+    SCRATCH.setUint16(0,i,true);
+    this.write(new Uint8Array(SCRATCH.buffer,0,2));
+  }
+
+  /** Writes a single `u32` into this hasher. */
+  public writeU32(i: number) {
+    SCRATCH.setUint32(0,i,true);
+    this.write(new Uint8Array(SCRATCH.buffer,0,4));
+  }
+
+  /** Writes a single `u64` into this hasher. */
+  public writeU64(i: bigint) {
+    SCRATCH.setBigUint64(0,BigInt.asUintN(64,i),true);
+    this.writeU32(SCRATCH.getUint32(0,true));
+    this.writeU32(SCRATCH.getUint32(4,true));
+  }
+
+  /** Writes a single `f64` into this hasher. */
+  public writeF64(f: number) {
+    SCRATCH.setFloat64(0,f,true);
+    this.writeU32(SCRATCH.getUint32(0,true));
+    this.writeU32(SCRATCH.getUint32(4,true));
+  }
+
+  /** Writes a single `usize` (length prefixes for example) into this hasher. */
+  public writeUsize(i: number) {
+    this.writeU32(i);
+  }
+
+  /**
+   * Writes a single `str` into this hasher.
+   *
+   * The string is terminated by `0xff` so that `("ab","c")` and `("a","bc")` hash differently.
+   */
+  public writeStr(s: string) {
+    this.write(ENCODER.encode(s));
+    this.writeU8(0xff);
+  }
+}
+
+
+/**
+ * A trait for creating instances of {@linkcode Hasher}.
+ *
+ * A {@linkcode BuildHasher} is typically used (e.g., by {@linkcode HashMap}) to create {@linkcode Hasher}s for each key such that they are hashed independently of one another,
+ * since {@linkcode Hasher}s contain state.
+ *
+ * For each instance of {@linkcode BuildHasher}, the {@linkcode Hasher}s created by {@linkcode buildHasher} should be identical.
+ * That is, if the same stream of bytes is fed into each hasher, the same output will also be generated.
+ *
+ * ### Examples
+```ts
+import { RandomState } from "std/hash";
+
+const s = new RandomState();
+const hasher1 = s.buildHasher();
+const hasher2 = s.buildHasher();
+
+hasher1.writeU32(8);
+hasher2.writeU32(8);
+
+$assertEq(hasher1.finish(), hasher2.finish());
+```
+ */
+export abstract class BuildHasher {
+  /** Creates a new hasher. */
+  public abstract buildHasher(): Hasher;
+
+  /**
+   * Calculates the hash of a single value.
+   *
+   * This is intended as a convenience for code which consumes hashes, such as the implementation of a hash table.
+   *
+   * ### Examples
+  ```ts
+  import { RandomState } from "std/hash";
+
+  const s = new RandomState();
+
+  $assertEq(s.hashOne([1, 2]), s.hashOne($vec(1, 2)));
+  ```
+   */
+  public hashOne<T>(x: T): number {
+    const state=this.buildHasher();
+    $hash(x,state);
+
+    return state.finish();
+  }
+}
+
+/**
+ * Used to create a default {@linkcode BuildHasher} instance for types that implement {@linkcode Hasher}.
+ *
+ * ### Examples
+```ts
+import { BuildHasherDefault,FxHasher } from "std/hash";
+
+const map = HashMap.withHasher(new BuildHasherDefault(FxHasher));
+```
+ */
+export class BuildHasherDefault<H extends Hasher> extends BuildHasher {
+  constructor(private readonly hasher: new()=> H) {
+    super();
+  }
+
+  public buildHasher(): H {
+    return new this.hasher();
+  }
+}
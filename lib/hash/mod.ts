@@ -0,0 +1,4 @@
+export * from "./hash.ts";
+export * from "./hasher.ts";
+export * from "./fx_hasher.ts";
+export * from "./random.ts";
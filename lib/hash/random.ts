@@ -0,0 +1,35 @@
+import { FxHasher } from "./fx_hasher.ts";
+import { BuildHasher } from "./hasher.ts";
+
+
+/**
+ * The default {@linkcode Hasher} used by {@linkcode RandomState}.
+ *
+ * The internal algorithm is not specified, and so it and its hashes should not be relied upon over releases.
+ */
+export class DefaultHasher extends FxHasher {}
+
+/**
+ * {@linkcode RandomState} is the default state for {@linkcode HashMap} types.
+ *
+ * A particular instance {@linkcode RandomState} will create the same instances of {@linkcode Hasher},
+ * but the hashers created by two different {@linkcode RandomState} instances are unlikely to produce the same result for the same values.
+ *
+ * ### Examples
+```ts
+import { RandomState } from "std/hash";
+
+const s = new RandomState();
+const map = HashMap.withHasher<[number,number],string>(s);
+
+map.set([1, 2], "xd");
+$assertEq(map.get([1, 2]), Some("xd"));
+```
+ */
+export class RandomState extends BuildHasher {
+  readonly #seed=crypto.getRandomValues(new Uint32Array(1))[0];
+
+  public buildHasher(): DefaultHasher {
+    return new DefaultHasher(this.#seed);
+  }
+}
@@ -294,7 +294,7 @@ export type IoErrorKindStr=
  */
 export class IoError extends ErrorTrait {
   #rawOsErr: number|null=null;
-  constructor(kind: IoErrorKind,error: Error|string,cause?: string) {
+  constructor(kind: IoErrorKind,error: Error|string,cause?: string|Error) {
     super(kind,error,cause);
   }
 
@@ -346,6 +346,27 @@ export class IoError extends ErrorTrait {
     return new IoError(IoErrorKind.Other,error);
   }
 
+  /**
+   * Converts any error into an {@linkcode IoError}.
+   * 
+   * The errors thrown by the runtime (like {@linkcode Deno.errors.NotFound}) get the matching {@linkcode IoErrorKind},
+   * anything else gets {@linkcode IoErrorKind.Other}.
+   * 
+   * ## Examples
+  ```ts
+  import { IoError,IoErrorKind } from "std/io";
+  
+  const error = IoError.from(new Deno.errors.NotFound("foo.txt"));
+  $assertEq(error.kind(),IoErrorKind.NotFound);
+  ```
+   */
+  public static override from(error: unknown): IoError {
+    if(error instanceof IoError) return error;
+    if(error instanceof Error) return new IoError(decodeErrorName(error.name),error);
+
+    return IoError.other(String(error));
+  }
+
   /**
    * Returns the OS error that this error represents (if any).
    * 
@@ -369,6 +390,15 @@ export class IoError extends ErrorTrait {
 }
 
 
+function decodeErrorName(name: string): IoErrorKind {
+  switch(name) {
+    case "Busy": return IoErrorKind.ResourceBusy;
+    case "NotCapable": return IoErrorKind.PermissionDenied;
+    case "NotSupported": return IoErrorKind.Unsupported;
+    default: return Object.hasOwn(IoErrorKind,name)?IoErrorKind[name as keyof typeof IoErrorKind]:IoErrorKind.Other;
+  }
+}
+
 function encodeIoErrorKind(_code: number): IoErrorKind {
   return IoErrorKind.Uncategorized;
 }
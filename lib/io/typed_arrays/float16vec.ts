@@ -8,9 +8,10 @@ import { ArrayLite, Fn } from '../../types.ts';
 import * as lib from "../../../bindings/std_rs.js";
 import { Option,Result } from "../../error/mod.ts";
 import { $resultSync } from "../../error/result/macros.ts";
-import { $todo } from "../../declarative-macros/panics.ts";
 import { CollectionError } from "../../collections/error.ts";
-import { IntoIterator,IteratorTrait } from '../../iter/iter.ts';
+import { IntoIterator } from '../../iter/iter.ts';
+import { DoubleEndedIterator,DoubleEndedIter } from '../../iter/double_ended_iter.ts';
+import { customInspect,inspectIter,Inspect,InspectOptions } from '../../fmt/inspect.ts';
 
 
 type Equivalent=Vec<number>|number[]|Float16Vec|Float16Array;
@@ -26,7 +27,10 @@ export class Float16Vec extends IntoIterator<number> implements Clone,Disposable
     super();
     this.#ptr=elements.length>0?lib.f16_vec_from_jsarr(elements):lib.f16_new_vec();
 
-    return new Proxy<Float16Vec>(this,Float16Vec.#handler);
+    const proxy=new Proxy<Float16Vec>(this,Float16Vec.#handler);
+    Float16Vec.#targets.set(proxy,this);
+
+    return proxy;
   }
 
   public static withCapacity(capacity: number): Float16Vec {
@@ -41,9 +45,20 @@ export class Float16Vec extends IntoIterator<number> implements Clone,Disposable
     return Float16Vec.fromPtr(lib.f16_vec_from_iter(iter[Symbol.iterator]()));
   }
 
+  public static fromIter(iter: Iterable<number>): Float16Vec {
+    return Float16Vec.from(iter);
+  }
+
+  /** Private fields can't be reached through a {@linkcode Proxy}, so every proxy is mapped back to its target. */
+  static #targets=new WeakMap<Float16Vec,Float16Vec>();
+
   static #handler: ProxyHandler<Float16Vec>={
-    get(self: Float16Vec,p): number {
-      return isNum(p)?lib.f16_vec_index(self.#ptr,p):self[p as unknown as keyof typeof self] as number;
+    get(self: Float16Vec,p) {
+      if(isNum(p)) return lib.f16_vec_index(self.#ptr,p);
+
+      const value=self[p as unknown as keyof typeof self];
+      // Methods must be called on the target, otherwise they can't access the private fields.
+      return typeof value==="function"?value.bind(self):value;
     },
     set(self,index,val): boolean {
       return isNum(index) && !(lib.f16_vec_set(self.#ptr,index,val) as undefined);
@@ -57,11 +72,16 @@ export class Float16Vec extends IntoIterator<number> implements Clone,Disposable
     lib.f16_drop_vec(this.#ptr);
   }
 
+  [customInspect](inspect: Inspect,options: InspectOptions): string {
+    return inspectIter("Float16Vec","[]",this,inspect,options);
+  }
+
   private static fromPtr(ptr: number): Float16Vec {
     const self=new Float16Vec();
+    const raw=Float16Vec.#targets.get(self) ?? self;
 
-    lib.f16_drop_vec(self.#ptr);
-    self.#ptr=ptr;
+    lib.f16_drop_vec(raw.#ptr);
+    raw.#ptr=ptr;
 
     return self;
   }
@@ -120,8 +140,8 @@ export class Float16Vec extends IntoIterator<number> implements Clone,Disposable
     return lib.f16_view(this.#ptr);
   }
 
-  public iter(): IteratorTrait<number> {
-    return $todo();
+  public iter(): DoubleEndedIterator<number> {
+    return new DoubleEndedIter(this.length,i=> this.at(i).value as number);
   }
 
   public at(index: number): Option<number> {
@@ -8,9 +8,10 @@ import { ArrayLite, Fn } from '../../types.ts';
 import * as lib from "../../../bindings/std_rs.js";
 import { Option,Result } from "../../error/mod.ts";
 import { $resultSync } from "../../error/result/macros.ts";
-import { $todo } from "../../declarative-macros/panics.ts";
 import { CollectionError } from "../../collections/error.ts";
-import { IntoIterator,IteratorTrait } from '../../iter/iter.ts';
+import { IntoIterator } from '../../iter/iter.ts';
+import { DoubleEndedIterator,DoubleEndedIter } from '../../iter/double_ended_iter.ts';
+import { customInspect,inspectIter,Inspect,InspectOptions } from '../../fmt/inspect.ts';
 
 
 type Equivalent=Vec<number>|number[]|Float32Vec|Float32Array;
@@ -26,7 +27,10 @@ export class Float32Vec extends IntoIterator<number> implements Clone,Disposable
     super();
     this.#ptr=elements.length>0?lib.f32_vec_from_jsarr(elements):lib.f32_new_vec();
 
-    return new Proxy<Float32Vec>(this,Float32Vec.#handler);
+    const proxy=new Proxy<Float32Vec>(this,Float32Vec.#handler);
+    Float32Vec.#targets.set(proxy,this);
+
+    return proxy;
   }
 
   public static withCapacity(capacity: number): Float32Vec {
@@ -41,9 +45,20 @@ export class Float32Vec extends IntoIterator<number> implements Clone,Disposable
     return Float32Vec.fromPtr(lib.f32_vec_from_iter(iter[Symbol.iterator]()));
   }
 
+  public static fromIter(iter: Iterable<number>): Float32Vec {
+    return Float32Vec.from(iter);
+  }
+
+  /** Private fields can't be reached through a {@linkcode Proxy}, so every proxy is mapped back to its target. */
+  static #targets=new WeakMap<Float32Vec,Float32Vec>();
+
   static #handler: ProxyHandler<Float32Vec>={
-    get(self: Float32Vec,p): number {
-      return isNum(p)?lib.f32_vec_index(self.#ptr,p):self[p as unknown as keyof typeof self] as number;
+    get(self: Float32Vec,p) {
+      if(isNum(p)) return lib.f32_vec_index(self.#ptr,p);
+
+      const value=self[p as unknown as keyof typeof self];
+      // Methods must be called on the target, otherwise they can't access the private fields.
+      return typeof value==="function"?value.bind(self):value;
     },
     set(self,index,val): boolean {
       return isNum(index) && !(lib.f32_vec_set(self.#ptr,index,val) as undefined);
@@ -57,11 +72,16 @@ export class Float32Vec extends IntoIterator<number> implements Clone,Disposable
     lib.f32_drop_vec(this.#ptr);
   }
 
+  [customInspect](inspect: Inspect,options: InspectOptions): string {
+    return inspectIter("Float32Vec","[]",this,inspect,options);
+  }
+
   private static fromPtr(ptr: number): Float32Vec {
     const self=new Float32Vec();
+    const raw=Float32Vec.#targets.get(self) ?? self;
 
-    lib.f32_drop_vec(self.#ptr);
-    self.#ptr=ptr;
+    lib.f32_drop_vec(raw.#ptr);
+    raw.#ptr=ptr;
 
     return self;
   }
@@ -120,8 +140,8 @@ export class Float32Vec extends IntoIterator<number> implements Clone,Disposable
     return lib.f32_view(this.#ptr);
   }
 
-  public iter(): IteratorTrait<number> {
-    return $todo();
+  public iter(): DoubleEndedIterator<number> {
+    return new DoubleEndedIter(this.length,i=> this.at(i).value as number);
   }
 
   public at(index: number): Option<number> {
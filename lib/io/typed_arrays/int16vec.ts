@@ -8,9 +8,10 @@ import { ArrayLite, Fn } from '../../types.ts';
 import * as lib from "../../../bindings/std_rs.js";
 import { Option,Result } from "../../error/mod.ts";
 import { $resultSync } from "../../error/result/macros.ts";
-import { $todo } from "../../declarative-macros/panics.ts";
 import { CollectionError } from "../../collections/error.ts";
-import { IntoIterator,IteratorTrait } from '../../iter/iter.ts';
+import { IntoIterator } from '../../iter/iter.ts';
+import { DoubleEndedIterator,DoubleEndedIter } from '../../iter/double_ended_iter.ts';
+import { customInspect,inspectIter,Inspect,InspectOptions } from '../../fmt/inspect.ts';
 
 
 type Equivalent=Vec<number>|number[]|Int16Vec|Int16Array;
@@ -25,7 +26,10 @@ export class Int16Vec extends IntoIterator<number> implements Clone,Disposable,P
     super();
     this.#ptr=elements.length>0?lib.i16_vec_from_jsarr(elements):lib.i16_new_vec();
 
-    return new Proxy<Int16Vec>(this,Int16Vec.#handler);
+    const proxy=new Proxy<Int16Vec>(this,Int16Vec.#handler);
+    Int16Vec.#targets.set(proxy,this);
+
+    return proxy;
   }
 
   public static withCapacity(capacity: number): Int16Vec {
@@ -40,9 +44,20 @@ export class Int16Vec extends IntoIterator<number> implements Clone,Disposable,P
     return Int16Vec.fromPtr(lib.i16_vec_from_iter(iter[Symbol.iterator]()));
   }
 
+  public static fromIter(iter: Iterable<number>): Int16Vec {
+    return Int16Vec.from(iter);
+  }
+
+  /** Private fields can't be reached through a {@linkcode Proxy}, so every proxy is mapped back to its target. */
+  static #targets=new WeakMap<Int16Vec,Int16Vec>();
+
   static #handler: ProxyHandler<Int16Vec>={
-    get(self: Int16Vec,p): number {
-      return isNum(p)?lib.i16_vec_index(self.#ptr,p):self[p as unknown as keyof typeof self] as number;
+    get(self: Int16Vec,p) {
+      if(isNum(p)) return lib.i16_vec_index(self.#ptr,p);
+
+      const value=self[p as unknown as keyof typeof self];
+      // Methods must be called on the target, otherwise they can't access the private fields.
+      return typeof value==="function"?value.bind(self):value;
     },
     set(self,index,val): boolean {
       return isNum(index) && !(lib.i16_vec_set(self.#ptr,index,val) as undefined);
@@ -56,11 +71,16 @@ export class Int16Vec extends IntoIterator<number> implements Clone,Disposable,P
     lib.i16_drop_vec(this.#ptr);
   }
 
+  [customInspect](inspect: Inspect,options: InspectOptions): string {
+    return inspectIter("Int16Vec","[]",this,inspect,options);
+  }
+
   private static fromPtr(ptr: number): Int16Vec {
     const self=new Int16Vec();
+    const raw=Int16Vec.#targets.get(self) ?? self;
 
-    lib.i16_drop_vec(self.#ptr);
-    self.#ptr=ptr;
+    lib.i16_drop_vec(raw.#ptr);
+    raw.#ptr=ptr;
 
     return self;
   }
@@ -119,8 +139,8 @@ export class Int16Vec extends IntoIterator<number> implements Clone,Disposable,P
     return lib.i16_view(this.#ptr);
   }
 
-  public iter(): IteratorTrait<number> {
-    return $todo();
+  public iter(): DoubleEndedIterator<number> {
+    return new DoubleEndedIter(this.length,i=> this.at(i).value as number);
   }
 
   public at(index: number): Option<number> {
@@ -8,9 +8,10 @@ import { ArrayLite, Fn } from '../../types.ts';
 import * as lib from "../../../bindings/std_rs.js";
 import { Option,Result } from "../../error/mod.ts";
 import { $resultSync } from "../../error/result/macros.ts";
-import { $todo } from "../../declarative-macros/panics.ts";
 import { CollectionError } from "../../collections/error.ts";
-import { IntoIterator,IteratorTrait } from '../../iter/iter.ts';
+import { IntoIterator } from '../../iter/iter.ts';
+import { DoubleEndedIterator,DoubleEndedIter } from '../../iter/double_ended_iter.ts';
+import { customInspect,inspectIter,Inspect,InspectOptions } from '../../fmt/inspect.ts';
 
 
 
@@ -26,7 +27,10 @@ export class Int64Vec extends IntoIterator<bigint> implements Clone,Disposable,P
     super();
     this.#ptr=elements.length>0?lib.i64_vec_from_jsarr(elements):lib.i64_new_vec();
 
-    return new Proxy<Int64Vec>(this,Int64Vec.#handler);
+    const proxy=new Proxy<Int64Vec>(this,Int64Vec.#handler);
+    Int64Vec.#targets.set(proxy,this);
+
+    return proxy;
   }
 
   public static withCapacity(capacity: number): Int64Vec {
@@ -41,9 +45,20 @@ export class Int64Vec extends IntoIterator<bigint> implements Clone,Disposable,P
     return Int64Vec.fromPtr(lib.i64_vec_from_iter(iter[Symbol.iterator]()));
   }
 
+  public static fromIter(iter: Iterable<bigint>): Int64Vec {
+    return Int64Vec.from(iter);
+  }
+
+  /** Private fields can't be reached through a {@linkcode Proxy}, so every proxy is mapped back to its target. */
+  static #targets=new WeakMap<Int64Vec,Int64Vec>();
+
   static #handler: ProxyHandler<Int64Vec>={
-    get(self: Int64Vec,p): bigint {
-      return isNum(p)?lib.i64_vec_index(self.#ptr,p):self[p as unknown as keyof typeof self] as bigint;
+    get(self: Int64Vec,p) {
+      if(isNum(p)) return lib.i64_vec_index(self.#ptr,p);
+
+      const value=self[p as unknown as keyof typeof self];
+      // Methods must be called on the target, otherwise they can't access the private fields.
+      return typeof value==="function"?value.bind(self):value;
     },
     set(self,index,val): boolean {
       return isNum(index) && !(lib.i64_vec_set(self.#ptr,index,val) as undefined);
@@ -57,11 +72,16 @@ export class Int64Vec extends IntoIterator<bigint> implements Clone,Disposable,P
     lib.i64_drop_vec(this.#ptr);
   }
 
+  [customInspect](inspect: Inspect,options: InspectOptions): string {
+    return inspectIter("Int64Vec","[]",this,inspect,options);
+  }
+
   private static fromPtr(ptr: number): Int64Vec {
     const self=new Int64Vec();
+    const raw=Int64Vec.#targets.get(self) ?? self;
 
-    lib.i64_drop_vec(self.#ptr);
-    self.#ptr=ptr;
+    lib.i64_drop_vec(raw.#ptr);
+    raw.#ptr=ptr;
 
     return self;
   }
@@ -120,8 +140,8 @@ export class Int64Vec extends IntoIterator<bigint> implements Clone,Disposable,P
     return lib.i64_view(this.#ptr);
   }
 
-  public iter(): IteratorTrait<bigint> {
-    return $todo();
+  public iter(): DoubleEndedIterator<bigint> {
+    return new DoubleEndedIter(this.length,i=> this.at(i).value as bigint);
   }
 
   public at(index: number): Option<bigint> {
@@ -8,9 +8,10 @@ import { ArrayLite, Fn } from '../../types.ts';
 import * as lib from "../../../bindings/std_rs.js";
 import { Option,Result } from "../../error/mod.ts";
 import { $resultSync } from "../../error/result/macros.ts";
-import { $todo } from "../../declarative-macros/panics.ts";
 import { CollectionError } from "../../collections/error.ts";
-import { IntoIterator,IteratorTrait } from '../../iter/iter.ts';
+import { IntoIterator } from '../../iter/iter.ts';
+import { DoubleEndedIterator,DoubleEndedIter } from '../../iter/double_ended_iter.ts';
+import { customInspect,inspectIter,Inspect,InspectOptions } from '../../fmt/inspect.ts';
 
 
 type Equivalent=Vec<number>|number[]|Int8Vec|Int8Array;
@@ -25,7 +26,10 @@ export class Int8Vec extends IntoIterator<number> implements Clone,Disposable,Pa
     super();
     this.#ptr=elements.length>0?lib.i8_vec_from_jsarr(elements):lib.i8_new_vec();
 
-    return new Proxy<Int8Vec>(this,Int8Vec.#handler);
+    const proxy=new Proxy<Int8Vec>(this,Int8Vec.#handler);
+    Int8Vec.#targets.set(proxy,this);
+
+    return proxy;
   }
 
   public static withCapacity(capacity: number): Int8Vec {
@@ -40,9 +44,20 @@ export class Int8Vec extends IntoIterator<number> implements Clone,Disposable,Pa
     return Int8Vec.fromPtr(lib.i8_vec_from_iter(iter[Symbol.iterator]()));
   }
 
+  public static fromIter(iter: Iterable<number>): Int8Vec {
+    return Int8Vec.from(iter);
+  }
+
+  /** Private fields can't be reached through a {@linkcode Proxy}, so every proxy is mapped back to its target. */
+  static #targets=new WeakMap<Int8Vec,Int8Vec>();
+
   static #handler: ProxyHandler<Int8Vec>={
-    get(self: Int8Vec,p): number {
-      return isNum(p)?lib.i8_vec_index(self.#ptr,p):self[p as unknown as keyof typeof self] as number;
+    get(self: Int8Vec,p) {
+      if(isNum(p)) return lib.i8_vec_index(self.#ptr,p);
+
+      const value=self[p as unknown as keyof typeof self];
+      // Methods must be called on the target, otherwise they can't access the private fields.
+      return typeof value==="function"?value.bind(self):value;
     },
     set(self,index,val): boolean {
       return isNum(index) && !(lib.i8_vec_set(self.#ptr,index,val) as undefined);
@@ -56,11 +71,16 @@ export class Int8Vec extends IntoIterator<number> implements Clone,Disposable,Pa
     lib.i8_drop_vec(this.#ptr);
   }
 
+  [customInspect](inspect: Inspect,options: InspectOptions): string {
+    return inspectIter("Int8Vec","[]",this,inspect,options);
+  }
+
   private static fromPtr(ptr: number): Int8Vec {
     const self=new Int8Vec();
+    const raw=Int8Vec.#targets.get(self) ?? self;
 
-    lib.i8_drop_vec(self.#ptr);
-    self.#ptr=ptr;
+    lib.i8_drop_vec(raw.#ptr);
+    raw.#ptr=ptr;
 
     return self;
   }
@@ -119,8 +139,8 @@ export class Int8Vec extends IntoIterator<number> implements Clone,Disposable,Pa
     return lib.i8_view(this.#ptr);
   }
 
-  public iter(): IteratorTrait<number> {
-    return $todo();
+  public iter(): DoubleEndedIterator<number> {
+    return new DoubleEndedIter(this.length,i=> this.at(i).value as number);
   }
 
   public at(index: number): Option<number> {
@@ -8,9 +8,10 @@ import { ArrayLite, Fn } from '../../types.ts';
 import * as lib from "../../../bindings/std_rs.js";
 import { Option,Result } from "../../error/mod.ts";
 import { $resultSync } from "../../error/result/macros.ts";
-import { $todo } from "../../declarative-macros/panics.ts";
 import { CollectionError } from "../../collections/error.ts";
-import { IntoIterator,IteratorTrait } from '../../iter/iter.ts';
+import { IntoIterator } from '../../iter/iter.ts';
+import { DoubleEndedIterator,DoubleEndedIter } from '../../iter/double_ended_iter.ts';
+import { customInspect,inspectIter,Inspect,InspectOptions } from '../../fmt/inspect.ts';
 
 
 
@@ -26,7 +27,10 @@ export class Uint32Vec extends IntoIterator<number> implements Clone,Disposable,
     super();
     this.#ptr=elements.length>0?lib.u32_vec_from_jsarr(elements):lib.u32_new_vec();
 
-    return new Proxy<Uint32Vec>(this,Uint32Vec.#handler);
+    const proxy=new Proxy<Uint32Vec>(this,Uint32Vec.#handler);
+    Uint32Vec.#targets.set(proxy,this);
+
+    return proxy;
   }
 
   public static withCapacity(capacity: number): Uint32Vec {
@@ -41,9 +45,20 @@ export class Uint32Vec extends IntoIterator<number> implements Clone,Disposable,
     return Uint32Vec.fromPtr(lib.u32_vec_from_iter(iter[Symbol.iterator]()));
   }
 
+  public static fromIter(iter: Iterable<number>): Uint32Vec {
+    return Uint32Vec.from(iter);
+  }
+
+  /** Private fields can't be reached through a {@linkcode Proxy}, so every proxy is mapped back to its target. */
+  static #targets=new WeakMap<Uint32Vec,Uint32Vec>();
+
   static #handler: ProxyHandler<Uint32Vec>={
-    get(self: Uint32Vec,p): number {
-      return isNum(p)?lib.u32_vec_index(self.#ptr,p):self[p as unknown as keyof typeof self] as number;
+    get(self: Uint32Vec,p) {
+      if(isNum(p)) return lib.u32_vec_index(self.#ptr,p);
+
+      const value=self[p as unknown as keyof typeof self];
+      // Methods must be called on the target, otherwise they can't access the private fields.
+      return typeof value==="function"?value.bind(self):value;
     },
     set(self,index,val): boolean {
       return isNum(index) && !(lib.u32_vec_set(self.#ptr,index,val) as undefined);
@@ -57,11 +72,16 @@ export class Uint32Vec extends IntoIterator<number> implements Clone,Disposable,
     lib.u32_drop_vec(this.#ptr);
   }
 
+  [customInspect](inspect: Inspect,options: InspectOptions): string {
+    return inspectIter("Uint32Vec","[]",this,inspect,options);
+  }
+
   private static fromPtr(ptr: number): Uint32Vec {
     const self=new Uint32Vec();
+    const raw=Uint32Vec.#targets.get(self) ?? self;
 
-    lib.u32_drop_vec(self.#ptr);
-    self.#ptr=ptr;
+    lib.u32_drop_vec(raw.#ptr);
+    raw.#ptr=ptr;
 
     return self;
   }
@@ -120,8 +140,8 @@ export class Uint32Vec extends IntoIterator<number> implements Clone,Disposable,
     return lib.u32_view(this.#ptr);
   }
 
-  public iter(): IteratorTrait<number> {
-    return $todo();
+  public iter(): DoubleEndedIterator<number> {
+    return new DoubleEndedIter(this.length,i=> this.at(i).value as number);
   }
 
   public at(index: number): Option<number> {
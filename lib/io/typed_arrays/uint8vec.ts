@@ -8,9 +8,10 @@ import { ArrayLite, Fn } from '../../types.ts';
 import * as lib from "../../../bindings/std_rs.js";
 import { Option,Result } from "../../error/mod.ts";
 import { $resultSync } from "../../error/result/macros.ts";
-import { $todo } from "../../declarative-macros/panics.ts";
 import { CollectionError } from "../../collections/error.ts";
-import { IntoIterator,IteratorTrait } from '../../iter/iter.ts';
+import { IntoIterator } from '../../iter/iter.ts';
+import { DoubleEndedIterator,DoubleEndedIter } from '../../iter/double_ended_iter.ts';
+import { customInspect,inspectIter,Inspect,InspectOptions } from '../../fmt/inspect.ts';
 
 
 
@@ -26,7 +27,10 @@ export class Uint8Vec extends IntoIterator<number> implements Clone,Disposable,P
     super();
     this.#ptr=elements.length>0?lib.u8_vec_from_jsarr(elements):lib.u8_new_vec();
 
-    return new Proxy<Uint8Vec>(this,Uint8Vec.#handler);
+    const proxy=new Proxy<Uint8Vec>(this,Uint8Vec.#handler);
+    Uint8Vec.#targets.set(proxy,this);
+
+    return proxy;
   }
 
   public static withCapacity(capacity: number): Uint8Vec {
@@ -41,9 +45,20 @@ export class Uint8Vec extends IntoIterator<number> implements Clone,Disposable,P
     return Uint8Vec.fromPtr(lib.u8_vec_from_iter(iter[Symbol.iterator]()));
   }
 
+  public static fromIter(iter: Iterable<number>): Uint8Vec {
+    return Uint8Vec.from(iter);
+  }
+
+  /** Private fields can't be reached through a {@linkcode Proxy}, so every proxy is mapped back to its target. */
+  static #targets=new WeakMap<Uint8Vec,Uint8Vec>();
+
   static #handler: ProxyHandler<Uint8Vec>={
-    get(self: Uint8Vec,p): number {
-      return isNum(p)?lib.u8_vec_index(self.#ptr,p):self[p as unknown as keyof typeof self] as number;
+    get(self: Uint8Vec,p) {
+      if(isNum(p)) return lib.u8_vec_index(self.#ptr,p);
+
+      const value=self[p as unknown as keyof typeof self];
+      // Methods must be called on the target, otherwise they can't access the private fields.
+      return typeof value==="function"?value.bind(self):value;
     },
     set(self,index,val): boolean {
       return isNum(index) && !(lib.u8_vec_set(self.#ptr,index,val) as undefined);
@@ -57,11 +72,16 @@ export class Uint8Vec extends IntoIterator<number> implements Clone,Disposable,P
     lib.u8_drop_vec(this.#ptr);
   }
 
+  [customInspect](inspect: Inspect,options: InspectOptions): string {
+    return inspectIter("Uint8Vec","[]",this,inspect,options);
+  }
+
   private static fromPtr(ptr: number): Uint8Vec {
     const self=new Uint8Vec();
+    const raw=Uint8Vec.#targets.get(self) ?? self;
 
-    lib.u8_drop_vec(self.#ptr);
-    self.#ptr=ptr;
+    lib.u8_drop_vec(raw.#ptr);
+    raw.#ptr=ptr;
 
     return self;
   }
@@ -120,8 +140,8 @@ export class Uint8Vec extends IntoIterator<number> implements Clone,Disposable,P
     return lib.u8_view(this.#ptr);
   }
 
-  public iter(): IteratorTrait<number> {
-    return $todo();
+  public iter(): DoubleEndedIterator<number> {
+    return new DoubleEndedIter(this.length,i=> this.at(i).value as number);
   }
 
   public at(index: number): Option<number> {
@@ -0,0 +1,452 @@
+import { Fn } from '../types.ts';
+import { Vec } from '../collections/vec/mod.ts';
+import { Option,None,AsyncOption,AsyncResult } from "../error/mod.ts";
+import { $result } from "../error/result/macros.ts";
+import { FromIterator } from "./from_iter.ts";
+
+
+type Awaitable<T>=T|PromiseLike<T>;
+
+const ZERO_BUFFER="Buffer size must be non-zero";
+
+
+/**
+ * The asynchronous version of {@linkcode IteratorTrait}, for sources yielding their elements over time
+ * like a {@linkcode ReadableStream}, {@linkcode fs.readDir} or the requests of a server.
+ *
+ * The adapters ({@linkcode map}, {@linkcode filter}, {@linkcode take}...) are lazy, nothing is pulled from the source until a terminal operation runs.
+ * Callbacks may either return a value or a {@linkcode Promise} of it.
+ *
+ * The terminal operations resolving to an {@linkcode AsyncResult} never throw, it holds the error raised by the source (if any) instead.
+ * The ones resolving to an {@linkcode AsyncOption} ({@linkcode next}, {@linkcode find}, {@linkcode last} and {@linkcode nth})
+ * have no room for that error, so they reject with it.
+ *
+ * * Implementing it only requires {@linkcode Symbol.asyncIterator}.
+ *
+ * ### Examples
+```ts
+import fs from "std/fs";
+
+const names = await fs.readDir(".")
+.filter(entry=> entry.isFile)
+.map(entry=> entry.name)
+.collect()
+.unwrap();
+```
+ */
+export abstract class AsyncIteratorTrait<T> implements AsyncIterable<T> {
+  public abstract [Symbol.asyncIterator](): AsyncIterator<T>;
+
+  /**
+   * Advances the iterator and returns the next value.
+   *
+   * Resolves to `None` when iteration is finished.
+   *
+   * ### Examples
+  ```ts
+  const iter = iter.fromAsync([1, 2]);
+
+  $assertEq(await iter.next(), Some(1));
+  $assertEq(await iter.next(), Some(2));
+  $assertEq(await iter.next(), None());
+  ```
+   */
+  public next(): AsyncOption<T> {
+    return new AsyncOption(this[Symbol.asyncIterator]().next().then(next=> next.done?None():new Option(next.value)));
+  }
+
+  /**
+   * Tests if every element of the iterator matches a predicate.
+   *
+   * {@linkcode all()} is short-circuiting, it stops pulling elements as soon as it finds a `false`.
+   *
+   * * An empty iterator resolves to `true`.
+   *
+   * ### Examples
+  ```ts
+  $assert(await iter.fromAsync([1, 2, 3]).all(x=> x>0).unwrap());
+  ```
+   */
+  public all(f: Fn<[element: T],Awaitable<boolean>>): AsyncResult<boolean,Error> {
+    return $result(async ()=> {
+      for await(const element of this) if(!await f(element)) return false;
+
+      return true;
+    });
+  }
+
+  /**
+   * Tests if any element of the iterator matches a predicate.
+   *
+   * {@linkcode any()} is short-circuiting, it stops pulling elements as soon as it finds a `true`.
+   *
+   * * An empty iterator resolves to `false`.
+   *
+   * ### Examples
+  ```ts
+  $assert(await iter.fromAsync([1, 2, 70]).any(x=> x>69).unwrap());
+  ```
+   */
+  public any(f: Fn<[element: T],Awaitable<boolean>>): AsyncResult<boolean,Error> {
+    return $result(async ()=> {
+      for await(const element of this) if(await f(element)) return true;
+
+      return false;
+    });
+  }
+
+  /**
+   * Consumes the iterator, counting the number of elements.
+   *
+   * ### Examples
+  ```ts
+  $assertEq(await iter.fromAsync([1, 2, 3]).count().unwrap(), 3);
+  ```
+   */
+  public count(): AsyncResult<number,Error> {
+    return this.fold(0,count=> count+1);
+  }
+
+  /**
+   * Folds every element into an accumulator by applying an operation, resolving to the final result.
+   *
+   * ### Examples
+  ```ts
+  const sum = await iter.fromAsync([1, 2, 3]).fold(0, (acc, x)=> acc+x).unwrap();
+
+  $assertEq(sum, 6);
+  ```
+   */
+  public fold<U>(init: U,f: Fn<[prev: U,element: T],Awaitable<U>>): AsyncResult<U,Error> {
+    return $result(async ()=> {
+      for await(const element of this) init=await f(init,element);
+
+      return init;
+    });
+  }
+
+  /**
+   * Calls a callback function on each element of the iterator.
+   *
+   * Up to {@linkcode concurrency} callbacks are awaited at the same time, so elements may be processed out of order when it's above `1`.
+   *
+   * ### Examples
+  ```ts
+  import fs from "std/fs";
+
+  // Removes the files 8 at a time.
+  await fs.readDir("./tmp")
+  .forEach(entry=> fs.removeFile(`./tmp/${entry.name}`),8)
+  .unwrap();
+  ```
+   */
+  public forEach(f: Fn<[element: T,index: number],Awaitable<unknown>>,concurrency=1): AsyncResult<void,Error> {
+    return $result(async ()=> {
+      const iter=this[Symbol.asyncIterator]();
+      let i=0;
+
+      const worker=async ()=> {
+        for(let next=await iter.next();!next.done;next=await iter.next()) await f(next.value,i++);
+      };
+
+      await Promise.all(Array.from({ length: Math.max(concurrency,1) },worker));
+    });
+  }
+
+  /**
+   * Searches for an element of the iterator that satisfies a predicate.
+   *
+   * {@linkcode find()} is short-circuiting, it stops pulling elements as soon as the predicate returns `true`.
+   *
+   * ### Examples
+  ```ts
+  $assertEq(await iter.fromAsync([1, 2, 3]).find(x=> x===2), Some(2));
+  ```
+   */
+  public find(f: Fn<[element: T],Awaitable<boolean>>): AsyncOption<T> {
+    return new AsyncOption((async ()=> {
+      for await(const element of this) if(await f(element)) return new Option(element);
+
+      return None<T>();
+    })());
+  }
+
+  /**
+   * Consumes the iterator, resolving to the last element.
+   *
+   * ### Examples
+  ```ts
+  $assertEq(await iter.fromAsync([1, 2, 3]).last(), Some(3));
+  ```
+   */
+  public last(): AsyncOption<T> {
+    return new AsyncOption((async ()=> {
+      let last=None<T>();
+      for await(const element of this) last=new Option(element);
+
+      return last;
+    })());
+  }
+
+  /**
+   * Resolves to the {@linkcode n}th element of the iterator, every element before it is consumed.
+   *
+   * ### Examples
+  ```ts
+  $assertEq(await iter.fromAsync([1, 2, 3]).nth(1), Some(2));
+  ```
+   */
+  public nth(n: number): AsyncOption<T> {
+    return new AsyncOption((async ()=> {
+      if(n<0) return None<T>();
+
+      for await(const element of this) if(n--===0) return new Option(element);
+
+      return None<T>();
+    })());
+  }
+
+  /**
+   * Consumes the iterator into a collection implementing {@linkcode FromIterator}, a {@linkcode Vec} by default.
+   *
+   * ### Examples
+  ```ts
+  const vec = await iter.fromAsync([1, 2, 3]).map(x=> x*2).collect().unwrap();
+  $assertEq(vec, $vec(2, 4, 6));
+
+  const set = await iter.fromAsync([1, 1, 2]).collect(HashSet).unwrap();
+  $assertEq(set.len(), 2);
+  ```
+   */
+  public collect(): AsyncResult<Vec<T>,Error>;
+  public collect<C>(target: FromIterator<T,C>): AsyncResult<C,Error>;
+  public collect<C>(target: FromIterator<T,C|Vec<T>>=Vec): AsyncResult<C|Vec<T>,Error> {
+    return new AsyncResult(this.toArray().then(res=> res.map(array=> target.fromIter(array))));
+  }
+
+  /**
+   * Consumes the iterator into a new `T[]`.
+   */
+  public toArray(): AsyncResult<T[],Error> {
+    return $result(()=> Array.fromAsync(this));
+  }
+
+  /**
+   * Creates an iterator which yields the elements of {@linkcode other} after the ones of this iterator.
+   *
+   * ### Examples
+  ```ts
+  const iter = iter.fromAsync([1, 2]).chain([3]);
+
+  $assertEq(await iter.collect().unwrap(), $vec(1, 2, 3));
+  ```
+   */
+  public chain(other: AsyncIterable<T>|Iterable<T>): AsyncIteratorTrait<T> {
+    return new AsyncIter(chain(this,other));
+  }
+
+  /**
+   * Creates an iterator which gives the current iteration count as well as the next value.
+   */
+  public enumerate(): AsyncIteratorTrait<[number,T]> {
+    return this.map((element,i)=> [i,element]);
+  }
+
+  /**
+   * Creates an iterator which uses a callback to determine if an element should be yielded.
+   *
+   * ### Examples
+  ```ts
+  const iter = iter.fromAsync([0, 1, 2]).filter(async x=> x>0);
+
+  $assertEq(await iter.next(), Some(1));
+  ```
+   */
+  public filter(f: Fn<[element: T],Awaitable<boolean>>): AsyncIteratorTrait<T> {
+    return new AsyncIter(filter(this,f));
+  }
+
+  /**
+   * Calls {@linkcode f} with each element before passing it on.
+   */
+  public inspect(f: Fn<[element: T],Awaitable<void>>): AsyncIteratorTrait<T> {
+    return this.map(async element=> {
+      await f(element);
+      return element;
+    });
+  }
+
+  /**
+   * Takes a callback and creates an iterator which calls that callback on each element.
+   *
+   * The callback runs when an element is requested, so multiple calls may be in flight at once when followed by {@linkcode buffered}.
+   *
+   * ### Examples
+  ```ts
+  const iter = iter.fromAsync(["a.txt", "b.txt"]).map(path=> fs.readToString(path).unwrap());
+  ```
+   */
+  public map<U>(f: Fn<[element: T,index: number],Awaitable<U>>): AsyncIteratorTrait<U> {
+    const iter=this[Symbol.asyncIterator]();
+    let i=0;
+
+    return new AsyncIter({
+      // Not a generator, so `buffered` can run several callbacks at once.
+      next: ()=> {
+        const index=i++;
+        return iter.next().then(async next=> next.done?next:{ done: false,value: await f(next.value,index) });
+      }
+    });
+  }
+
+  /**
+   * Creates an iterator that skips the first {@linkcode n} elements.
+   */
+  public skip(n: number): AsyncIteratorTrait<T> {
+    return new AsyncIter(skip(this,n));
+  }
+
+  /**
+   * Creates an iterator that yields the first {@linkcode n} elements, or fewer if the underlying iterator ends sooner.
+   *
+   * No element past the {@linkcode n}th is pulled from the source.
+   */
+  public take(n: number): AsyncIteratorTrait<T> {
+    return new AsyncIter(take(this,n));
+  }
+
+  /**
+   * Creates an iterator that yields elements based on a predicate, it stops at the first element for which {@linkcode f} returns `false`.
+   */
+  public takeWhile(f: Fn<[element: T],Awaitable<boolean>>): AsyncIteratorTrait<T> {
+    return new AsyncIter(takeWhile(this,f));
+  }
+
+  /**
+   * 'Zips up' two iterators into a single iterator of pairs.
+   *
+   * It ends as soon as either iterator ends.
+   *
+   * ### Examples
+  ```ts
+  const iter = iter.fromAsync([1, 2]).zip(["a", "b", "c"]);
+
+  $assertEq(await iter.collect().unwrap(), $vec([1, "a"], [2, "b"]));
+  ```
+   */
+  public zip<U>(other: AsyncIterable<U>|Iterable<U>): AsyncIteratorTrait<[T,U]> {
+    return new AsyncIter(zip(this,other));
+  }
+
+  /**
+   * Creates an iterator which requests up to {@linkcode n} elements ahead of the consumer.
+   *
+   * Combined with {@linkcode map}, it runs up to {@linkcode n} callbacks concurrently while keeping the elements in order.
+   *
+   * ### Panics
+   * Panics if {@linkcode n} is `0`.
+   *
+   * ### Examples
+  ```ts
+  // Fetches 4 urls at a time.
+  const bodies = await iter.fromAsync(urls)
+  .map(url=> fetch(url).then(res=> res.text()))
+  .buffered(4)
+  .collect()
+  .unwrap();
+  ```
+   */
+  public buffered(n: number): AsyncIteratorTrait<T> {
+    if(n<=0) throw ZERO_BUFFER;
+
+    const iter=this[Symbol.asyncIterator]();
+    const queue: Promise<IteratorResult<T>>[]=[];
+    let done=false;
+
+    return new AsyncIter({
+      next: ()=> {
+        while(!done && queue.length<n) {
+          const next=iter.next();
+          next.then(next=> done||=next.done===true,()=> done=true);
+          queue.push(next);
+        }
+
+        return queue.shift() ?? Promise.resolve({ done: true,value: undefined });
+      }
+    });
+  }
+}
+
+
+
+/**
+ * A lazy {@linkcode AsyncIteratorTrait} backed by a JavaScript {@linkcode AsyncIterator}, usually an async generator.
+ *
+ * Like {@linkcode Iter}, breaking out of a `for await...of` loop doesn't close it.
+ *
+ * ### Examples
+```ts
+import { AsyncIter } from "std/iter";
+
+const iter = new AsyncIter(Deno.readDir(".")[Symbol.asyncIterator]());
+```
+ */
+export class AsyncIter<T> extends AsyncIteratorTrait<T> {
+  #iter: AsyncIterator<T>;
+
+  constructor(iter: AsyncIterator<T>) {
+    super();
+    this.#iter=iter;
+  }
+
+  public [Symbol.asyncIterator](): AsyncIterator<T> {
+    return { next: ()=> this.#iter.next() };
+  }
+}
+
+
+async function *chain<T>(a: AsyncIterable<T>,b: AsyncIterable<T>|Iterable<T>): AsyncGenerator<T> {
+  yield* a;
+  yield* b;
+}
+
+async function *filter<T>(iter: AsyncIterable<T>,f: Fn<[element: T],Awaitable<boolean>>): AsyncGenerator<T> {
+  for await(const element of iter) if(await f(element)) yield element;
+}
+
+async function *skip<T>(iter: AsyncIterable<T>,n: number): AsyncGenerator<T> {
+  for await(const element of iter) {
+    if(n>0) n--;
+    else yield element;
+  }
+}
+
+async function *take<T>(iter: AsyncIterable<T>,n: number): AsyncGenerator<T> {
+  if(n<=0) return;
+
+  for await(const element of iter) {
+    yield element;
+    if(--n<=0) return;
+  }
+}
+
+async function *takeWhile<T>(iter: AsyncIterable<T>,f: Fn<[element: T],Awaitable<boolean>>): AsyncGenerator<T> {
+  for await(const element of iter) {
+    if(!await f(element)) return;
+    yield element;
+  }
+}
+
+async function *zip<T,U>(a: AsyncIterable<T>,b: AsyncIterable<U>|Iterable<U>): AsyncGenerator<[T,U]> {
+  const lhs=a[Symbol.asyncIterator]();
+  const rhs=Symbol.asyncIterator in b?b[Symbol.asyncIterator]():b[Symbol.iterator]();
+
+  for(;;) {
+    const x=await lhs.next();
+    if(x.done) return;
+    const y=await rhs.next();
+    if(y.done) return;
+
+    yield [x.value,y.value];
+  }
+}
@@ -1,9 +1,24 @@
-import { IntoIterator } from './iter.ts';
-import { Option } from '../error/option/option.ts';
+import { IntoIterator,IteratorTrait } from './iter.ts';
+import { Option,None } from '../error/option/option.ts';
 import { ExactSizeIterator } from './exact_size_iter.ts';
 import { Fn } from '../types.ts';
 
 
+/**
+ * An iterator able to yield elements from both ends.
+ *
+ * As it's an {@linkcode ExactSizeIterator} too, the adapters which keep the number of elements known
+ * ({@linkcode map}, {@linkcode enumerate}, {@linkcode skip}, {@linkcode take}, {@linkcode zip}...) return a {@linkcode DoubleEndedIterator} as well.
+ *
+ * ### Examples
+```ts
+const iter = $vec(1, 2, 3, 4).iter().map(x=> x*2);
+
+$assertEq(iter.len(), 4);
+$assertEq(iter.nextBack(), Some(8));
+$assertEq(iter.rev().next(), Some(6));
+```
+ */
 export abstract class DoubleEndedIterator<T> extends ExactSizeIterator<T> {
   public abstract [IntoIterator.reversedIter](): Iterator<T>;
   public nextBack() {
@@ -17,10 +32,28 @@ export abstract class DoubleEndedIterator<T> extends ExactSizeIterator<T> {
     }
   }
 
-  public abstract rev(): DoubleEndedIterator<T>;
+  /**
+   * Reverses an iterator's direction.
+   *
+   * Usually, iterators iterate from left to right. After using {@linkcode rev()}, an iterator will instead iterate from right to left.
+   *
+   * ### Examples
+  ```ts
+  const iter = $vec(1, 2, 3).iter().rev();
+
+  $assertEq(iter.next(), Some(3));
+  $assertEq(iter.next(), Some(2));
+  $assertEq(iter.next(), Some(1));
+  $assertEq(iter.next(), None());
+  ```
+   */
+  public rev(): DoubleEndedIterator<T> {
+    const len=this.len();
+    return new DoubleEndedIter(len,i=> this.#at(len-1-i));
+  }
 
   public rfind(f: Fn<[element: T],boolean>) {
-    this.rev().find(f);
+    return this.rev().find(f);
   }
 
   public rfold<U>(init: U,f: Fn<[prev: U,element: T],U>) {
@@ -30,6 +63,122 @@ export abstract class DoubleEndedIterator<T> extends ExactSizeIterator<T> {
   public rposition(f: Fn<[element: T],boolean>) {
     return this.rev().position(f);
   }
+
+  public override chain(other: Iterable<T>): IteratorTrait<T> {
+    const rhs=random(other);
+    if(!rhs) return super.chain(other);
+
+    const len=this.len();
+    return new DoubleEndedIter(len+rhs.len(),i=> i<len?this.#at(i):rhs.#at(i-len));
+  }
+
+  public override enumerate(): DoubleEndedIterator<[number,T]> {
+    return this.map((element,i)=> [i,element]);
+  }
+
+  public override inspect(f: Fn<[element: T],void>): DoubleEndedIterator<T> {
+    return this.map(element=> {
+      f(element);
+      return element;
+    });
+  }
+
+  public override map<U>(f: Fn<[element: T,index: number],U>): DoubleEndedIterator<U> {
+    return new DoubleEndedIter(this.len(),i=> f(this.#at(i),i));
+  }
+
+  public override skip(n: number): DoubleEndedIterator<T> {
+    n=Math.max(n,0);
+    return new DoubleEndedIter(Math.max(this.len()-n,0),i=> this.#at(i+n));
+  }
+
+  public override stepBy(step: number): DoubleEndedIterator<T> {
+    // The default implementation throws on a non-positive step.
+    if(step<=0) super.stepBy(step);
+
+    return new DoubleEndedIter(Math.ceil(this.len()/step),i=> this.#at(i*step));
+  }
+
+  public override take(n: number): DoubleEndedIterator<T> {
+    return new DoubleEndedIter(Math.max(Math.min(this.len(),n),0),i=> this.#at(i));
+  }
+
+  public override zip<U>(other: Iterable<U>): IteratorTrait<[T,U]> {
+    const rhs=random(other);
+    if(!rhs) return super.zip(other);
+
+    return new DoubleEndedIter(Math.min(this.len(),rhs.len()),i=> [this.#at(i),rhs.#at(i)]);
+  }
+
+  #at(index: number): T {
+    return this.at(index).value as T;
+  }
 }
 
 
+/**
+ * A lazy {@linkcode DoubleEndedIterator} over anything that can be indexed, like an array or a {@linkcode Vec}.
+ *
+ * It yields `at(0)` up to `at(len-1)`, consuming elements from the front with {@linkcode next} and from the back with {@linkcode nextBack}.
+ *
+ * ### Examples
+```ts
+import { DoubleEndedIter } from "std/iter";
+
+const squares = new DoubleEndedIter(4, i=> i*i);
+
+$assertEq(squares.next(), Some(0));
+$assertEq(squares.nextBack(), Some(9));
+$assertEq(squares.len(), 2);
+```
+ */
+export class DoubleEndedIter<T> extends DoubleEndedIterator<T> {
+  #front=0;
+  #back: number;
+
+  constructor(len: number,private readonly get: Fn<[index: number],T>) {
+    super();
+    this.#back=len;
+  }
+
+  public [Symbol.iterator](): Iterator<T> {
+    return {
+      next: ()=> this.#front<this.#back?
+        { done: false,value: this.get(this.#front++) }
+      :
+        { done: true,value: undefined },
+    };
+  }
+
+  public [IntoIterator.reversedIter](): Iterator<T> {
+    return {
+      next: ()=> this.#front<this.#back?
+        { done: false,value: this.get(--this.#back) }
+      :
+        { done: true,value: undefined },
+    };
+  }
+
+  public iter(): this {
+    return this;
+  }
+
+  public len(): number {
+    return this.#back-this.#front;
+  }
+
+  public at(index: number): Option<T> {
+    return index>=0 && index<this.len()?new Option(this.get(this.#front+index)):None();
+  }
+}
+
+
+/** Returns {@linkcode iter} as a {@linkcode DoubleEndedIterator} if its elements can be reached by index. */
+function random<T>(iter: Iterable<T>): DoubleEndedIterator<T>|null {
+  return iter instanceof DoubleEndedIterator?
+    iter
+  : Array.isArray(iter)?
+    new DoubleEndedIter(iter.length,i=> iter[i])
+  :
+    null;
+}
@@ -0,0 +1,55 @@
+import { IntoIterator,IteratorTrait,Iter } from "./iter.ts";
+import { DoubleEndedIter } from "./double_ended_iter.ts";
+import { AsyncIteratorTrait,AsyncIter } from "./async_iter.ts";
+
+
+/**
+ * Converts any {@linkcode Iterable} into an {@linkcode IteratorTrait}.
+ * 
+ * * Iterators are returned as is.
+ * * Arrays and typed arrays become a {@linkcode DoubleEndedIterator}.
+ * * Any other {@linkcode IntoIterator} (like the collections) is converted with its {@linkcode IntoIterator.iter} method.
+ * * Everything else (strings, {@linkcode Map}s, generators...) is wrapped lazily with an {@linkcode Iter}.
+ * 
+ * ### Examples
+```ts
+import { iter } from "std";
+
+const doubled = iter.from(new Set([1, 2, 3])).map(x=> x*2);
+
+$assertEq(doubled.next(), Some(2));
+$assertEq(iter.from([1, 2, 3]).rev().next(), Some(3));
+```
+ */
+export function from<T>(iterable: Iterable<T>): IteratorTrait<T> {
+  if(iterable instanceof IteratorTrait) return iterable;
+  if(iterable instanceof IntoIterator) return iterable.iter();
+  if(Array.isArray(iterable) || ArrayBuffer.isView(iterable)) {
+    const array=iterable as ArrayLike<T>;
+    return new DoubleEndedIter(array.length,i=> array[i]);
+  }
+
+  return new Iter(iterable[Symbol.iterator]());
+}
+
+/**
+ * Converts any {@linkcode AsyncIterable} (or {@linkcode Iterable}) into an {@linkcode AsyncIteratorTrait}.
+ * 
+ * * Async iterators are returned as is.
+ * * Everything else ({@linkcode ReadableStream}s, async generators, arrays...) is wrapped lazily with an {@linkcode AsyncIter}.
+ * 
+ * ### Examples
+```ts
+import { iter } from "std";
+
+const res = await fetch("https://example.com");
+const size = await iter.fromAsync(res.body!).fold(0, (size, chunk)=> size+chunk.length).unwrap();
+```
+ */
+export function fromAsync<T>(iterable: AsyncIterable<T>|Iterable<T>): AsyncIteratorTrait<T> {
+  if(iterable instanceof AsyncIteratorTrait) return iterable;
+  if(Symbol.asyncIterator in iterable) return new AsyncIter(iterable[Symbol.asyncIterator]());
+
+  const iter=iterable[Symbol.iterator]();
+  return new AsyncIter({ next: ()=> Promise.resolve(iter.next()) });
+}
@@ -0,0 +1,59 @@
+/**
+ * Conversion from an {@linkcode Iterable}.
+ *
+ * By implementing {@linkcode FromIterator} for a type, you define how it will be created from an iterator.
+ * This is common for types which describe a collection of some kind.
+ *
+ * {@linkcode FromIterator.fromIter} is rarely called explicitly, and is instead used through {@linkcode IteratorTrait.collect}.
+ *
+ * Like {@linkcode Default}, it's implemented by the class itself (a `static fromIter()` method), so the class can be passed to {@linkcode IteratorTrait.collect}.
+ *
+ * ### Examples
+ * Basic usage:
+```ts
+const five_fives = [5, 5, 5, 5, 5][Symbol.iterator]();
+const v = Vec.fromIter(five_fives);
+
+$assertEq(v, $vec(5, 5, 5, 5, 5));
+```
+ * Using {@linkcode IteratorTrait.collect} to implicitly use {@linkcode FromIterator}:
+```ts
+const v = iter.from([5, 5, 5, 5, 5]).collect(Vec);
+
+$assertEq(v, $vec(5, 5, 5, 5, 5));
+```
+ * Implementing {@linkcode FromIterator} for your type:
+```ts
+class MyCollection {
+     constructor(private inner: Vec<number>=new Vec()) {}
+
+     public add(elem: number) {
+       this.inner.push(elem);
+     }
+
+     public static fromIter(iter: Iterable<number>) {
+       const c = new MyCollection();
+       for(const i of iter) c.add(i);
+
+       return c;
+     }
+}
+
+const c = $range(0, 5).collect(MyCollection);
+```
+ * {@linkcode Vec}, {@linkcode HashMap}, {@linkcode HashSet}, {@linkcode LinkedList}, the typed vecs (like {@linkcode Uint8Vec}),
+ * {@linkcode Option} and {@linkcode Result} implement {@linkcode FromIterator}.
+ */
+export interface FromIterator<A,T> {
+  /**
+   * Creates a value from an iterator.
+   *
+   * ### Examples
+  ```ts
+  const v = Vec.fromIter([1, 2, 3]);
+
+  $assertEq(v, $vec(1, 2, 3));
+  ```
+   */
+  fromIter(iter: Iterable<A>): T;
+}
@@ -1,6 +1,14 @@
 import { Fn } from '../types.ts';
 import { Vec } from '../collections/vec/mod.ts';
 import { Option,Some,None,Optional,Result,Err,Ok } from "../error/mod.ts";
+import { $eq } from "../cmp/macros/eq.ts";
+import { FromIterator } from "./from_iter.ts";
+
+
+// deno-lint-ignore no-explicit-any
+type Flatten<T>=T extends Iterable<infer U>?U:T extends Iterable<any>?unknown:T;
+
+const ZERO_STEP="Step must be non-zero";
 
 
 /**
@@ -259,10 +267,14 @@ export abstract class IntoIterator<T> implements Iterable<T> {
   ```
    */
   public reduce(f: Fn<[prev: T,current: T],T>): Option<T> {
-    const first=this.next();
-    if(first.value==null) return first;
+    const iter=this[Symbol.iterator]();
+    const first=iter.next();
+    if(first.done) return None();
 
-    return Some(this.fold(first.value,f));
+    let acc=first.value;
+    for(let next=iter.next();!next.done;next=iter.next()) acc=f(acc,next.value);
+
+    return Some(acc);
   }
   
   /**
@@ -277,13 +289,8 @@ export abstract class IntoIterator<T> implements Iterable<T> {
   $assertEq(hello, "Hello World");
   ```
    */
-  public join(seperator?: string): string {
-    let str="";
-    for(const element of this) {
-      str+=`${element}${seperator}`;
-    }
-
-    return str.substring(1);
+  public join(seperator=""): string {
+    return this.toArray().join(seperator);
   }
   
   /**
@@ -337,7 +344,9 @@ export abstract class IteratorTrait<T> extends IntoIterator<T> {
    * Since the argument to {@linkcode chain()} uses IntoIterator, we can pass anything that can be converted into an Iterator, not just an Iterator itself.
    */
 
-  public abstract chain(other: Iterable<T>): IteratorTrait<T>;
+  public chain(other: Iterable<T>): IteratorTrait<T> {
+    return new Iter(chain(this,other));
+  }
 
   /**
    * Transforms an iterator into a collection.
@@ -348,45 +357,72 @@ export abstract class IteratorTrait<T> extends IntoIterator<T> {
    * The most basic pattern in which `collect()` is used is to turn one collection into another.
    * You take a collection, call {@linkcode iter()} on it, do a bunch of transformations, and then collect() at the end.
    * 
-   * {@linkcode collect()} can also create instances of types that are not typical collections.
-   * See the examples below for more.
-   * 
-   * Because `collect()` is so general, it can cause problems with type inference.
-   * As such, `collect()` is one of the times when you may need to mention the generic type.
-   * This helps the inference algorithm understand specifically which collection you're trying to collect into.
+   * The collection is picked by passing its class, which must implement {@linkcode FromIterator}, {@linkcode Vec} is used when it's left out.
+   * {@linkcode String} is accepted too, and concatenates the elements.
    * 
    * ### Examples
    * Basic usage:
   ```ts
-  const a = $set(1, 2, 3);
-  const doubled: Vec<number> = a.iter()
+  const a = $vec(1, 2, 3);
+  const doubled = a.iter()
   .map(x => x * 2)
   .collect();
 
   $assertEq($vec(2, 4, 6), doubled);
   ```
-   * * Note that we needed the : Vec<number> on the left-hand side.
-   * This is because we could collect into, for example, a LinkedList<T> instead:
+   * We could collect into, for example, a {@linkcode LinkedList} instead:
   ```ts
   import { LinkedList } from "std/collections";
   
   const a = $vec(1, 2, 3);
-  const doubled: LinkedList<T> = a.iter().map(x => x * 2).collect();
+  const doubled = a.iter().map(x => x * 2).collect(LinkedList);
 
   $assertEq(2, doubled[0]);
   $assertEq(4, doubled[1]);
   $assertEq(6, doubled[2]);
   ```
-  Using the 'turbofish' instead of annotating doubled:
+   * Making a `string`:
+  ```ts
+  const chars = ["g", "d", "k", "k", "n"];
+
+  const hello = iter.from(chars)
+  .map(x => String.fromCharCode(x.charCodeAt(0)+1))
+  .collect(String);
+
+  $assertEq("hello", hello);
   ```
-  const a = $vec(1, 2, 3);
-  const doubled = a.iter().map(x => x * 2).collect<LinkedList<T>>();
-  
-  assertEq($vec(2, 4, 6), doubled);
+   * If you have a list of {@linkcode Result}s, you can use {@linkcode collect()} to see if any of them failed,
+   * the first `Err` is returned and the remaining elements aren't pulled.
+   * Iterators of {@linkcode Option}s work the same way with `None`.
+  ```ts
+  const results = $vec(Ok(1), Err("nope"), Ok(3), Err("bad"));
+  const result = results.iter().collect(Result);
+
+  // gives us the first error
+  $assertEq(Err("nope"), result);
+
+  const results = $vec(Ok(1), Ok(3));
+  const result = results.iter().collect(Result);
+
+  // gives us the list of answers
+  $assertEq(Ok($vec(1, 3)), result);
+
+  // the values can be collected in any other collection
+  $assertEq(Ok(new HashSet(1, 3)), results.iter().collect(Result, HashSet));
   ```
-   * Because {@linkcode collect()} only cares about what you're collecting into.
    */
-  public abstract collect<I extends IteratorTrait<T>>(): I;
+  public collect(): Vec<T>;
+  public collect(target: StringConstructor): string;
+  public collect<A,E>(this: IteratorTrait<Result<A,E>>,target: typeof Result): Result<Vec<A>,E>;
+  public collect<A,E,C>(this: IteratorTrait<Result<A,E>>,target: typeof Result,into: FromIterator<A,C>): Result<C,E>;
+  public collect<A>(this: IteratorTrait<Option<A>>,target: typeof Option): Option<Vec<A>>;
+  public collect<A,C>(this: IteratorTrait<Option<A>>,target: typeof Option,into: FromIterator<A,C>): Option<C>;
+  public collect<C>(target: FromIterator<T,C>): C;
+  public collect(target: FromIterator<never,unknown>|StringConstructor=Vec,into?: FromIterator<unknown,unknown>): unknown {
+    if(target===String) return this.join("");
+
+    return (target as { fromIter(iter: Iterable<T>,into?: FromIterator<unknown,unknown>): unknown }).fromIter(this,into);
+  }
 
   /**
    * Repeats an iterator endlessly.
@@ -412,7 +448,9 @@ export abstract class IteratorTrait<T> extends IntoIterator<T> {
   ```
    */
 
-  public abstract cycle(): IteratorTrait<T>;
+  public cycle(): IteratorTrait<T> {
+    return new Iter(cycle(this));
+  }
 
   /**
    * Creates an iterator which gives the current iteration count as well as the next value.
@@ -433,7 +471,10 @@ export abstract class IteratorTrait<T> extends IntoIterator<T> {
   ```
    */
 
-  public abstract enumerate(): IteratorTrait<[number,T]>;
+  public enumerate(): IteratorTrait<[number,T]> {
+    return this.map((element,i)=> [i,element]);
+  }
+
   /**
    * Creates an iterator which uses a callback function to determine if an element should be yielded.
    * 
@@ -452,7 +493,10 @@ export abstract class IteratorTrait<T> extends IntoIterator<T> {
   ```
    */
 
-  public abstract filter(f: Fn<[element: T],boolean>): IteratorTrait<T>;
+  public filter(f: Fn<[element: T],boolean>): IteratorTrait<T> {
+    return new Iter(filter(this,f));
+  }
+
   /**
    * Searches for an element of an iterator that satisfies a predicate.
    * 
@@ -481,7 +525,11 @@ export abstract class IteratorTrait<T> extends IntoIterator<T> {
   $assertEq(iter.find(x => x == 2), 2);
   ```
    */
-  public abstract find(f: Fn<[element: T],boolean>): Option<T>;
+  public find(f: Fn<[element: T],boolean>): Option<T> {
+    for(const element of this) if(f(element)) return Some(element);
+
+    return None();
+  }
 
   /**
    * Applies callback function to the elements of iterator and returns the first non-none result.
@@ -496,7 +544,9 @@ export abstract class IteratorTrait<T> extends IntoIterator<T> {
   $assertEq(firstNumber, 69);
   ```
    */
-  public abstract findMap<U>(f: Fn<[element: T],Optional<U>>): Option<T>;
+  public findMap<U>(f: Fn<[element: T],Optional<U>>): Option<U> {
+    return this.filterMap(f).next();
+  }
 
   /**
    * Creates an iterator that both filters and maps.
@@ -517,12 +567,14 @@ import { Err, Ok } from '../error/result/result';
   const texts = filePaths
   .iter()
   .filterMap(path => fs.readToStringSync(path).ok())
-  .collect<Vec<string>>();
+  .collect();
 
   console.log(texts);
   ```
    */
-  public abstract filterMap<U>(f: Fn<[element: T],Optional<U>>): IteratorTrait<U>;
+  public filterMap<U>(f: Fn<[element: T],Optional<U>>): IteratorTrait<U> {
+    return new Iter(filterMap(this,f));
+  }
 
   /**
    * Creates an iterator that works like map, but flattens nested structure.
@@ -546,7 +598,9 @@ import { Err, Ok } from '../error/result/result';
   $assertEq(merged, "alphabetagamma");
   ```
    */
-  public abstract flatMap<U>(f: Fn<[element: T],Option<U>>): IteratorTrait<U>;
+  public flatMap<U>(f: Fn<[element: T],Iterable<U>>): IteratorTrait<U> {
+    return this.map(f).flatten() as IteratorTrait<U>;
+  }
   
   /**
    * Creates an iterator that flattens nested structure.
@@ -582,24 +636,24 @@ import { Err, Ok } from '../error/result/result';
    * Flattening works on any {@linkcode IntoIterator} type, including {@linkcode Option} and {@linkcode Result}:
   ```ts
   const options = $vec(Some(123), Some(321), None(), Some(231));
-  const flattenedOptions = options.iter().flatten().collect<Vec<number>>();
+  const flattenedOptions = options.iter().flatten().collect();
   
   $assertEq(flattenedOptions, $vec(123, 321, 231));
   ```
   ```ts
   const results = $vec(Ok(123), Ok(321), Err(456), Ok(231));
-  const flattenedResults = results.iter().flatten().collect<Vec<number>>();
+  const flattenedResults = results.iter().flatten().collect();
   
   $assertEq(flattenedResults, $vec(123, 321, 231));
   ```
    * Flattening only removes one level of nesting at a time:
   ```ts
   const d3 = $vec([[1, 2], [3, 4]], [[5, 6], [7, 8]]);
-  const d2 = d3.iter().flatten().collect<Vec<number>>();
+  const d2 = d3.iter().flatten().collect();
   
   $assertEq(d2, [[1, 2], [3, 4], [5, 6], [7, 8]]);
 
-  const d1 = d3.iter().flatten().flatten().collect::<Vec<number>>();
+  const d1 = d3.iter().flatten().flatten().collect();
   $assertEq(d1, [1, 2, 3, 4, 5, 6, 7, 8]);
   ```
    * Here we see that {@linkcode flatten()} does not perform a "deep" flatten.
@@ -607,8 +661,9 @@ import { Err, Ok } from '../error/result/result';
   That is, if you {@linkcode flatten()} a three-dimensional array, the result will be two-dimensional and not one-dimensional.
   To get a one-dimensional structure, you have to {@linkcode flatten()} again.
    */
-  // deno-lint-ignore no-explicit-any
-  public abstract flatten<U>(): IteratorTrait<T extends Iterable<any>?U:T>;
+  public flatten(): IteratorTrait<Flatten<T>> {
+    return new Iter(flatten(this));
+  }
 
   /**
    * Does something with each element of an iterator, passing the value on.
@@ -668,12 +723,17 @@ import { Err, Ok } from '../error/result/result';
     }
   })
   .filterMap(res => res.ok())
-  .collect<Vec<string>>();
+  .collect();
 
   console.log(texts);
   ```
    */
-  public abstract inspect(f: Fn<[element: T],void>): IteratorTrait<T>;
+  public inspect(f: Fn<[element: T],void>): IteratorTrait<T> {
+    return this.map(element=> {
+      f(element);
+      return element;
+    });
+  }
 
   /**
    * Takes a callback function and creates an iterator which calls that callback function on each element.
@@ -712,7 +772,9 @@ import { Err, Ok } from '../error/result/result';
   }
   ```
    */
-  public abstract map<U>(f: Fn<[element: T,index: number],U>): IteratorTrait<U>;
+  public map<U>(f: Fn<[element: T,index: number],U>): IteratorTrait<U> {
+    return new Iter(map(this,f));
+  }
 
   /**
    * Creates an iterator that both yields elements based on a predicate and maps.
@@ -743,10 +805,12 @@ import { Err, Ok } from '../error/result/result';
   $assertEq(iter.next(), 3);
   $assertEq(iter.next(), None());
   ```
-   * Because {@linkcode mapWhile()} needs to look at the value in order to see if it should be included or not, consuming iterators will see that it is removed:
-   * * Note that unlike {@linkcode takeWhile} this iterator doesn't short-circuit.
+   * Because {@linkcode mapWhile()} needs to look at the value in order to see if it should be included or not, consuming iterators will see that it is removed.
+   * {@linkcode mapWhile()} stops after the first `None`, the rest of the elements are left untouched.
    */
-  public abstract mapWhile<U>(f: Fn<[element: T,index: number],Optional<U>>): IteratorTrait<U>;
+  public mapWhile<U>(f: Fn<[element: T,index: number],Optional<U>>): IteratorTrait<U> {
+    return new Iter(mapWhile(this,f));
+  }
 
   /**
    * Returns the nth element of the iterator.
@@ -764,7 +828,46 @@ import { Err, Ok } from '../error/result/result';
   $assertEq(a.iter().nth(1), Some(2));
   ```
    */
-  public abstract nth(n: number): Option<T>;
+  public nth(n: number): Option<T> {
+    if(n<0) return None();
+
+    for(const element of this) if(n--===0) return Some(element);
+
+    return None();
+  }
+
+  /**
+   * Creates an iterator which can use the {@linkcode Peekable.peek} method to look at the next element of the iterator without consuming it.
+   * 
+   * Note that the underlying iterator is still advanced when {@linkcode Peekable.peek} is called for the first time:
+   * In order to retrieve the next element, {@linkcode next} is called on the underlying iterator.
+   * 
+   * ### Examples
+   * Basic usage:
+  ```ts
+  const xs = $vec(1, 2, 3);
+  const iter = xs.iter().peekable();
+
+  // peek() lets us see into the future
+  $assertEq(iter.peek(), Some(1));
+  $assertEq(iter.next(), Some(1));
+
+  $assertEq(iter.next(), Some(2));
+
+  // we can peek() multiple times, the iterator won't advance
+  $assertEq(iter.peek(), Some(3));
+  $assertEq(iter.peek(), Some(3));
+
+  $assertEq(iter.next(), Some(3));
+
+  // after the iterator is finished, so is peek()
+  $assertEq(iter.peek(), None());
+  $assertEq(iter.next(), None());
+  ```
+   */
+  public peekable(): Peekable<T> {
+    return new Peekable(this[Symbol.iterator]());
+  }
 
   /**
    * Searches for an element in an iterator, returning its index.
@@ -792,7 +895,15 @@ import { Err, Ok } from '../error/result/result';
   $assertEq(iter.position(x => x >= 2), Some(1));
   ```
    */
-  public abstract position(f: Fn<[element: T],boolean>): number;
+  public position(f: Fn<[element: T],boolean>): Option<number> {
+    let i=0;
+    for(const element of this) {
+      if(f(element)) return Some(i);
+      i++;
+    }
+
+    return None();
+  }
 
   /**
    * An iterator adapter which, like {@linkcode fold}, holds internal state, but unlike {@linkcode fold}, produces a new iterator.
@@ -800,7 +911,7 @@ import { Err, Ok } from '../error/result/result';
    * {@linkcode scan()} takes two arguments:
    * an initial value which seeds the internal state, and a callback function with two arguments,
    * the first being the internal state and the second an iterator element.
-   * The callback can assign to the internal state to share state between iterations.
+   * The same state is passed to every call, so the callback can mutate it (use an object) to share state between iterations.
    * 
    * On iteration, the callback function will be applied to each element of the iterator and the return value from the callback, an {@linkcode Optional<T>}, is returned by the next method.
    * Thus the callback can return `Some(value)` to yield value, or `None` to end the iteration.
@@ -810,16 +921,16 @@ import { Err, Ok } from '../error/result/result';
   ```ts
   const a = $vec(1, 2, 3, 4);
   
-  const iter = a.iter().scan(1, (state, x)=> {
+  const iter = a.iter().scan({ product: 1 }, (state, x)=> {
       // each iteration, we'll multiply the state by the element ...
-      state = state * x;
+      state.product *= x;
 
       // ... and terminate if the state exceeds 6
-      if state > 6 {
+      if(state.product > 6) {
         return None(); // an equivalent like `null` can also be passed..
       }
       // ... else yield the negation of the state
-      Some(-1*state)
+      return Some(-1*state.product);
   });
 
   $assertEq(iter.next(), -1);
@@ -828,7 +939,9 @@ import { Err, Ok } from '../error/result/result';
   $assertEq(iter.next(), None());
   ```
    */
-  public abstract scan<St,B>(init: St,f: Fn<[prev: St,element: T],Optional<B>>): IteratorTrait<T>;
+  public scan<St,B>(init: St,f: Fn<[state: St,element: T],Optional<B>>): IteratorTrait<B> {
+    return this.mapWhile(element=> f(init,element));
+  }
 
   /**
    * Creates an iterator that skips the first {@linkcode n} elements.
@@ -848,7 +961,9 @@ import { Err, Ok } from '../error/result/result';
   $assertEq(iter.next(), 3);
   $assertEq(iter.next(), None());
    */
-  public abstract skip(n: number): IteratorTrait<T>;
+  public skip(n: number): IteratorTrait<T> {
+    return new Iter(skip(this,n));
+  }
 
   /**
    * Creates an iterator that {@linkcode skip}s elements based on a predicate.
@@ -884,7 +999,9 @@ import { Err, Ok } from '../error/result/result';
   $assertEq(iter.next(), None());
   ```
    */
-  public abstract skipWhile(f: Fn<[element: T],boolean>): IteratorTrait<T>;
+  public skipWhile(f: Fn<[element: T],boolean>): IteratorTrait<T> {
+    return new Iter(skipWhile(this,f));
+  }
 
   /**
    * Creates an iterator starting at the same point, but stepping by the given amount at each iteration.
@@ -905,7 +1022,10 @@ import { Err, Ok } from '../error/result/result';
   $assertEq!(iter.next(), None());
   ```
    */
-  public abstract stepBy(step: number): IteratorTrait<T>;
+  public stepBy(step: number): IteratorTrait<T> {
+    if(step<=0) throw ZERO_STEP;
+    return new Iter(stepBy(this,step));
+  }
 
   /**
    * Creates an iterator that yields the first {@linkcode n} elements, or fewer if the underlying iterator ends sooner.
@@ -942,7 +1062,9 @@ import { Err, Ok } from '../error/result/result';
   $assertEq(iter.next(), None());
   ```
    */
-  public abstract take(n: number): IteratorTrait<T>;
+  public take(n: number): IteratorTrait<T> {
+    return new Iter(take(this,n));
+  }
 
   /**
    * Creates an iterator that yields elements based on a predicate.
@@ -963,7 +1085,9 @@ import { Err, Ok } from '../error/result/result';
   $assertEq(iter.next(), None());
   ```
    */
-  public abstract takeWhile(f: Fn<[element: T],boolean>): IteratorTrait<T>;
+  public takeWhile(f: Fn<[element: T],boolean>): IteratorTrait<T> {
+    return new Iter(takeWhile(this,f));
+  }
 
   /**
    * 'Zips up' two iterators into a single iterator of pairs.
@@ -1033,7 +1157,9 @@ import { Err, Ok } from '../error/result/result';
   .zip(b.iter().map(x => x * 2).skip(1));
   ```
    */
-  public abstract zip<U>(other: Iterable<U>): IteratorTrait<[T,U]>;
+  public zip<U>(other: Iterable<U>): IteratorTrait<[T,U]> {
+    return new Iter(zip(this,other));
+  }
 
   /**
    * Converts an iterator of pairs into a pair of containers.
@@ -1053,7 +1179,244 @@ import { Err, Ok } from '../error/result/result';
   $assertEq(Arr.from(right), [2, 4, 6]);
   ```
    */
-  public abstract unzip(): never;
+  public unzip<A,B>(this: IteratorTrait<[A,B]>): [Vec<A>,Vec<B>] {
+    const left=new Vec<A>(),right=new Vec<B>();
+    for(const [a,b] of this) {
+      left.push(a);
+      right.push(b);
+    }
+
+    return [left,right];
+  }
 }
 
 
+
+/**
+ * A lazy iterator backed by a JavaScript {@linkcode Iterator}, usually a generator.
+ * 
+ * Every adapter of {@linkcode IteratorTrait} returns one, and {@linkcode iter.from} wraps any {@linkcode Iterable} with it.
+ * 
+ * Unlike a generator, breaking out of a `for...of` loop doesn't close it, so the remaining elements can still be consumed.
+ * 
+ * ### Examples
+```ts
+import { Iter } from "std/iter";
+
+const iter = new Iter([1, 2, 3, 4][Symbol.iterator]());
+
+for(const x of iter) {
+     if(x===2) break;
+}
+
+$assertEq(iter.next(), Some(3));
+```
+ */
+export class Iter<T> extends IteratorTrait<T> {
+  #iter: Iterator<T>;
+
+  constructor(iter: Iterator<T>) {
+    super();
+    this.#iter=iter;
+  }
+
+  public [Symbol.iterator](): Iterator<T> {
+    // `return` is left out deliberately, `for...of` would close the inner iterator otherwise.
+    return { next: ()=> this.#iter.next() };
+  }
+
+  public iter(): this {
+    return this;
+  }
+}
+
+
+/**
+ * An iterator with a {@linkcode peek()} that returns an optional reference to the next element.
+ * 
+ * This class is created by the {@linkcode IteratorTrait.peekable} method on {@linkcode IteratorTrait}.
+ */
+export class Peekable<T> extends Iter<T> {
+  #iter: Iterator<T>;
+  #peeked: IteratorResult<T>|null=null;
+
+  constructor(iter: Iterator<T>) {
+    super(iter);
+    this.#iter=iter;
+  }
+
+  public override [Symbol.iterator](): Iterator<T> {
+    return {
+      next: ()=> {
+        const peeked=this.#peeked ?? this.#iter.next();
+        this.#peeked=null;
+
+        return peeked;
+      }
+    };
+  }
+
+  /**
+   * Returns the next element without advancing the iterator.
+   * 
+   * ### Examples
+  ```ts
+  const iter = $vec(1, 2, 3).iter().peekable();
+
+  $assertEq(iter.peek(), Some(1));
+  $assertEq(iter.next(), Some(1));
+  ```
+   */
+  public peek(): Option<T> {
+    this.#peeked??=this.#iter.next();
+    return this.#peeked.done?None():Some(this.#peeked.value);
+  }
+
+  /**
+   * Consume and return the next value of this iterator if a condition is true.
+   * 
+   * If {@linkcode f} returns `true` for the next value of this iterator, consume and return it.
+   * Otherwise, return `None`.
+   * 
+   * ### Examples
+  ```ts
+  const iter = $range(0, 5).peekable();
+
+  // The first item of the iterator is 0; consume it.
+  $assertEq(iter.nextIf(x=> x===0), Some(0));
+  // The next item returned is now 1, so `nextIf` will return `None`.
+  $assertEq(iter.nextIf(x=> x===0), None());
+  // `nextIf` saves the value of the next item if it was not equal to `expected`.
+  $assertEq(iter.next(), Some(1));
+  ```
+   */
+  public nextIf(f: Fn<[element: T],boolean>): Option<T> {
+    const next=this.peek();
+    return next.contains() && f(next.value as T)?this.next():None();
+  }
+
+  /**
+   * Consume and return the next item if it is equal to {@linkcode expected}.
+   * 
+   * ### Examples
+  ```ts
+  const iter = $range(0, 5).peekable();
+
+  $assertEq(iter.nextIfEq(0), Some(0));
+  $assertEq(iter.nextIfEq(0), None());
+  $assertEq(iter.next(), Some(1));
+  ```
+   */
+  public nextIfEq(expected: T): Option<T> {
+    return this.nextIf(element=> $eq(element,expected));
+  }
+}
+
+
+function *chain<T>(a: Iterable<T>,b: Iterable<T>): Generator<T> {
+  yield* a;
+  yield* b;
+}
+
+function *cycle<T>(iter: Iterable<T>): Generator<T> {
+  const seen: T[]=[];
+  for(const element of iter) {
+    seen.push(element);
+    yield element;
+  }
+
+  while(seen.length) yield* seen;
+}
+
+function *filter<T>(iter: Iterable<T>,f: Fn<[element: T],boolean>): Generator<T> {
+  for(const element of iter) if(f(element)) yield element;
+}
+
+function *filterMap<T,U>(iter: Iterable<T>,f: Fn<[element: T],Optional<U>>): Generator<U> {
+  for(const element of iter) {
+    const mapped=optional(f(element));
+    if(mapped.contains()) yield mapped.value as U;
+  }
+}
+
+function *flatten<T>(iter: Iterable<T>): Generator<Flatten<T>> {
+  for(const element of iter) {
+    if(isIterable(element)) yield* element as Iterable<Flatten<T>>;
+    else yield element as Flatten<T>;
+  }
+}
+
+function *map<T,U>(iter: Iterable<T>,f: Fn<[element: T,index: number],U>): Generator<U> {
+  let i=0;
+  for(const element of iter) yield f(element,i++);
+}
+
+function *mapWhile<T,U>(iter: Iterable<T>,f: Fn<[element: T,index: number],Optional<U>>): Generator<U> {
+  let i=0;
+  for(const element of iter) {
+    const mapped=optional(f(element,i++));
+    if(!mapped.contains()) return;
+
+    yield mapped.value as U;
+  }
+}
+
+function *skip<T>(iter: Iterable<T>,n: number): Generator<T> {
+  for(const element of iter) {
+    if(n>0) n--;
+    else yield element;
+  }
+}
+
+function *skipWhile<T>(iter: Iterable<T>,f: Fn<[element: T],boolean>): Generator<T> {
+  let skipping=true;
+  for(const element of iter) {
+    if(skipping && f(element)) continue;
+
+    skipping=false;
+    yield element;
+  }
+}
+
+function *stepBy<T>(iter: Iterable<T>,step: number): Generator<T> {
+  let i=0;
+  for(const element of iter) if(i++%step===0) yield element;
+}
+
+function *take<T>(iter: Iterable<T>,n: number): Generator<T> {
+  if(n<=0) return;
+
+  for(const element of iter) {
+    yield element;
+    // Returning right away, so no extra element is pulled from `iter`.
+    if(--n<=0) return;
+  }
+}
+
+function *takeWhile<T>(iter: Iterable<T>,f: Fn<[element: T],boolean>): Generator<T> {
+  for(const element of iter) {
+    if(!f(element)) return;
+    yield element;
+  }
+}
+
+function *zip<T,U>(a: Iterable<T>,b: Iterable<U>): Generator<[T,U]> {
+  const lhs=a[Symbol.iterator](),rhs=b[Symbol.iterator]();
+
+  for(;;) {
+    const x=lhs.next();
+    if(x.done) return;
+    const y=rhs.next();
+    if(y.done) return;
+
+    yield [x.value,y.value];
+  }
+}
+
+function optional<T>(x: Optional<T>): Option<T> {
+  return x instanceof Option?x:new Option(x as T|null);
+}
+
+function isIterable(x: unknown): x is Iterable<unknown> {
+  return x!=null && typeof (x as Iterable<unknown>)[Symbol.iterator]==="function";
+}
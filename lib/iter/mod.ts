@@ -1,5 +1,7 @@
 export * from "./iter.ts";
 export * from "./extend.ts";
+export * from "./from_iter.ts";
 export * from "./exact_size_iter.ts";
 export * from "./double_ended_iter.ts";
-
+export * from "./async_iter.ts";
+export * from "./from.ts";
@@ -0,0 +1,79 @@
+// deno-lint-ignore-file no-explicit-any
+import { Option } from "./error/option/option.ts";
+import { Result } from "./error/result/result.ts";
+import { Vec } from "./collections/vec/mod.ts";
+import { HashMap } from "./collections/hash_map/hash_map.ts";
+import { HashSet } from "./collections/hash_set/hash_set.ts";
+import { LinkedList } from "./collections/linked_list/linked_list.ts";
+
+
+/** The names the serializable types are tagged with in their JSON form. */
+export type Tag="Option"|"Result"|"Vec"|"HashMap"|"HashSet"|"LinkedList";
+
+/**
+ * Conversion from the JSON form of a type, the inverse of its `toJSON()`.
+ *
+ * Like {@linkcode FromIterator}, it's implemented by the class itself (a `static fromJSON()` method).
+ *
+ * The values nested in the JSON form are expected to be revived already,
+ * which {@linkcode reviver} takes care of as `JSON.parse` revives values bottom-up.
+ *
+ * {@linkcode Option}, {@linkcode Result}, {@linkcode Vec}, {@linkcode HashMap}, {@linkcode HashSet} and {@linkcode LinkedList} implement {@linkcode FromJSON}.
+ */
+export interface FromJSON<J,T> {
+  /** Creates a value from its JSON form. */
+  fromJSON(json: J): T;
+}
+
+
+/**
+ * A `JSON.parse` reviver which revives the values serialized with `JSON.stringify` by the types of this library,
+ * at any depth.
+ *
+ * Values which aren't tagged with a known {@linkcode Tag}, or don't have the shape of its JSON form, are left as is.
+ *
+ * To send these types through `postMessage` or over the network, stringify them first and parse them back with the {@linkcode reviver}.
+ *
+ * ### Examples
+```ts
+import { json } from "@std";
+
+const res: Result<Vec<number>,string> = Ok($vec(1, 2, 3));
+const text = JSON.stringify(res);// {"$type":"Result","ok":{"$type":"Vec","value":[1,2,3]}}
+
+$assertEq(JSON.parse(text, json.reviver), res);
+
+worker.postMessage(JSON.stringify({ id: 0, res }));
+self.onmessage = e=> {
+     const { id, res } = JSON.parse(e.data, json.reviver);
+};
+```
+ */
+export function reviver(_key: string,value: unknown): unknown {
+  if(!isRevivable(value)) return value;
+
+  const types: Record<Tag,FromJSON<any,unknown>>={ Option,Result,Vec,HashMap,HashSet,LinkedList };
+  return types[value.$type].fromJSON(value);
+}
+
+/** Checks whether {@linkcode reviver} revives {@linkcode value}, i.e. it's the JSON form of one of the types tagged with a {@linkcode Tag}. */
+export function isRevivable(value: unknown): value is { $type: Tag } {
+  return isTagged(value) && Object.hasOwn(SHAPES,value.$type) && SHAPES[value.$type](value);
+}
+
+
+/** Checks whether a tagged value has the shape of the JSON form of its type. */
+const SHAPES: Record<Tag,(json: any)=> boolean>={
+  Option: json=> Object.hasOwn(json,"value"),
+  // `ok` is left out when it's `undefined`.
+  Result: json=> !(Object.hasOwn(json,"ok") && Object.hasOwn(json,"err")),
+  Vec: json=> Array.isArray(json.value),
+  HashMap: json=> Array.isArray(json.value) && json.value.every((entry: unknown)=> Array.isArray(entry) && entry.length===2),
+  HashSet: json=> Array.isArray(json.value),
+  LinkedList: json=> Array.isArray(json.value),
+};
+
+
+function isTagged(value: unknown): value is { $type: Tag } {
+  return typeof value==="object" && value!==null && typeof (value as { $type?: unknown }).$type==="string";
+}
@@ -0,0 +1,117 @@
+import { Option } from "../error/option/option.ts";
+import { Backtrace } from "../error/backtrace.ts";
+import { PanicPayload } from "./payload.ts";
+import { Debug,Display } from "../fmt/fmt.ts";
+import { Formatter } from "../fmt/formatter.ts";
+import { customInspect,inspectStruct,Inspect,InspectOptions } from "../fmt/inspect.ts";
+
+
+/**
+ * A struct containing information about the location of a panic.
+ *
+ * This structure is created by {@linkcode PanicInfo.location}.
+ */
+export class Location implements Debug,Display {
+  constructor(
+    private readonly _file: string,
+    private readonly _line: number,
+    private readonly _col: number
+  ) {}
+
+  /**
+   * Returns the location of the first frame of the current stack outside of this library,
+   * which is the caller of the function that panicked (like Rust's `#[track_caller]`).
+   */
+  public static caller(): Option<Location> {
+    const backtrace=Backtrace.forceCapture();
+    const frame=backtrace.caller().unwrapOr(backtrace.frames()[0]);
+
+    return new Option(frame??null).map(frame=> new Location(frame.file,frame.line,frame.column));
+  }
+
+  /** Returns the name of the source file from which the panic originated. */
+  public file(): string {
+    return this._file;
+  }
+
+  /** Returns the line number from which the panic originated. */
+  public line(): number {
+    return this._line;
+  }
+
+  /** Returns the column from which the panic originated. */
+  public column(): number {
+    return this._col;
+  }
+
+  public fmtDebug(f: Formatter) {
+    f.debugStruct("Location").field("file",this._file).field("line",this._line).field("col",this._col).finish();
+  }
+
+  /** Formats the location as `file:line:column`. */
+  public fmt(f: Formatter) {
+    f.pad(this.toString());
+  }
+
+  public toString(): string {
+    return `${this._file}:${this._line}:${this._col}`;
+  }
+
+  [customInspect](inspect: Inspect,options: InspectOptions): string {
+    return inspectStruct("Location",{ file: this._file,line: this._line,col: this._col },inspect,options);
+  }
+}
+
+
+/**
+ * A struct providing information about a panic.
+ *
+ * {@linkcode PanicInfo} structure is passed to a panic hook set by the {@linkcode setHook} function.
+ *
+ * ### Examples
+```ts
+import panic from "std/panic";
+
+panic.setHook(info=> {
+     console.log(`panic occurred: ${info.message().unwrapOr("unknown")}`);
+});
+
+$panic("Normal panic");
+```
+ */
+export class PanicInfo implements Debug,Display {
+  constructor(private readonly _payload: unknown,private readonly _location: Option<Location>) {}
+
+  /** Returns the payload associated with the panic, usually a string or an {@linkcode Error}. */
+  public payload(): unknown {
+    return this._payload;
+  }
+
+  /** Returns the message of the panic, if the payload is a string or an {@linkcode Error}. */
+  public message(): Option<string> {
+    return new PanicPayload(this._payload).message();
+  }
+
+  /** Returns information about the location from which the panic originated, if available. */
+  public location(): Option<Location> {
+    return this._location;
+  }
+
+  public fmtDebug(f: Formatter) {
+    f.debugStruct("PanicInfo").field("payload",this._payload).field("location",this._location).finish();
+  }
+
+  /** Formats the panic like the default hook prints it, see {@linkcode toString}. */
+  public fmt(f: Formatter) {
+    f.writeStr(this.toString());
+  }
+
+  public toString(): string {
+    const location=this._location.mapOr("",location=> ` at ${location}`);
+    return `panicked${location}:\n${this.message().unwrapOr("Box<dyn Any>")}`;
+  }
+
+  [customInspect](inspect: Inspect,options: InspectOptions): string {
+    return inspectStruct("PanicInfo",{ payload: this._payload,location: this._location },inspect,options);
+  }
+}
@@ -0,0 +1,192 @@
+import { Fn,Enum } from "../types.ts";
+import { Result,Ok,Err } from "../error/result/result.ts";
+import { AsyncResult } from "../error/result/async_result.ts";
+import { Backtrace,BacktraceStatus } from "../error/backtrace.ts";
+import { PanicPayload } from "./payload.ts";
+import { PanicInfo,Location } from "./info.ts";
+
+export * from "./payload.ts";
+export * from "./info.ts";
+
+
+export type PanicStrategy=Enum<typeof PanicStrategy>;
+/**
+ * What happens after the panic hook ran, see {@linkcode setStrategy}.
+ */
+export const PanicStrategy={
+  /** The panic is thrown, so it can be caught with {@linkcode catchUnwind} (the default). */
+  Unwind: 0,
+  /** The process exits right away. */
+  Abort: 1,
+} as const;
+
+const PANIC_IN_HOOK="thread panicked while processing panic. aborting.";
+
+let hook: Fn<[info: PanicInfo],void>=defaultHook;
+let strategy: PanicStrategy=PanicStrategy.Unwind;
+let inHook=false;
+/** The number of {@linkcode catchUnwind} closures being run. */
+let catching=0;
+/** The number of panics raised in those closures which are still propagating. */
+let unwinding=0;
+
+
+/**
+ * Registers a custom panic hook, replacing the previously registered hook.
+ *
+ * The panic hook is invoked when a thread panics, but before the panic is thrown (or the process aborts).
+ * The hook is provided with a {@linkcode PanicInfo} which contains information about the origin of the panic,
+ * including the payload passed to {@linkcode $panic} and the source code location from which the panic originated.
+ *
+ * The default hook prints the location and the message of the panic to stderr, followed by a {@linkcode Backtrace} when it's enabled.
+ *
+ * ### Examples
+```ts
+import panic from "std/panic";
+
+panic.setHook(info=> {
+     console.error("Custom panic hook", info.toString());
+});
+
+$panic("Normal panic");
+```
+ */
+export function setHook(f: Fn<[info: PanicInfo],void>) {
+  hook=f;
+}
+
+/**
+ * Unregisters the current panic hook and returns it, registering the default hook in its place.
+ *
+ * If the default hook is registered it will be returned, but remain registered.
+ *
+ * ### Examples
+```ts
+import panic from "std/panic";
+
+panic.setHook(_=> {
+     console.error("Custom panic hook");
+});
+
+const _ = panic.takeHook();
+
+$panic("Normal panic");
+```
+ */
+export function takeHook(): Fn<[info: PanicInfo],void> {
+  const prev=hook;
+  hook=defaultHook;
+
+  return prev;
+}
+
+/** Sets whether a panic is thrown (see {@linkcode catchUnwind}) or aborts the process, returning the previous strategy. */
+export function setStrategy(panicStrategy: PanicStrategy): PanicStrategy {
+  const prev=strategy;
+  strategy=panicStrategy;
+
+  return prev;
+}
+
+/** Returns the current {@linkcode PanicStrategy}. */
+export function getStrategy(): PanicStrategy {
+  return strategy;
+}
+
+/**
+ * Invokes a closure, capturing the cause of an unwinding panic if one occurs.
+ *
+ * This function will return `Ok` with the closure's result if the closure does not panic,
+ * and will return `Err(cause)` if the closure panics (or throws). The cause returned is the {@linkcode PanicPayload} the panic was raised with.
+ *
+ * An async closure resolves to an {@linkcode AsyncResult} instead, which is `Err` if the returned promise rejects.
+ * Only the code before its first `await` counts as unwinding for {@linkcode panicking}.
+ *
+ * Nothing can be caught when the strategy is {@linkcode PanicStrategy.Abort}.
+ *
+ * ### Examples
+```ts
+import panic from "std/panic";
+
+const result = panic.catchUnwind(()=> {
+     console.log("hello!");
+});
+$assert(result.contains());
+
+const panicked = panic.catchUnwind(()=> {
+     $panic("oh no!");
+});
+$assert(panicked.containsErr());
+
+const rejected = await panic.catchUnwind(async ()=> {
+     await null;
+     $panic("oh no!");
+});
+$assert(rejected.containsErr());
+```
+ */
+export function catchUnwind<T>(f: Fn<[],Promise<T>>): AsyncResult<T,PanicPayload>;
+export function catchUnwind<T>(f: Fn<[],T>): Result<T,PanicPayload>;
+export function catchUnwind<T>(f: Fn<[],T|Promise<T>>): Result<T|Promise<T>,PanicPayload>|AsyncResult<T,PanicPayload> {
+  const prev=unwinding;
+  catching++;
+
+  try {
+    const output=f();
+    return output instanceof Promise?new AsyncResult(output.then(Ok<T,PanicPayload>,e=> Err(intoPayload(e)))):Ok(output);
+  } catch(e) {
+    return Err(intoPayload(e));
+  } finally {
+    catching--;
+    unwinding=prev;
+  }
+}
+
+/**
+ * Determines whether the current thread is panicking: the panic hook is running,
+ * or a panic raised inside a {@linkcode catchUnwind} closure is unwinding until that closure returns.
+ */
+export function panicking(): boolean {
+  return inHook || unwinding>0;
+}
+
+/**
+ * Runs the panic hook with {@linkcode payload}, then unwinds or aborts according to the {@linkcode PanicStrategy}.
+ *
+ * This is what {@linkcode $panic} calls, the location of the panic is the first frame outside of this library.
+ */
+export function beginPanic(payload: unknown): never {
+  if(inHook) {
+    console.error(PANIC_IN_HOOK);
+    Deno.exit(1);
+  }
+
+  inHook=true;
+  try {
+    hook(new PanicInfo(payload,Location.caller()));
+  } finally {
+    inHook=false;
+  }
+
+  if(strategy===PanicStrategy.Abort) Deno.exit(1);
+
+  if(catching) unwinding++;
+  throw payload instanceof PanicPayload?payload:new PanicPayload(payload,Backtrace.forPanic());
+}
+
+
+function intoPayload(e: unknown): PanicPayload {
+  return e instanceof PanicPayload?e:new PanicPayload(e);
+}
+
+function defaultHook(info: PanicInfo) {
+  const backtrace=Backtrace.forPanic();
+
+  console.error(info.toString());
+  console.error(
+    backtrace.status()===BacktraceStatus.Captured?
+      backtrace.toString()
+    :
+      "note: run with `RUST_BACKTRACE=1` environment variable to display a backtrace"
+  );
+}
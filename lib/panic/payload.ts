@@ -0,0 +1,66 @@
+import { Option,Some,None } from "../error/option/option.ts";
+import { Backtrace } from "../error/backtrace.ts";
+import { Debug,Display } from "../fmt/fmt.ts";
+import { Formatter } from "../fmt/formatter.ts";
+import { customInspect,inspectTuple,Inspect,InspectOptions } from "../fmt/inspect.ts";
+
+
+/**
+ * The value a panic was raised with, like the `Box<dyn Any + Send>` Rust hands to the joiner of a panicked thread.
+ *
+ * It's whatever was thrown: usually an {@linkcode Error} or a string, but any value can be thrown in JavaScript.
+ *
+ * ### Examples
+```ts
+import { Thread } from "std/thread";
+
+const res = Thread.spawn(()=> {
+     throw new Error("oops");
+}).join();
+
+$assertEq(res.unwrapErr().message(), Some("oops"));
+```
+ */
+export class PanicPayload implements Debug,Display {
+  constructor(private readonly payload: unknown,private readonly _backtrace?: Backtrace) {}
+
+  /** Returns the value the panic was raised with. */
+  public intoInner(): unknown {
+    return this.payload;
+  }
+
+  /**
+   * Returns the backtrace captured when the panic was raised, see {@linkcode Backtrace.forPanic}.
+   *
+   * When an {@linkcode Error} was thrown instead, it's the backtrace of its stack.
+   */
+  public backtrace(): Backtrace {
+    if(this._backtrace) return this._backtrace;
+    return this.payload instanceof Error?Backtrace.forPanic(this.payload):Backtrace.disabled();
+  }
+
+  /** Returns the message of the panic, if the payload is a string or an {@linkcode Error}. */
+  public message(): Option<string> {
+    if(typeof this.payload==="string") return Some(this.payload);
+    if(this.payload instanceof Error) return Some(this.payload.message);
+
+    return None();
+  }
+
+  public fmtDebug(f: Formatter) {
+    f.debugTuple("PanicPayload").field(this.payload).finish();
+  }
+
+  /** Formats the message of the panic, `Box<dyn Any>` when it has none (see {@linkcode message}). */
+  public fmt(f: Formatter) {
+    f.pad(this.toString());
+  }
+
+  public toString(): string {
+    return this.message().unwrapOr("Box<dyn Any>");
+  }
+
+  [customInspect](inspect: Inspect,options: InspectOptions): string {
+    return inspectTuple("PanicPayload",[this.payload],inspect,options);
+  }
+}
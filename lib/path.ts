@@ -1 +0,0 @@
-export type PathBuf=string|URL;
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { Enum } from "../types.ts";
+import { Debug } from "../fmt/fmt.ts";
+import { Formatter } from "../fmt/formatter.ts";
+import { customInspect,inspectTuple,Inspect,InspectOptions } from "../fmt/inspect.ts";
+
+
+export type ComponentKind=Enum<typeof ComponentKind>;
+/**
+ * The kinds of {@linkcode Component} of a path, in the order they compare.
+ *
+ * It is used with the {@linkcode Component} type.
+ */
+export const ComponentKind={
+  /** A Windows path prefix, e.g. `C:` or `\\server\share`. */
+  Prefix: 1,
+  /** The root directory component, the separator after the prefix (if any) like `/` or `\`. */
+  RootDir: 2,
+  /** A reference to the current directory, `.`. */
+  CurDir: 3,
+  /** A reference to the parent directory, `..`. */
+  ParentDir: 4,
+  /** A normal component, e.g. `a` and `b` in `a/b`. */
+  Normal: 5,
+} as const;
+
+
+/**
+ * A single component of a path, yielded by {@linkcode Path.components}.
+ *
+ * ### Examples
+```ts
+import { Path,ComponentKind } from "std/path";
+
+const components = new Path("/tmp/foo.txt").components().map(c=> c.kind()).collect();
+
+$assertEq(components, $vec(ComponentKind.RootDir, ComponentKind.Normal, ComponentKind.Normal));
+```
+ */
+export class Component implements Debug {
+  constructor(private readonly __kind: ComponentKind,private readonly str: string) {}
+
+  /** Returns the {@linkcode ComponentKind} of the component. */
+  public kind(): ComponentKind {
+    return this.__kind;
+  }
+
+  /** Returns the string of the component, a {@linkcode ComponentKind.RootDir} is the main separator of the path. */
+  public asStr(): string {
+    return this.str;
+  }
+
+  /** Compares the kinds and the strings of the components, the prefixes are compared case-insensitively like the drive letters. */
+  public eq(rhs: Component): boolean {
+    return this.__kind===rhs.__kind && (this.__kind===ComponentKind.Prefix?this.str.toUpperCase()===rhs.str.toUpperCase():this.str===rhs.str);
+  }
+
+  /** Formats the component like `RootDir` or `Normal("foo")`. */
+  public fmtDebug(f: Formatter) {
+    if(this.__kind===ComponentKind.Prefix || this.__kind===ComponentKind.Normal) return f.debugTuple(kindName(this.__kind)).field(this.str).finish();
+    f.writeStr(kindName(this.__kind));
+  }
+
+  [customInspect](inspect: Inspect,options: InspectOptions): string {
+    const name=kindName(this.__kind);
+    return this.__kind===ComponentKind.Prefix || this.__kind===ComponentKind.Normal?inspectTuple(name,[this.str],inspect,options):name;
+  }
+}
+
+
+function kindName(kind: ComponentKind): string {
+  return Object.entries(ComponentKind).find(([,value])=> value===kind)![0];
+}
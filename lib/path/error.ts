@@ -0,0 +1,23 @@
+import { ErrorTrait,ErrorKindLike } from "../error/error_trait.ts";
+
+
+/**
+ * An error returned from {@linkcode Path.stripPrefix} if the prefix was not found.
+ *
+ * ### Examples
+```ts
+const err = new Path("/test/haha/foo.txt").stripPrefix("test").unwrapErr();
+
+$assertEq(err.message, "prefix not found");
+```
+ */
+export class StripPrefixError extends ErrorTrait {
+  constructor() {
+    super(-1,"prefix not found");
+  }
+
+  /** {@linkcode StripPrefixError} has a single cause, so its kind is always `-1`. */
+  public kind(): ErrorKindLike {
+    return this.__kind;
+  }
+}
@@ -0,0 +1,3 @@
+export * from "./path.ts";
+export * from "./components.ts";
+export * from "./error.ts";
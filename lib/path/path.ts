@@ -0,0 +1,747 @@
+import { Option,Some,None } from "../error/option/option.ts";
+import { Result,Ok,Err } from "../error/result/result.ts";
+import { $panic } from "../declarative-macros/panics.ts";
+import { Enum } from "../types.ts";
+import { Clone } from "../clone.ts";
+import { Ord,Ordering } from "../cmp/ord.ts";
+import { IteratorTrait,Iter } from "../iter/iter.ts";
+import { DoubleEndedIterator,DoubleEndedIter } from "../iter/double_ended_iter.ts";
+import { Debug,Display,$debug } from "../fmt/fmt.ts";
+import { Formatter } from "../fmt/formatter.ts";
+import { customInspect,inspectTuple,Inspect,InspectOptions } from "../fmt/inspect.ts";
+import { metadata,metadataSync,readDir,readDirSync } from "../fs/mod.ts";
+import { Component,ComponentKind } from "./components.ts";
+import { StripPrefixError } from "./error.ts";
+
+
+export type PathStyle=Enum<typeof PathStyle>;
+/**
+ * The syntaxes a {@linkcode Path} can be parsed with, the same string is always parsed the same way with a given style.
+ *
+ * By default, paths are parsed with the style of the current platform.
+ */
+export const PathStyle={
+  /** `/` is the only separator and the root. */
+  Posix: 1,
+  /**
+   * Both `\` and `/` are separators, and a path may start with a prefix: a drive like `C:`, a UNC share like `\\server\share`,
+   * or a verbatim prefix like `\\?\C:` (where only `\` is a separator).
+   */
+  Windows: 2,
+} as const;
+
+const NATIVE_STYLE: PathStyle=Deno.build.os==="windows"?PathStyle.Windows:PathStyle.Posix;
+
+/** The primary separator of the paths of the current platform, `\` on Windows and `/` elsewhere. */
+export const MAIN_SEPARATOR=separator(NATIVE_STYLE);
+
+/** Anything which can be used as a path: a `string`, a `file:` {@linkcode URL} or a {@linkcode Path}. */
+export type PathLike=string|URL|Path;
+
+
+/**
+ * A slice of a path, like the `Path` of Rust.
+ *
+ * This type supports a number of operations for inspecting a path, including breaking the path into its components (separated by `/` on Unix and by either `/` or `\` on Windows),
+ * extracting the file name, determining whether the path is absolute, and so on.
+ * These operations are purely lexical: they never touch the file system, except the convenience methods like {@linkcode exists} or {@linkcode metadata}.
+ *
+ * The path is parsed with its {@linkcode PathStyle}, which is the style of the current platform unless specified.
+ * {@linkcode PathBuf} is its owned, mutable counterpart.
+ *
+ * ### Examples
+```ts
+import { Path,PathStyle } from "std/path";
+
+const path = new Path("./foo/bar.txt");
+
+$assertEq(path.parent(), Some(new Path("./foo")));
+$assertEq(path.fileStem(), Some("bar"));
+$assertEq(path.extension(), Some("txt"));
+
+const windows = new Path("C:\\Users\\foo", PathStyle.Windows);
+$assert(windows.isAbsolute());
+$assertEq(windows.fileName(), Some("foo"));
+```
+ */
+export class Path implements Clone,Ord,Debug,Display {
+  protected inner: string;
+  /** The syntax the path is parsed with. */
+  public readonly style: PathStyle;
+
+  /**
+   * Creates a path from a `string` or a `file:` {@linkcode URL}.
+   *
+   * # Panics
+   * Panics if {@linkcode path} is a {@linkcode URL} which isn't a `file:` URL.
+   */
+  constructor(path: string|URL="",style: PathStyle=NATIVE_STYLE) {
+    this.inner=path instanceof URL?fromFileUrl(path,style):path;
+    this.style=style;
+  }
+
+  /** Converts any {@linkcode PathLike} into a {@linkcode Path}, a {@linkcode Path} keeps its style unless {@linkcode style} is specified. */
+  public static from(path: PathLike,style?: PathStyle): Path {
+    return path instanceof Path?new Path(path.inner,style??path.style):new Path(path,style);
+  }
+
+  /** Returns the path as a `string`, as it was given. */
+  public toString(): string {
+    return this.inner;
+  }
+
+  /** Converts the path to an owned {@linkcode PathBuf}. */
+  public toPathBuf(): PathBuf {
+    return new PathBuf(this.inner,this.style);
+  }
+
+  /**
+   * Returns `true` if the path is absolute, i.e., if it is independent of the current directory.
+   *
+   * On Unix, a path is absolute if it starts with the root, so {@linkcode isAbsolute} and {@linkcode hasRoot} are equivalent.
+   * On Windows, a path is absolute if it has a prefix and starts with the root: `C:\windows` is absolute, while `C:temp` and `\temp` are not.
+   */
+  public isAbsolute(): boolean {
+    const { prefix,hasRoot }=parse(this.inner,this.style);
+    return hasRoot && (this.style===PathStyle.Posix || !!prefix);
+  }
+
+  /** Returns `true` if the path is not absolute, see {@linkcode isAbsolute}. */
+  public isRelative(): boolean {
+    return !this.isAbsolute();
+  }
+
+  /**
+   * Returns `true` if the path has a root.
+   *
+   * On Unix, a path has a root if it begins with `/`.
+   * On Windows, a path has a root if it has no prefix and begins with a separator (`\windows`), has a prefix followed by a separator (`C:\windows`),
+   * or has a non-disk prefix (`\\server\share`).
+   */
+  public hasRoot(): boolean {
+    return parse(this.inner,this.style).hasRoot;
+  }
+
+  /**
+   * Produces an iterator over the {@linkcode Component}s of the path.
+   *
+   * When parsing the path, there is a small amount of normalization:
+   * * Repeated separators are ignored, so `a/b` and `a//b` both have `a` and `b` as components.
+   * * Occurrences of `.` are normalized away, except if they are at the beginning of the path.
+   *   For example, `a/./b`, `a/b/`, `a/b/.` and `a/b` all have `a` and `b` as components, but `./a/b` starts with an additional {@linkcode ComponentKind.CurDir} component.
+   * * A trailing slash is normalized away, `/a/b` and `/a/b/` are equivalent.
+   *
+   * Note that no other normalization takes place; in particular, `a/c` and `a/b/../c` are distinct, to account for the possibility that `b` is a symbolic link.
+   *
+   * ### Examples
+  ```ts
+  const components = new Path("/tmp/foo.txt").components().map(c=> c.asStr()).collect();
+
+  $assertEq(components, $vec("/", "tmp", "foo.txt"));
+  ```
+   */
+  public components(): DoubleEndedIterator<Component> {
+    const components=this.#components();
+    return new DoubleEndedIter(components.length,i=> components[i]);
+  }
+
+  /** Produces an iterator over the components of the path, viewed as `string`s. */
+  public iter(): DoubleEndedIterator<string> {
+    const components=this.#components().map(component=> component.asStr());
+    return new DoubleEndedIter(components.length,i=> components[i]);
+  }
+
+  /**
+   * Returns the path without its final component, if there is one.
+   *
+   * This means it returns `Some("")` for relative paths with one component.
+   * Returns `None` if the path terminates in a root or prefix, or if it's the empty string.
+   *
+   * ### Examples
+  ```ts
+  const path = new Path("/foo/bar");
+  const parent = path.parent().unwrap();
+  $assertEq(parent, new Path("/foo"));
+
+  const grandParent = parent.parent().unwrap();
+  $assertEq(grandParent, new Path("/"));
+  $assertEq(grandParent.parent(), None());
+
+  $assertEq(new Path("foo").parent(), Some(new Path("")));
+  ```
+   */
+  public parent(): Option<Path> {
+    const { parts }=parse(this.inner,this.style);
+    const last=parts.at(-1);
+    if(!last || last.kind===ComponentKind.Prefix || last.kind===ComponentKind.RootDir) return None();
+
+    return Some(new Path(this.inner.slice(0,parts.at(-2)?.end??0),this.style));
+  }
+
+  /**
+   * Produces an iterator over the path and its ancestors.
+   *
+   * The iterator will yield the path that is returned if the {@linkcode parent} method is used zero or more times.
+   * If the {@linkcode parent} method returns `None`, the iterator will do likewise.
+   *
+   * ### Examples
+  ```ts
+  const ancestors = new Path("/foo/bar").ancestors().map(path=> path.toString()).collect();
+  $assertEq(ancestors, $vec("/foo/bar", "/foo", "/"));
+
+  const relative = new Path("../foo/bar").ancestors().map(path=> path.toString()).collect();
+  $assertEq(relative, $vec("../foo/bar", "../foo", "..", ""));
+  ```
+   */
+  public ancestors(): IteratorTrait<Path> {
+    return new Iter(ancestors(this));
+  }
+
+  /**
+   * Returns the final component of the path, if there is one.
+   *
+   * If the path is a normal file, this is the file name. If it's the path of a directory, this is the directory name.
+   * Returns `None` if the path terminates in `..`.
+   *
+   * ### Examples
+  ```ts
+  $assertEq(new Path("/usr/bin/").fileName(), Some("bin"));
+  $assertEq(new Path("tmp/foo.txt").fileName(), Some("foo.txt"));
+  $assertEq(new Path("foo.txt/.").fileName(), Some("foo.txt"));
+  $assertEq(new Path("foo.txt/.//").fileName(), Some("foo.txt"));
+  $assertEq(new Path("foo.txt/..").fileName(), None());
+  $assertEq(new Path("/").fileName(), None());
+  ```
+   */
+  public fileName(): Option<string> {
+    const last=parse(this.inner,this.style).parts.at(-1);
+    return last?.kind===ComponentKind.Normal?Some(this.inner.slice(last.start,last.end)):None();
+  }
+
+  /**
+   * Extracts the stem (non-extension) portion of {@linkcode fileName}.
+   *
+   * The stem is:
+   * * `None`, if there is no file name;
+   * * The entire file name if there is no embedded `.`;
+   * * The entire file name if the file name begins with `.` and has no other `.`s within;
+   * * Otherwise, the portion of the file name before the final `.`.
+   *
+   * ### Examples
+  ```ts
+  $assertEq(new Path("foo.rs").fileStem(), Some("foo"));
+  $assertEq(new Path("foo.tar.gz").fileStem(), Some("foo.tar"));
+  $assertEq(new Path(".bashrc").fileStem(), Some(".bashrc"));
+  ```
+   */
+  public fileStem(): Option<string> {
+    return this.fileName().map(name=> splitExtension(name)[0]);
+  }
+
+  /**
+   * Extracts the extension (without the leading dot) of {@linkcode fileName}, if possible.
+   *
+   * The extension is:
+   * * `None`, if there is no file name;
+   * * `None`, if there is no embedded `.`;
+   * * `None`, if the file name begins with `.` and has no other `.`s within;
+   * * Otherwise, the portion of the file name after the final `.`.
+   *
+   * ### Examples
+  ```ts
+  $assertEq(new Path("foo.rs").extension(), Some("rs"));
+  $assertEq(new Path("foo.tar.gz").extension(), Some("gz"));
+  $assertEq(new Path(".bashrc").extension(), None());
+  ```
+   */
+  public extension(): Option<string> {
+    return this.fileName().andThen(name=> new Option(splitExtension(name)[1]));
+  }
+
+  /**
+   * Creates an owned {@linkcode PathBuf} with {@linkcode path} adjoined to this path, see {@linkcode PathBuf.push}.
+   *
+   * ### Examples
+  ```ts
+  $assertEq(new Path("/etc").join("passwd"), new PathBuf("/etc/passwd"));
+  $assertEq(new Path("/etc").join("/bin/sh"), new PathBuf("/bin/sh"));
+  ```
+   */
+  public join(path: PathLike): PathBuf {
+    const buf=this.toPathBuf();
+    buf.push(path);
+
+    return buf;
+  }
+
+  /** Creates an owned {@linkcode PathBuf} like this path but with the given file name, see {@linkcode PathBuf.setFileName}. */
+  public withFileName(fileName: string): PathBuf {
+    const buf=this.toPathBuf();
+    buf.setFileName(fileName);
+
+    return buf;
+  }
+
+  /**
+   * Creates an owned {@linkcode PathBuf} like this path but with the given extension, see {@linkcode PathBuf.setExtension}.
+   *
+   * ### Examples
+  ```ts
+  $assertEq(new Path("foo.rs").withExtension("txt"), new PathBuf("foo.txt"));
+  $assertEq(new Path("foo.tar.gz").withExtension(""), new PathBuf("foo.tar"));
+  ```
+   */
+  public withExtension(extension: string): PathBuf {
+    const buf=this.toPathBuf();
+    buf.setExtension(extension);
+
+    return buf;
+  }
+
+  /**
+   * Determines whether {@linkcode base} is a prefix of the path, only considering whole path components to match.
+   *
+   * ### Examples
+  ```ts
+  const path = new Path("/etc/passwd");
+
+  $assert(path.startsWith("/etc"));
+  $assert(path.startsWith("/etc/"));
+  $assert(path.startsWith("/etc/passwd"));
+  $assert(!path.startsWith("/e"));
+  $assert(!path.startsWith("/etc/passwd.txt"));
+  ```
+   */
+  public startsWith(base: PathLike): boolean {
+    const own=this.#components(),prefix=Path.from(base,this.style).#components();
+    return prefix.length<=own.length && prefix.every((component,i)=> component.eq(own[i]));
+  }
+
+  /** Determines whether {@linkcode child} is a suffix of the path, only considering whole path components to match. */
+  public endsWith(child: PathLike): boolean {
+    const own=this.#components(),suffix=Path.from(child,this.style).#components();
+    const offset=own.length-suffix.length;
+
+    return offset>=0 && suffix.every((component,i)=> component.eq(own[offset+i]));
+  }
+
+  /**
+   * Returns the path that, when joined onto {@linkcode base}, yields this path.
+   *
+   * If {@linkcode base} is not a prefix of the path (i.e., {@linkcode startsWith} returns `false`), returns an `Err`.
+   *
+   * ### Examples
+  ```ts
+  const path = new Path("/test/haha/foo.txt");
+
+  $assertEq(path.stripPrefix("/"), Ok(new Path("test/haha/foo.txt")));
+  $assertEq(path.stripPrefix("/test"), Ok(new Path("haha/foo.txt")));
+  $assertEq(path.stripPrefix("/test/haha/foo.txt/"), Ok(new Path("")));
+
+  $assert(path.stripPrefix("test").containsErr());
+  $assert(path.stripPrefix("/haha").containsErr());
+  ```
+   */
+  public stripPrefix(base: PathLike): Result<Path,StripPrefixError> {
+    const { parts }=parse(this.inner,this.style);
+    if(!this.startsWith(base)) return Err(new StripPrefixError());
+
+    const rest=parts[Path.from(base,this.style).#components().length];
+    return Ok(new Path(rest?this.inner.slice(rest.start,parts.at(-1)!.end):"",this.style));
+  }
+
+  /**
+   * Normalizes the path lexically: the `.` components are removed, and each `..` removes the component before it.
+   *
+   * The `..` at the start of a relative path are kept, and the ones right after the root are dropped since the root is its own parent.
+   * It doesn't resolve the symbolic links, so the result may point to another file than the path, see {@linkcode fs.canonicalize} for that.
+   *
+   * ### Examples
+  ```ts
+  $assertEq(new Path("/foo/./bar/../baz/").normalize(), new PathBuf("/foo/baz"));
+  $assertEq(new Path("../a/../../b").normalize(), new PathBuf("../../b"));
+  $assertEq(new Path("/..").normalize(), new PathBuf("/"));
+  $assertEq(new Path("a/..").normalize(), new PathBuf("."));
+  ```
+   */
+  public normalize(): PathBuf {
+    const sep=separator(this.style);
+    const names: string[]=[];
+    let prefix="",root="";
+
+    for(const component of this.#components()) {
+      const kind=component.kind();
+
+      if(kind===ComponentKind.Prefix) prefix=component.asStr();
+      else if(kind===ComponentKind.RootDir) root=sep;
+      else if(kind===ComponentKind.Normal) names.push(component.asStr());
+      else if(kind===ComponentKind.ParentDir) {
+        if(names.length && names.at(-1)!=="..") names.pop();
+        else if(!root) names.push("..");
+      }
+    }
+
+    return new PathBuf(prefix+root+names.join(sep) || ".",this.style);
+  }
+
+  /** Returns `true` if the path points at an existing entity, following the symbolic links. */
+  public async exists(): Promise<boolean> {
+    return (await metadata(this)).contains();
+  }
+
+  /** Returns `true` if the path points at an existing entity synchronously, following the symbolic links. */
+  public existsSync(): boolean {
+    return metadataSync(this).contains();
+  }
+
+  /** Queries the file system to get information about a file, directory, etc. This is an alias to {@linkcode fs.metadata}. */
+  public metadata() {
+    return metadata(this);
+  }
+
+  /** Queries the file system synchronously to get information about a file, directory, etc. This is an alias to {@linkcode fs.metadataSync}. */
+  public metadataSync() {
+    return metadataSync(this);
+  }
+
+  /**
+   * Returns an iterator over the entries within a directory. This is an alias to {@linkcode fs.readDir}.
+   *
+   * ### Examples
+  ```ts
+  const names = await new Path(".").readDir().map(entry=> entry.name).collect().unwrap();
+  ```
+   */
+  public readDir() {
+    return readDir(this);
+  }
+
+  /** Returns an iterator over the entries within a directory synchronously. This is an alias to {@linkcode fs.readDirSync}. */
+  public readDirSync() {
+    return readDirSync(this);
+  }
+
+  public clone(): this {
+    return new Path(this.inner,this.style) as this;
+  }
+
+  /** Compares the paths component by component, so `a//b/` equals `a/b`. */
+  public eq(rhs: PathLike): boolean {
+    const own=this.#components(),other=Path.from(rhs,this.style).#components();
+    return own.length===other.length && own.every((component,i)=> component.eq(other[i]));
+  }
+
+  /** Compares the paths component by component, by their kinds first then by their strings. */
+  public cmp(other: Path): Ordering {
+    const own=this.#components(),rhs=other.#components();
+
+    for(let i=0;i<own.length && i<rhs.length;i++) {
+      const a=own[i],b=rhs[i];
+      if(a.eq(b)) continue;
+
+      return a.kind()!==b.kind()?
+        a.kind()<b.kind()?Ordering.Less:Ordering.Greater
+      :
+        a.asStr()<b.asStr()?Ordering.Less:Ordering.Greater;
+    }
+
+    return own.length<rhs.length?Ordering.Less:own.length>rhs.length?Ordering.Greater:Ordering.Equal;
+  }
+
+  public partialCmp(other: Path): Option<Ordering> {
+    return Some(this.cmp(other));
+  }
+
+  /** Formats the path like a quoted and escaped `string`. */
+  public fmtDebug(f: Formatter) {
+    $debug(this.inner,f);
+  }
+
+  /** Writes the path, padded according to the width, fill and alignment of {@linkcode f}. */
+  public fmt(f: Formatter) {
+    f.pad(this.inner);
+  }
+
+  [customInspect](inspect: Inspect,options: InspectOptions): string {
+    return inspectTuple("Path",[this.inner],inspect,options);
+  }
+
+  #components(): Component[] {
+    const sep=separator(this.style);
+    return parse(this.inner,this.style).parts.map(({ kind,start,end })=> new Component(kind,kind===ComponentKind.RootDir?sep:this.inner.slice(start,end)));
+  }
+}
+
+
+/**
+ * An owned, mutable path, like the `PathBuf` of Rust.
+ *
+ * It extends {@linkcode Path}, so all the methods of {@linkcode Path} are available on it too.
+ *
+ * ### Examples
+```ts
+import { PathBuf } from "std/path";
+
+const path = new PathBuf("/");
+path.push("feel");
+path.push("the");
+path.setExtension("force");
+
+$assertEq(path.toString(), "/feel/the.force");
+
+path.pop();
+$assertEq(path.toString(), "/feel");
+```
+ */
+export class PathBuf extends Path {
+  /** Converts any {@linkcode PathLike} into a {@linkcode PathBuf}, a {@linkcode Path} keeps its style unless {@linkcode style} is specified. */
+  public static override from(path: PathLike,style?: PathStyle): PathBuf {
+    return path instanceof Path?new PathBuf(path.toString(),style??path.style):new PathBuf(path,style);
+  }
+
+  /** Returns a {@linkcode Path} holding the current value of the path, it's not affected by the later changes. */
+  public asPath(): Path {
+    return new Path(this.inner,this.style);
+  }
+
+  /**
+   * Extends the path with {@linkcode path}.
+   *
+   * If {@linkcode path} is absolute, it replaces the current path.
+   *
+   * On Windows:
+   * * if {@linkcode path} has a root but no prefix (e.g., `\windows`), it replaces everything except for the prefix (if any) of the path.
+   * * if {@linkcode path} has a prefix but no root, it replaces the path.
+   * * if the path has a verbatim prefix (e.g. `\\?\C:\windows`) and {@linkcode path} is not empty, the new path is normalized: all references to `.` and `..` are removed.
+   *
+   * ### Examples
+  ```ts
+  const path = new PathBuf("/tmp");
+  path.push("file.bk");
+  $assertEq(path, new PathBuf("/tmp/file.bk"));
+
+  // Pushing an absolute path replaces the existing path
+  path.push("/etc");
+  $assertEq(path, new PathBuf("/etc"));
+  ```
+   */
+  public push(path: PathLike) {
+    const pushed=Path.from(path,this.style);
+    const own=parse(this.inner,this.style),other=parse(pushed.toString(),this.style);
+
+    // In the special case of a bare drive like `C:`, no separator is added.
+    const needSep=!!this.inner && !isSeparator(this.inner.at(-1)!,this.style,false) && !(own.prefix?.disk && own.prefix.len===this.inner.length);
+
+    if(pushed.isAbsolute() || other.prefix) this.inner="";
+    else if(other.hasRoot) this.inner=this.inner.slice(0,own.prefix?.len??0);
+    else if(needSep) this.inner+=separator(this.style);
+
+    this.inner+=pushed.toString();
+    if(own.prefix?.verbatim && pushed.toString()) this.inner=this.normalize().toString();
+  }
+
+  /**
+   * Truncates the path to its {@linkcode parent}.
+   *
+   * Returns `false` and does nothing if there is no parent, otherwise returns `true`.
+   *
+   * ### Examples
+  ```ts
+  const path = new PathBuf("/spirited/away.rs");
+
+  path.pop();
+  $assertEq(path, new Path("/spirited"));
+  path.pop();
+  $assertEq(path, new Path("/"));
+  ```
+   */
+  public pop(): boolean {
+    const parent=this.parent();
+    if(parent.containsNone()) return false;
+
+    this.inner=parent.unwrap().toString();
+    return true;
+  }
+
+  /**
+   * Updates the file name of the path to {@linkcode fileName}.
+   *
+   * If the path has no file name, this is equivalent to pushing {@linkcode fileName}.
+   * Otherwise it's equivalent to calling {@linkcode pop} and then pushing {@linkcode fileName}.
+   *
+   * ### Examples
+  ```ts
+  const buf = new PathBuf("/");
+  buf.setFileName("bar");
+  $assertEq(buf, new PathBuf("/bar"));
+
+  buf.setFileName("baz.txt");
+  $assertEq(buf, new PathBuf("/baz.txt"));
+  ```
+   */
+  public setFileName(fileName: string) {
+    if(this.fileName().contains()) this.pop();
+    this.push(fileName);
+  }
+
+  /**
+   * Updates the extension of the path to {@linkcode extension}, or removes it if {@linkcode extension} is empty.
+   *
+   * Returns `false` and does nothing if there is no file name, otherwise returns `true`.
+   *
+   * ### Examples
+  ```ts
+  const p = new PathBuf("/feel/the");
+
+  p.setExtension("force");
+  $assertEq(new Path("/feel/the.force"), p);
+
+  p.setExtension("dark.side");
+  $assertEq(new Path("/feel/the.dark.side"), p);
+
+  p.setExtension("cookie");
+  $assertEq(new Path("/feel/the.dark.cookie"), p);
+
+  p.setExtension("");
+  $assertEq(new Path("/feel/the.dark"), p);
+  ```
+   */
+  public setExtension(extension: string): boolean {
+    const stem=this.fileStem();
+    if(stem.containsNone()) return false;
+
+    const last=parse(this.inner,this.style).parts.at(-1)!;
+    this.inner=this.inner.slice(0,last.start+stem.unwrap().length);
+    if(extension) this.inner+=`.${extension}`;
+
+    return true;
+  }
+
+  /** Truncates the path to an empty path. */
+  public clear() {
+    this.inner="";
+  }
+
+  public override clone(): this {
+    return new PathBuf(this.inner,this.style) as this;
+  }
+
+  override [customInspect](inspect: Inspect,options: InspectOptions): string {
+    return inspectTuple("PathBuf",[this.inner],inspect,options);
+  }
+}
+
+
+/** A component of a path, as a range of the path's string. */
+interface Part {
+  kind: ComponentKind;
+  start: number;
+  end: number;
+}
+
+/** A Windows path prefix, as the length of the path it spans. */
+interface Prefix {
+  len: number;
+  /** `\\?\` prefixes, after which `/` isn't a separator and `.` is a normal component. */
+  verbatim: boolean;
+  disk: boolean;
+  /** The prefixes other than a drive always have a root, even without a separator after them. */
+  implicitRoot: boolean;
+}
+
+interface Parsed {
+  parts: Part[];
+  prefix: Prefix|undefined;
+  hasRoot: boolean;
+}
+
+
+function separator(style: PathStyle): string {
+  return style===PathStyle.Windows?"\\":"/";
+}
+
+function isSeparator(char: string,style: PathStyle,verbatim: boolean): boolean {
+  return char==="\\"?style===PathStyle.Windows:char==="/" && !verbatim;
+}
+
+function parse(path: string,style: PathStyle): Parsed {
+  const prefix=style===PathStyle.Windows?parsePrefix(path):undefined;
+  const verbatim=!!prefix?.verbatim;
+  const isSep=(i: number)=> i<path.length && isSeparator(path[i],style,verbatim);
+
+  const parts: Part[]=[];
+  let i=prefix?.len??0;
+  if(prefix) parts.push({ kind: ComponentKind.Prefix,start: 0,end: i });
+
+  const physicalRoot=isSep(i);
+  if(physicalRoot) parts.push({ kind: ComponentKind.RootDir,start: i,end: ++i });
+  else if(prefix?.implicitRoot && !verbatim) parts.push({ kind: ComponentKind.RootDir,start: i,end: i });
+
+  const hasRoot=physicalRoot || !!prefix?.implicitRoot;
+  // A `.` is only kept at the start of a relative path.
+  if(!hasRoot && path[i]==="." && (i+1===path.length || isSep(i+1))) parts.push({ kind: ComponentKind.CurDir,start: i,end: ++i });
+
+  while(i<path.length) {
+    let end=i;
+    while(end<path.length && !isSep(end)) end++;
+
+    const name=path.slice(i,end);
+    if(name==="..") parts.push({ kind: ComponentKind.ParentDir,start: i,end });
+    else if(name==="." && verbatim) parts.push({ kind: ComponentKind.CurDir,start: i,end });
+    else if(name && name!==".") parts.push({ kind: ComponentKind.Normal,start: i,end });
+
+    i=end+1;
+  }
+
+  return { parts,prefix,hasRoot };
+}
+
+function parsePrefix(path: string): Prefix|undefined {
+  if(path.startsWith("\\\\?\\")) {
+    const rest=path.slice(4);
+
+    if(rest.startsWith("UNC\\")) return { len: 8+uncLength(rest.slice(4),true),verbatim: true,disk: false,implicitRoot: true };
+    if(/^[a-z]:(\\|$)/i.test(rest)) return { len: 6,verbatim: true,disk: true,implicitRoot: true };
+
+    const end=rest.indexOf("\\");
+    return { len: 4+(end===-1?rest.length:end),verbatim: true,disk: false,implicitRoot: true };
+  }
+
+  if(/^[\\/]{2}\.[\\/]/.test(path)) {
+    const end=path.slice(4).search(/[\\/]/);
+    return { len: 4+(end===-1?path.length-4:end),verbatim: false,disk: false,implicitRoot: true };
+  }
+
+  if(/^[\\/]{2}[^\\/]+[\\/][^\\/]/.test(path)) return { len: 2+uncLength(path.slice(2),false),verbatim: false,disk: false,implicitRoot: true };
+  if(/^[a-z]:/i.test(path)) return { len: 2,verbatim: false,disk: true,implicitRoot: false };
+}
+
+/** The length of the `server\share` part of a UNC prefix. */
+function uncLength(path: string,verbatim: boolean): number {
+  const sep=verbatim?/\\/:/[\\/]/;
+  const server=path.search(sep);
+  if(server===-1) return path.length;
+
+  const share=path.slice(server+1).search(sep);
+  return share===-1?path.length:server+1+share;
+}
+
+function fromFileUrl(url: URL,style: PathStyle): string {
+  if(url.protocol!=="file:") $panic(`expected a file URL, got ${url.href}`);
+
+  const path=decodeURIComponent(url.pathname);
+  if(style===PathStyle.Posix) return path;
+
+  const windows=path.replaceAll("/","\\");
+  return url.hostname?`\\\\${url.hostname}${windows}`:windows.replace(/^\\([a-z]:)/i,"$1");
+}
+
+/** Splits a file name into its stem and its extension, a leading dot doesn't start an extension. */
+function splitExtension(name: string): [stem: string,extension?: string] {
+  const dot=name.lastIndexOf(".");
+  return dot<=0?[name]:[name.slice(0,dot),name.slice(dot+1)];
+}
+
+function* ancestors(path: Path): Generator<Path,void,undefined> {
+  for(let next=Some(path);next.contains();next=next.unwrap().parent()) yield next.unwrap();
+}
@@ -0,0 +1,7 @@
+import { Path,PathLike } from "./path.ts";
+
+
+/** Converts a path into the `string|URL` the Deno APIs take. */
+export function toNative(path: PathLike): string|URL {
+  return path instanceof Path?path.toString():path;
+}
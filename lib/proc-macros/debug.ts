@@ -0,0 +1,37 @@
+// deno-lint-ignore no-unused-vars
+import type { Debug } from "../fmt/fmt.ts";
+import type { Formatter } from "../fmt/formatter.ts";
+import { Class,ClassDecorator } from "./types.ts";
+
+/**
+ * `?` formatting.
+ *
+ * ### Derivable
+ * This interface can be used with `@derive`.
+ * The derived implementation of {@linkcode Debug} writes the name of the class followed by every own enumerable field, in declaration order.
+ *
+```ts
+import { Debug } from "@std";
+
+\@derive(Debug) // idk `\@` should be replaced with `@`
+class Point implements Debug {
+      constructor(public x: number,public y: number) {}
+
+      public fmtDebug(f: Formatter) {
+        $unimplemented();
+      }
+}
+
+$assertEq($format("{:?}", new Point(6,9)), "Point { x: 6, y: 9 }");
+```
+ */
+export function Debug<C extends Class>(klass: C,_context: ClassDecoratorContext): ClassDecorator<C> {
+  return class extends klass implements Debug {
+    fmtDebug(f: Formatter) {
+      const struct=f.debugStruct(klass.name);
+      for(const [key,val] of Object.entries(this)) struct.field(key,val);
+
+      struct.finish();
+    }
+  };
+}
@@ -0,0 +1,39 @@
+// deno-lint-ignore no-unused-vars
+import type { Hash } from "../hash/hash.ts";
+import { hashFields } from "../hash/hash.ts";
+import { Hasher } from "../hash/hasher.ts";
+import { Class,ClassDecorator } from "./types.ts";
+
+/**
+ * A hashable type.
+ *
+ * ### Derivable
+ * This interface can be used with `@derive`.
+ * The derived implementation of {@linkcode Hash} feeds every field into the {@linkcode Hasher}, in declaration order.
+ *
+```ts
+import { Hash } from "@std";
+
+\@derive(Hash,Clone) // idk `\@` should be replaced with `@`
+class Point implements Hash {
+      constructor(public x: number,public y: number) {}
+
+      public hash(state: Hasher) {
+        $unimplemented();
+      }
+}
+
+const map = HashMap.withHasher<Point,string>(new RandomState());
+map.set(new Point(6,9),"xd");
+
+$assertEq(map.get(new Point(6,9)),Some("xd"));
+```
+ * **NOTE**: Derive {@linkcode PartailEq} consistently, `$eq(a, b)` must imply equal hashes.
+ */
+export function Hash<C extends Class>(klass: C,_context: ClassDecoratorContext): ClassDecorator<C> {
+  return class extends klass implements Hash {
+    hash(state: Hasher) {
+      hashFields(this,state);
+    }
+  };
+}
@@ -0,0 +1,56 @@
+import { Option } from "../error/option/option.ts";
+import { ErrorTrait,ErrorKindLike } from "../error/error_trait.ts";
+
+
+/**
+ * An error returned when a sequence of bytes isn't valid UTF-8, see {@linkcode Str.fromUtf8} and {@linkcode fromUtf8}.
+ *
+ * It tells where the valid prefix of the bytes ends with {@linkcode validUpTo},
+ * and whether the input was corrupted or only cut off in the middle of a character with {@linkcode errorLen}.
+ *
+ * ### Examples
+```ts
+import { Str } from "std/str";
+
+// some invalid bytes, in a vector
+const err = Str.fromUtf8(new Uint8Array([0xf0, 0x28, 0x8c, 0xbc])).unwrapErr();
+
+$assertEq(err.validUpTo(), 0);
+$assertEq(err.errorLen(), Some(1));
+$assertEq(err.message, "invalid utf-8 sequence of 1 bytes from index 0");
+```
+ */
+export class Utf8Error extends ErrorTrait {
+  constructor(private readonly valid: number,private readonly len: Option<number>) {
+    super(-1,len.contains()?
+      `invalid utf-8 sequence of ${len.value} bytes from index ${valid}`
+    :
+      `incomplete utf-8 byte sequence from index ${valid}`
+    );
+  }
+
+  /**
+   * Returns the index in the given bytes up to which valid UTF-8 was verified.
+   *
+   * It's the maximum index such that decoding the bytes before it would succeed.
+   */
+  public validUpTo(): number {
+    return this.valid;
+  }
+
+  /**
+   * Provides more information about the failure:
+   * * `None`: the end of the input was reached unexpectedly, {@linkcode validUpTo} is 1 to 3 bytes from the end of the input.
+   *   If a byte stream (such as a file or a network socket) is being decoded incrementally, this could be a valid character whose UTF-8 byte sequence is spanning multiple chunks.
+   * * `Some(len)`: an unexpected byte was encountered, the length provided is that of the invalid byte sequence that starts at the index given by {@linkcode validUpTo}.
+   *   Decoding should resume after that sequence (after inserting a `U+FFFD REPLACEMENT CHARACTER`) in case of lossy decoding.
+   */
+  public errorLen(): Option<number> {
+    return this.len;
+  }
+
+  /** {@linkcode Utf8Error} has a single cause, so its kind is always `-1`. */
+  public kind(): ErrorKindLike {
+    return this.__kind;
+  }
+}
@@ -0,0 +1,19 @@
+import { DoubleEndedIterator,DoubleEndedIter } from "../iter/double_ended_iter.ts";
+
+
+/**
+ * Returns an iterator over the chars (the Unicode code points, not the UTF-16 code units) of {@linkcode s}, like `str::chars` in Rust.
+ *
+ * ### Examples
+```ts
+const iter = $chars("lorem");
+
+$assertEq(iter.nextChunk(2).unwrap(), ['l', 'o']);
+$assertEq($chars("y̆💖").collect(), $vec("y", "\u{0306}", "💖"));
+$assertEq($chars("abc").rev().collect(String), "cba");
+```
+ */
+export function $chars(s: string): DoubleEndedIterator<string> {
+  const chars=[...s];
+  return new DoubleEndedIter(chars.length,i=> chars[i]);
+}
@@ -0,0 +1,4 @@
+export * from "./str.ts";
+export * from "./error.ts";
+export * from "./utf8.ts";
+export * from "./macros.ts";
@@ -0,0 +1,583 @@
+import { Option,Some,None } from "../error/option/option.ts";
+import { Result } from "../error/result/result.ts";
+import { $panic } from "../declarative-macros/panics.ts";
+import { Fn } from "../types.ts";
+import { Clone } from "../clone.ts";
+import { Ord,Ordering } from "../cmp/ord.ts";
+import { IteratorTrait,Iter } from "../iter/iter.ts";
+import { DoubleEndedIterator,DoubleEndedIter } from "../iter/double_ended_iter.ts";
+import { Uint8Vec } from "../io/typed_arrays/uint8vec.ts";
+import { Debug,Display,$debug } from "../fmt/fmt.ts";
+import { Formatter } from "../fmt/formatter.ts";
+import { customInspect,inspectTuple,Inspect,InspectOptions } from "../fmt/inspect.ts";
+import { Utf8Error } from "./error.ts";
+import { fromUtf8,fromUtf8Lossy } from "./utf8.ts";
+import { $chars } from "./macros.ts";
+
+
+const encoder=new TextEncoder;
+const decoder=new TextDecoder;
+
+
+/**
+ * A pattern searched in a {@linkcode Str}, like the `Pattern` trait of Rust:
+ * * a `string` matches itself, so a single char matches that char,
+ * * an array of chars matches any of them,
+ * * a function matches the chars it returns `true` for.
+ *
+ * ### Examples
+```ts
+const s = Str.from("Hello, world!");
+
+$assertEq(s.findPattern("o"), Some(4));
+$assertEq(s.findPattern("world"), Some(7));
+$assertEq(s.findPattern([",", "!"]), Some(5));
+$assertEq(s.findPattern(char=> char===char.toLowerCase() && char!==char.toUpperCase()), Some(1));
+```
+ */
+export type Pattern=string|string[]|Fn<[char: string],boolean>;
+
+
+/**
+ * A UTF-8 encoded, growable string, like the `String` of Rust.
+ *
+ * Its bytes are stored in a {@linkcode Uint8Vec}, so all its indices are byte offsets:
+ * a char takes 1 to 4 bytes, and the methods taking an index panic if it isn't on a char boundary (see {@linkcode isCharBoundary}).
+ *
+ * A {@linkcode Str} can be viewed as its {@linkcode chars}, its {@linkcode bytes} or its {@linkcode graphemes},
+ * the slices returned by its methods are plain `string`s.
+ *
+ * ### Examples
+```ts
+import { Str } from "std/str";
+
+const hello = Str.from("Hello, ");
+hello.pushStr("wörld");
+hello.push("!");
+
+$assertEq(hello.length, 14);
+$assertEq(hello.chars().count(), 13);
+$assertEq(hello.toString(), "Hello, wörld!");
+
+const bytes = Str.fromUtf8(new Uint8Array([0xe2, 0x82, 0xac])).unwrap();
+$assertEq(bytes.toString(), "€");
+```
+ */
+export class Str implements Clone,Ord,Debug,Display,Disposable {
+  #bytes: Uint8Vec;
+
+  /** Creates a new {@linkcode Str} holding {@linkcode s}, encoded as UTF-8. */
+  constructor(s="") {
+    this.#bytes=Uint8Vec.fromUint8Array(encoder.encode(s));
+  }
+
+  /** Creates a new {@linkcode Str} holding {@linkcode s}. */
+  public static from(s: string): Str {
+    return new Str(s);
+  }
+
+  /** Creates a new empty {@linkcode Str} with at least the specified capacity, in bytes. */
+  public static withCapacity(capacity: number): Str {
+    return Str.fromVec(Uint8Vec.withCapacity(capacity));
+  }
+
+  /**
+   * Converts a buffer of bytes to a {@linkcode Str}, or returns a {@linkcode Utf8Error} if they aren't valid UTF-8.
+   *
+   * A {@linkcode Uint8Vec} is moved into the {@linkcode Str} without copying it, an {@linkcode Uint8Array} is copied.
+   *
+   * ### Examples
+  ```ts
+  const sparkleHeart = Str.fromUtf8(new Uint8Array([240, 159, 146, 150])).unwrap();
+  $assertEq(sparkleHeart.toString(), "💖");
+
+  const err = Str.fromUtf8(new Uint8Array([0, 159, 146, 150])).unwrapErr();
+  $assertEq(err.validUpTo(), 1);
+  ```
+   */
+  public static fromUtf8(bytes: Uint8Array|Uint8Vec): Result<Str,Utf8Error> {
+    return bytes instanceof Uint8Vec?
+      fromUtf8(bytes.view()).map(()=> Str.fromVec(bytes))
+    :
+      fromUtf8(bytes).map(()=> Str.fromVec(Uint8Vec.fromUint8Array(bytes)));
+  }
+
+  /** Converts a buffer of bytes to a {@linkcode Str}, the invalid sequences are replaced with `U+FFFD REPLACEMENT CHARACTER` (�). */
+  public static fromUtf8Lossy(bytes: Uint8Array|Uint8Vec): Str {
+    return new Str(fromUtf8Lossy(bytes instanceof Uint8Vec?bytes.view():bytes));
+  }
+
+  private static fromVec(bytes: Uint8Vec): Str {
+    const self=new Str();
+
+    self.#bytes[Symbol.dispose]();
+    self.#bytes=bytes;
+
+    return self;
+  }
+
+  [Symbol.dispose]() {
+    this.#bytes[Symbol.dispose]();
+  }
+
+  /** The length of the string in bytes, not in chars or graphemes. */
+  public get length(): number {
+    return this.#bytes.length;
+  }
+
+  /** The number of bytes the string can hold without reallocating. */
+  public get capacity(): number {
+    return this.#bytes.capacity;
+  }
+
+  /** Returns `true` if the string has a length of zero. */
+  public isEmpty(): boolean {
+    return this.length===0;
+  }
+
+  /** Returns a copy of the UTF-8 bytes of the string. */
+  public asBytes(): Uint8Array {
+    return this.#bytes.view().slice();
+  }
+
+  /** Converts the string into its underlying {@linkcode Uint8Vec}, without copying it. The string must not be used anymore. */
+  public intoBytes(): Uint8Vec {
+    return this.#bytes;
+  }
+
+  /** Decodes the string into a `string`. */
+  public toString(): string {
+    return decoder.decode(this.#bytes.view());
+  }
+
+  /**
+   * Appends the char {@linkcode ch} to the end of the string.
+   *
+   * # Panics
+   * Panics if {@linkcode ch} isn't a single char.
+   */
+  public push(ch: string) {
+    this.pushStr(char(ch));
+  }
+
+  /** Appends the string slice {@linkcode s} to the end of the string. */
+  public pushStr(s: string) {
+    this.#bytes.extend(encoder.encode(s));
+  }
+
+  /**
+   * Removes the last char from the string and returns it, or `None` if the string is empty.
+   *
+   * ### Examples
+  ```ts
+  const s = Str.from("abč");
+
+  $assertEq(s.pop(), Some("č"));
+  $assertEq(s.pop(), Some("b"));
+  $assertEq(s.pop(), Some("a"));
+  $assertEq(s.pop(), None());
+  ```
+   */
+  public pop(): Option<string> {
+    const s=this.toString();
+    if(!s) return None();
+
+    const ch=charBefore(s,s.length);
+    this.truncate(this.length-utf8Len(ch));
+
+    return Some(ch);
+  }
+
+  /**
+   * Inserts the char {@linkcode ch} at the byte position {@linkcode index}.
+   *
+   * # Panics
+   * Panics if {@linkcode index} is larger than the length, or if it doesn't lie on a char boundary, or if {@linkcode ch} isn't a single char.
+   */
+  public insert(index: number,ch: string) {
+    this.insertStr(index,char(ch));
+  }
+
+  /**
+   * Inserts the string slice {@linkcode s} at the byte position {@linkcode index}.
+   *
+   * # Panics
+   * Panics if {@linkcode index} is larger than the length, or if it doesn't lie on a char boundary.
+   *
+   * ### Examples
+  ```ts
+  const s = Str.from("bar");
+  s.insertStr(0, "foo");
+
+  $assertEq(s.toString(), "foobar");
+  ```
+   */
+  public insertStr(index: number,s: string) {
+    if(!this.isCharBoundary(index)) $panic(`byte index ${index} is not a char boundary`);
+
+    const tail=this.#bytes.splitOff(index);
+    this.#bytes.extend(encoder.encode(s));
+    // The view is copied, it's detached once the wasm memory grows.
+    this.#bytes.extend(tail.view().slice());
+
+    tail[Symbol.dispose]();
+  }
+
+  /**
+   * Shortens the string to the specified length in bytes, it has no effect if {@linkcode newLen} is greater than the current length.
+   *
+   * # Panics
+   * Panics if {@linkcode newLen} doesn't lie on a char boundary.
+   */
+  public truncate(newLen: number) {
+    if(newLen>=this.length) return;
+    if(!this.isCharBoundary(newLen)) $panic(`byte index ${newLen} is not a char boundary`);
+
+    this.#bytes.splitOff(newLen)[Symbol.dispose]();
+  }
+
+  /** Truncates the string, removing all its contents but keeping its capacity. */
+  public clear() {
+    this.#bytes.clear();
+  }
+
+  /**
+   * Checks that {@linkcode index}-th byte is the first byte in a UTF-8 code point sequence or the end of the string.
+   *
+   * The start and end of the string (when `index === length`) are considered to be boundaries, and it returns `false` if {@linkcode index} is greater than the length.
+   *
+   * ### Examples
+  ```ts
+  const s = Str.from("Löwe 老虎 Léopard");
+
+  $assert(s.isCharBoundary(0));
+  // start of `老`
+  $assert(s.isCharBoundary(6));
+  $assert(s.isCharBoundary(s.length));
+
+  // second byte of `ö`
+  $assert(!s.isCharBoundary(2));
+  // third byte of `老`
+  $assert(!s.isCharBoundary(8));
+  ```
+   */
+  public isCharBoundary(index: number): boolean {
+    if(index===0 || index===this.length) return true;
+    return Number.isInteger(index) && index>0 && index<this.length && (this.#bytes[index]&0xc0)!==0x80;
+  }
+
+  /**
+   * Returns an iterator over the chars of the string.
+   *
+   * A char is a Unicode code point, which may not match the idea of a "character": see {@linkcode graphemes} for the user-perceived characters.
+   *
+   * ### Examples
+  ```ts
+  const chars = Str.from("y̆").chars();
+
+  $assertEq(chars.next(), Some("y"));
+  $assertEq(chars.next(), Some("\u{0306}"));
+  $assertEq(chars.next(), None());
+  ```
+   */
+  public chars(): DoubleEndedIterator<string> {
+    return $chars(this.toString());
+  }
+
+  /** Returns an iterator over the UTF-8 bytes of the string. */
+  public bytes(): DoubleEndedIterator<number> {
+    const bytes=this.asBytes();
+    return new DoubleEndedIter(bytes.length,i=> bytes[i]);
+  }
+
+  /**
+   * Returns an iterator over the chars of the string and their byte positions.
+   *
+   * ### Examples
+  ```ts
+  const charIndices = Str.from("Léopard").charIndices();
+
+  $assertEq(charIndices.take(3).collect(), $vec([0, "L"], [1, "é"], [3, "o"]));
+  ```
+   */
+  public charIndices(): DoubleEndedIterator<[number,string]> {
+    const indices: [number,string][]=[];
+    let index=0;
+
+    for(const ch of this.toString()) {
+      indices.push([index,ch]);
+      index+=utf8Len(ch);
+    }
+
+    return new DoubleEndedIter(indices.length,i=> indices[i]);
+  }
+
+  /**
+   * Returns an iterator over the extended grapheme clusters of the string, the user-perceived characters, as split by {@linkcode Intl.Segmenter}.
+   *
+   * ### Examples
+  ```ts
+  const graphemes = Str.from("a̐éö̲\r\n").graphemes().collect();
+
+  $assertEq(graphemes, $vec("a̐", "é", "ö̲", "\r\n"));
+  ```
+   */
+  public graphemes(): IteratorTrait<string> {
+    const segments=new Intl.Segmenter(undefined,{ granularity: "grapheme" }).segment(this.toString());
+    return new Iter(segments[Symbol.iterator]()).map(({ segment })=> segment);
+  }
+
+  /**
+   * Returns an iterator over the lines of the string.
+   *
+   * Lines are split at line endings that are either newlines (`\n`) or sequences of a carriage return followed by a line feed (`\r\n`).
+   * The final line ending is optional, a string that ends with one returns the same lines as an otherwise identical string without it.
+   *
+   * ### Examples
+  ```ts
+  const lines = Str.from("foo\r\nbar\n\nbaz\n").lines();
+
+  $assertEq(lines.collect(), $vec("foo", "bar", "", "baz"));
+  ```
+   */
+  public lines(): IteratorTrait<string> {
+    return new Iter(lines(this.toString()));
+  }
+
+  /**
+   * Returns an iterator over the non-whitespace substrings of the string, separated by any amount of Unicode whitespace.
+   *
+   * ### Examples
+  ```ts
+  const words = Str.from("  Mary   had\ta\u2009little  \n\t lamb").splitWhitespace();
+
+  $assertEq(words.collect(), $vec("Mary", "had", "a", "little", "lamb"));
+  ```
+   */
+  public splitWhitespace(): IteratorTrait<string> {
+    return new Iter(this.toString().matchAll(/\S+/gu)).map(([word])=> word);
+  }
+
+  /**
+   * Splits the string on the first occurrence of {@linkcode delimiter}, returning the parts before and after it.
+   *
+   * ### Examples
+  ```ts
+  $assertEq(Str.from("cfg").splitOnce("="), None());
+  $assertEq(Str.from("cfg=foo").splitOnce("="), Some(["cfg", "foo"]));
+  $assertEq(Str.from("cfg=foo=bar").splitOnce("="), Some(["cfg", "foo=bar"]));
+  ```
+   */
+  public splitOnce(delimiter: Pattern): Option<[string,string]> {
+    const s=this.toString();
+    const match=search(s,delimiter,0);
+
+    return match?Some<[string,string]>([s.slice(0,match[0]),s.slice(match[1])]):None();
+  }
+
+  /**
+   * Returns the string with all the prefixes and suffixes that match {@linkcode pattern} repeatedly removed.
+   *
+   * ### Examples
+  ```ts
+  $assertEq(Str.from("11foo1bar11").trimMatches("1"), "foo1bar");
+  $assertEq(Str.from("123foo1bar123").trimMatches(char=> /\d/.test(char)), "foo1bar");
+  ```
+   */
+  public trimMatches(pattern: Pattern): string {
+    const s=this.toString();
+    const start=trimmedStart(s,pattern);
+
+    return s.slice(start,trimmedEnd(s,pattern,start));
+  }
+
+  /** Returns the string with all the prefixes that match {@linkcode pattern} repeatedly removed. */
+  public trimStartMatches(pattern: Pattern): string {
+    const s=this.toString();
+    return s.slice(trimmedStart(s,pattern));
+  }
+
+  /** Returns the string with all the suffixes that match {@linkcode pattern} repeatedly removed. */
+  public trimEndMatches(pattern: Pattern): string {
+    const s=this.toString();
+    return s.slice(0,trimmedEnd(s,pattern,0));
+  }
+
+  /**
+   * Returns the byte index of the first char of the first match of {@linkcode pattern}, or `None` if it doesn't match.
+   *
+   * ### Examples
+  ```ts
+  const s = Str.from("Löwe 老虎 Léopard Gepardi");
+
+  $assertEq(s.findPattern("L"), Some(0));
+  $assertEq(s.findPattern("é"), Some(14));
+  $assertEq(s.findPattern("pard"), Some(17));
+  $assertEq(s.findPattern([" ", "é"]), Some(5));
+  $assertEq(s.findPattern("1"), None());
+  ```
+   */
+  public findPattern(pattern: Pattern): Option<number> {
+    const s=this.toString();
+    const match=search(s,pattern,0);
+
+    return match?Some(utf8Len(s.slice(0,match[0]))):None();
+  }
+
+  /**
+   * Replaces the first {@linkcode count} matches of {@linkcode pattern} with {@linkcode to}, returning a new {@linkcode Str}.
+   *
+   * ### Examples
+  ```ts
+  const s = Str.from("foo foo 123 foo");
+
+  $assertEq(s.replacen("foo", "new", 2).toString(), "new new 123 foo");
+  $assertEq(s.replacen(char=> /\d/.test(char), "ald", 1).toString(), "foo foo ald23 foo");
+  ```
+   */
+  public replacen(pattern: Pattern,to: string,count: number): Str {
+    const s=this.toString();
+    let replaced="",last=0;
+
+    for(let i=0,n=0;n<count && i<=s.length;n++) {
+      const match=search(s,pattern,i);
+      if(!match) break;
+
+      const [start,end]=match;
+      replaced+=s.slice(last,start)+to;
+      last=end;
+      // An empty match would match again at the same position, so the search resumes after the next char.
+      i=start<end?end:end+(s.codePointAt(end)!>0xffff?2:1);
+    }
+
+    return new Str(replaced+s.slice(last));
+  }
+
+  /** Replaces all the matches of {@linkcode pattern} with {@linkcode to}, returning a new {@linkcode Str}. */
+  public replace(pattern: Pattern,to: string): Str {
+    return this.replacen(pattern,to,Infinity);
+  }
+
+  public clone(): this {
+    return Str.fromVec(Uint8Vec.fromUint8Array(this.asBytes())) as this;
+  }
+
+  public eq(rhs: Str|string): boolean {
+    return this.toString()===(rhs instanceof Str?rhs.toString():rhs);
+  }
+
+  /** Compares the strings byte by byte, which is their lexicographic order of code points. */
+  public cmp(other: Str): Ordering {
+    const a=this.#bytes.view(),b=other.#bytes.view();
+
+    for(let i=0;i<a.length && i<b.length;i++) {
+      if(a[i]!==b[i]) return a[i]<b[i]?Ordering.Less:Ordering.Greater;
+    }
+
+    return a.length<b.length?Ordering.Less:a.length>b.length?Ordering.Greater:Ordering.Equal;
+  }
+
+  public partialCmp(other: Str): Option<Ordering> {
+    return Some(this.cmp(other));
+  }
+
+  /** Formats the string like a quoted and escaped `string`. */
+  public fmtDebug(f: Formatter) {
+    $debug(this.toString(),f);
+  }
+
+  /** Writes the string, padded according to the width, fill and alignment of {@linkcode f}. */
+  public fmt(f: Formatter) {
+    f.pad(this.toString());
+  }
+
+  [customInspect](inspect: Inspect,options: InspectOptions): string {
+    return inspectTuple("Str",[this.toString()],inspect,options);
+  }
+}
+
+
+/** Returns {@linkcode ch}, or panics if it isn't a single char. */
+function char(ch: string): string {
+  if([...ch].length!==1) $panic(`expected a single char, got ${JSON.stringify(ch)}`);
+  return ch;
+}
+
+/** The number of bytes of {@linkcode s} once encoded as UTF-8. */
+function utf8Len(s: string): number {
+  let len=0;
+
+  for(const ch of s) {
+    const code=ch.codePointAt(0)!;
+    len+=code<0x80?1:code<0x800?2:code<0x10000?3:4;
+  }
+
+  return len;
+}
+
+/** The char ending at the UTF-16 index {@linkcode end} of {@linkcode s}. */
+function charBefore(s: string,end: number): string {
+  const pair=s.slice(Math.max(end-2,0),end);
+  return pair.length===2 && pair.codePointAt(0)!>0xffff?pair:s[end-1];
+}
+
+function matches(pattern: string[]|Fn<[char: string],boolean>,ch: string): boolean {
+  return Array.isArray(pattern)?pattern.includes(ch):pattern(ch);
+}
+
+/** Returns the UTF-16 range of the first match of {@linkcode pattern} in {@linkcode s}, starting the search at {@linkcode from}. */
+function search(s: string,pattern: Pattern,from: number): [start: number,end: number]|undefined {
+  if(typeof pattern==="string") {
+    const start=s.indexOf(pattern,from);
+    return start===-1?undefined:[start,start+pattern.length];
+  }
+
+  for(const ch of s.slice(from)) {
+    if(matches(pattern,ch)) return [from,from+ch.length];
+    from+=ch.length;
+  }
+}
+
+function trimmedStart(s: string,pattern: Pattern): number {
+  let start=0;
+
+  if(typeof pattern==="string") {
+    while(pattern && s.startsWith(pattern,start)) start+=pattern.length;
+    return start;
+  }
+
+  for(const ch of s) {
+    if(!matches(pattern,ch)) break;
+    start+=ch.length;
+  }
+
+  return start;
+}
+
+function trimmedEnd(s: string,pattern: Pattern,start: number): number {
+  let end=s.length;
+
+  if(typeof pattern==="string") {
+    while(pattern && end-pattern.length>=start && s.endsWith(pattern,end)) end-=pattern.length;
+    return end;
+  }
+
+  while(end>start) {
+    const ch=charBefore(s,end);
+    if(!matches(pattern,ch)) break;
+    end-=ch.length;
+  }
+
+  return end;
+}
+
+function* lines(s: string): Generator<string,void,undefined> {
+  for(let start=0;start<s.length;) {
+    const newline=s.indexOf("\n",start);
+    const end=newline===-1?s.length:newline;
+    const line=s.slice(start,end);
+
+    yield line.endsWith("\r")?line.slice(0,-1):line;
+    start=end+1;
+  }
+}
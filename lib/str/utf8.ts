@@ -0,0 +1,73 @@
+import { Some,None } from "../error/option/option.ts";
+import { Result,Ok,Err } from "../error/result/result.ts";
+import { Utf8Error } from "./error.ts";
+
+
+const decoder=new TextDecoder;
+
+
+/**
+ * Converts a slice of bytes to a `string`, checking that the bytes are valid UTF-8.
+ *
+ * If you are sure that the bytes are valid UTF-8, and you don't want to incur the overhead of the validity check, {@linkcode TextDecoder} can be used directly.
+ *
+ * ### Examples
+```ts
+import { fromUtf8 } from "std/str";
+
+// some bytes, in an array
+const sparkleHeart = new Uint8Array([240, 159, 146, 150]);
+$assertEq(fromUtf8(sparkleHeart), Ok("💖"));
+
+// some invalid bytes
+const err = fromUtf8(new Uint8Array([0, 159, 146, 150])).unwrapErr();
+$assertEq(err.validUpTo(), 1);
+```
+ */
+export function fromUtf8(bytes: Uint8Array): Result<string,Utf8Error> {
+  const error=validate(bytes);
+  return error?Err(error):Ok(decoder.decode(bytes));
+}
+
+/**
+ * Converts a slice of bytes to a `string`, including invalid characters.
+ *
+ * The invalid sequences are replaced with `U+FFFD REPLACEMENT CHARACTER`, which looks like this: �
+ *
+ * ### Examples
+```ts
+import { fromUtf8Lossy } from "std/str";
+
+$assertEq(fromUtf8Lossy(new Uint8Array([72, 101, 108, 108, 111, 0xf0, 0x90, 0x80])), "Hello�");
+```
+ */
+export function fromUtf8Lossy(bytes: Uint8Array): string {
+  return decoder.decode(bytes);
+}
+
+
+/** Returns the error of the first invalid sequence of {@linkcode bytes}, or `undefined` if they're valid UTF-8. */
+function validate(bytes: Uint8Array): Utf8Error|undefined {
+  for(let i=0;i<bytes.length;) {
+    const first=bytes[i];
+    if(first<0x80) {
+      i++;
+      continue;
+    }
+
+    const width=first>=0xc2 && first<=0xdf?2:first>=0xe0 && first<=0xef?3:first>=0xf0 && first<=0xf4?4:0;
+    if(!width) return new Utf8Error(i,Some(1));
+
+    // The second byte has a narrower range after some first bytes, which rejects the overlong encodings, the surrogates and the code points past U+10FFFF.
+    const [low,high]=first===0xe0?[0xa0,0xbf]:first===0xed?[0x80,0x9f]:first===0xf0?[0x90,0xbf]:first===0xf4?[0x80,0x8f]:[0x80,0xbf];
+
+    for(let j=1;j<width;j++) {
+      if(i+j>=bytes.length) return new Utf8Error(i,None());
+
+      const byte=bytes[i+j];
+      if(j===1?byte<low || byte>high:(byte&0xc0)!==0x80) return new Utf8Error(i,Some(j));
+    }
+
+    i+=width;
+  }
+}
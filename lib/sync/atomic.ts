@@ -0,0 +1,293 @@
+// deno-lint-ignore-file no-explicit-any
+import { Fn } from "../types.ts";
+import { Option } from "../error/option/option.ts";
+import { Result,Ok,Err } from "../error/result/result.ts";
+
+
+type IntegerArray=Int8Array|Uint8Array|Int16Array|Uint16Array|Int32Array|Uint32Array|BigInt64Array|BigUint64Array;
+type IntegerArrayConstructor={
+  readonly BYTES_PER_ELEMENT: number;
+  new(buffer: SharedArrayBuffer,byteOffset: number,length: number): IntegerArray;
+};
+
+
+/**
+ * An integer which can be safely shared between threads, backed by a {@linkcode SharedArrayBuffer}.
+ *
+ * Unlike Rust, every operation takes no memory ordering: the {@linkcode Atomics} operations are always sequentially consistent.
+ *
+ * Pass a {@linkcode SharedArrayBuffer} (e.g. the {@linkcode buffer} of an atomic received from another worker) instead of an initial value to view an existing atomic.
+ */
+export abstract class AtomicInteger<N extends number|bigint> {
+  protected readonly inner: any;
+
+  constructor(TypedArray: IntegerArrayConstructor,value: N|SharedArrayBuffer,byteOffset=0) {
+    if(value instanceof SharedArrayBuffer) {
+      this.inner=new TypedArray(value,byteOffset,1);
+    } else {
+      this.inner=new TypedArray(new SharedArrayBuffer(TypedArray.BYTES_PER_ELEMENT),0,1);
+      this.inner[0]=value;
+    }
+  }
+
+  /** The {@linkcode SharedArrayBuffer} holding the value. */
+  public get buffer(): SharedArrayBuffer {
+    return this.inner.buffer;
+  }
+
+  /** Loads a value from the atomic integer. */
+  public load(): N {
+    return Atomics.load(this.inner,0) as N;
+  }
+
+  /** Stores a value into the atomic integer. */
+  public store(val: N) {
+    Atomics.store(this.inner,0,val as any);
+  }
+
+  /** Stores a value into the atomic integer, returning the previous value. */
+  public swap(val: N): N {
+    return Atomics.exchange(this.inner,0,val as any) as N;
+  }
+
+  /**
+   * Stores a value into the atomic integer if the current value is the same as the {@linkcode current} value.
+   *
+   * The return value is a result indicating whether the new value was written and containing the previous value.
+   * On success this value is guaranteed to be equal to {@linkcode current}.
+   *
+   * ### Examples
+  ```ts
+  const some_var = new AtomicI32(5);
+
+  $assertEq(some_var.compareExchange(5, 10), Ok(5));
+  $assertEq(some_var.load(), 10);
+
+  $assertEq(some_var.compareExchange(6, 12), Err(10));
+  $assertEq(some_var.load(), 10);
+  ```
+   */
+  public compareExchange(current: N,val: N): Result<N,N> {
+    const prev=Atomics.compareExchange(this.inner,0,current as any,val as any) as N;
+    return prev===this.#wrap(current)?Ok(prev):Err(prev);
+  }
+
+  /** Adds to the current value, returning the previous value. This operation wraps around on overflow. */
+  public fetchAdd(val: N): N {
+    return Atomics.add(this.inner,0,val as any) as N;
+  }
+
+  /** Subtracts from the current value, returning the previous value. This operation wraps around on overflow. */
+  public fetchSub(val: N): N {
+    return Atomics.sub(this.inner,0,val as any) as N;
+  }
+
+  /** Bitwise "and" with the current value, returns the previous value. */
+  public fetchAnd(val: N): N {
+    return Atomics.and(this.inner,0,val as any) as N;
+  }
+
+  /** Bitwise "or" with the current value, returns the previous value. */
+  public fetchOr(val: N): N {
+    return Atomics.or(this.inner,0,val as any) as N;
+  }
+
+  /** Bitwise "xor" with the current value, returns the previous value. */
+  public fetchXor(val: N): N {
+    return Atomics.xor(this.inner,0,val as any) as N;
+  }
+
+  /** Bitwise "nand" with the current value, returns the previous value. */
+  public fetchNand(val: N): N {
+    return this.fetchUpdate(prev=> new Option(~((prev as any)&(val as any)) as N)).unwrap();
+  }
+
+  /** Maximum with the current value, returns the previous value. */
+  public fetchMax(val: N): N {
+    return this.fetchUpdate(prev=> new Option(prev>val?prev:val)).unwrap();
+  }
+
+  /** Minimum with the current value, returns the previous value. */
+  public fetchMin(val: N): N {
+    return this.fetchUpdate(prev=> new Option(prev<val?prev:val)).unwrap();
+  }
+
+  /**
+   * Fetches the value, and applies a function to it that returns an optional new value.
+   * Returns `Ok(previous_value)` if the function returned `Some`, else `Err(previous_value)`.
+   *
+   * The function may be called multiple times if the value has been changed from other threads in the meantime,
+   * as long as the function returns `Some`, but it will have been applied only once to the stored value.
+   *
+   * ### Examples
+  ```ts
+  const x = new AtomicI32(7);
+
+  $assertEq(x.fetchUpdate(_=> None()), Err(7));
+  $assertEq(x.fetchUpdate(x=> Some(x+1)), Ok(7));
+  $assertEq(x.fetchUpdate(x=> Some(x+1)), Ok(8));
+  $assertEq(x.load(), 9);
+  ```
+   */
+  public fetchUpdate(f: Fn<[val: N],Option<N>>): Result<N,N> {
+    for(let prev=this.load();;) {
+      const next=f(prev);
+      if(next.containsNone()) return Err(prev);
+
+      const res=this.compareExchange(prev,next.unwrap());
+      if(res.contains()) return res;
+
+      prev=res.unwrapErr();
+    }
+  }
+
+  /** The value the typed array actually stores for {@linkcode val}, so comparisons survive wrapping. */
+  #wrap(val: N): N {
+    const arr=new this.inner.constructor(1);
+    arr[0]=val;
+
+    return arr[0];
+  }
+}
+
+
+/** An integer type which can be safely shared between threads, see {@linkcode AtomicInteger}. */
+export class AtomicI8 extends AtomicInteger<number> {
+  constructor(value: number|SharedArrayBuffer=0,byteOffset?: number) {
+    super(Int8Array,value,byteOffset);
+  }
+}
+
+/** An integer type which can be safely shared between threads, see {@linkcode AtomicInteger}. */
+export class AtomicU8 extends AtomicInteger<number> {
+  constructor(value: number|SharedArrayBuffer=0,byteOffset?: number) {
+    super(Uint8Array,value,byteOffset);
+  }
+}
+
+/** An integer type which can be safely shared between threads, see {@linkcode AtomicInteger}. */
+export class AtomicI16 extends AtomicInteger<number> {
+  constructor(value: number|SharedArrayBuffer=0,byteOffset?: number) {
+    super(Int16Array,value,byteOffset);
+  }
+}
+
+/** An integer type which can be safely shared between threads, see {@linkcode AtomicInteger}. */
+export class AtomicU16 extends AtomicInteger<number> {
+  constructor(value: number|SharedArrayBuffer=0,byteOffset?: number) {
+    super(Uint16Array,value,byteOffset);
+  }
+}
+
+/** An integer type which can be safely shared between threads, see {@linkcode AtomicInteger}. */
+export class AtomicI32 extends AtomicInteger<number> {
+  constructor(value: number|SharedArrayBuffer=0,byteOffset?: number) {
+    super(Int32Array,value,byteOffset);
+  }
+}
+
+/** An integer type which can be safely shared between threads, see {@linkcode AtomicInteger}. */
+export class AtomicU32 extends AtomicInteger<number> {
+  constructor(value: number|SharedArrayBuffer=0,byteOffset?: number) {
+    super(Uint32Array,value,byteOffset);
+  }
+}
+
+/** An integer type which can be safely shared between threads, see {@linkcode AtomicInteger}. */
+export class AtomicI64 extends AtomicInteger<bigint> {
+  constructor(value: bigint|SharedArrayBuffer=0n,byteOffset?: number) {
+    super(BigInt64Array,value,byteOffset);
+  }
+}
+
+/** An integer type which can be safely shared between threads, see {@linkcode AtomicInteger}. */
+export class AtomicU64 extends AtomicInteger<bigint> {
+  constructor(value: bigint|SharedArrayBuffer=0n,byteOffset?: number) {
+    super(BigUint64Array,value,byteOffset);
+  }
+}
+
+
+/**
+ * A boolean type which can be safely shared between threads, backed by a single byte of a {@linkcode SharedArrayBuffer}.
+ *
+ * ### Examples
+```ts
+import { AtomicBool } from "std/sync";
+
+const spinlock = new AtomicBool(false);
+
+while(spinlock.compareExchange(false, true).containsErr()) {}
+// critical section
+spinlock.store(false);
+```
+ */
+export class AtomicBool {
+  readonly #inner: AtomicU8;
+
+  constructor(value: boolean|SharedArrayBuffer=false,byteOffset?: number) {
+    this.#inner=new AtomicU8(value instanceof SharedArrayBuffer?value:Number(value),byteOffset);
+  }
+
+  /** The {@linkcode SharedArrayBuffer} holding the value. */
+  public get buffer(): SharedArrayBuffer {
+    return this.#inner.buffer;
+  }
+
+  /** Loads a value from the bool. */
+  public load(): boolean {
+    return this.#inner.load()!==0;
+  }
+
+  /** Stores a value into the bool. */
+  public store(val: boolean) {
+    this.#inner.store(Number(val));
+  }
+
+  /** Stores a value into the bool, returning the previous value. */
+  public swap(val: boolean): boolean {
+    return this.#inner.swap(Number(val))!==0;
+  }
+
+  /**
+   * Stores a value into the bool if the current value is the same as the {@linkcode current} value.
+   *
+   * The return value is a result indicating whether the new value was written and containing the previous value.
+   */
+  public compareExchange(current: boolean,val: boolean): Result<boolean,boolean> {
+    return this.#inner.compareExchange(Number(current),Number(val)).map(Boolean).mapErr(Boolean);
+  }
+
+  /** Logical "and" with a boolean value, returns the previous value. */
+  public fetchAnd(val: boolean): boolean {
+    return this.#inner.fetchAnd(Number(val))!==0;
+  }
+
+  /** Logical "or" with a boolean value, returns the previous value. */
+  public fetchOr(val: boolean): boolean {
+    return this.#inner.fetchOr(Number(val))!==0;
+  }
+
+  /** Logical "xor" with a boolean value, returns the previous value. */
+  public fetchXor(val: boolean): boolean {
+    return this.#inner.fetchXor(Number(val))!==0;
+  }
+
+  /** Logical "nand" with a boolean value, returns the previous value. */
+  public fetchNand(val: boolean): boolean {
+    return this.fetchUpdate(prev=> new Option(!(prev && val))).unwrap();
+  }
+
+  /** Logical "not" with the current value, returns the previous value. */
+  public fetchNot(): boolean {
+    return this.fetchXor(true);
+  }
+
+  /**
+   * Fetches the value, and applies a function to it that returns an optional new value.
+   * Returns `Ok(previous_value)` if the function returned `Some`, else `Err(previous_value)`.
+   */
+  public fetchUpdate(f: Fn<[val: boolean],Option<boolean>>): Result<boolean,boolean> {
+    return this.#inner.fetchUpdate(prev=> f(prev!==0).map(Number)).map(Boolean).mapErr(Boolean);
+  }
+}
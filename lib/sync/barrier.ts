@@ -0,0 +1,87 @@
+const COUNT=0;
+const GENERATION=1;
+
+
+/**
+ * A {@linkcode BarrierWaitResult} is returned by {@linkcode Barrier.wait} when all threads in the {@linkcode Barrier} have rendezvoused.
+ */
+export class BarrierWaitResult {
+  constructor(private readonly leader: boolean) {}
+
+  /**
+   * Returns `true` if this thread is the "leader thread" for the call to {@linkcode Barrier.wait}.
+   *
+   * Only one thread will have `true` returned from their result, all other threads will have `false` returned.
+   */
+  public isLeader(): boolean {
+    return this.leader;
+  }
+}
+
+
+/**
+ * A barrier enables multiple threads to synchronize the beginning of some computation.
+ *
+ * The count of waiting threads lives in a {@linkcode SharedArrayBuffer} (see {@linkcode buffer}), so it also works across workers,
+ * as long as every side is created with the same {@linkcode n}.
+ *
+ * ### Examples
+```ts
+import { Barrier } from "std/sync";
+import thread from "std/thread";
+
+const n = 10;
+const barrier = new Barrier(n);
+
+const handles = $range(0, n).map(()=> thread.spawn(()=> {
+     // The same messages will be printed together.
+     // You will NOT see any interleaving.
+     console.log("before wait");
+     barrier.wait();
+     console.log("after wait");
+})).toArray();
+
+// Wait for other threads to finish.
+for(const handle of handles) handle.join()?.unwrap();
+```
+ */
+export class Barrier {
+  readonly #state: Int32Array;
+
+  /**
+   * Creates a new barrier that can block a given number of threads.
+   *
+   * A barrier will block `n-1` threads which call {@linkcode wait} and then wake up all threads at once when the `n`th thread calls {@linkcode wait}.
+   */
+  constructor(private readonly n: number,buffer: SharedArrayBuffer=new SharedArrayBuffer(2*Int32Array.BYTES_PER_ELEMENT)) {
+    this.#state=new Int32Array(buffer,0,2);
+  }
+
+  /** The {@linkcode SharedArrayBuffer} holding the state of the barrier. */
+  public get buffer(): SharedArrayBuffer {
+    return this.#state.buffer as SharedArrayBuffer;
+  }
+
+  /**
+   * Blocks the current thread until all threads have rendezvoused here.
+   *
+   * Barriers are re-usable after all threads have rendezvoused once, and can be used continuously.
+   *
+   * A single (arbitrary) thread will receive a {@linkcode BarrierWaitResult} that returns `true` from {@linkcode BarrierWaitResult.isLeader} when returning from this function,
+   * and all other threads will receive a result that will return `false` from {@linkcode BarrierWaitResult.isLeader}.
+   */
+  public wait(): BarrierWaitResult {
+    const generation=Atomics.load(this.#state,GENERATION);
+
+    if(Atomics.add(this.#state,COUNT,1)+1>=this.n) {
+      Atomics.store(this.#state,COUNT,0);
+      Atomics.add(this.#state,GENERATION,1);
+      Atomics.notify(this.#state,GENERATION);
+
+      return new BarrierWaitResult(true);
+    }
+
+    while(Atomics.load(this.#state,GENERATION)===generation) Atomics.wait(this.#state,GENERATION,generation);
+    return new BarrierWaitResult(false);
+  }
+}
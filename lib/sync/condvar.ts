@@ -0,0 +1,151 @@
+import { Fn } from "../types.ts";
+import { MutexGuard } from "./mutex.ts";
+import { GUARDED } from "./raw_mutex.ts";
+import { Duration } from "../time/duration.ts";
+import { toMillis } from "../time/util.ts";
+
+
+/**
+ * A type indicating whether a timed wait on a condition variable returned due to a time out or not.
+ *
+ * It is returned by the {@linkcode Condvar.waitTimeout} method.
+ */
+export class WaitTimeoutResult {
+  constructor(private readonly _timedOut: boolean) {}
+
+  /** Returns `true` if the wait was known to have timed out. */
+  public timedOut(): boolean {
+    return this._timedOut;
+  }
+}
+
+
+/**
+ * A Condition Variable.
+ *
+ * Condition variables represent the ability to block a thread such that it consumes no CPU time while waiting for an event to occur.
+ * Condition variables are typically associated with a boolean predicate (a condition) and a {@linkcode Mutex}.
+ * The predicate is always verified inside of the mutex before determining that a thread must block.
+ *
+ * The state of the condition variable is a counter in a {@linkcode SharedArrayBuffer} (see {@linkcode buffer}), so it also works across workers.
+ *
+ * ### Examples
+```ts
+import { Mutex,Condvar } from "std/sync";
+import thread from "std/thread";
+
+const started = new Mutex(false);
+const cvar = new Condvar();
+
+// Inside of our lock, spawn a new thread, and then wait for it to start.
+thread.spawn(()=> {
+     using guard = started.lock();
+     guard.value = true;
+     // We notify the condvar that the value has changed.
+     cvar.notifyOne();
+});
+
+// Wait for the thread to start up.
+using guard = cvar.waitWhile(started.lock(), started=> !started);
+```
+ */
+export class Condvar {
+  readonly #seq: Int32Array;
+
+  constructor(buffer: SharedArrayBuffer=new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT)) {
+    this.#seq=new Int32Array(buffer,0,1);
+  }
+
+  /** The {@linkcode SharedArrayBuffer} holding the state of the condition variable. */
+  public get buffer(): SharedArrayBuffer {
+    return this.#seq.buffer as SharedArrayBuffer;
+  }
+
+  /**
+   * Blocks the current thread until this condition variable receives a notification.
+   *
+   * This function will atomically unlock the mutex specified (represented by {@linkcode guard}) and block the current thread.
+   * This means that any calls to {@linkcode notifyOne} or {@linkcode notifyAll} which happen logically after the mutex is unlocked are candidates to wake this thread up.
+   * When this function call returns, the lock specified will have been re-acquired.
+   *
+   * Note that this function is susceptible to spurious wakeups.
+   * Condition variables normally have a boolean predicate associated with them, and the predicate must always be checked each time this function returns to protect against spurious wakeups.
+   */
+  public wait<T>(guard: MutexGuard<T>): MutexGuard<T> {
+    this.#wait(guard,Infinity);
+    return guard;
+  }
+
+  /**
+   * Blocks the current thread until the provided {@linkcode condition} becomes `false`.
+   *
+   * {@linkcode condition} is checked immediately; if not met (returns `true`), this will {@linkcode wait} for the next notification then check again.
+   * This repeats until {@linkcode condition} returns `false`, in which case this function returns.
+   */
+  public waitWhile<T>(guard: MutexGuard<T>,condition: Fn<[value: T],boolean>): MutexGuard<T> {
+    while(condition(guard.value)) this.wait(guard);
+    return guard;
+  }
+
+  /**
+   * Waits on this condition variable for a notification, timing out after {@linkcode dur} (a {@linkcode Duration} or a number of milliseconds).
+   *
+   * The semantics of this function are equivalent to {@linkcode wait} except that the thread will be blocked for roughly no longer than {@linkcode dur}.
+   *
+   * The returned {@linkcode WaitTimeoutResult} value indicates if the timeout is known to have elapsed.
+   */
+  public waitTimeout<T>(guard: MutexGuard<T>,dur: number|Duration): [guard: MutexGuard<T>,result: WaitTimeoutResult] {
+    return [guard,new WaitTimeoutResult(this.#wait(guard,toMillis(dur)))];
+  }
+
+  /**
+   * Waits on this condition variable for a notification, timing out after {@linkcode dur} (a {@linkcode Duration} or a number of milliseconds),
+   * the {@linkcode condition} is checked like in {@linkcode waitWhile}.
+   *
+   * The returned {@linkcode WaitTimeoutResult} value indicates if the timeout is known to have elapsed without the condition being met.
+   */
+  public waitTimeoutWhile<T>(guard: MutexGuard<T>,dur: number|Duration,condition: Fn<[value: T],boolean>): [guard: MutexGuard<T>,result: WaitTimeoutResult] {
+    const deadline=performance.now()+toMillis(dur);
+
+    while(condition(guard.value)) {
+      const timeout=deadline-performance.now();
+      if(timeout<=0 || this.#wait(guard,timeout)) return [guard,new WaitTimeoutResult(condition(guard.value))];
+    }
+
+    return [guard,new WaitTimeoutResult(false)];
+  }
+
+  /**
+   * Wakes up one blocked thread on this condvar.
+   *
+   * If there is a blocked thread on this condition variable, then it will be woken up from its call to {@linkcode wait} or {@linkcode waitTimeout}.
+   * Calls to {@linkcode notifyOne} are not buffered in any way.
+   */
+  public notifyOne() {
+    Atomics.add(this.#seq,0,1);
+    Atomics.notify(this.#seq,0,1);
+  }
+
+  /**
+   * Wakes up all blocked threads on this condvar.
+   *
+   * This method will ensure that any current waiters on the condition variable are awoken.
+   * Calls to {@linkcode notifyAll} are not buffered in any way.
+   */
+  public notifyAll() {
+    Atomics.add(this.#seq,0,1);
+    Atomics.notify(this.#seq,0);
+  }
+
+  /** Unlocks the mutex of the guard while waiting, returns whether the wait timed out. */
+  #wait<T>(guard: MutexGuard<T>,timeout: number): boolean {
+    const raw=GUARDED.get(guard)!;
+    const seq=Atomics.load(this.#seq,0);
+
+    raw.unlock();
+    const res=Atomics.wait(this.#seq,0,seq,timeout);
+    raw.lock();
+
+    return res==="timed-out";
+  }
+}
@@ -0,0 +1,92 @@
+import { ErrorTrait } from "../error/error_trait.ts";
+import { Enum } from '../types.ts';
+
+
+export type ChannelErrorKind=Enum<typeof ChannelErrorKind>;
+/**
+ * A list specifying the reasons a channel operation can fail.
+ *
+ * It is used with the {@linkcode SendError} and {@linkcode RecvError} types.
+ */
+export const ChannelErrorKind={
+  /** The other half of the channel was dropped, so no message can ever be sent or received again. */
+  Disconnected: 1,
+  /** The channel is currently empty, but it's still connected. */
+  Empty: 2,
+  /** The bounded channel is currently full, but it's still connected. */
+  Full: 3,
+  /** The timeout elapsed before a message arrived. */
+  Timeout: 4,
+  /** The message wouldn't be received as it was sent, since it's not JSON-serializable. */
+  Unserializable: 5,
+} as const;
+
+
+const SEND_ERRORS={
+  [ChannelErrorKind.Full]: "sending on a full channel",
+  [ChannelErrorKind.Unserializable]: "sending a message which isn't JSON-serializable",
+};
+
+
+/**
+ * An error returned from the `send` functions of the channels.
+ *
+ * It holds the message which couldn't be sent, so it can be recovered with {@linkcode intoInner}.
+ */
+export class SendError<T> extends ErrorTrait {
+  constructor(kind: ChannelErrorKind,private readonly value: T) {
+    super(kind,SEND_ERRORS[kind as keyof typeof SEND_ERRORS] ?? "sending on a closed channel");
+  }
+
+  public static disconnected<T>(value: T): SendError<T> {
+    return new SendError(ChannelErrorKind.Disconnected,value);
+  }
+
+  public static full<T>(value: T): SendError<T> {
+    return new SendError(ChannelErrorKind.Full,value);
+  }
+
+  public static unserializable<T>(value: T): SendError<T> {
+    return new SendError(ChannelErrorKind.Unserializable,value);
+  }
+
+  /** Returns the message which couldn't be sent. */
+  public intoInner(): T {
+    return this.value;
+  }
+
+  /** Returns the corresponding {@linkcode ChannelErrorKind} for this error, either `Disconnected`, `Full` or `Unserializable`. */
+  public kind(): ChannelErrorKind {
+    return this.__kind as ChannelErrorKind;
+  }
+}
+
+
+/**
+ * An error returned from the `recv` functions of the channels.
+ *
+ * {@linkcode Receiver.recv} only fails with `Disconnected`, {@linkcode Receiver.tryRecv} may also fail with `Empty`
+ * and {@linkcode Receiver.recvTimeout} with `Timeout`.
+ */
+export class RecvError extends ErrorTrait {
+  constructor(kind: ChannelErrorKind,error: string|Error,cause?: string|Error) {
+    super(kind,error,cause);
+  }
+
+  public static disconnected(): RecvError {
+    return new RecvError(ChannelErrorKind.Disconnected,"receiving on a closed channel");
+  }
+
+  public static empty(): RecvError {
+    return new RecvError(ChannelErrorKind.Empty,"receiving on an empty channel");
+  }
+
+  public static timeout(): RecvError {
+    return new RecvError(ChannelErrorKind.Timeout,"timed out waiting on channel");
+  }
+
+  /** Returns the corresponding {@linkcode ChannelErrorKind} for this error. */
+  public kind(): ChannelErrorKind {
+    return this.__kind as ChannelErrorKind;
+  }
+}
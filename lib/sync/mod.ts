@@ -0,0 +1,9 @@
+export * from "./mutex.ts";
+export * from "./rwlock.ts";
+export * from "./condvar.ts";
+export * from "./barrier.ts";
+export * from "./once.ts";
+export * from "./atomic.ts";
+export * from "./error.ts";
+export * as mpsc from "./mpsc.ts";
+export * as watch from "./watch.ts";
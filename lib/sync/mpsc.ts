@@ -0,0 +1,308 @@
+import { Drop } from "../drop.ts";
+import { Clone } from "../clone.ts";
+import { IteratorTrait,Iter } from "../iter/iter.ts";
+import { Result,Ok,Err } from "../error/result/result.ts";
+import { AsyncResult } from "../error/result/async_result.ts";
+import { RawChannel } from "./raw_channel.ts";
+import { ChannelErrorKind,SendError,RecvError } from "./error.ts";
+import { Duration } from "../time/duration.ts";
+import { toMillis } from "../time/util.ts";
+
+
+interface Handle {
+  channel: RawChannel;
+  dropped: boolean;
+}
+
+const receivers=new FinalizationRegistry<Handle>(dropReceiver);
+
+
+/**
+ * Creates a new asynchronous channel, returning the sender/receiver halves.
+ * All data sent on the {@linkcode Sender} will become available on the {@linkcode Receiver} in the same order as it was sent,
+ * and no {@linkcode Sender.send} will block the calling thread (this channel has an "infinite buffer").
+ *
+ * The {@linkcode Sender} can be cloned to send to the same channel multiple times, but only one {@linkcode Receiver} is supported.
+ *
+ * If the {@linkcode Receiver} is disconnected while trying to send with the {@linkcode Sender}, the send method will return a {@linkcode SendError}.
+ * Similarly, if the {@linkcode Sender} is disconnected while trying to receive, the {@linkcode Receiver.recv} method will return a {@linkcode RecvError}.
+ *
+ * The channel lives in a {@linkcode SharedArrayBuffer}, a half is sent to a worker by posting its {@linkcode Sender.buffer buffer}
+ * and constructing a new half from it on the other side.
+ * Messages are serialized as JSON, so they must be JSON-serializable (the collections, {@linkcode Option} and {@linkcode Result} are supported too).
+ * Sending any other value, like a `bigint` or a `Date`, fails with a {@linkcode SendError} of kind `Unserializable`.
+ *
+ * ### Examples
+```ts
+import { mpsc } from "std/sync";
+
+const [sender, receiver] = mpsc.channel<number>();
+
+// Spawn off an expensive computation
+thread.spawn(()=> {
+     sender.send(expensiveComputation()).unwrap();
+});
+
+// Do some useful work for awhile
+
+// Let's see what that answer was
+console.log(receiver.recv().unwrap());
+```
+ */
+export function channel<T>(): [Sender<T>,Receiver<T>] {
+  const buffer=RawChannel.create(-1);
+  return [new Sender(buffer),new Receiver(buffer)];
+}
+
+/**
+ * Creates a new synchronous, bounded channel.
+ * All data sent on the {@linkcode SyncSender} will become available on the {@linkcode Receiver} in the same order as it was sent.
+ * Like asynchronous channels, the {@linkcode Receiver} will block until a message becomes available.
+ *
+ * This channel has an internal buffer on which messages will be queued. {@linkcode bound} specifies the buffer size.
+ * When the internal buffer becomes full, future sends will block waiting for the buffer to open up.
+ * Note that a buffer size of `0` is valid, in which case this becomes "rendezvous channel" where each send will not return until a recv is paired with it.
+ *
+ * ### Examples
+```ts
+import { mpsc } from "std/sync";
+
+const [sender, receiver] = mpsc.syncChannel<number>(1);
+
+// this returns immediately
+sender.send(1).unwrap();
+
+thread.spawn(()=> {
+     // this will block until the previous message has been received
+     sender.send(2).unwrap();
+});
+
+$assertEq(receiver.recv().unwrap(), 1);
+$assertEq(receiver.recv().unwrap(), 2);
+```
+ */
+export function syncChannel<T>(bound: number): [SyncSender<T>,Receiver<T>] {
+  const buffer=RawChannel.create(bound);
+  return [new SyncSender(buffer),new Receiver(buffer)];
+}
+
+
+/**
+ * The sending-half of the {@linkcode channel} type, it can be cloned to send to the same channel from multiple places.
+ *
+ * The channel is disconnected for the {@linkcode Receiver} once every sender has been dropped, either explicitly with `using` (or {@linkcode Symbol.dispose})
+ * or implicitly when it's garbage collected.
+ */
+export class Sender<T> extends Drop implements Clone,Disposable {
+  readonly #handle: Handle;
+
+  /** Creates a new sender to the channel living in {@linkcode buffer}, e.g. the {@linkcode Sender.buffer buffer} of a sender from another worker. */
+  constructor(buffer: SharedArrayBuffer) {
+    const handle={ channel: new RawChannel(buffer),dropped: false };
+    super(handle);
+
+    this.#handle=handle;
+    handle.channel.addSender();
+  }
+
+  /** The {@linkcode SharedArrayBuffer} holding the channel. */
+  public get buffer(): SharedArrayBuffer {
+    return this.#handle.channel.buffer;
+  }
+
+  /**
+   * Attempts to send a value on this channel, returning it back if it could not be sent.
+   *
+   * A successful send occurs when it is determined that the other end of the channel has not hung up already.
+   * An unsuccessful send would be one where the corresponding receiver has already been dropped.
+   * Note that a return value of `Err` means that the data will never be received, but a return value of `Ok` does not mean that the data will be received.
+   * It is possible for the corresponding receiver to hang up immediately after this function returns `Ok`.
+   *
+   * On a {@linkcode syncChannel}, this blocks until there is space in the buffer.
+   */
+  public send(t: T): Result<void,SendError<T>> {
+    return this.sendRaw(t,true);
+  }
+
+  /** Returns a new sender to the same channel. */
+  public clone(): this {
+    return new (this.constructor as new(buffer: SharedArrayBuffer)=> this)(this.buffer);
+  }
+
+  /** Drops the sender, disposing it more than once has no effect. */
+  [Symbol.dispose]() {
+    this.drop();
+  }
+
+  protected sendRaw(t: T,block: boolean): Result<void,SendError<T>> {
+    if(this.#handle.dropped) return Err(SendError.disconnected(t));
+
+    const kind=this.#handle.channel.send(t,block);
+    return kind===undefined?Ok(undefined):Err(new SendError(kind,t));
+  }
+
+  protected override drop(handle=this.#handle) {
+    if(handle.dropped) return;
+
+    handle.dropped=true;
+    handle.channel.dropSender();
+  }
+}
+
+
+/** The sending-half of the {@linkcode syncChannel} type, see {@linkcode Sender}. */
+export class SyncSender<T> extends Sender<T> {
+  /**
+   * Attempts to send a value on this channel without blocking.
+   *
+   * This method differs from {@linkcode send} by returning immediately if the channel's buffer is full or no receiver is waiting to acquire some data.
+   * Compared with {@linkcode send}, this function has two failure cases instead of one (one for disconnection, one for a full buffer).
+   */
+  public trySend(t: T): Result<void,SendError<T>> {
+    return this.sendRaw(t,false);
+  }
+}
+
+
+/**
+ * The receiving half of the {@linkcode channel} (or {@linkcode syncChannel}) type.
+ *
+ * Messages sent to the channel can be retrieved using {@linkcode recv}, or by iterating over the receiver,
+ * synchronously (blocking the thread) or with `for await...of`.
+ *
+ * Blocking the main thread while the senders live in {@linkcode thread.spawn} closures may never return,
+ * prefer {@linkcode recvAsync} or `for await...of` there.
+ *
+ * ### Examples
+```ts
+import { mpsc } from "std/sync";
+
+const [send, recv] = mpsc.channel<string>();
+
+thread.spawn(()=> {
+     send.send("Hello world!").unwrap();
+     send[Symbol.dispose]();
+});
+
+for await(const msg of recv) {
+     console.log(msg);
+}
+```
+ */
+export class Receiver<T> extends IteratorTrait<T> implements AsyncIterable<T>,Disposable {
+  readonly #handle: Handle;
+
+  /** Creates a new receiver of the channel living in {@linkcode buffer}, the receiver it came from should be disposed. */
+  constructor(buffer: SharedArrayBuffer) {
+    super();
+
+    this.#handle={ channel: new RawChannel(buffer),dropped: false };
+    this.#handle.channel.addReceiver();
+    receivers.register(this,this.#handle);
+  }
+
+  /** The {@linkcode SharedArrayBuffer} holding the channel. */
+  public get buffer(): SharedArrayBuffer {
+    return this.#handle.channel.buffer;
+  }
+
+  /**
+   * Attempts to wait for a value on this receiver, returning an error if the corresponding channel has hung up.
+   *
+   * This function will always block the current thread if there is no data available and it's possible for more data to be sent (at least one sender still exists).
+   * Once a message is sent to the corresponding {@linkcode Sender} (or {@linkcode SyncSender}), this receiver will wake up and return that message.
+   *
+   * If the corresponding {@linkcode Sender} has disconnected, or it disconnects while this call is blocking,
+   * this call will wake up and return `Err` to indicate that no more messages can ever be received on this channel.
+   * However, since channels are buffered, messages sent before the disconnect will still be properly received.
+   */
+  public recv(): Result<T,RecvError> {
+    return this.#recv(Infinity);
+  }
+
+  /**
+   * Attempts to return a pending value on this receiver without blocking.
+   *
+   * This method will never block the caller in order to wait for data to become available.
+   * Instead, this will always return immediately with a possible option of pending data on the channel.
+   */
+  public tryRecv(): Result<T,RecvError> {
+    return this.#recv(0);
+  }
+
+  /**
+   * Attempts to wait for a value on this receiver, returning an error if the corresponding channel has hung up,
+   * or if it waits more than {@linkcode timeout} (a {@linkcode Duration} or a number of milliseconds).
+   */
+  public recvTimeout(timeout: number|Duration): Result<T,RecvError> {
+    return this.#recv(Math.max(toMillis(timeout),Number.MIN_VALUE));
+  }
+
+  /** The same as {@linkcode recv}, without blocking the thread while waiting. */
+  public recvAsync(): AsyncResult<T,RecvError> {
+    if(this.#handle.dropped) return new AsyncResult(Promise.resolve(Err(RecvError.disconnected())));
+    return new AsyncResult(this.#handle.channel.recvAsync<T>().then(intoResult));
+  }
+
+  /** Returns an iterator that will block waiting for messages, until the channel has hung up. */
+  public [Symbol.iterator](): Iterator<T> {
+    return {
+      next: ()=> {
+        const res=this.recv();
+        return res.contains()?{ done: false,value: res.unwrap() }:{ done: true,value: undefined };
+      }
+    };
+  }
+
+  public iter(): this {
+    return this;
+  }
+
+  /** Returns an iterator that will attempt to yield all pending values, it stops instead of blocking when the channel is empty. */
+  public tryIter(): IteratorTrait<T> {
+    return new Iter<T>({
+      next: ()=> {
+        const res=this.tryRecv();
+        return res.contains()?{ done: false,value: res.unwrap() }:{ done: true,value: undefined };
+      }
+    });
+  }
+
+  /** Returns an asynchronous iterator waiting for messages with {@linkcode recvAsync}, until the channel has hung up. */
+  public [Symbol.asyncIterator](): AsyncIterator<T> {
+    return {
+      next: async ()=> {
+        const res=await this.recvAsync();
+        return res.contains()?{ done: false,value: res.unwrap() }:{ done: true,value: undefined };
+      }
+    };
+  }
+
+  /** Drops the receiver, so every following send fails. Disposing it more than once has no effect. */
+  [Symbol.dispose]() {
+    dropReceiver(this.#handle);
+  }
+
+  #recv(timeout: number): Result<T,RecvError> {
+    if(this.#handle.dropped) return Err(RecvError.disconnected());
+    return intoResult(this.#handle.channel.recv<T>(timeout));
+  }
+}
+
+
+function intoResult<T>(res: { value: T }|ChannelErrorKind): Result<T,RecvError> {
+  if(typeof res==="object") return Ok(res.value);
+
+  switch(res) {
+    case ChannelErrorKind.Empty: return Err(RecvError.empty());
+    case ChannelErrorKind.Timeout: return Err(RecvError.timeout());
+    default: return Err(RecvError.disconnected());
+  }
+}
+
+function dropReceiver(handle: Handle) {
+  if(handle.dropped) return;
+
+  handle.dropped=true;
+  handle.channel.dropReceiver();
+}
@@ -0,0 +1,132 @@
+import { Option,None,Some } from "../error/option/option.ts";
+import { RawMutex,GUARDED } from "./raw_mutex.ts";
+
+
+const RELEASED="The lock of the guard was already released";
+
+
+/**
+ * A mutual exclusion primitive useful for protecting shared data.
+ *
+ * This mutex will block threads waiting for the lock to become available.
+ * The data can only be accessed through the RAII guards returned from {@linkcode lock} and {@linkcode tryLock},
+ * which guarantees that the data is only ever accessed when the mutex is locked.
+ *
+ * The lock lives in a {@linkcode SharedArrayBuffer}, so it also works across workers:
+ * pass {@linkcode buffer} (along with the shared data, e.g. a view of another {@linkcode SharedArrayBuffer}) to the worker,
+ * and create a {@linkcode Mutex} over it there.
+ *
+ * ### Examples
+```ts
+import { Mutex } from "std/sync";
+import thread from "std/thread";
+
+const counter = new Mutex(0);
+
+const handles = $range(0, 10).map(()=> thread.spawn(()=> {
+     using guard = counter.lock();
+     guard.value += 1;
+})).toArray();
+
+for(const handle of handles) handle.join()?.unwrap();
+
+$assertEq(counter.lock().value, 10);
+```
+ */
+export class Mutex<T> {
+  readonly #raw: RawMutex;
+  readonly #cell: { value: T };
+
+  constructor(data: T,buffer?: SharedArrayBuffer) {
+    this.#raw=new RawMutex(buffer);
+    this.#cell={ value: data };
+  }
+
+  /** The {@linkcode SharedArrayBuffer} holding the state of the lock. */
+  public get buffer(): SharedArrayBuffer {
+    return this.#raw.buffer;
+  }
+
+  /**
+   * Acquires the mutex, blocking the current thread until it is able to do so.
+   *
+   * Upon returning, the thread is the only thread with the lock held.
+   * A guard is returned to allow scoped unlock of the lock. When the guard is disposed, the lock will be unlocked.
+   *
+   * Locking a mutex which is already held by the current thread will deadlock.
+   *
+   * ### Examples
+  ```ts
+  const mutex = new Mutex(0);
+
+  {
+       using guard = mutex.lock();
+       guard.value = 10;
+  }
+
+  $assertEq(mutex.lock().value, 10);
+  ```
+   */
+  public lock(): MutexGuard<T> {
+    this.#raw.lock();
+    return new MutexGuard(this.#raw,this.#cell);
+  }
+
+  /**
+   * Attempts to acquire this lock.
+   *
+   * If the lock could not be acquired at this time, then `None` is returned.
+   * Otherwise, a guard is returned. The lock will be unlocked when the guard is disposed.
+   *
+   * This function does not block.
+   */
+  public tryLock(): Option<MutexGuard<T>> {
+    return this.#raw.tryLock()?Some(new MutexGuard(this.#raw,this.#cell)):None();
+  }
+
+  /** Returns whether the mutex is currently locked. */
+  public isLocked(): boolean {
+    return this.#raw.isLocked();
+  }
+}
+
+
+/**
+ * An RAII implementation of a "scoped lock" of a {@linkcode Mutex}.
+ * When this guard is disposed (e.g. with `using`), the lock will be unlocked.
+ *
+ * The data protected by the mutex can be accessed through {@linkcode value}.
+ *
+ * This object is created by {@linkcode Mutex.lock} and {@linkcode Mutex.tryLock}.
+ */
+export class MutexGuard<T> implements Disposable {
+  #released=false;
+
+  constructor(private readonly raw: RawMutex,private readonly cell: { value: T }) {
+    GUARDED.set(this,raw);
+  }
+
+  /**
+   * The data protected by the mutex.
+   *
+   * ### Panics
+   * Throws if the guard was already disposed.
+   */
+  public get value(): T {
+    if(this.#released) throw RELEASED;
+    return this.cell.value;
+  }
+
+  public set value(value: T) {
+    if(this.#released) throw RELEASED;
+    this.cell.value=value;
+  }
+
+  /** Unlocks the mutex, disposing a guard more than once has no effect. */
+  [Symbol.dispose]() {
+    if(this.#released) return;
+
+    this.#released=true;
+    this.raw.unlock();
+  }
+}
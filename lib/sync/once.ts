@@ -0,0 +1,201 @@
+import { Fn } from "../types.ts";
+import { Option,None,Some } from "../error/option/option.ts";
+import { Result,Ok,Err } from "../error/result/result.ts";
+
+
+const INCOMPLETE=0;
+const RUNNING=1;
+const COMPLETE=2;
+const POISONED=3;
+
+const POISONED_ONCE="Once instance has previously been poisoned";
+
+
+/** State yielded to {@linkcode Once.callOnceForce}'s closure parameter, it can be used to query the poison status of the {@linkcode Once}. */
+export class OnceState {
+  constructor(private readonly poisoned: boolean) {}
+
+  /** Returns `true` if the associated {@linkcode Once} was poisoned prior to the invocation of the closure passed to {@linkcode Once.callOnceForce}. */
+  public isPoisoned(): boolean {
+    return this.poisoned;
+  }
+}
+
+
+/**
+ * A synchronization primitive which can be used to run a one-time global initialization.
+ * Useful for one-time initialization for FFI or related functionality.
+ *
+ * The state lives in a {@linkcode SharedArrayBuffer} (see {@linkcode buffer}), so a closure can be run once across workers.
+ *
+ * ### Examples
+```ts
+import { Once } from "std/sync";
+
+const INIT = new Once();
+
+INIT.callOnce(()=> {
+     // run initialization here
+});
+```
+ */
+export class Once {
+  readonly #state: Int32Array;
+
+  constructor(buffer: SharedArrayBuffer=new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT)) {
+    this.#state=new Int32Array(buffer,0,1);
+  }
+
+  /** The {@linkcode SharedArrayBuffer} holding the state of the {@linkcode Once}. */
+  public get buffer(): SharedArrayBuffer {
+    return this.#state.buffer as SharedArrayBuffer;
+  }
+
+  /**
+   * Performs an initialization routine once and only once.
+   * The given closure will be executed if this is the first time {@linkcode callOnce} has been called, and otherwise the routine will not be invoked.
+   *
+   * This method will block the calling thread if another initialization routine is currently running.
+   *
+   * When this function returns, it is guaranteed that some initialization has run and completed (it might not be the closure specified).
+   *
+   * ### Panics
+   * The closure {@linkcode f} will only be executed once even if this is called concurrently amongst many threads.
+   * If that closure throws however, then it will poison this {@linkcode Once} instance, causing all future invocations of {@linkcode callOnce} to also throw.
+   */
+  public callOnce(f: Fn<[],void>) {
+    this.#call(false,()=> f());
+  }
+
+  /**
+   * Performs the same function as {@linkcode callOnce} except ignores poisoning.
+   *
+   * If the {@linkcode Once} has been poisoned, this function will continue to attempt to call initialization functions until one of them doesn't throw.
+   *
+   * The closure {@linkcode f} is yielded a {@linkcode OnceState} which can be used to query the poison status of the {@linkcode Once}.
+   */
+  public callOnceForce(f: Fn<[state: OnceState],void>) {
+    this.#call(true,f);
+  }
+
+  /** Returns `true` if some {@linkcode callOnce} call has completed successfully. */
+  public isCompleted(): boolean {
+    return Atomics.load(this.#state,0)===COMPLETE;
+  }
+
+  #call(ignorePoisoning: boolean,f: Fn<[state: OnceState],void>) {
+    for(;;) {
+      const state=Atomics.load(this.#state,0);
+
+      switch(state) {
+        case COMPLETE: return;
+        case POISONED:
+          if(!ignorePoisoning) throw POISONED_ONCE;
+        // falls through
+        case INCOMPLETE:
+          if(Atomics.compareExchange(this.#state,0,state,RUNNING)!==state) continue;
+
+          try {
+            f(new OnceState(state===POISONED));
+            Atomics.store(this.#state,0,COMPLETE);
+          } catch(e) {
+            Atomics.store(this.#state,0,POISONED);
+            throw e;
+          } finally {
+            Atomics.notify(this.#state,0);
+          }
+          return;
+        default:
+          Atomics.wait(this.#state,0,RUNNING);
+      }
+    }
+  }
+}
+
+
+/**
+ * A synchronization primitive which can be written to only once.
+ *
+ * This type is a thread-safe lazily initialized value, see {@linkcode Once}.
+ *
+ * ### Examples
+```ts
+import { OnceLock } from "std/sync";
+
+const CELL = new OnceLock<string>();
+$assert(CELL.get().containsNone());
+
+thread.spawn(()=> {
+     const value = CELL.getOrInit(()=> "Hello, World!");
+     $assertEq(value, "Hello, World!");
+}).join()?.unwrap();
+
+$assertEq(CELL.get(), Some("Hello, World!"));
+```
+ */
+export class OnceLock<T> {
+  readonly #once=new Once();
+  #value?: T;
+
+  /**
+   * Gets the value, returns `None` if the cell is uninitialized or being initialized.
+   * This method never blocks.
+   */
+  public get(): Option<T> {
+    return this.#once.isCompleted()?Some(this.#value as T):None();
+  }
+
+  /**
+   * Initializes the contents of the cell to {@linkcode value}.
+   *
+   * May block if another thread is currently attempting to initialize the cell.
+   * The cell is guaranteed to contain a value when {@linkcode set} returns, though not necessarily the one provided.
+   *
+   * Returns `Ok(undefined)` if the cell's value was set by this call, or `Err(value)` if it was already initialized.
+   */
+  public set(value: T): Result<void,T> {
+    let set=false;
+    this.#once.callOnceForce(()=> {
+      this.#value=value;
+      set=true;
+    });
+
+    return set?Ok(undefined):Err(value);
+  }
+
+  /**
+   * Gets the contents of the cell, initializing it with {@linkcode f} if the cell was empty.
+   *
+   * Many threads may call {@linkcode getOrInit} concurrently with different initializing functions, but it is guaranteed that only one function will be executed.
+   *
+   * ### Panics
+   * If {@linkcode f} throws, the error is propagated to the caller, and the cell remains uninitialized.
+   */
+  public getOrInit(f: Fn<[],T>): T {
+    this.#once.callOnceForce(()=> this.#value=f());
+    return this.#value as T;
+  }
+
+  /**
+   * Gets the contents of the cell, initializing it with {@linkcode f} if the cell was empty.
+   * If the cell was empty and {@linkcode f} failed, an error is returned.
+   */
+  public getOrTryInit<E>(f: Fn<[],Result<T,E>>): Result<T,E> {
+    let failed: Result<T,E>|undefined;
+
+    try {
+      this.#once.callOnceForce(()=> {
+        const res=f();
+        // Throwing leaves the cell uninitialized, like a throwing `getOrInit`.
+        if(res.containsErr()) throw failed=res;
+
+        this.#value=res.unwrap();
+      });
+    } catch(e) {
+      if(e!==failed) throw e;
+      return e as Result<T,E>;
+    }
+
+    return Ok(this.#value as T);
+  }
+}
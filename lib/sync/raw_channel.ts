@@ -0,0 +1,380 @@
+import { reviver,isRevivable } from "../json.ts";
+import { RawMutex } from "./raw_mutex.ts";
+import { ChannelErrorKind } from "./error.ts";
+
+
+// Header slots shared by every channel, the first one is the state of the `RawMutex`.
+const SEQ=1;
+const SENDERS=2;
+const RECEIVERS=3;
+
+const INITIAL_CAPACITY=1024;
+const MAX_CAPACITY=1<<28;
+
+const EXCEEDED_MAX_CAPACITY="Exceeded max capacity";
+
+const encoder=new TextEncoder();
+const decoder=new TextDecoder();
+
+
+/**
+ * The state of a channel, living in a growable {@linkcode SharedArrayBuffer} so it can be shared with workers.
+ *
+ * The buffer starts with a header of `Int32`s, protected by a {@linkcode RawMutex} in its first slot,
+ * followed by the data of the messages.
+ * Waiters sleep on the `SEQ` slot, which is bumped by every change.
+ *
+ * Messages are serialized as JSON, the types of this library survive the trip (see {@linkcode reviver}).
+ * The values which wouldn't be received as they were sent are rejected instead, see {@linkcode jsonSafe}.
+ */
+abstract class RawShared {
+  protected readonly header: Int32Array;
+  protected readonly data: Uint8Array;
+  readonly #lock: RawMutex;
+
+  constructor(public readonly buffer: SharedArrayBuffer,private readonly offset: number) {
+    this.header=new Int32Array(buffer,0,offset/Int32Array.BYTES_PER_ELEMENT);
+    // Length-tracking, so it follows the buffer when another thread grows it.
+    this.data=new Uint8Array(buffer,offset);
+    this.#lock=new RawMutex(buffer);
+  }
+
+  protected static alloc(offset: number): SharedArrayBuffer {
+    return new SharedArrayBuffer(offset+INITIAL_CAPACITY,{ maxByteLength: offset+MAX_CAPACITY });
+  }
+
+  public get senders(): number {
+    return Atomics.load(this.header,SENDERS);
+  }
+
+  public get receivers(): number {
+    return Atomics.load(this.header,RECEIVERS);
+  }
+
+  public addSender() {
+    this.locked(()=> this.header[SENDERS]++);
+  }
+
+  public dropSender() {
+    this.locked(()=> {
+      this.header[SENDERS]--;
+      this.notify();
+    });
+  }
+
+  public addReceiver() {
+    this.locked(()=> this.header[RECEIVERS]++);
+  }
+
+  public dropReceiver() {
+    this.locked(()=> {
+      this.header[RECEIVERS]--;
+      this.notify();
+    });
+  }
+
+  protected locked<R>(f: ()=> R): R {
+    this.#lock.lock();
+    try {
+      return f();
+    } finally {
+      this.#lock.unlock();
+    }
+  }
+
+  /** Waits for a change while the lock is held, returns `false` if it timed out. */
+  protected wait(timeout=Infinity): boolean {
+    const seq=Atomics.load(this.header,SEQ);
+
+    this.#lock.unlock();
+    const res=Atomics.wait(this.header,SEQ,seq,timeout);
+    this.#lock.lock();
+
+    return res!=="timed-out";
+  }
+
+  /** Runs {@linkcode poll} under the lock until it returns a value, waiting for changes without blocking the thread in between. */
+  protected async waitAsync<R>(poll: ()=> R|undefined): Promise<R> {
+    for(;;) {
+      const [res,seq]=this.locked(()=> [poll(),Atomics.load(this.header,SEQ)] as const);
+      if(res!==undefined) return res;
+
+      const wait=Atomics.waitAsync(this.header,SEQ,seq);
+      if(!wait.async) continue;
+
+      // A pending wait doesn't keep the event loop alive by itself.
+      const timer=setInterval(()=> {},1<<30);
+      try {
+        await wait.value;
+      } finally {
+        clearInterval(timer);
+      }
+    }
+  }
+
+  protected notify() {
+    Atomics.add(this.header,SEQ,1);
+    Atomics.notify(this.header,SEQ);
+  }
+
+  /** Grows the data to at least {@linkcode capacity} bytes, must be called with the lock held. */
+  protected reserve(capacity: number) {
+    if(capacity<=this.data.length) return;
+
+    try {
+      this.buffer.grow(this.offset+Math.max(capacity,2*this.data.length));
+    } catch {
+      throw EXCEEDED_MAX_CAPACITY;
+    }
+  }
+
+  /** Encodes {@linkcode value}, returns `undefined` if it isn't JSON-serializable. */
+  protected static encode(value: unknown): Uint8Array|undefined {
+    // `undefined` has no JSON form, it's sent as an empty message instead.
+    if(value===undefined) return new Uint8Array();
+
+    try {
+      return encoder.encode(JSON.stringify(value,jsonSafe));
+    } catch {
+      return undefined;
+    }
+  }
+
+  protected static decode<T>(bytes: Uint8Array): T {
+    return (bytes.length===0?undefined:JSON.parse(decoder.decode(bytes),reviver)) as T;
+  }
+}
+
+
+/**
+ * A `JSON.stringify` replacer which throws on the values that wouldn't be parsed back as they were:
+ * `bigint`s, functions, symbols, non-finite numbers, `undefined` within arrays
+ * and the class instances other than the types revived by {@linkcode reviver} (e.g. a `Date` would arrive as a string).
+ */
+function jsonSafe(this: Record<string,unknown>,key: string,value: unknown): unknown {
+  const original=this[key];
+
+  switch(typeof original) {
+    case "string":
+    case "boolean":
+      return value;
+    case "number":
+      if(Number.isFinite(original)) return value;
+      break;
+    // Left out of objects, but an array would get a `null` in its place.
+    case "undefined":
+      if(!Array.isArray(this)) return value;
+      break;
+    case "object": {
+      if(original===null || Array.isArray(original)) return value;
+
+      const proto=Object.getPrototypeOf(original);
+      if(proto===Object.prototype || proto===null || isRevivable(value)) return value;
+    }
+  }
+
+  throw new TypeError(`${key} is not JSON-serializable`);
+}
+
+
+// Header slots of a `RawChannel`.
+const HEAD=4;
+const TAIL=5;
+const LEN=6;
+const USED=7;
+const BOUND=8;
+const SENT=9;
+const RECEIVED=10;
+const CHANNEL_OFFSET=48;
+
+const PREFIX=Uint32Array.BYTES_PER_ELEMENT;
+
+
+/**
+ * A FIFO queue of messages, the data is a ring buffer of length-prefixed messages.
+ *
+ * A negative bound means the channel is unbounded, a bound of `0` makes every send wait for its message to be received.
+ */
+export class RawChannel extends RawShared {
+  constructor(buffer: SharedArrayBuffer) {
+    super(buffer,CHANNEL_OFFSET);
+  }
+
+  public static create(bound: number): SharedArrayBuffer {
+    const buffer=RawShared.alloc(CHANNEL_OFFSET);
+    new Int32Array(buffer)[BOUND]=bound;
+
+    return buffer;
+  }
+
+  /** Sends {@linkcode value}, returns the reason if it couldn't. */
+  public send(value: unknown,block: boolean): ChannelErrorKind|undefined {
+    const bytes=RawShared.encode(value);
+    if(bytes===undefined) return ChannelErrorKind.Unserializable;
+
+    return this.locked(()=> {
+      const bound=this.header[BOUND];
+
+      for(;;) {
+        if(this.header[RECEIVERS]===0) return ChannelErrorKind.Disconnected;
+        if(bound<0 || this.header[LEN]<Math.max(bound,1)) break;
+        if(!block) return ChannelErrorKind.Full;
+
+        this.wait();
+      }
+
+      const index=this.header[SENT];
+      this.#push(bytes);
+
+      // A rendezvous channel hands the message over directly.
+      while(bound===0 && ((this.header[RECEIVED]-index)|0)<=0 && this.header[RECEIVERS]>0) this.wait();
+    });
+  }
+
+  /** Receives a message, waiting for at most {@linkcode timeout} milliseconds (`0` doesn't block). */
+  public recv<T>(timeout=Infinity): { value: T }|ChannelErrorKind {
+    const deadline=performance.now()+timeout;
+
+    return this.locked(()=> {
+      for(;;) {
+        const res=this.#tryRecv<T>();
+        if(res!==ChannelErrorKind.Empty || timeout===0) return res;
+
+        const remaining=deadline-performance.now();
+        if(remaining<=0) return ChannelErrorKind.Timeout;
+
+        this.wait(remaining);
+      }
+    });
+  }
+
+  /** Receives a message, without blocking the thread while waiting for it. */
+  public recvAsync<T>(): Promise<{ value: T }|ChannelErrorKind> {
+    return this.waitAsync(()=> {
+      const res=this.#tryRecv<T>();
+      return res===ChannelErrorKind.Empty?undefined:res;
+    });
+  }
+
+  #tryRecv<T>(): { value: T }|ChannelErrorKind {
+    if(this.header[LEN]>0) return { value: RawShared.decode<T>(this.#pop()) };
+    return this.header[SENDERS]===0?ChannelErrorKind.Disconnected:ChannelErrorKind.Empty;
+  }
+
+  #push(bytes: Uint8Array) {
+    const size=PREFIX+bytes.length;
+
+    if(this.header[USED]+size>this.data.length) {
+      // The messages are moved to the start, so the ring doesn't wrap around in the middle of the grown data.
+      const messages=this.#read(this.header[HEAD],this.header[USED]);
+      this.reserve(this.header[USED]+size);
+
+      this.data.set(messages);
+      this.header[HEAD]=0;
+      this.header[TAIL]=messages.length;
+    }
+
+    const prefix=new Uint8Array(PREFIX);
+    new DataView(prefix.buffer).setUint32(0,bytes.length);
+
+    this.header[TAIL]=this.#write(this.#write(this.header[TAIL],prefix),bytes);
+    this.header[USED]+=size;
+    this.header[LEN]++;
+    this.header[SENT]++;
+    this.notify();
+  }
+
+  #pop(): Uint8Array {
+    const head=this.header[HEAD];
+    const len=new DataView(this.#read(head,PREFIX).buffer).getUint32(0);
+    const bytes=this.#read((head+PREFIX)%this.data.length,len);
+
+    this.header[HEAD]=(head+PREFIX+len)%this.data.length;
+    this.header[USED]-=PREFIX+len;
+    this.header[LEN]--;
+    this.header[RECEIVED]++;
+    this.notify();
+
+    return bytes;
+  }
+
+  #write(offset: number,bytes: Uint8Array): number {
+    const first=Math.min(bytes.length,this.data.length-offset);
+
+    this.data.set(bytes.subarray(0,first),offset);
+    this.data.set(bytes.subarray(first),0);
+
+    return (offset+bytes.length)%this.data.length;
+  }
+
+  /** Copies {@linkcode len} bytes out of the ring, into a non-shared buffer. */
+  #read(offset: number,len: number): Uint8Array {
+    const bytes=new Uint8Array(len);
+    const first=Math.min(len,this.data.length-offset);
+
+    bytes.set(this.data.subarray(offset,offset+first));
+    bytes.set(this.data.subarray(0,len-first),first);
+
+    return bytes;
+  }
+}
+
+
+// Header slots of a `RawWatch`.
+const VERSION=4;
+const SIZE=5;
+const WATCH_OFFSET=24;
+
+
+/** A single value, replaced by every send and versioned so receivers can tell whether it changed. */
+export class RawWatch extends RawShared {
+  constructor(buffer: SharedArrayBuffer) {
+    super(buffer,WATCH_OFFSET);
+  }
+
+  public static create(): SharedArrayBuffer {
+    return RawShared.alloc(WATCH_OFFSET);
+  }
+
+  public get version(): number {
+    return Atomics.load(this.header,VERSION);
+  }
+
+  /** Replaces the value, even if there are no receivers. Returns `Unserializable` if it couldn't. */
+  public store(value: unknown): ChannelErrorKind|undefined {
+    const bytes=RawShared.encode(value);
+    if(bytes===undefined) return ChannelErrorKind.Unserializable;
+
+    this.locked(()=> {
+      this.reserve(bytes.length);
+      this.data.set(bytes);
+
+      this.header[SIZE]=bytes.length;
+      this.header[VERSION]++;
+      this.notify();
+    });
+  }
+
+  /** Returns the value along with its version. */
+  public load<T>(): [value: T,version: number] {
+    return this.locked(()=> [RawShared.decode<T>(this.data.slice(0,this.header[SIZE])),this.header[VERSION]]);
+  }
+
+  /** Waits until the version isn't {@linkcode seen} anymore, returns `Disconnected` if every sender was dropped before that. */
+  public changed(seen: number): ChannelErrorKind|undefined {
+    return this.locked(()=> {
+      while(this.header[VERSION]===seen) {
+        if(this.header[SENDERS]===0) return ChannelErrorKind.Disconnected;
+        this.wait();
+      }
+    });
+  }
+
+  /** Like {@linkcode changed}, without blocking the thread while waiting. */
+  public changedAsync(seen: number): Promise<ChannelErrorKind|0> {
+    return this.waitAsync(()=> {
+      if(this.header[VERSION]!==seen) return 0;
+      if(this.header[SENDERS]===0) return ChannelErrorKind.Disconnected;
+    });
+  }
+}
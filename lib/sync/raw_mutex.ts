@@ -0,0 +1,49 @@
+const UNLOCKED=0;
+const LOCKED=1;
+const CONTENDED=2;
+
+
+/**
+ * The lock of a {@linkcode Mutex}, a futex over a single `Int32` of a {@linkcode SharedArrayBuffer}.
+ *
+ * The state is `0` when unlocked, `1` when locked and `2` when locked with (possibly) waiting threads,
+ * so unlocking only has to notify when someone is actually waiting.
+ */
+export class RawMutex {
+  readonly #state: Int32Array;
+
+  constructor(buffer: SharedArrayBuffer=new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT)) {
+    this.#state=new Int32Array(buffer,0,1);
+  }
+
+  public get buffer(): SharedArrayBuffer {
+    return this.#state.buffer as SharedArrayBuffer;
+  }
+
+  public lock() {
+    let state=Atomics.compareExchange(this.#state,0,UNLOCKED,LOCKED);
+    if(state===UNLOCKED) return;
+
+    if(state!==CONTENDED) state=Atomics.exchange(this.#state,0,CONTENDED);
+    while(state!==UNLOCKED) {
+      Atomics.wait(this.#state,0,CONTENDED);
+      state=Atomics.exchange(this.#state,0,CONTENDED);
+    }
+  }
+
+  public tryLock(): boolean {
+    return Atomics.compareExchange(this.#state,0,UNLOCKED,LOCKED)===UNLOCKED;
+  }
+
+  public unlock() {
+    if(Atomics.exchange(this.#state,0,UNLOCKED)===CONTENDED) Atomics.notify(this.#state,0,1);
+  }
+
+  public isLocked(): boolean {
+    return Atomics.load(this.#state,0)!==UNLOCKED;
+  }
+}
+
+
+/** The raw mutexes held by the {@linkcode MutexGuard}s, so a {@linkcode Condvar} can unlock and relock them. */
+export const GUARDED=new WeakMap<object,RawMutex>();
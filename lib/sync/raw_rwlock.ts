@@ -0,0 +1,53 @@
+const UNLOCKED=0;
+const WRITE_LOCKED=-1;
+
+
+/**
+ * The lock of a {@linkcode RwLock}, a single `Int32` of a {@linkcode SharedArrayBuffer}.
+ *
+ * The state is the number of readers, or `-1` while a writer holds the lock.
+ * Every waiter waits on the state it last saw, and is notified when the lock becomes free.
+ */
+export class RawRwLock {
+  readonly #state: Int32Array;
+
+  constructor(buffer: SharedArrayBuffer=new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT)) {
+    this.#state=new Int32Array(buffer,0,1);
+  }
+
+  public get buffer(): SharedArrayBuffer {
+    return this.#state.buffer as SharedArrayBuffer;
+  }
+
+  public read() {
+    while(!this.tryRead()) Atomics.wait(this.#state,0,WRITE_LOCKED);
+  }
+
+  public tryRead(): boolean {
+    for(let state=Atomics.load(this.#state,0);state!==WRITE_LOCKED;state=Atomics.load(this.#state,0)) {
+      if(Atomics.compareExchange(this.#state,0,state,state+1)===state) return true;
+    }
+
+    return false;
+  }
+
+  public readUnlock() {
+    if(Atomics.sub(this.#state,0,1)===1) Atomics.notify(this.#state,0);
+  }
+
+  public write() {
+    for(let state=Atomics.compareExchange(this.#state,0,UNLOCKED,WRITE_LOCKED);state!==UNLOCKED;) {
+      Atomics.wait(this.#state,0,state);
+      state=Atomics.compareExchange(this.#state,0,UNLOCKED,WRITE_LOCKED);
+    }
+  }
+
+  public tryWrite(): boolean {
+    return Atomics.compareExchange(this.#state,0,UNLOCKED,WRITE_LOCKED)===UNLOCKED;
+  }
+
+  public writeUnlock() {
+    Atomics.store(this.#state,0,UNLOCKED);
+    Atomics.notify(this.#state,0);
+  }
+}
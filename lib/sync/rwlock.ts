@@ -0,0 +1,172 @@
+import { Option,None,Some } from "../error/option/option.ts";
+import { RawRwLock } from "./raw_rwlock.ts";
+
+
+const RELEASED="The lock of the guard was already released";
+
+
+/**
+ * A reader-writer lock.
+ *
+ * This type of lock allows a number of readers or at most one writer at any point in time.
+ * The write portion of this lock typically allows modification of the underlying data (exclusive access)
+ * and the read portion of this lock typically allows for read-only access (shared access).
+ *
+ * In comparison, a {@linkcode Mutex} does not distinguish between readers or writers that acquire the lock,
+ * therefore blocking any threads waiting for the lock to become available.
+ * An {@linkcode RwLock} will allow any number of readers to acquire the lock as long as a writer is not holding the lock.
+ *
+ * Like {@linkcode Mutex}, the lock lives in a {@linkcode SharedArrayBuffer} (see {@linkcode buffer}), so it also works across workers.
+ *
+ * ### Examples
+```ts
+import { RwLock } from "std/sync";
+
+const lock = new RwLock(5);
+
+// many reader locks can be held at once
+{
+     using r1 = lock.read();
+     using r2 = lock.read();
+     $assertEq(r1.value, 5);
+     $assertEq(r2.value, 5);
+}// read locks are released at this point
+
+// only one write lock may be held, however
+{
+     using w = lock.write();
+     w.value += 1;
+     $assertEq(w.value, 6);
+}// write lock is released here
+```
+ */
+export class RwLock<T> {
+  readonly #raw: RawRwLock;
+  readonly #cell: { value: T };
+
+  constructor(data: T,buffer?: SharedArrayBuffer) {
+    this.#raw=new RawRwLock(buffer);
+    this.#cell={ value: data };
+  }
+
+  /** The {@linkcode SharedArrayBuffer} holding the state of the lock. */
+  public get buffer(): SharedArrayBuffer {
+    return this.#raw.buffer;
+  }
+
+  /**
+   * Locks this {@linkcode RwLock} with shared read access, blocking the current thread until it can be acquired.
+   *
+   * The calling thread will be blocked until there are no more writers which hold the lock.
+   * There may be other readers currently inside the lock when this method returns.
+   *
+   * Returns an RAII guard which will release this thread's shared access once it is disposed.
+   */
+  public read(): RwLockReadGuard<T> {
+    this.#raw.read();
+    return new RwLockReadGuard(this.#raw,this.#cell);
+  }
+
+  /**
+   * Attempts to acquire this {@linkcode RwLock} with shared read access.
+   *
+   * If the access could not be granted at this time, then `None` is returned.
+   * Otherwise, an RAII guard is returned which will release the shared access when it is disposed.
+   *
+   * This function does not block.
+   */
+  public tryRead(): Option<RwLockReadGuard<T>> {
+    return this.#raw.tryRead()?Some(new RwLockReadGuard(this.#raw,this.#cell)):None();
+  }
+
+  /**
+   * Locks this {@linkcode RwLock} with exclusive write access, blocking the current thread until it can be acquired.
+   *
+   * This function will not return while other writers or other readers currently have access to the lock.
+   *
+   * Returns an RAII guard which will drop the write access of this {@linkcode RwLock} when disposed.
+   */
+  public write(): RwLockWriteGuard<T> {
+    this.#raw.write();
+    return new RwLockWriteGuard(this.#raw,this.#cell);
+  }
+
+  /**
+   * Attempts to lock this {@linkcode RwLock} with exclusive write access.
+   *
+   * If the lock could not be acquired at this time, then `None` is returned.
+   * Otherwise, an RAII guard is returned which will release the lock when it is disposed.
+   *
+   * This function does not block.
+   */
+  public tryWrite(): Option<RwLockWriteGuard<T>> {
+    return this.#raw.tryWrite()?Some(new RwLockWriteGuard(this.#raw,this.#cell)):None();
+  }
+}
+
+
+/**
+ * RAII structure used to release the shared read access of a lock when disposed.
+ *
+ * This object is created by {@linkcode RwLock.read} and {@linkcode RwLock.tryRead}.
+ */
+export class RwLockReadGuard<T> implements Disposable {
+  #released=false;
+
+  constructor(private readonly raw: RawRwLock,private readonly cell: { readonly value: T }) {}
+
+  /**
+   * The data protected by the lock.
+   *
+   * ### Panics
+   * Throws if the guard was already disposed.
+   */
+  public get value(): T {
+    if(this.#released) throw RELEASED;
+    return this.cell.value;
+  }
+
+  /** Releases the shared read access, disposing a guard more than once has no effect. */
+  [Symbol.dispose]() {
+    if(this.#released) return;
+
+    this.#released=true;
+    this.raw.readUnlock();
+  }
+}
+
+
+/**
+ * RAII structure used to release the exclusive write access of a lock when disposed.
+ *
+ * This object is created by {@linkcode RwLock.write} and {@linkcode RwLock.tryWrite}.
+ */
+export class RwLockWriteGuard<T> implements Disposable {
+  #released=false;
+
+  constructor(private readonly raw: RawRwLock,private readonly cell: { value: T }) {}
+
+  /**
+   * The data protected by the lock.
+   *
+   * ### Panics
+   * Throws if the guard was already disposed.
+   */
+  public get value(): T {
+    if(this.#released) throw RELEASED;
+    return this.cell.value;
+  }
+
+  public set value(value: T) {
+    if(this.#released) throw RELEASED;
+    this.cell.value=value;
+  }
+
+  /** Releases the exclusive write access, disposing a guard more than once has no effect. */
+  [Symbol.dispose]() {
+    if(this.#released) return;
+
+    this.#released=true;
+    this.raw.writeUnlock();
+  }
+}
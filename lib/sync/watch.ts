@@ -0,0 +1,220 @@
+import { Drop } from "../drop.ts";
+import { Clone } from "../clone.ts";
+import { Result,Ok,Err } from "../error/result/result.ts";
+import { AsyncResult } from "../error/result/async_result.ts";
+import { RawWatch } from "./raw_channel.ts";
+import { ChannelErrorKind,SendError,RecvError } from "./error.ts";
+
+
+interface Handle {
+  watch: RawWatch;
+  dropped: boolean;
+}
+
+const receivers=new FinalizationRegistry<Handle>(dropReceiver);
+
+
+/**
+ * Creates a new watch channel, returning the sender/receiver halves.
+ *
+ * A single-producer, multi-consumer channel that only retains the last sent value:
+ * every {@linkcode Receiver} sees the latest value, and can wait for it to change.
+ * The receivers are cloned (or {@linkcode Sender.subscribe subscribed}) to broadcast to many threads or workers.
+ *
+ * Like {@linkcode mpsc.channel}, the channel lives in a {@linkcode SharedArrayBuffer} and the values must be JSON-serializable.
+ * So it throws a {@linkcode SendError} if {@linkcode init} isn't.
+ *
+ * ### Examples
+```ts
+import { watch } from "std/sync";
+
+const [tx, rx] = watch.channel("hello");
+
+thread.spawn(()=> {
+     // Use the equivalent of a "do-while" loop so the initial value is processed before awaiting the `changed()` future.
+     do {
+          console.log(`received = ${rx.borrowAndUpdate()}`);
+     } while(rx.changed().contains());
+});
+
+tx.send("world").unwrap();
+```
+ */
+export function channel<T>(init: T): [Sender<T>,Receiver<T>] {
+  const buffer=RawWatch.create();
+  if(new RawWatch(buffer).store(init)) throw SendError.unserializable(init);
+
+  return [new Sender(buffer),new Receiver(buffer)];
+}
+
+
+/**
+ * Sends values to the associated {@linkcode Receiver}s.
+ *
+ * The receivers are notified that the channel is closed once the sender has been dropped, either explicitly with `using` (or {@linkcode Symbol.dispose})
+ * or implicitly when it's garbage collected.
+ */
+export class Sender<T> extends Drop implements Disposable {
+  readonly #handle: Handle;
+
+  /** Creates a new sender to the channel living in {@linkcode buffer}, e.g. the {@linkcode Sender.buffer buffer} of a sender from another worker. */
+  constructor(buffer: SharedArrayBuffer) {
+    const handle={ watch: new RawWatch(buffer),dropped: false };
+    super(handle);
+
+    this.#handle=handle;
+    handle.watch.addSender();
+  }
+
+  /** The {@linkcode SharedArrayBuffer} holding the channel. */
+  public get buffer(): SharedArrayBuffer {
+    return this.#handle.watch.buffer;
+  }
+
+  /**
+   * Sends a new value via the channel, notifying all receivers.
+   *
+   * This method fails if the channel is closed, which is the case when every receiver has been dropped,
+   * or if {@linkcode value} isn't JSON-serializable.
+   */
+  public send(value: T): Result<void,SendError<T>> {
+    if(this.#handle.dropped || this.#handle.watch.receivers===0) return Err(SendError.disconnected(value));
+
+    return this.#handle.watch.store(value)?Err(SendError.unserializable(value)):Ok(undefined);
+  }
+
+  /**
+   * Modifies the watched value unconditionally, even if there are no receivers.
+   * 
+   * ### Throws
+   * Throws a {@linkcode SendError} if {@linkcode value} isn't JSON-serializable.
+   */
+  public sendReplace(value: T): T {
+    const [prev]=this.#handle.watch.load<T>();
+    if(this.#handle.watch.store(value)) throw SendError.unserializable(value);
+
+    return prev;
+  }
+
+  /** Returns the latest value sent. */
+  public borrow(): T {
+    return this.#handle.watch.load<T>()[0];
+  }
+
+  /** Creates a new {@linkcode Receiver} connected to this sender, the current value is marked as seen. */
+  public subscribe(): Receiver<T> {
+    return new Receiver(this.buffer);
+  }
+
+  /** Returns the number of receivers that currently exist. */
+  public receiverCount(): number {
+    return this.#handle.watch.receivers;
+  }
+
+  /** Drops the sender, disposing it more than once has no effect. */
+  [Symbol.dispose]() {
+    this.drop();
+  }
+
+  protected override drop(handle=this.#handle) {
+    if(handle.dropped) return;
+
+    handle.dropped=true;
+    handle.watch.dropSender();
+  }
+}
+
+
+/**
+ * Receives values from the associated {@linkcode Sender}.
+ *
+ * Each receiver keeps track of the last value it has seen, see {@linkcode hasChanged} and {@linkcode changed}.
+ */
+export class Receiver<T> implements Clone,Disposable {
+  readonly #handle: Handle;
+  #seen: number;
+
+  /** Creates a new receiver of the channel living in {@linkcode buffer}, the current value is marked as seen. */
+  constructor(buffer: SharedArrayBuffer) {
+    this.#handle={ watch: new RawWatch(buffer),dropped: false };
+    this.#handle.watch.addReceiver();
+    this.#seen=this.#handle.watch.version;
+
+    receivers.register(this,this.#handle);
+  }
+
+  /** The {@linkcode SharedArrayBuffer} holding the channel. */
+  public get buffer(): SharedArrayBuffer {
+    return this.#handle.watch.buffer;
+  }
+
+  /** Returns the most recently sent value, without marking it as seen. */
+  public borrow(): T {
+    return this.#handle.watch.load<T>()[0];
+  }
+
+  /** Returns the most recently sent value and marks it as seen. */
+  public borrowAndUpdate(): T {
+    const [value,version]=this.#handle.watch.load<T>();
+    this.#seen=version;
+
+    return value;
+  }
+
+  /**
+   * Checks if this channel contains a message that this receiver has not yet seen.
+   *
+   * Returns an error if the channel has been closed.
+   */
+  public hasChanged(): Result<boolean,RecvError> {
+    if(this.#handle.dropped || this.#handle.watch.senders===0) return Err(RecvError.disconnected());
+    return Ok(this.#handle.watch.version!==this.#seen);
+  }
+
+  /**
+   * Waits for a change notification, then marks the newest value as seen.
+   *
+   * If the newest value in the channel has not yet been marked seen when this method is called, the method marks that value seen and returns immediately.
+   * If the newest value has already been marked seen, then the method blocks until a new value is sent.
+   *
+   * Returns an error if the sender has been dropped before a new value was sent.
+   */
+  public changed(): Result<void,RecvError> {
+    if(this.#handle.dropped) return Err(RecvError.disconnected());
+    return this.#update(this.#handle.watch.changed(this.#seen));
+  }
+
+  /** The same as {@linkcode changed}, without blocking the thread while waiting. */
+  public changedAsync(): AsyncResult<void,RecvError> {
+    if(this.#handle.dropped) return new AsyncResult(Promise.resolve(Err(RecvError.disconnected())));
+    return new AsyncResult(this.#handle.watch.changedAsync(this.#seen).then(kind=> this.#update(kind || undefined)));
+  }
+
+  /** Returns a new receiver of the same channel, which has seen the same values as this one. */
+  public clone(): this {
+    const receiver=new (this.constructor as new(buffer: SharedArrayBuffer)=> this)(this.buffer);
+    receiver.#seen=this.#seen;
+
+    return receiver;
+  }
+
+  /** Drops the receiver, disposing it more than once has no effect. */
+  [Symbol.dispose]() {
+    dropReceiver(this.#handle);
+  }
+
+  #update(kind: ChannelErrorKind|undefined): Result<void,RecvError> {
+    if(kind!==undefined) return Err(RecvError.disconnected());
+
+    this.#seen=this.#handle.watch.version;
+    return Ok(undefined);
+  }
+}
+
+
+function dropReceiver(handle: Handle) {
+  if(handle.dropped) return;
+
+  handle.dropped=true;
+  handle.watch.dropReceiver();
+}
@@ -0,0 +1,141 @@
+import { Fn } from "../types.ts";
+import { drop } from "../drop.ts";
+import { Option,Some,None } from "../error/option/option.ts";
+
+
+type Locals=Map<LocalKey<unknown>,unknown>;
+
+/** The values of the keys of the main thread. */
+const MAIN: Locals=new Map();
+/** The values of the keys of the spawned closures being run, the innermost last. */
+const SPAWNED: Locals[]=[];
+
+
+/**
+ * A thread local storage key which owns its contents.
+ *
+ * This key uses the fastest possible implementation available to it for the target platform.
+ * It is instantiated with {@linkcode threadLocal}, and each thread has its own value.
+ *
+ * The closure of a {@linkcode Thread.spawn spawned} thread is run on the isolate which spawned it,
+ * so the values are kept per run of the closure rather than per {@linkcode Thread.current} id.
+ * The initializer runs lazily the first time a thread accesses the key, and the value is dropped (see {@linkcode drop})
+ * once the closure returns.
+ *
+ * ### Examples
+```ts
+import thread from "std/thread";
+
+const FOO = thread.threadLocal(()=> 1);
+
+FOO.with(f=> $assertEq(f, 1));
+FOO.set(2);
+
+// each thread starts out with the initial value of 1
+const t = thread.spawn(()=> {
+     FOO.with(f=> $assertEq(f, 1));
+     FOO.set(3);
+});
+
+// wait for the thread to complete and bail out on panic
+t.join()?.unwrap();
+
+// we retain our original value of 2 despite the child thread
+FOO.with(f=> $assertEq(f, 2));
+```
+ */
+export class LocalKey<T> {
+  constructor(private readonly init: Fn<[],T>) {}
+
+  /**
+   * Acquires a reference to the value in this TLS key.
+   *
+   * This will lazily initialize the value if this thread has not referenced this key yet.
+   */
+  public with<R>(f: Fn<[value: T],R>): R {
+    const locals=this.#locals();
+    if(!locals.has(this)) locals.set(this,this.init());
+
+    return f(locals.get(this) as T);
+  }
+
+  /**
+   * Sets or initializes the contained value.
+   *
+   * Unlike the other methods, this will not run the lazy initializer of the thread local.
+   * Instead, it will be directly initialized with the given value if it wasn't initialized yet, the previous value is dropped otherwise.
+   */
+  public set(value: T) {
+    const locals=this.#locals();
+    const prev=locals.get(this);
+    locals.set(this,value);
+
+    if(prev!==value) drop(prev);
+  }
+
+  /**
+   * Takes the contained value, leaving the key uninitialized for this thread.
+   *
+   * Returns `None` if it wasn't initialized, the next access runs the lazy initializer again.
+   */
+  public take(): Option<T> {
+    const locals=this.#locals();
+    if(!locals.has(this)) return None();
+
+    const value=locals.get(this) as T;
+    locals.delete(this);
+
+    return Some(value);
+  }
+
+  /**
+   * Replaces the contained value, returning the old value.
+   *
+   * This will lazily initialize the value if this thread has not referenced this key yet.
+   */
+  public replace(value: T): T {
+    const prev=this.with(prev=> prev);
+    this.#locals().set(this,value);
+
+    return prev;
+  }
+
+  #locals(): Locals {
+    return SPAWNED.at(-1)??MAIN;
+  }
+}
+
+
+/** Creates a new {@linkcode LocalKey}, each thread runs {@linkcode init} to get its own value the first time it accesses it. */
+export function threadLocal<T>(init: Fn<[],T>): LocalKey<T> {
+  return new LocalKey(init);
+}
+
+/**
+ * Runs the closure {@linkcode f} of a spawned thread with its own thread local values, they're dropped once it returns.
+ *
+ * An async closure is rejected by throwing, as its code after the first `await` would run with the values of the main thread.
+ */
+export function withLocals<T>(f: Fn<[],T>): T {
+  const locals: Locals=new Map();
+  SPAWNED.push(locals);
+
+  try {
+    const output=f();
+    if(!isThenable(output)) return output;
+
+    // The thread fails with this error, the rejection of the closure would only crash the process on top of it.
+    output.then(undefined,()=> {});
+    throw new TypeError(ASYNC_CLOSURE);
+  } finally {
+    SPAWNED.pop();
+    for(const value of locals.values()) drop(value);
+  }
+}
+
+
+const ASYNC_CLOSURE="The closure of a thread can't be async, its thread locals would be lost after the first await";
+
+function isThenable(x: unknown): x is PromiseLike<unknown> {
+  return typeof x==="object" && x!==null && typeof (x as { then?: unknown }).then==="function";
+}
@@ -1,6 +1,8 @@
 import { Thread,JoinHandle } from "./thread.ts";
 import { $resultSync } from "../error/result/macros.ts";
 import * as lib from '../../bindings/std_rs.js';
+import { Duration } from "../time/duration.ts";
+import { toMillis } from "../time/util.ts";
 
 
 
@@ -107,7 +109,7 @@ export function current() {
  * This can be used in multithreaded applications, in order to send a message to other threads warning that a thread has panicked (e.g., for monitoring purposes).
  */
 export function panicking() {
-  return lib.thread_panicking();
+  return Thread.panicking();
 }
 
 /**
@@ -134,6 +136,8 @@ export function park() {
 /**
  * Blocks unless or until the current thread's token is made available or the specified duration has been reached (may wake spuriously).
  * 
+ * {@linkcode dur} is a {@linkcode Duration} or a number of milliseconds.
+ * 
  * The semantics of this function are equivalent to park except that the thread will be blocked for roughly no longer than dur. This method should not be used for precise timing due to anomalies such as preemption or platform differences that might not cause the maximum amount of time waited to be precisely dur long.
  * 
  * See the park documentation for more details.
@@ -141,12 +145,12 @@ export function park() {
  * ### Platform-specific behavior
  * Platforms which do not support nanosecond precision for sleeping will have dur rounded up to the nearest granularity of time they can sleep for.
  */
-export function parkWithTimeout(dur: number|bigint) {
-  lib.park_thread_with_timeout(BigInt(dur));
+export function parkWithTimeout(dur: number|bigint|Duration) {
+  lib.park_thread_with_timeout(BigInt(toMillis(dur)));
 }
 
 /**
- * Puts the current thread to sleep for at least the specified amount of time.
+ * Puts the current thread to sleep for at least the specified amount of time, a {@linkcode Duration} or a number of milliseconds.
  * 
  * The thread may sleep longer than the duration specified due to scheduling specifics or platform-dependent functionality. It will never sleep less.
  * 
@@ -157,11 +161,11 @@ export function parkWithTimeout(dur: number|bigint) {
  * ```ts
  * import thread from "@std/thread";
  * 
- * thread.sleep(69000);// The thread sleeps for atleast 69 seconds never less. (It maybe sightly longer, about a few nanos)
+ * thread.sleep(Duration.fromSecs(69));// The thread sleeps for atleast 69 seconds never less. (It maybe sightly longer, about a few nanos)
  * ```
  */
-export function sleep(dur: number|bigint) {
-  lib.sleep(BigInt(dur));
+export function sleep(dur: number|bigint|Duration) {
+  lib.sleep(BigInt(toMillis(dur)));
 }
 
 /**
@@ -174,4 +178,7 @@ export function yieldNow() {
 }
 
 
-export * from "./thread.ts";
\ No newline at end of file
+export * from "./thread.ts";
+export * from "./pool.ts";
+export * from "../panic/payload.ts";
+export { LocalKey,threadLocal } from "./local.ts";
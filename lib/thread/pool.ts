@@ -0,0 +1,359 @@
+import { Fn } from "../types.ts";
+import { Result,Ok,Err } from "../error/result/result.ts";
+import { AsyncResult } from "../error/result/async_result.ts";
+import { IoError } from "../io/error.ts";
+import { availableParallelism } from "./mod.ts";
+import { Builder,JoinHandle } from "./thread.ts";
+
+
+type Job={
+  kind: "fn";
+  source: string;
+  args: unknown[];
+}|{
+  kind: "module";
+  url: string;
+  name: string;
+  args: unknown[];
+};
+
+/** A job sent to a worker of the pool. */
+export type Task=Job&{ id: number };
+type Outcome={ id: number }&({ ok: unknown }|{ err: unknown });
+
+interface Joinable {
+  join(): Result<unknown,unknown>|AsyncResult<unknown,unknown>|undefined;
+}
+
+interface Pending {
+  task: Task;
+  resolve: Fn<[res: Result<unknown,unknown>],void>;
+}
+
+const WORKER=new URL("./pool_worker.ts",import.meta.url);
+
+const ZERO_THREADS="A thread pool needs at least one thread";
+const TERMINATED="The thread pool was terminated";
+const SCOPED_PANIC="A scoped thread panicked";
+
+/** The handles which were joined, a scope only fails for the tasks nobody joined. */
+const JOINED=new WeakSet<Joinable>();
+
+
+/**
+ * A pool of {@linkcode Worker}s running tasks off the main thread.
+ *
+ * Unlike {@linkcode Thread.spawn}, spawning a task doesn't create a thread: the tasks are queued and run by the first idle worker,
+ * so at most {@linkcode size} of them run in parallel.
+ * The pool comes in two flavours, see {@linkcode ThreadPool.fixed} and {@linkcode ThreadPool.workStealing}.
+ *
+ * A task is either a closure or an exported function of a module.
+ * Closures are sent as source code, so they can't capture anything: whatever they need must be passed as arguments.
+ * The arguments and the return value are copied with the structured clone algorithm, a {@linkcode SharedArrayBuffer} is shared instead
+ * (e.g. the {@linkcode Mutex.buffer buffer} of a lock or a channel).
+ *
+ * The workers keep the process alive until the pool is terminated, which `using` takes care of.
+ *
+ * ### Examples
+```ts
+import { ThreadPool } from "std/thread";
+
+using pool = ThreadPool.fixed(4);
+
+const handles = [1, 2, 3].map(n=> pool.spawn(n=> n*n, n));
+
+for(const handle of handles) {
+     console.log(await handle.join().unwrap());
+}
+```
+ */
+export abstract class ThreadPool implements Disposable {
+  readonly #workers: Worker[];
+  readonly #running: (Pending|undefined)[];
+  #id=0;
+  #terminated=false;
+
+  /** Creates a pool of {@linkcode size} workers, which defaults to {@linkcode availableParallelism}. */
+  constructor(size=availableParallelism().unwrapOr(navigator.hardwareConcurrency)) {
+    if(size<1) throw ZERO_THREADS;
+
+    this.#running=new Array(size).fill(undefined);
+    this.#workers=this.#running.map((_,i)=> {
+      const worker=new Worker(WORKER,{ type: "module" });
+      worker.onmessage=({ data }: MessageEvent<Outcome>)=> this.#settle(i,"ok" in data?Ok(data.ok):Err(data.err));
+      worker.onerror=e=> {
+        e.preventDefault();
+        this.#settle(i,Err(e.error??e.message));
+      };
+
+      return worker;
+    });
+  }
+
+  /** Creates a pool sharing a single FIFO queue between its workers, so tasks start in the order they were spawned. */
+  public static fixed(size?: number): ThreadPool {
+    return new FixedThreadPool(size);
+  }
+
+  /**
+   * Creates a pool where each worker has its own queue, fed in turns by {@linkcode spawn}.
+   * An idle worker with an empty queue steals the most recently queued task of the longest queue.
+   */
+  public static workStealing(size?: number): ThreadPool {
+    return new WorkStealingPool(size);
+  }
+
+  /** The number of workers of the pool. */
+  public get size(): number {
+    return this.#workers.length;
+  }
+
+  /**
+   * Runs {@linkcode f} with {@linkcode args} on a worker, returning a {@linkcode PoolJoinHandle} for its result.
+   *
+   * {@linkcode f} is sent as source code, so it must not reference anything outside of its parameters (besides globals).
+   */
+  public spawn<A extends unknown[],T>(f: (...args: A)=> T|Promise<T>,...args: A): PoolJoinHandle<T> {
+    return this.#spawn({ kind: "fn",source: f.toString(),args });
+  }
+
+  /**
+   * Runs the function exported as {@linkcode name} by the module at {@linkcode url} with {@linkcode args} on a worker,
+   * returning a {@linkcode PoolJoinHandle} for its result.
+   *
+   * Relative URLs should be resolved first, e.g. with `new URL("./task.ts", import.meta.url)`.
+   */
+  public spawnModule<T>(url: string|URL,name="default",...args: unknown[]): PoolJoinHandle<T> {
+    return this.#spawn({ kind: "module",url: url.toString(),name,args });
+  }
+
+  /**
+   * Terminates the workers, the queued and running tasks fail.
+   *
+   * Terminating a pool more than once has no effect.
+   */
+  public terminate() {
+    if(this.#terminated) return;
+    this.#terminated=true;
+
+    for(const worker of this.#workers) worker.terminate();
+    for(const pending of this.#running) pending?.resolve(Err(TERMINATED));
+
+    for(let i=0;i<this.size;i++) {
+      for(let pending=this.pop(i);pending;pending=this.pop(i)) pending.resolve(Err(TERMINATED));
+    }
+  }
+
+  /** Terminates the pool, see {@linkcode terminate}. */
+  [Symbol.dispose]() {
+    this.terminate();
+  }
+
+  /** Queues a task. */
+  protected abstract push(pending: Pending): void;
+  /** Dequeues the next task the worker at {@linkcode index} should run. */
+  protected abstract pop(index: number): Pending|undefined;
+
+  #spawn<T>(job: Job): PoolJoinHandle<T> {
+    const task={ ...job,id: this.#id++ } as Task;
+
+    if(this.#terminated) return new PoolJoinHandle(Promise.resolve(Err(TERMINATED)));
+
+    return new PoolJoinHandle(new Promise(resolve=> {
+      this.push({ task,resolve: resolve as Pending["resolve"] });
+      this.#dispatch();
+    }));
+  }
+
+  #settle(index: number,res: Result<unknown,unknown>) {
+    const pending=this.#running[index];
+    if(!pending) return;
+
+    this.#running[index]=undefined;
+    pending.resolve(res);
+    this.#dispatch();
+  }
+
+  #dispatch() {
+    for(let i=0;i<this.size;i++) {
+      if(this.#running[i]) continue;
+
+      const pending=this.pop(i);
+      if(!pending) continue;
+
+      this.#running[i]=pending;
+      try {
+        this.#workers[i].postMessage(pending.task);
+      } catch(e) {
+        // The arguments couldn't be cloned.
+        this.#running[i]=undefined;
+        pending.resolve(Err(e));
+      }
+    }
+  }
+}
+
+
+class FixedThreadPool extends ThreadPool {
+  readonly #queue: Pending[]=[];
+
+  protected push(pending: Pending) {
+    this.#queue.push(pending);
+  }
+
+  protected pop(): Pending|undefined {
+    return this.#queue.shift();
+  }
+}
+
+
+class WorkStealingPool extends ThreadPool {
+  readonly #queues: Pending[][]=Array.from({ length: this.size },()=> []);
+  #next=0;
+
+  protected push(pending: Pending) {
+    this.#queues[this.#next].push(pending);
+    this.#next=(this.#next+1)%this.size;
+  }
+
+  protected pop(index: number): Pending|undefined {
+    const own=this.#queues[index].shift();
+    if(own) return own;
+
+    const victim=this.#queues.reduce((longest,queue)=> queue.length>longest.length?queue:longest);
+    return victim.pop();
+  }
+}
+
+
+/**
+ * An owned permission to join on a task of a {@linkcode ThreadPool}.
+ *
+ * Dropping the handle doesn't cancel the task, it still runs to completion.
+ *
+ * This object is created by {@linkcode ThreadPool.spawn}, {@linkcode ThreadPool.spawnModule} and {@linkcode Scope.spawn}.
+ */
+export class PoolJoinHandle<T> {
+  #finished=false;
+
+  constructor(private readonly res: Promise<Result<T,unknown>>) {
+    res.then(()=> this.#finished=true);
+  }
+
+  /** Checks if the task has finished running, this function does not block. */
+  public isFinished(): boolean {
+    return this.#finished;
+  }
+
+  /**
+   * Waits for the task to finish.
+   *
+   * If the task threw (or the pool was terminated before it finished), `Err` is returned.
+   */
+  public join(): AsyncResult<T,unknown> {
+    JOINED.add(this);
+    return new AsyncResult(this.res);
+  }
+}
+
+
+/**
+ * A scope to spawn scoped tasks in, see {@linkcode scope}.
+ *
+ * This object is created by {@linkcode scope}.
+ */
+export class Scope {
+  readonly #handles: Joinable[]=[];
+
+  constructor(private readonly pool: ThreadPool) {}
+
+  /**
+   * Spawns a scoped task, see {@linkcode ThreadPool.spawn}.
+   *
+   * Unlike non-scoped tasks, it's guaranteed to finish before {@linkcode scope} returns, so it may use data borrowed from outside of the scope.
+   */
+  public spawn<A extends unknown[],T>(f: (...args: A)=> T|Promise<T>,...args: A): PoolJoinHandle<T> {
+    return this.#track(this.pool.spawn(f,...args));
+  }
+
+  /** Spawns a scoped task running a function of a module, see {@linkcode ThreadPool.spawnModule}. */
+  public spawnModule<T>(url: string|URL,name?: string,...args: unknown[]): PoolJoinHandle<T> {
+    return this.#track(this.pool.spawnModule(url,name,...args));
+  }
+
+  /**
+   * Spawns a scoped thread with {@linkcode builder}, see {@linkcode Builder.spawn}.
+   *
+   * The thread is joined at the end of the scope, blocking the main thread if it's still running by then.
+   */
+  public spawnThread<T>(f: Fn<[],T>,builder=new Builder()): Result<JoinHandle<T>,IoError> {
+    return builder.spawn(f).inspect(handle=> this.#track(handle));
+  }
+
+  /** Waits for every task, returns `true` if one that wasn't joined failed. */
+  public async joinAll(): Promise<boolean> {
+    let panicked=false;
+
+    for(const handle of this.#handles) {
+      const joined=JOINED.has(handle);
+      // A thread joined manually returns `undefined`.
+      const res=await handle.join();
+
+      if(!joined && res?.containsErr()) panicked=true;
+    }
+
+    return panicked;
+  }
+
+  #track<H extends Joinable>(handle: H): H {
+    this.#handles.push(handle);
+    return handle;
+  }
+}
+
+
+/**
+ * Creates a scope for spawning scoped tasks.
+ *
+ * The function passed to {@linkcode scope} will be provided a {@linkcode Scope} object, through which scoped tasks can be spawned.
+ * Unlike non-scoped tasks, scoped tasks can borrow data (e.g. a {@linkcode SharedArrayBuffer}) since the scope guarantees all tasks will be joined at the end of the scope.
+ *
+ * All tasks spawned within the scope that haven't been manually joined will be automatically joined before this function returns.
+ * The tasks run on {@linkcode pool}, a pool of {@linkcode availableParallelism} workers is created for the scope when it's left out.
+ *
+ * ### Panics
+ * If any of the automatically joined tasks failed, this function throws.
+ *
+ * ### Examples
+```ts
+import thread from "std/thread";
+
+const counter = new AtomicI32(0);
+
+await thread.scope(s=> {
+     for(let i=0;i<4;i++) {
+          s.spawn(buffer=> Atomics.add(new Int32Array(buffer), 0, 1), counter.buffer);
+     }
+});
+
+// All tasks were automatically joined, so the counter can be read.
+$assertEq(counter.load(), 4);
+```
+ */
+export async function scope<T>(f: Fn<[s: Scope],T|Promise<T>>,pool?: ThreadPool): Promise<T> {
+  using owned=pool?undefined:ThreadPool.fixed();
+  const s=new Scope((pool??owned) as ThreadPool);
+
+  let res: Result<T,unknown>;
+  try {
+    res=Ok(await f(s));
+  } catch(e) {
+    res=Err(e);
+  }
+
+  // Even when `f` throws, the scope is only left once its tasks are done.
+  if(await s.joinAll()) throw SCOPED_PANIC;
+  if(res.containsErr()) throw res.unwrapErr();
+
+  return res.unwrap();
+}
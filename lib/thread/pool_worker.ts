@@ -0,0 +1,19 @@
+/// <reference lib="deno.worker" />
+import type { Task } from "./pool.ts";
+
+
+// The worker of a `ThreadPool`, it runs one task at a time and posts back its outcome.
+self.onmessage=async ({ data: task }: MessageEvent<Task>)=> {
+  try {
+    self.postMessage({ id: task.id,ok: await run(task) });
+  } catch(err) {
+    self.postMessage({ id: task.id,err });
+  }
+};
+
+async function run(task: Task): Promise<unknown> {
+  switch(task.kind) {
+    case "fn": return new Function(`return (${task.source});`)()(...task.args);
+    case "module": return (await import(task.url))[task.name](...task.args);
+  }
+}
@@ -1,7 +1,30 @@
 import { Fn } from '../types.ts';
-import { Drop } from '../drop.ts';
+import { Drop,drop } from '../drop.ts';
 import * as lib from '../../bindings/std_rs.js';
-import { None,Option,result } from "../../mod.ts";
+import { None,Option } from "../../mod.ts";
+import { Result,Ok,Err } from "../error/result/result.ts";
+import { IoError } from "../io/error.ts";
+import { PanicPayload } from "../panic/payload.ts";
+import { catchUnwind,panicking } from "../panic/mod.ts";
+import type { Scope } from "./pool.ts";
+import { withLocals } from "./local.ts";
+import { Debug,Display } from "../fmt/fmt.ts";
+import { Formatter } from "../fmt/formatter.ts";
+import { customInspect,inspectStruct,Inspect,InspectOptions } from "../fmt/inspect.ts";
+import { Duration } from "../time/duration.ts";
+import { toMillis } from "../time/util.ts";
+
+
+interface SpawnOptions {
+  name?: string;
+}
+
+interface Inner<T> {
+  ptr: number;
+  output: Option<Result<T,PanicPayload>>;
+  // deno-lint-ignore no-explicit-any
+  callback?: Deno.UnsafeCallback<any>;
+}
 
 
 
@@ -18,18 +41,35 @@ import { None,Option,result } from "../../mod.ts";
  * There is usually no need to create a {@linkcode Thread} object yourself, one should instead use a function like {@linkcode Thread.spawn} to create new threads, see the docs of Builder and spawn for more details.
  */
 // TODO(kakashi): async-thread-spawn.
-export class Thread extends Drop {
+export class Thread extends Drop implements Debug,Display {
   public readonly id: bigint;
   public readonly name: Option<string>;
 
   protected constructor(private ___ptr: number) {
-    super();
+    super(___ptr);
     this.id=lib.thread_id(___ptr);
     this.name=new Option(lib.thread_name(___ptr));
   }
 
-  protected drop(): void {
-    lib.drop_thread(this.___ptr);
+  protected drop(ptr=this.___ptr): void {
+    lib.drop_thread(ptr);
+  }
+
+  /** Formats the thread like `Thread { id: ThreadId(1), name: Some("main"), .. }`. */
+  public fmtDebug(f: Formatter) {
+    f.debugStruct("Thread")
+    .fieldWith("id",f=> f.debugTuple("ThreadId").field(this.id).finish())
+    .field("name",this.name)
+    .finishNonExhaustive();
+  }
+
+  /** Formats the name of the thread, `<unnamed>` if it has none. */
+  public fmt(f: Formatter) {
+    f.pad(this.name.unwrapOr("<unnamed>"));
+  }
+
+  [customInspect](inspect: Inspect,options: InspectOptions): string {
+    return inspectStruct("Thread",{ id: this.id,name: this.name },inspect,options);
   }
 
   /**
@@ -50,6 +90,8 @@ export class Thread extends Drop {
    * 
    * If the join handle is dropped, the spawned thread will implicitly be detached. In this case, the spawned thread may no longer be joined. (It is the responsibility of the program to either eventually join threads it creates or detach them; otherwise, a resource leak will result.)
    * 
+   * {@linkcode f} must not be async, the thread fails like it panicked if it returns a promise (see {@linkcode threadLocal}).
+   * 
    * ## Panics
    * Panics if the OS fails to create a thread
    * 
@@ -67,7 +109,7 @@ export class Thread extends Drop {
    * As mentioned in the module documentation, threads are usually made to communicate using channels, here is how it usually looks.
    */
   public static spawn<T>(f: Fn<[],T>,name?: string) {
-    return JoinHandleBuilder.new(f,name);
+    return JoinHandleBuilder.new(f,{ name });
   }
 
   /**
@@ -95,7 +137,7 @@ export class Thread extends Drop {
    * This can be used in multithreaded applications, in order to send a message to other threads warning that a thread has panicked (e.g., for monitoring purposes).
    */
   public static panicking() {
-    return lib.thread_panicking();
+    return panicking() || lib.thread_panicking();
   }
 
   /**
@@ -122,6 +164,8 @@ export class Thread extends Drop {
   /**
    * Blocks unless or until the current thread's token is made available or the specified duration has been reached (may wake spuriously).
    * 
+   * {@linkcode dur} is a {@linkcode Duration} or a number of milliseconds.
+   * 
    * The semantics of this function are equivalent to park except that the thread will be blocked for roughly no longer than dur. This method should not be used for precise timing due to anomalies such as preemption or platform differences that might not cause the maximum amount of time waited to be precisely dur long.
    * 
    * See the park documentation for more details.
@@ -129,12 +173,12 @@ export class Thread extends Drop {
    * ### Platform-specific behavior
    * Platforms which do not support nanosecond precision for sleeping will have dur rounded up to the nearest granularity of time they can sleep for.
    */
-  public static parkWithTimeout(dur: number|bigint) {
-    lib.park_thread_with_timeout(BigInt(dur));
+  public static parkWithTimeout(dur: number|bigint|Duration) {
+    lib.park_thread_with_timeout(BigInt(toMillis(dur)));
   }
 
   /**
-   * Puts the current thread to sleep for at least the specified amount of time.
+   * Puts the current thread to sleep for at least the specified amount of time, a {@linkcode Duration} or a number of milliseconds.
    * 
    * The thread may sleep longer than the duration specified due to scheduling specifics or platform-dependent functionality. It will never sleep less.
    * 
@@ -145,10 +189,10 @@ export class Thread extends Drop {
    * ```ts
    * import { Thread } from "@std/thread";
    * 
-   * Thread.sleep(69000);// The thread sleeps for atleast 69 seconds never less. (It maybe sightly longer, about a few nanos)
+   * Thread.sleep(Duration.fromSecs(69));// The thread sleeps for atleast 69 seconds never less. (It maybe sightly longer, about a few nanos)
    */
-  public static sleep(dur: number|bigint) {
-    lib.sleep(BigInt(dur));
+  public static sleep(dur: number|bigint|Duration) {
+    lib.sleep(BigInt(toMillis(dur)));
   }
 
   /**
@@ -175,26 +219,36 @@ export class Thread extends Drop {
  */
 export class JoinHandle<T> extends Drop {
   #consumed=false;
-  #return=None<T>();
-  #ptr: number;
-  #fn;// im too lazy to provide that huge type def here...xd
+  readonly #inner: Inner<T>;
+
+  protected constructor(f: Fn<[],T>,{ name }: SpawnOptions) {
+    // The callback must not reference `this`, so the handle can still be collected while the thread runs.
+    const inner: Inner<T>={ ptr: 0,output: None() };
+    super(inner);
+    this.#inner=inner;
 
-  protected constructor(f: Fn<[],T>,name?: string) {
-    super();
-    this.#fn=Deno.UnsafeCallback.threadSafe({
+    inner.callback=Deno.UnsafeCallback.threadSafe({
       parameters: [],
       result: "void"
-    },()=> this.#return.insert(f()));
+    },()=> {
+      inner.output.insert(catchUnwind(()=> withLocals(f)));
+    });
 
-    this.#ptr=lib.spawn_thread(
-      Number(Deno.UnsafePointer.value(this.#fn.pointer)),
-      name
-    );
+    try {
+      inner.ptr=lib.spawn_thread(
+        Number(Deno.UnsafePointer.value(inner.callback.pointer)),
+        name
+      );
+    } catch(e) {
+      drop(this);
+      throw e;
+    }
   }
 
-  protected drop(): void {
-    lib.drop_join_handle(this.#ptr);
-    this.#fn.close();
+  protected drop(inner=this.#inner): void {
+    // The native handle is consumed by `join`.
+    if(inner.ptr) lib.drop_join_handle(inner.ptr);
+    inner.callback?.close();
   }
 
   /**
@@ -205,7 +259,11 @@ export class JoinHandle<T> extends Drop {
    * This might return true for a brief moment after the thread's main function has returned, but before the thread itself has stopped running. However, once this returns true, join can be expected to return quickly, without blocking for any significant amount of time.
    */
   public isFinished() {
-    return this.#consumed?true:lib.is_finished(this.#ptr);
+    return this.#consumed?true:lib.is_finished(this.#inner.ptr);
+  }
+
+  [customInspect](inspect: Inspect,options: InspectOptions): string {
+    return inspectStruct("JoinHandle",{ finished: this.isFinished() },inspect,options);
   }
 
   /**
@@ -225,7 +283,7 @@ export class JoinHandle<T> extends Drop {
    * ```
    */
   public thread() {
-    return ThreadHandleBuilder.new(lib.thread(this.#ptr));
+    return ThreadHandleBuilder.new(lib.thread(this.#inner.ptr));
   }
 
   /**
@@ -233,7 +291,8 @@ export class JoinHandle<T> extends Drop {
    * 
    * This function will return immediately if the associated thread has already finished.
    * 
-   * If the associated thread panics, `Err` is returned.
+   * If the associated thread panics, `Err` is returned with the {@linkcode PanicPayload} it panicked with.
+   * Joining a handle more than once returns `undefined`.
    * 
    * ### Panics
    * This function may panic on some platforms if a thread attempts to join itself or otherwise may create a deadlock with joining threads.
@@ -249,20 +308,92 @@ export class JoinHandle<T> extends Drop {
    * handle.join().expect("Couldn't join on the associated thread");
    * ```
    */
-  public join() {
+  public join(): Result<T,PanicPayload>|undefined {
     if(this.#consumed) return;
     this.#consumed=true;
 
-    return result.$resultSync(()=> {
-      lib.join(this.#ptr);
-      return this.#return.value as T;
-    });
+    const inner=this.#inner;
+    try {
+      lib.join(inner.ptr);
+    } catch(e) {
+      return Err(new PanicPayload(e));
+    } finally {
+      inner.ptr=0;
+    }
+
+    return inner.output.take().unwrap();
+  }
+}
+
+
+/**
+ * Thread factory, which can be used in order to configure the properties of a new thread.
+ * 
+ * Methods can be chained on it in order to configure it.
+ * 
+ * The only configuration available is {@linkcode name}, which specifies an associated name for the thread.
+ * Unlike Rust's, the stack size can't be configured as the native binding spawning the threads doesn't take one.
+ * 
+ * The {@linkcode spawn} method will take ownership of the builder and create a {@linkcode JoinHandle} with the given configuration.
+ * 
+ * The {@linkcode Thread.spawn} free function uses a {@linkcode Builder} with default configuration and unwraps its return value.
+ * You may want to use {@linkcode spawn} instead of {@linkcode Thread.spawn}, when you want to recover from a failure to launch a thread,
+ * indeed the free function will throw where the {@linkcode Builder} method will return an {@linkcode IoError}.
+ * 
+ * ### Examples
+ * ```ts
+ * import thread from "@std/thread";
+ * 
+ * const builder = new thread.Builder();
+ * 
+ * const handler = builder.spawn(()=> {
+ *   // thread code
+ * }).unwrap();
+ * 
+ * handler.join().unwrap();
+ * ```
+ */
+export class Builder {
+  #name?: string;
+
+  /**
+   * Names the thread-to-be. Currently the name is used for identification only in panic messages.
+   * 
+   * The name must not contain null bytes (`\0`).
+   */
+  public name(name: string): this {
+    this.#name=name;
+    return this;
+  }
+
+  /**
+   * Spawns a new thread by taking ownership of the {@linkcode Builder}, and returns a {@linkcode Result} to its {@linkcode JoinHandle}.
+   * 
+   * ### Errors
+   * Unlike the {@linkcode Thread.spawn} free function, this method yields an {@linkcode IoError} if the OS fails to create a thread.
+   */
+  public spawn<T>(f: Fn<[],T>): Result<JoinHandle<T>,IoError> {
+    try {
+      return Ok(JoinHandleBuilder.new(f,{ name: this.#name }));
+    } catch(e) {
+      return Err(IoError.from(e));
+    }
+  }
+
+  /**
+   * Spawns a new scoped thread using the settings set through this {@linkcode Builder}.
+   * 
+   * Unlike {@linkcode Scope.spawn}, this method yields an {@linkcode IoError} to capture any failure to create the thread at the OS level.
+   * The thread is joined at the end of the {@linkcode scope}, like the other scoped tasks.
+   */
+  public spawnScoped<T>(scope: Scope,f: Fn<[],T>): Result<JoinHandle<T>,IoError> {
+    return scope.spawnThread(f,this);
   }
 }
 
 class JoinHandleBuilder<_> extends JoinHandle<_> {
-  public static new<T>(f: Fn<[],T>,name?: string) {
-    return new JoinHandle<T>(f,name);
+  public static new<T>(f: Fn<[],T>,options: SpawnOptions) {
+    return new JoinHandle<T>(f,options);
   }
 }
 
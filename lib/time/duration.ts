@@ -0,0 +1,352 @@
+import { Option,Some,None } from "../error/option/option.ts";
+import { $panic } from "../declarative-macros/panics.ts";
+import { Ord,Ordering } from "../cmp/ord.ts";
+import { Debug,Display } from "../fmt/fmt.ts";
+import { Formatter,Alignment } from "../fmt/formatter.ts";
+import { customInspect } from "../fmt/inspect.ts";
+
+
+const NANOS_PER_SEC=1_000_000_000n;
+const NANOS_PER_MILLI=1_000_000n;
+const NANOS_PER_MICRO=1_000n;
+/** `u64::MAX` seconds and `999_999_999` nanoseconds, like the largest `Duration` of Rust. */
+const MAX_NANOS=0xffff_ffff_ffff_ffffn*NANOS_PER_SEC+NANOS_PER_SEC-1n;
+
+
+/**
+ * A {@linkcode Duration} type to represent a span of time, typically used for system timeouts.
+ *
+ * Each {@linkcode Duration} is composed of a whole number of seconds and a fractional part represented in nanoseconds,
+ * it's always positive and can't be larger than `u64::MAX` seconds: the arithmetic panics on overflow, unless the checked or saturating methods are used.
+ *
+ * Its {@linkcode Debug} and {@linkcode Display} forms pick the most fitting unit, like `1.5s` or `250ms`.
+ *
+ * ### Examples
+```ts
+import { Duration } from "std/time";
+
+const fiveSeconds = Duration.fromSecs(5);
+$assertEq(fiveSeconds, Duration.fromMillis(5_000));
+$assertEq(fiveSeconds.add(Duration.fromMillis(500)).asSecsF64(), 5.5);
+
+$assertEq($format("{:?}", Duration.fromMicros(1_500)), "1.5ms");
+$assertEq(Duration.MAX.checkedAdd(Duration.NANOSECOND), None());
+```
+ */
+export class Duration implements Ord,Debug,Display {
+  readonly #nanos: bigint;
+
+  /** A duration of zero time. */
+  public static readonly ZERO=new Duration(0);
+  /** The maximum duration, `u64::MAX` seconds and `999_999_999` nanoseconds. */
+  public static readonly MAX=new Duration(0,MAX_NANOS);
+  /** The duration of one second. */
+  public static readonly SECOND=new Duration(1);
+  /** The duration of one millisecond. */
+  public static readonly MILLISECOND=new Duration(0,NANOS_PER_MILLI);
+  /** The duration of one microsecond. */
+  public static readonly MICROSECOND=new Duration(0,NANOS_PER_MICRO);
+  /** The duration of one nanosecond. */
+  public static readonly NANOSECOND=new Duration(0,1);
+
+  /**
+   * Creates a new {@linkcode Duration} from the specified number of whole seconds and additional nanoseconds.
+   *
+   * If the number of nanoseconds is greater than 1 billion (the number of nanoseconds in a second), then it will carry over into the seconds provided.
+   *
+   * # Panics
+   * Panics if an argument isn't a non-negative integer, or if the carry overflows the seconds.
+   */
+  constructor(secs: number|bigint,nanos: number|bigint=0) {
+    const total=integer(secs,"seconds")*NANOS_PER_SEC+integer(nanos,"nanoseconds");
+    if(total>MAX_NANOS) $panic("overflow in Duration::new");
+
+    this.#nanos=total;
+  }
+
+  /** Creates a new {@linkcode Duration} from the specified number of whole seconds. */
+  public static fromSecs(secs: number|bigint): Duration {
+    return new Duration(secs);
+  }
+
+  /** Creates a new {@linkcode Duration} from the specified number of milliseconds. */
+  public static fromMillis(millis: number|bigint): Duration {
+    return new Duration(0,integer(millis,"milliseconds")*NANOS_PER_MILLI);
+  }
+
+  /** Creates a new {@linkcode Duration} from the specified number of microseconds. */
+  public static fromMicros(micros: number|bigint): Duration {
+    return new Duration(0,integer(micros,"microseconds")*NANOS_PER_MICRO);
+  }
+
+  /** Creates a new {@linkcode Duration} from the specified number of nanoseconds. */
+  public static fromNanos(nanos: number|bigint): Duration {
+    return new Duration(0,nanos);
+  }
+
+  /**
+   * Creates a new {@linkcode Duration} from the specified number of seconds represented as a float, rounded to the nearest nanosecond.
+   *
+   * # Panics
+   * Panics if {@linkcode secs} is negative, overflows {@linkcode Duration.MAX} or is not finite.
+   *
+   * ### Examples
+  ```ts
+  $assertEq(Duration.fromSecsF64(2.7), new Duration(2, 700_000_000));
+  ```
+   */
+  public static fromSecsF64(secs: number): Duration {
+    if(secs<0) $panic("cannot convert float seconds to Duration: value is negative");
+    if(!Number.isFinite(secs)) $panic("cannot convert float seconds to Duration: value is either too big or NaN");
+
+    const whole=Math.trunc(secs);
+    const total=BigInt(whole)*NANOS_PER_SEC+BigInt(Math.round((secs-whole)*1e9));
+    if(total>MAX_NANOS) $panic("cannot convert float seconds to Duration: value is either too big or NaN");
+
+    return new Duration(0,total);
+  }
+
+  /** Returns true if this {@linkcode Duration} spans no time. */
+  public isZero(): boolean {
+    return this.#nanos===0n;
+  }
+
+  /** Returns the number of whole seconds contained by this {@linkcode Duration}, the fractional part is given by {@linkcode subsecNanos}. */
+  public asSecs(): number {
+    return Number(this.#nanos/NANOS_PER_SEC);
+  }
+
+  /** Returns the total number of whole milliseconds contained by this {@linkcode Duration}. */
+  public asMillis(): number {
+    return Number(this.#nanos/NANOS_PER_MILLI);
+  }
+
+  /** Returns the total number of whole microseconds contained by this {@linkcode Duration}. */
+  public asMicros(): number {
+    return Number(this.#nanos/NANOS_PER_MICRO);
+  }
+
+  /** Returns the total number of nanoseconds contained by this {@linkcode Duration}, as a `bigint` since it quickly exceeds the safe integers. */
+  public asNanos(): bigint {
+    return this.#nanos;
+  }
+
+  /** Returns the number of seconds contained by this {@linkcode Duration} as a float, including the fractional part. */
+  public asSecsF64(): number {
+    return this.asSecs()+this.subsecNanos()/1e9;
+  }
+
+  /** Returns the fractional part of this {@linkcode Duration}, in whole milliseconds. */
+  public subsecMillis(): number {
+    return Math.trunc(this.subsecNanos()/1e6);
+  }
+
+  /** Returns the fractional part of this {@linkcode Duration}, in whole microseconds. */
+  public subsecMicros(): number {
+    return Math.trunc(this.subsecNanos()/1e3);
+  }
+
+  /** Returns the fractional part of this {@linkcode Duration}, in nanoseconds. */
+  public subsecNanos(): number {
+    return Number(this.#nanos%NANOS_PER_SEC);
+  }
+
+  /**
+   * Checked {@linkcode Duration} addition, returns `None` if overflow occurred.
+   *
+   * ### Examples
+  ```ts
+  $assertEq(new Duration(0, 999_999_999).checkedAdd(new Duration(0, 1)), Some(new Duration(1, 0)));
+  $assertEq(Duration.MAX.checkedAdd(Duration.SECOND), None());
+  ```
+   */
+  public checkedAdd(rhs: Duration): Option<Duration> {
+    return checked(this.#nanos+rhs.#nanos);
+  }
+
+  /** Checked {@linkcode Duration} subtraction, returns `None` if the result would be negative. */
+  public checkedSub(rhs: Duration): Option<Duration> {
+    return checked(this.#nanos-rhs.#nanos);
+  }
+
+  /** Checked {@linkcode Duration} multiplication by a non-negative integer, returns `None` if overflow occurred. */
+  public checkedMul(rhs: number|bigint): Option<Duration> {
+    return checked(this.#nanos*integer(rhs,"multiplier"));
+  }
+
+  /** Checked {@linkcode Duration} division by a non-negative integer, returns `None` if {@linkcode rhs} is zero. */
+  public checkedDiv(rhs: number|bigint): Option<Duration> {
+    const divisor=integer(rhs,"divisor");
+    return divisor===0n?None():checked(this.#nanos/divisor);
+  }
+
+  /** Saturating {@linkcode Duration} addition, returns {@linkcode Duration.MAX} if overflow occurred. */
+  public saturatingAdd(rhs: Duration): Duration {
+    return this.checkedAdd(rhs).unwrapOr(Duration.MAX);
+  }
+
+  /** Saturating {@linkcode Duration} subtraction, returns {@linkcode Duration.ZERO} if the result would be negative. */
+  public saturatingSub(rhs: Duration): Duration {
+    return this.checkedSub(rhs).unwrapOr(Duration.ZERO);
+  }
+
+  /** Saturating {@linkcode Duration} multiplication, returns {@linkcode Duration.MAX} if overflow occurred. */
+  public saturatingMul(rhs: number|bigint): Duration {
+    return this.checkedMul(rhs).unwrapOr(Duration.MAX);
+  }
+
+  /**
+   * Adds two durations.
+   *
+   * # Panics
+   * Panics on overflow, see {@linkcode checkedAdd}.
+   */
+  public add(rhs: Duration): Duration {
+    return this.checkedAdd(rhs).expect("overflow when adding durations");
+  }
+
+  /**
+   * Subtracts {@linkcode rhs} from this duration.
+   *
+   * # Panics
+   * Panics if the result would be negative, see {@linkcode checkedSub}.
+   */
+  public sub(rhs: Duration): Duration {
+    return this.checkedSub(rhs).expect("overflow when subtracting durations");
+  }
+
+  /**
+   * Multiplies this duration by a non-negative integer.
+   *
+   * # Panics
+   * Panics on overflow, see {@linkcode checkedMul}.
+   */
+  public mul(rhs: number|bigint): Duration {
+    return this.checkedMul(rhs).expect("overflow when multiplying duration by scalar");
+  }
+
+  /**
+   * Divides this duration by a non-negative integer.
+   *
+   * # Panics
+   * Panics if {@linkcode rhs} is zero, see {@linkcode checkedDiv}.
+   */
+  public div(rhs: number|bigint): Duration {
+    return this.checkedDiv(rhs).expect("divide by zero error when dividing duration by scalar");
+  }
+
+  /**
+   * Multiplies this duration by a float.
+   *
+   * # Panics
+   * Panics if the result is negative, overflows {@linkcode Duration.MAX} or is not finite.
+   */
+  public mulF64(rhs: number): Duration {
+    return Duration.fromSecsF64(this.asSecsF64()*rhs);
+  }
+
+  /**
+   * Divides this duration by a float.
+   *
+   * # Panics
+   * Panics if the result is negative, overflows {@linkcode Duration.MAX} or is not finite.
+   */
+  public divF64(rhs: number): Duration {
+    return Duration.fromSecsF64(this.asSecsF64()/rhs);
+  }
+
+  /** Computes the absolute difference between this duration and {@linkcode other}. */
+  public absDiff(other: Duration): Duration {
+    return new Duration(0,this.#nanos>other.#nanos?this.#nanos-other.#nanos:other.#nanos-this.#nanos);
+  }
+
+  public eq(rhs: Duration): boolean {
+    return rhs instanceof Duration && this.#nanos===rhs.#nanos;
+  }
+
+  public cmp(other: Duration): Ordering {
+    return this.#nanos<other.#nanos?Ordering.Less:this.#nanos>other.#nanos?Ordering.Greater:Ordering.Equal;
+  }
+
+  public partialCmp(other: Duration): Option<Ordering> {
+    return Some(this.cmp(other));
+  }
+
+  /**
+   * Formats the duration in the most fitting unit among `s`, `ms`, `µs` and `ns`, like Rust does.
+   *
+   * The precision of the formatter is the number of decimals (the last one is rounded), the duration is left-aligned by default.
+   *
+   * ### Examples
+  ```ts
+  $assertEq($format("{:?}", Duration.fromMillis(1_500)), "1.5s");
+  $assertEq($format("{:.2?}", Duration.fromNanos(1_000_001)), "1.00ms");
+  $assertEq($format("{:?}", Duration.fromNanos(42)), "42ns");
+  ```
+   */
+  public fmtDebug(f: Formatter) {
+    const secs=this.#nanos/NANOS_PER_SEC,nanos=this.#nanos%NANOS_PER_SEC;
+    const prefix=f.signPlus()?"+":"";
+
+    if(secs>0n) return pad(f,prefix+decimal(secs,nanos,9,f)+"s");
+    if(nanos>=NANOS_PER_MILLI) return pad(f,prefix+decimal(nanos/NANOS_PER_MILLI,nanos%NANOS_PER_MILLI,6,f)+"ms");
+    if(nanos>=NANOS_PER_MICRO) return pad(f,prefix+decimal(nanos/NANOS_PER_MICRO,nanos%NANOS_PER_MICRO,3,f)+"µs");
+
+    pad(f,prefix+decimal(nanos,0n,0,f)+"ns");
+  }
+
+  /** Formats the duration like {@linkcode fmtDebug}, like `1.5s`. */
+  public fmt(f: Formatter) {
+    this.fmtDebug(f);
+  }
+
+  [customInspect](): string {
+    const f=new Formatter();
+    this.fmtDebug(f);
+
+    return f.toString();
+  }
+}
+
+
+/** Converts {@linkcode value} to a `bigint`, panicking if it isn't a non-negative integer. */
+function integer(value: number|bigint,name: string): bigint {
+  if(typeof value==="number" && !Number.isSafeInteger(value) || value<0) $panic(`the ${name} of a Duration must be a non-negative integer, got ${value}`);
+  return BigInt(value);
+}
+
+function checked(nanos: bigint): Option<Duration> {
+  return nanos<0n || nanos>MAX_NANOS?None():Some(new Duration(0,nanos));
+}
+
+/**
+ * Writes {@linkcode whole} followed by the {@linkcode digits} digits of {@linkcode fraction},
+ * with the trailing zeros trimmed or up to the precision of {@linkcode f} (the last decimal is rounded).
+ */
+function decimal(whole: bigint,fraction: bigint,digits: number,f: Formatter): string {
+  const precision=f.precision().value;
+  let decimals=digits?fraction.toString().padStart(digits,"0"):"";
+
+  if(precision==null) decimals=decimals.replace(/0+$/,"");
+  else if(precision>=digits) decimals=decimals.padEnd(precision,"0");
+  else {
+    const scale=10n**BigInt(precision);
+    const scaled=whole*scale+BigInt(decimals.slice(0,precision) || 0)+(decimals[precision]>="5"?1n:0n);
+
+    whole=scaled/scale;
+    decimals=precision?(scaled%scale).toString().padStart(precision,"0"):"";
+  }
+
+  return decimals?`${whole}.${decimals}`:`${whole}`;
+}
+
+/** Pads {@linkcode s} up to the width of {@linkcode f}, unlike {@linkcode Formatter.pad} the precision doesn't truncate it. */
+function pad(f: Formatter,s: string) {
+  const padding=f.width().unwrapOr(0)-[...s].length;
+  if(padding<=0) return f.writeStr(s);
+
+  const align=f.align().unwrapOr(Alignment.Left);
+  const before=align===Alignment.Left?0:align===Alignment.Right?padding:Math.floor(padding/2);
+
+  f.writeStr(f.fill().repeat(before)+s+f.fill().repeat(padding-before));
+}
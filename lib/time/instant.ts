@@ -0,0 +1,128 @@
+import { Option,Some,None } from "../error/option/option.ts";
+import { Ord,Ordering } from "../cmp/ord.ts";
+import { Debug } from "../fmt/fmt.ts";
+import { Formatter } from "../fmt/formatter.ts";
+import { customInspect } from "../fmt/inspect.ts";
+import { Duration } from "./duration.ts";
+
+
+/**
+ * A measurement of a monotonically nondecreasing clock. Opaque and useful only with {@linkcode Duration}.
+ *
+ * Instants are always guaranteed to be no less than any previously measured instant when created, and are often useful for tasks such as measuring benchmarks or timing how long an operation takes.
+ *
+ * Note, however, that instants are not guaranteed to be steady. In other words, each tick of the underlying clock might not be the same length (e.g. some seconds may be longer than others).
+ * An instant may jump forwards or experience time dilation (slow down or speed up), but it will never go backwards.
+ *
+ * It's based on {@linkcode performance.now}, offset by {@linkcode performance.timeOrigin} so the instants of different threads can be compared.
+ *
+ * ### Examples
+```ts
+import { Instant } from "std/time";
+
+const now = Instant.now();
+
+// we sleep for 2 seconds
+Thread.sleep(Duration.fromSecs(2));
+// it prints '2'
+console.log(now.elapsed().asSecs());
+```
+ */
+export class Instant implements Ord,Debug {
+  /** The nanoseconds since the unix epoch when the process started, plus the time elapsed since then. */
+  readonly #nanos: bigint;
+
+  private constructor(nanos: bigint) {
+    this.#nanos=nanos;
+  }
+
+  /** Returns an instant corresponding to "now". */
+  public static now(): Instant {
+    return new Instant(BigInt(Math.round(performance.timeOrigin*1e3))*1_000n+BigInt(Math.round(performance.now()*1e6)));
+  }
+
+  /**
+   * Returns the amount of time elapsed from another instant to this one, or zero duration if that instant is later than this one.
+   *
+   * ### Examples
+  ```ts
+  const now = Instant.now();
+  Thread.sleep(Duration.fromSecs(1));
+  const newNow = Instant.now();
+
+  console.log(newNow.durationSince(now));
+  console.log(now.durationSince(newNow)); // 0ns
+  ```
+   */
+  public durationSince(earlier: Instant): Duration {
+    return this.saturatingDurationSince(earlier);
+  }
+
+  /** Returns the amount of time elapsed from another instant to this one, or `None` if that instant is later than this one. */
+  public checkedDurationSince(earlier: Instant): Option<Duration> {
+    return this.#nanos<earlier.#nanos?None():Some(Duration.fromNanos(this.#nanos-earlier.#nanos));
+  }
+
+  /** Returns the amount of time elapsed from another instant to this one, or zero duration if that instant is later than this one. */
+  public saturatingDurationSince(earlier: Instant): Duration {
+    return this.checkedDurationSince(earlier).unwrapOr(Duration.ZERO);
+  }
+
+  /** Returns the amount of time elapsed since this instant was created. */
+  public elapsed(): Duration {
+    return Instant.now().durationSince(this);
+  }
+
+  /** Returns `Some(t)` where `t` is the time `this + duration` if `t` can be represented, `None` otherwise. */
+  public checkedAdd(duration: Duration): Option<Instant> {
+    return Some(new Instant(this.#nanos+duration.asNanos()));
+  }
+
+  /** Returns `Some(t)` where `t` is the time `this - duration` if `t` can be represented (it's after the unix epoch), `None` otherwise. */
+  public checkedSub(duration: Duration): Option<Instant> {
+    const nanos=this.#nanos-duration.asNanos();
+    return nanos<0n?None():Some(new Instant(nanos));
+  }
+
+  /** Returns the instant {@linkcode duration} after this one. */
+  public add(duration: Duration): Instant {
+    return this.checkedAdd(duration).expect("overflow when adding duration to instant");
+  }
+
+  /**
+   * Returns the instant {@linkcode duration} before this one.
+   *
+   * # Panics
+   * Panics if the result can't be represented, see {@linkcode checkedSub}.
+   */
+  public sub(duration: Duration): Instant {
+    return this.checkedSub(duration).expect("overflow when subtracting duration from instant");
+  }
+
+  public eq(rhs: Instant): boolean {
+    return rhs instanceof Instant && this.#nanos===rhs.#nanos;
+  }
+
+  public cmp(other: Instant): Ordering {
+    return this.#nanos<other.#nanos?Ordering.Less:this.#nanos>other.#nanos?Ordering.Greater:Ordering.Equal;
+  }
+
+  public partialCmp(other: Instant): Option<Ordering> {
+    return Some(this.cmp(other));
+  }
+
+  /** Formats the instant like `Instant { tv_sec: 1700000000, tv_nsec: 250 }`. */
+  public fmtDebug(f: Formatter) {
+    f.debugStruct("Instant")
+    .field("tv_sec",this.#nanos/1_000_000_000n)
+    .field("tv_nsec",this.#nanos%1_000_000_000n)
+    .finish();
+  }
+
+  [customInspect](): string {
+    const f=new Formatter();
+    this.fmtDebug(f);
+
+    return f.toString();
+  }
+}
@@ -0,0 +1,182 @@
+import { Option,Some } from "../error/option/option.ts";
+import { Result,Ok,Err } from "../error/result/result.ts";
+import { ErrorTrait,ErrorKindLike } from "../error/error_trait.ts";
+import { Ord,Ordering } from "../cmp/ord.ts";
+import { Debug } from "../fmt/fmt.ts";
+import { Formatter } from "../fmt/formatter.ts";
+import { customInspect } from "../fmt/inspect.ts";
+import { Duration } from "./duration.ts";
+
+
+const NANOS_PER_MILLI=1_000_000n;
+
+
+/**
+ * A measurement of the system clock, useful for talking to external entities like the file system or other processes.
+ *
+ * Distinct from the {@linkcode Instant} type, this time measurement is not monotonic.
+ * This means that you can save a file to the file system, then save another file to the file system, and the second file has a {@linkcode SystemTime} measurement earlier than the first.
+ * In other words, an operation that happens after another operation in real time may have an earlier {@linkcode SystemTime}!
+ *
+ * Consequently, comparing two {@linkcode SystemTime} instances to learn about the duration between them returns a {@linkcode Result} instead of an infallible {@linkcode Duration}
+ * to indicate that this sort of time drift may happen and needs to be handled.
+ *
+ * Although a {@linkcode SystemTime} cannot be directly inspected, the {@linkcode UNIX_EPOCH} constant is provided as an anchor in time to learn information about a {@linkcode SystemTime}.
+ * It converts from and to {@linkcode Date}s, with a millisecond precision.
+ *
+ * ### Examples
+```ts
+import { SystemTime,UNIX_EPOCH } from "std/time";
+
+const now = SystemTime.now();
+const sinceEpoch = now.durationSince(UNIX_EPOCH).expect("time went backwards");
+
+$assertEq(sinceEpoch.asMillis(), now.toDate().getTime());
+```
+ */
+export class SystemTime implements Ord,Debug {
+  /** The nanoseconds elapsed since the unix epoch, negative for the times before it. */
+  readonly #nanos: bigint;
+
+  /**
+   * An anchor in time which can be used to create new {@linkcode SystemTime} instances or learn about where in time a {@linkcode SystemTime} lies.
+   *
+   * This constant is defined to be "1970-01-01 00:00:00 UTC" on all systems with respect to the system clock.
+   */
+  public static readonly UNIX_EPOCH=new SystemTime(0n);
+
+  private constructor(nanos: bigint) {
+    this.#nanos=nanos;
+  }
+
+  /** Returns the system time corresponding to "now". */
+  public static now(): SystemTime {
+    return new SystemTime(BigInt(Date.now())*NANOS_PER_MILLI);
+  }
+
+  /**
+   * Converts a {@linkcode Date} into a {@linkcode SystemTime}.
+   *
+   * ### Examples
+  ```ts
+  $assertEq(SystemTime.fromDate(new Date(0)), UNIX_EPOCH);
+  ```
+   */
+  public static fromDate(date: Date): SystemTime {
+    return new SystemTime(BigInt(date.getTime())*NANOS_PER_MILLI);
+  }
+
+  /** Converts the time into a {@linkcode Date}, the nanoseconds are truncated to milliseconds. */
+  public toDate(): Date {
+    return new Date(Number(this.#nanos/NANOS_PER_MILLI));
+  }
+
+  /**
+   * Returns the amount of time elapsed from an earlier point in time.
+   *
+   * This function may fail because measurements taken earlier are not guaranteed to always be before later measurements (due to anomalies such as the system clock being adjusted either forwards or backwards).
+   * {@linkcode Instant} can be used to measure elapsed time without this risk of failure.
+   *
+   * If successful, `Ok(Duration)` is returned where the duration represents the amount of time elapsed from the specified measurement to this one.
+   * Returns an `Err` if {@linkcode earlier} is later than `this`, and the error contains how far from `this` the time is.
+   */
+  public durationSince(earlier: SystemTime): Result<Duration,SystemTimeError> {
+    const nanos=this.#nanos-earlier.#nanos;
+    return nanos<0n?Err(new SystemTimeError(Duration.fromNanos(-nanos))):Ok(Duration.fromNanos(nanos));
+  }
+
+  /**
+   * Returns the difference from this system time to the current system time.
+   *
+   * This function may fail as the underlying system clock is susceptible to drift and updates (e.g., the system clock could go backwards),
+   * so this function might not always succeed. If successful, `Ok(duration)` is returned where the duration represents the amount of time elapsed from this time measurement to the current time.
+   */
+  public elapsed(): Result<Duration,SystemTimeError> {
+    return SystemTime.now().durationSince(this);
+  }
+
+  /** Returns `Some(t)` where `t` is the time `this + duration` if `t` can be represented, `None` otherwise. */
+  public checkedAdd(duration: Duration): Option<SystemTime> {
+    return Some(new SystemTime(this.#nanos+duration.asNanos()));
+  }
+
+  /** Returns `Some(t)` where `t` is the time `this - duration` if `t` can be represented, `None` otherwise. */
+  public checkedSub(duration: Duration): Option<SystemTime> {
+    return Some(new SystemTime(this.#nanos-duration.asNanos()));
+  }
+
+  /** Returns the time {@linkcode duration} after this one. */
+  public add(duration: Duration): SystemTime {
+    return this.checkedAdd(duration).expect("overflow when adding duration to instant");
+  }
+
+  /** Returns the time {@linkcode duration} before this one. */
+  public sub(duration: Duration): SystemTime {
+    return this.checkedSub(duration).expect("overflow when subtracting duration from instant");
+  }
+
+  public eq(rhs: SystemTime): boolean {
+    return rhs instanceof SystemTime && this.#nanos===rhs.#nanos;
+  }
+
+  public cmp(other: SystemTime): Ordering {
+    return this.#nanos<other.#nanos?Ordering.Less:this.#nanos>other.#nanos?Ordering.Greater:Ordering.Equal;
+  }
+
+  public partialCmp(other: SystemTime): Option<Ordering> {
+    return Some(this.cmp(other));
+  }
+
+  /** Formats the time like `SystemTime { tv_sec: 1700000000, tv_nsec: 0 }`, the seconds since the unix epoch. */
+  public fmtDebug(f: Formatter) {
+    // The nanoseconds stay positive for the times before the epoch, like `timespec`.
+    const secs=this.#nanos>=0n?this.#nanos/1_000_000_000n:(this.#nanos-999_999_999n)/1_000_000_000n;
+
+    f.debugStruct("SystemTime")
+    .field("tv_sec",secs)
+    .field("tv_nsec",this.#nanos-secs*1_000_000_000n)
+    .finish();
+  }
+
+  [customInspect](): string {
+    const f=new Formatter();
+    this.fmtDebug(f);
+
+    return f.toString();
+  }
+}
+
+/** An anchor in time, "1970-01-01 00:00:00 UTC", see {@linkcode SystemTime.UNIX_EPOCH}. */
+export const UNIX_EPOCH=SystemTime.UNIX_EPOCH;
+
+
+/**
+ * An error returned from the {@linkcode SystemTime.durationSince} and {@linkcode SystemTime.elapsed} methods,
+ * when the second time is later than the first one.
+ *
+ * It holds how far the times are from each other, which can be read with {@linkcode duration}.
+ *
+ * ### Examples
+```ts
+const sysTime = SystemTime.now();
+const newSysTime = sysTime.add(Duration.fromSecs(1));
+
+const err = sysTime.durationSince(newSysTime).unwrapErr();
+$assertEq(err.duration(), Duration.fromSecs(1));
+```
+ */
+export class SystemTimeError extends ErrorTrait {
+  constructor(private readonly dur: Duration) {
+    super(-1,"second time provided was later than self");
+  }
+
+  /** Returns the positive duration which represents how far forward the second system time was from the first. */
+  public duration(): Duration {
+    return this.dur;
+  }
+
+  /** {@linkcode SystemTimeError} has a single cause, so its kind is always `-1`. */
+  public kind(): ErrorKindLike {
+    return this.__kind;
+  }
+}
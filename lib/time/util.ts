@@ -0,0 +1,11 @@
+import { Duration } from "./duration.ts";
+
+
+/**
+ * Converts a timeout into milliseconds, the unit of the timers of JavaScript.
+ *
+ * Numbers are already milliseconds, durations are rounded up so the waits never end early.
+ */
+export function toMillis(timeout: number|bigint|Duration): number {
+  return timeout instanceof Duration?Number((timeout.asNanos()+999_999n)/1_000_000n):Number(timeout);
+}
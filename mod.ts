@@ -5,10 +5,17 @@ export * as env from "./lib/env/mod.ts";
 export * as fs from "./lib/fs/mod.ts";
 export * as iter from "./lib/iter/mod.ts";
 export * as net from "./lib/net/mod.ts";
-export * as path from "./lib/path.ts";
+export * as path from "./lib/path/mod.ts";
 export * as thread from "./lib/thread/mod.ts";
+export * as sync from "./lib/sync/mod.ts";
+export * as panic from "./lib/panic/mod.ts";
 export * as ffi from "./lib/ffi/mod.ts";
 export * as cmp from "./lib/cmp/mod.ts";
+export * as hash from "./lib/hash/mod.ts";
+export * as json from "./lib/json.ts";
+export * as fmt from "./lib/fmt/mod.ts";
+export * as time from "./lib/time/mod.ts";
+export * as str from "./lib/str/mod.ts";
 
 //export * from "";
 
@@ -16,11 +23,17 @@ export * as cmp from "./lib/cmp/mod.ts";
 export * from "./lib/cmp/mod.ts";
 export * from "./lib/drop.ts";
 export * from "./lib/clone.ts";
+export * from "./lib/default.ts";
+export * from "./lib/hash/mod.ts";
+export * from "./lib/fmt/fmt.ts";
+export * from "./lib/fmt/formatter.ts";
 
 export * from "./lib/iter/iter.ts";
 export * from "./lib/iter/extend.ts";
+export * from "./lib/iter/from_iter.ts";
 export * from "./lib/iter/exact_size_iter.ts";
 export * from "./lib/iter/double_ended_iter.ts";
+export * from "./lib/iter/async_iter.ts";
 
 
 
@@ -0,0 +1,2 @@
+export * from "../lib/fmt/mod.ts";
+export * as default from "../lib/fmt/mod.ts";
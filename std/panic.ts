@@ -0,0 +1,2 @@
+export * from "../lib/panic/mod.ts";
+export * as default from "../lib/panic/mod.ts";
@@ -0,0 +1,2 @@
+export * from "../lib/path/mod.ts";
+export * as default from "../lib/path/mod.ts";
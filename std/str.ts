@@ -0,0 +1,2 @@
+export * from "../lib/str/mod.ts";
+export * as default from "../lib/str/mod.ts";
@@ -0,0 +1,2 @@
+export * from "../lib/sync/mod.ts";
+export * as default from "../lib/sync/mod.ts";
@@ -0,0 +1,2 @@
+export * from "../lib/time/mod.ts";
+export * as default from "../lib/time/mod.ts";